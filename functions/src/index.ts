@@ -1,5 +1,11 @@
 import * as functions from "firebase-functions";
+import { z } from "zod";
 import { replicateApprovedAttendance } from "./replicateAttendance";
+import {
+  administersMemberOf,
+  reconcileAllUsers,
+  reconcileUser,
+} from "./reconcileClaims";
 
 // Trigger on updates to org attendance documents
 export const onAttendanceWrite = functions.firestore
@@ -12,3 +18,54 @@ export const onAttendanceWrite = functions.firestore
       throw err;
     }
   });
+
+const ReconcileClaimsRequestSchema = z.object({
+  uid: z.string().min(1).optional(), // Defaults to the caller
+  dryRun: z.boolean().optional(), // Report drift without repairing it
+});
+
+// Rebuild one user's membership claims from their member docs. Anyone may
+// repair their own; org admins may repair their members'.
+export const reconcileClaims = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError(
+      "unauthenticated",
+      "Sign in to reconcile claims",
+    );
+  }
+  const parsed = ReconcileClaimsRequestSchema.safeParse(data ?? {});
+  if (!parsed.success) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      "Invalid reconcile request",
+      parsed.error.issues,
+    );
+  }
+  const uid = parsed.data.uid ?? context.auth.uid;
+  if (
+    uid !== context.auth.uid &&
+    !(await administersMemberOf(context.auth.uid, uid))
+  ) {
+    throw new functions.https.HttpsError(
+      "permission-denied",
+      "Only an admin of one of the user's orgs can reconcile their claims",
+    );
+  }
+  return reconcileUser(uid, { repair: !parsed.data.dryRun });
+});
+
+// Nightly sweep repairing drift left by writes that crashed between the
+// member doc and the claims update
+export const reconcileClaimsNightly = functions.pubsub
+  .schedule("every day 03:00")
+  .timeZone("UTC")
+  .onRun(async () => {
+    const { checked, drifted } = await reconcileAllUsers({ repair: true });
+    console.log(
+      JSON.stringify({
+        event: "claims_reconciled",
+        checked,
+        repaired: drifted.length,
+      }),
+    );
+  });
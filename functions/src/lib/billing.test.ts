@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import { billShift, resolveBillRate } from "./billing";
+import type { Contract } from "./contracts";
+
+const contract: Contract = {
+  parentId: "parent-1",
+  subOrgId: "org-1",
+  billRate: 20,
+  rounding: "none",
+  period: "biweekly",
+};
+
+// Monday 2025-06-02, 09:00 UTC plus `hours`
+function shift(
+  hours: number,
+  overrides: Partial<Parameters<typeof billShift>[1]> = {},
+) {
+  const clockIn = Date.parse("2025-06-02T09:00:00Z");
+  return {
+    clockIn,
+    clockOut: clockIn + hours * 60 * 60 * 1000,
+    venueId: null,
+    role: null,
+    priorWeekHours: 0,
+    ...overrides,
+  };
+}
+
+describe("Contract billing", () => {
+  it("should bill worked hours at the base rate", () => {
+    expect(billShift(contract, shift(8))).toEqual({
+      hours: 8,
+      billRate: 20,
+      amount: 160,
+      components: [{ kind: "regular", hours: 8, rate: 20, amount: 160 }],
+    });
+  });
+
+  it("should split hours past the weekly threshold into overtime", () => {
+    const bill = billShift(
+      { ...contract, overtime: { weeklyThresholdHours: 40, multiplier: 1.5 } },
+      shift(8, { priorWeekHours: 36 }),
+    );
+
+    expect(bill.components).toEqual([
+      { kind: "regular", hours: 4, rate: 20, amount: 80 },
+      { kind: "overtime", hours: 4, rate: 30, amount: 120 },
+    ]);
+    expect(bill.amount).toBe(200);
+  });
+
+  it("should bill the whole shift as overtime once past the threshold", () => {
+    const bill = billShift(
+      { ...contract, overtime: { weeklyThresholdHours: 40, multiplier: 1.5 } },
+      shift(6, { priorWeekHours: 42 }),
+    );
+
+    expect(bill.components).toEqual([
+      { kind: "overtime", hours: 6, rate: 30, amount: 180 },
+    ]);
+  });
+
+  it("should add a holiday premium on top of every billed hour", () => {
+    const bill = billShift(
+      {
+        ...contract,
+        overtime: { weeklyThresholdHours: 40, multiplier: 1.5 },
+        holidayPremium: { dates: ["2025-06-02"], multiplier: 2 },
+      },
+      shift(8, { priorWeekHours: 38 }),
+    );
+
+    expect(bill.components).toEqual([
+      { kind: "regular", hours: 2, rate: 20, amount: 40 },
+      { kind: "overtime", hours: 6, rate: 30, amount: 180 },
+      { kind: "premium", hours: 8, rate: 20, amount: 160 },
+    ]);
+    expect(bill.amount).toBe(380);
+  });
+
+  it("should not add a premium on other days", () => {
+    const bill = billShift(
+      { ...contract, holidayPremium: { dates: ["2025-12-25"], multiplier: 2 } },
+      shift(8),
+    );
+    expect(bill.components.map((c) => c.kind)).toEqual(["regular"]);
+  });
+
+  it("should match holidays on the contract's local date", () => {
+    const christmas = {
+      ...contract,
+      holidayPremium: { dates: ["2025-12-25"], multiplier: 2 },
+    };
+    // 22:00 on Christmas Eve in Los Angeles
+    const eve = shift(4, { clockIn: Date.parse("2025-12-25T06:00:00Z") });
+    eve.clockOut = eve.clockIn + 4 * 60 * 60 * 1000;
+
+    expect(billShift(christmas, eve).components).toHaveLength(2);
+    expect(
+      billShift({ ...christmas, timeZone: "America/Los_Angeles" }, eve)
+        .components,
+    ).toHaveLength(1);
+  });
+
+  it("should bill short shifts up to the minimum as regular hours", () => {
+    const bill = billShift(
+      {
+        ...contract,
+        minimumShiftHours: 4,
+        overtime: { weeklyThresholdHours: 40, multiplier: 1.5 },
+      },
+      shift(1.5, { priorWeekHours: 39 }),
+    );
+
+    // Only the 0.5 worked hours past 40 are overtime; the top-up is regular
+    expect(bill.hours).toBe(4);
+    expect(bill.components).toEqual([
+      { kind: "regular", hours: 3.5, rate: 20, amount: 70 },
+      { kind: "overtime", hours: 0.5, rate: 30, amount: 15 },
+    ]);
+  });
+
+  it("should round worked time before applying the minimum", () => {
+    const bill = billShift(
+      { ...contract, rounding: "nearest-15", minimumShiftHours: 2 },
+      shift(2.2),
+    );
+    expect(bill.hours).toBe(2.25);
+  });
+
+  it("should prefer the most specific rate override", () => {
+    const withOverrides: Contract = {
+      ...contract,
+      rateOverrides: [
+        { role: "bartender", billRate: 25 },
+        { venueId: "arena", billRate: 22 },
+        { venueId: "arena", role: "bartender", billRate: 30 },
+      ],
+    };
+
+    expect(resolveBillRate(withOverrides, "arena", "bartender")).toBe(30);
+    expect(resolveBillRate(withOverrides, "arena", "cashier")).toBe(22);
+    expect(resolveBillRate(withOverrides, "stadium", "bartender")).toBe(25);
+    expect(resolveBillRate(withOverrides, "stadium", null)).toBe(20);
+    expect(
+      billShift(
+        withOverrides,
+        shift(2, { venueId: "arena", role: "bartender" }),
+      ).components,
+    ).toEqual([{ kind: "regular", hours: 2, rate: 30, amount: 60 }]);
+  });
+});
@@ -0,0 +1,108 @@
+import { computeHours, localDateKey } from "./time";
+import type { Contract } from "./contracts";
+
+export type LineComponentKind = "regular" | "overtime" | "premium";
+
+// One priced part of a ledger line; a line's amount is the sum of these
+export type LineComponent = {
+  kind: LineComponentKind;
+  hours: number;
+  rate: number;
+  amount: number;
+};
+
+export type ShiftToBill = {
+  clockIn: number;
+  clockOut: number;
+  venueId: string | null;
+  role: string | null;
+  // Hours the same staff member worked earlier in the ISO week
+  priorWeekHours: number;
+};
+
+export type ShiftBill = {
+  hours: number; // Billed hours, after rounding and any minimum
+  billRate: number; // Base rate after overrides
+  amount: number;
+  components: LineComponent[];
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Rate for a shift: an override matching both venue and role, then venue,
+ * then role, falling back to the contract's base rate.
+ */
+export function resolveBillRate(
+  contract: Contract,
+  venueId: string | null,
+  role: string | null,
+): number {
+  const overrides = contract.rateOverrides ?? [];
+  const matches = (o: { venueId?: string; role?: string }) =>
+    (!o.venueId || o.venueId === venueId) && (!o.role || o.role === role);
+  const best =
+    overrides.find((o) => o.venueId && o.role && matches(o)) ??
+    overrides.find((o) => o.venueId && !o.role && matches(o)) ??
+    overrides.find((o) => !o.venueId && o.role && matches(o));
+  return best?.billRate ?? contract.billRate ?? 0;
+}
+
+/**
+ * Whether a shift starting at `atMs` falls on one of the contract's holidays
+ * in the contract's time zone.
+ */
+export function isHoliday(contract: Contract, atMs: number): boolean {
+  const day = localDateKey(atMs, contract.timeZone);
+  return !!contract.holidayPremium?.dates.includes(day);
+}
+
+/**
+ * Price one shift under a contract. Worked hours past the weekly threshold
+ * are overtime; hours added to reach the shift minimum are regular and do
+ * not count toward the threshold. A holiday premium is a top-up over every
+ * billed hour, so holiday overtime earns both.
+ */
+export function billShift(contract: Contract, shift: ShiftToBill): ShiftBill {
+  const worked = computeHours(
+    shift.clockIn,
+    shift.clockOut,
+    contract.rounding || "none",
+  );
+  const hours = Math.max(worked, contract.minimumShiftHours ?? 0);
+  const rate = resolveBillRate(contract, shift.venueId, shift.role);
+
+  let overtimeHours = 0;
+  if (contract.overtime) {
+    const past =
+      shift.priorWeekHours + worked - contract.overtime.weeklyThresholdHours;
+    overtimeHours = round2(Math.min(worked, Math.max(0, past)));
+  }
+
+  const components: LineComponent[] = [];
+  const add = (kind: LineComponentKind, h: number, r: number) => {
+    const componentRate = round2(r);
+    if (h > 0) {
+      components.push({
+        kind,
+        hours: h,
+        rate: componentRate,
+        amount: round2(h * componentRate),
+      });
+    }
+  };
+  add("regular", round2(hours - overtimeHours), rate);
+  if (contract.overtime) {
+    add("overtime", overtimeHours, rate * contract.overtime.multiplier);
+  }
+  if (contract.holidayPremium && isHoliday(contract, shift.clockIn)) {
+    add("premium", hours, rate * (contract.holidayPremium.multiplier - 1));
+  }
+
+  return {
+    hours,
+    billRate: rate,
+    amount: round2(components.reduce((sum, c) => sum + c.amount, 0)),
+    components,
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { claimsDrift, expectedClaims } from "./claims";
+
+const inSync = {
+  orgId: "org-a",
+  orgIds: ["org-a", "org-b"],
+  orgRole: "admin",
+  orgRoles: { "org-a": "admin", "org-b": "employee" },
+  admin: true,
+};
+
+const memberships = [
+  { orgId: "org-a", role: "admin" },
+  { orgId: "org-b", role: "employee" },
+];
+
+describe("claimsDrift", () => {
+  it("should find nothing when the claims match the member docs", () => {
+    expect(claimsDrift(inSync, memberships)).toEqual([]);
+  });
+
+  it("should report an org whose claims write never landed", () => {
+    const drift = claimsDrift(inSync, [
+      ...memberships,
+      { orgId: "org-c", role: "manager" },
+    ]);
+    expect(drift).toEqual([
+      { kind: "missing-org", orgId: "org-c", role: "manager" },
+    ]);
+  });
+
+  it("should report orgs and roles the member docs no longer back", () => {
+    const drift = claimsDrift(inSync, [{ orgId: "org-a", role: "manager" }]);
+    expect(drift).toEqual([
+      {
+        kind: "role-mismatch",
+        orgId: "org-a",
+        claimed: "admin",
+        actual: "manager",
+      },
+      { kind: "stale-org", orgId: "org-b" },
+      {
+        kind: "primary-org",
+        claimed: { orgId: "org-a", orgRole: "admin" },
+        expected: { orgId: "org-a", orgRole: "manager" },
+      },
+    ]);
+  });
+});
+
+describe("expectedClaims", () => {
+  it("should move the primary org when the user has left it", () => {
+    const claims = expectedClaims({ ...inSync, parentAdmin: true }, [
+      { orgId: "org-b", role: "employee" },
+    ]);
+    expect(claims).toEqual({
+      orgId: "org-b",
+      orgIds: ["org-b"],
+      orgRole: "employee",
+      orgRoles: { "org-b": "employee" },
+      admin: false,
+      parentAdmin: true,
+    });
+    expect(claimsDrift(claims, [{ orgId: "org-b", role: "employee" }])).toEqual(
+      [],
+    );
+  });
+
+  it("should clear the primary org when no memberships are left", () => {
+    expect(expectedClaims(inSync, [])).toMatchObject({
+      orgId: undefined,
+      orgIds: [],
+      orgRoles: {},
+      admin: false,
+    });
+  });
+});
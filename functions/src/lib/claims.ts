@@ -0,0 +1,112 @@
+// The membership part of a user's custom claims. Other claims, like the
+// parent admin ones, are carried through untouched.
+//
+// The app's claims audit (src/lib/claims.ts) imports this module too, so
+// it must not depend on anything outside it.
+export type MembershipClaims = {
+  orgId?: string; // Primary org
+  orgIds?: string[];
+  orgRole?: string; // Role in the primary org
+  orgRoles?: Record<string, string>;
+  admin?: boolean; // Whether orgRole is admin
+  [claim: string]: unknown;
+};
+
+// A member doc under orgs/{orgId}/members
+export type Membership = { orgId: string; role: string };
+
+// Where the claims disagree with the member docs, which are the truth.
+export type ClaimsDrift =
+  | { kind: "missing-org"; orgId: string; role: string }
+  | { kind: "stale-org"; orgId: string }
+  | { kind: "role-mismatch"; orgId: string; claimed: string; actual: string }
+  | {
+      kind: "primary-org";
+      claimed: { orgId: string | null; orgRole: string | null };
+      expected: { orgId: string | null; orgRole: string | null };
+    };
+
+/**
+ * The claims `current` should hold given the user's memberships. Orgs keep
+ * their order, new ones go last, and the primary org stays put unless the
+ * user has left it, in which case their first remaining org takes over.
+ */
+export function expectedClaims(
+  current: MembershipClaims,
+  memberships: Membership[],
+): MembershipClaims {
+  const orgRoles: Record<string, string> = {};
+  for (const { orgId, role } of memberships) orgRoles[orgId] = role;
+
+  const orgIds = [
+    ...(current.orgIds ?? []).filter((id) => id in orgRoles),
+    ...memberships
+      .map((m) => m.orgId)
+      .filter((id) => !(current.orgIds ?? []).includes(id)),
+  ];
+  const primary =
+    current.orgId && current.orgId in orgRoles ? current.orgId : orgIds[0];
+
+  return {
+    ...current,
+    orgIds: [...new Set(orgIds)],
+    orgRoles,
+    orgId: primary,
+    orgRole: primary ? orgRoles[primary] : undefined,
+    admin: primary ? orgRoles[primary] === "admin" : false,
+  };
+}
+
+/**
+ * Everything about `current` that `expectedClaims` would change. Empty
+ * when the claims are in sync.
+ */
+export function claimsDrift(
+  current: MembershipClaims,
+  memberships: Membership[],
+): ClaimsDrift[] {
+  const expected = expectedClaims(current, memberships);
+  const claimedRoles = current.orgRoles ?? {};
+  const claimedIds = new Set([
+    ...(current.orgIds ?? []),
+    ...Object.keys(claimedRoles),
+  ]);
+  const drift: ClaimsDrift[] = [];
+
+  for (const { orgId, role } of memberships) {
+    if (!current.orgIds?.includes(orgId) || !(orgId in claimedRoles)) {
+      drift.push({ kind: "missing-org", orgId, role });
+    } else if (claimedRoles[orgId] !== role) {
+      drift.push({
+        kind: "role-mismatch",
+        orgId,
+        claimed: claimedRoles[orgId],
+        actual: role,
+      });
+    }
+  }
+  for (const orgId of claimedIds) {
+    if (!expected.orgRoles || !(orgId in expected.orgRoles)) {
+      drift.push({ kind: "stale-org", orgId });
+    }
+  }
+
+  if (
+    (current.orgId ?? null) !== (expected.orgId ?? null) ||
+    (current.orgRole ?? null) !== (expected.orgRole ?? null) ||
+    (current.admin ?? false) !== expected.admin
+  ) {
+    drift.push({
+      kind: "primary-org",
+      claimed: {
+        orgId: current.orgId ?? null,
+        orgRole: current.orgRole ?? null,
+      },
+      expected: {
+        orgId: expected.orgId ?? null,
+        orgRole: expected.orgRole ?? null,
+      },
+    });
+  }
+  return drift;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { versionInForce } from "./contracts";
+
+const versions = [
+  { version: 1, effectiveFrom: "1970-01-01", billRate: 20 },
+  { version: 2, effectiveFrom: "2025-06-10", billRate: 22 },
+  { version: 3, effectiveFrom: "2025-07-01", retired: true },
+];
+
+describe("Contract versions", () => {
+  it("should bill a shift under the version in force on its clock-in date", () => {
+    expect(
+      versionInForce(versions, undefined, Date.parse("2025-06-09T12:00:00Z"))
+        ?.billRate,
+    ).toBe(20);
+    expect(
+      versionInForce(versions, undefined, Date.parse("2025-06-10T00:00:00Z"))
+        ?.billRate,
+    ).toBe(22);
+  });
+
+  it("should compare effective dates in the contract's local time", () => {
+    // 2025-06-10 03:00 UTC is still June 9 in Chicago
+    const atMs = Date.parse("2025-06-10T03:00:00Z");
+    expect(
+      versionInForce(versions, { timeZone: "America/Chicago" }, atMs)?.billRate,
+    ).toBe(20);
+  });
+
+  it("should have no contract from a retirement until a later version", () => {
+    const july = Date.parse("2025-07-02T12:00:00Z");
+    expect(versionInForce(versions, undefined, july)).toBeNull();
+    expect(
+      versionInForce(
+        [
+          ...versions,
+          { version: 4, effectiveFrom: "2025-07-02", billRate: 25 },
+        ],
+        undefined,
+        july,
+      )?.billRate,
+    ).toBe(25);
+  });
+
+  it("should let the later version win on the same effective date", () => {
+    expect(
+      versionInForce(
+        [
+          ...versions,
+          { version: 5, effectiveFrom: "2025-06-10", billRate: 30 },
+        ],
+        undefined,
+        Date.parse("2025-06-20T12:00:00Z"),
+      )?.billRate,
+    ).toBe(30);
+  });
+});
@@ -1,13 +1,94 @@
 import * as admin from "firebase-admin";
+import { localDateKey, PeriodCalendar } from "./time";
 
-export type Contract = {
+// Replaces the base rate for shifts at a venue, for a role, or both. The
+// most specific matching override wins.
+export type RateOverride = {
+  venueId?: string;
+  role?: string;
+  billRate: number;
+};
+
+export type Contract = PeriodCalendar & {
   parentId: string;
   subOrgId: string;
   billRate: number;
   rounding?: "nearest-15" | "nearest-5" | "none";
   period?: "weekly" | "biweekly" | "monthly";
+  // Hours a staff member works past the threshold in an ISO week are overtime
+  overtime?: { weeklyThresholdHours: number; multiplier: number };
+  // Shifts starting on these local days ("yyyy-MM-dd") carry a premium
+  holidayPremium?: { dates: string[]; multiplier: number };
+  rateOverrides?: RateOverride[];
+  minimumShiftHours?: number; // Shorter shifts are billed up to this
+  version?: number; // Missing on contracts written before versioning
 };
 
+const positive = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+type Raw = Record<string, unknown> | undefined;
+
+function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseCalendar(contract: Raw, org: Raw): PeriodCalendar {
+  const { weekStartsOn, biweeklyAnchor } = contract ?? {};
+  return {
+    // Contracts follow the sub-org's zone unless they name their own
+    timeZone: isTimeZone(contract?.timeZone)
+      ? contract.timeZone
+      : isTimeZone(org?.timeZone)
+        ? org.timeZone
+        : "UTC",
+    weekStartsOn:
+      Number.isInteger(weekStartsOn) &&
+      (weekStartsOn as number) >= 0 &&
+      (weekStartsOn as number) <= 6
+        ? (weekStartsOn as number)
+        : 1,
+    ...(typeof biweeklyAnchor === "string" &&
+      /^\d{4}-\d{2}-\d{2}$/.test(biweeklyAnchor) && { biweeklyAnchor }),
+  };
+}
+
+function parseOvertime(value: Raw): Contract["overtime"] {
+  const { weeklyThresholdHours, multiplier } = value ?? {};
+  if (!positive(weeklyThresholdHours) || !positive(multiplier))
+    return undefined;
+  return {
+    weeklyThresholdHours: weeklyThresholdHours as number,
+    multiplier: multiplier as number,
+  };
+}
+
+function parseHolidayPremium(value: Raw): Contract["holidayPremium"] {
+  const { dates, multiplier } = value ?? {};
+  if (!Array.isArray(dates) || !positive(multiplier)) return undefined;
+  return {
+    dates: dates.filter((d): d is string => typeof d === "string"),
+    multiplier: multiplier as number,
+  };
+}
+
+function parseRateOverrides(value: unknown): RateOverride[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return (value as Raw[])
+    .filter((o) => positive(o?.billRate) && (o?.venueId || o?.role))
+    .map((o) => ({
+      ...(typeof o?.venueId === "string" && { venueId: o.venueId }),
+      ...(typeof o?.role === "string" && { role: o.role }),
+      billRate: o?.billRate as number,
+    }));
+}
+
 export async function getParentForOrg(
   db: admin.firestore.Firestore,
   orgId: string,
@@ -19,24 +100,90 @@ export async function getParentForOrg(
   return (data.parentId as string) || null;
 }
 
+function parseContract(
+  parentId: string,
+  subOrgId: string,
+  data: Raw,
+  org: Raw,
+): Contract {
+  return {
+    parentId,
+    subOrgId,
+    ...parseCalendar(data, org),
+    billRate: Number(data?.billRate || 0),
+    rounding: (data?.rounding as Contract["rounding"]) || "none",
+    period: (data?.period as Contract["period"]) || "biweekly",
+    overtime: parseOvertime(data?.overtime as Raw),
+    holidayPremium: parseHolidayPremium(data?.holidayPremium as Raw),
+    rateOverrides: parseRateOverrides(data?.rateOverrides),
+    minimumShiftHours: positive(data?.minimumShiftHours)
+      ? (data?.minimumShiftHours as number)
+      : undefined,
+    ...(typeof data?.version === "number" && { version: data.version }),
+  };
+}
+
+/**
+ * The contract version in force for a shift clocking in at `atMs`: the one
+ * with the latest `effectiveFrom` on or before the clock-in's local date,
+ * later versions winning ties. Null before the first version and from a
+ * retirement on.
+ */
+export function versionInForce(
+  versions: Raw[],
+  org: Raw,
+  atMs: number,
+): Raw | null {
+  let inForce: Raw | null = null;
+  for (const version of versions) {
+    const effectiveFrom = version?.effectiveFrom;
+    if (typeof effectiveFrom !== "string") continue;
+    const { timeZone } = parseCalendar(version, org);
+    if (effectiveFrom > localDateKey(atMs, timeZone)) continue;
+    const current = inForce?.effectiveFrom as string | undefined;
+    if (
+      !current ||
+      effectiveFrom > current ||
+      (effectiveFrom === current &&
+        Number(version?.version) > Number(inForce?.version))
+    ) {
+      inForce = version;
+    }
+  }
+  return inForce?.retired ? null : inForce;
+}
+
+/**
+ * The contract between a parent and sub-org for a shift clocking in at
+ * `atMs`. Contracts written before versioning have no versions and apply
+ * to every shift.
+ */
 export async function getContract(
   db: admin.firestore.Firestore,
   parentId: string,
   subOrgId: string,
+  atMs: number,
 ): Promise<Contract | null> {
   const ref = db
     .collection("parents")
     .doc(parentId)
     .collection("contracts")
     .doc(subOrgId);
-  const snap = await ref.get();
+  const [snap, versions, org] = await Promise.all([
+    ref.get(),
+    ref.collection("versions").get(),
+    db.collection("orgs").doc(subOrgId).get(),
+  ]);
   if (!snap.exists) return null;
-  const data = snap.data();
-  return {
-    parentId,
-    subOrgId,
-    billRate: Number(data?.billRate || 0),
-    rounding: data?.rounding || "none",
-    period: data?.period || "biweekly",
-  };
+  if (versions.empty) {
+    return parseContract(parentId, subOrgId, snap.data(), org.data());
+  }
+  const version = versionInForce(
+    versions.docs.map((d) => d.data()),
+    org.data(),
+    atMs,
+  );
+  return version
+    ? parseContract(parentId, subOrgId, version, org.data())
+    : null;
 }
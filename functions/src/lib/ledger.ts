@@ -0,0 +1,164 @@
+import { derivePeriodId } from "./time";
+import { billShift, LineComponent } from "./billing";
+import type { Contract } from "./contracts";
+
+// What one approved attendance record contributes to a parent ledger
+export type LedgerEntry = {
+  parentId: string;
+  subOrgId: string;
+  staffRef: string; // no PII here; parent sees only a reference
+  venueId: string | null;
+  periodId: string;
+  hours: number;
+  billRate: number;
+  amount: number;
+  components: LineComponent[]; // Regular, overtime and premium parts of amount
+};
+
+export type LedgerLineKind = "original" | "reversal" | "adjustment";
+
+export type LedgerLine = LedgerEntry & {
+  kind: LedgerLineKind;
+  revision: number;
+  sourceAttendanceId: string;
+  // Set when the line belongs to a closed period and was booked to a later one
+  originalPeriodId?: string;
+  createdAt: number;
+};
+
+// Lines are only written to open periods; closing freezes them for invoicing
+export type LedgerPeriodStatus = "open" | "closed" | "invoiced";
+
+// Stored per attendance record: the entry currently booked to a ledger.
+// `bookedPeriodId` is where its line landed, which differs from
+// `current.periodId` when that period was already closed.
+export type ReplicationState = {
+  revision: number;
+  current: LedgerEntry | null;
+  bookedPeriodId?: string | null;
+  updatedAt: number;
+};
+
+export type PlannedLine = { id: string; line: LedgerLine };
+
+/**
+ * Ledger entry for an approved attendance record, or null when the record
+ * is missing the data needed to bill it. `priorWeekHours` is what the same
+ * staff member worked earlier in the week, for overtime.
+ */
+export function toLedgerEntry(
+  subOrgId: string,
+  attendance: Record<string, unknown>,
+  contract: Contract,
+  priorWeekHours = 0,
+): LedgerEntry | null {
+  const staffId = attendance.staffId as string | undefined;
+  const clockIn = attendance.clockIn as number | undefined;
+  const clockOut = attendance.clockOut as number | null | undefined;
+  if (!staffId || !clockIn || clockOut == null || clockOut < clockIn) {
+    return null;
+  }
+
+  const venueId = (attendance.venueId as string | undefined) ?? null;
+  const bill = billShift(contract, {
+    clockIn,
+    clockOut,
+    venueId,
+    role: (attendance.role as string | undefined) ?? null,
+    priorWeekHours,
+  });
+  return {
+    parentId: contract.parentId,
+    subOrgId,
+    staffRef: staffId,
+    venueId,
+    periodId: derivePeriodId(clockOut, contract.period || "biweekly", contract),
+    ...bill,
+  };
+}
+
+function sameEntry(a: LedgerEntry | null, b: LedgerEntry | null): boolean {
+  if (a === null || b === null) return a === b;
+  return (Object.keys(b) as (keyof LedgerEntry)[]).every((key) =>
+    key === "components"
+      ? JSON.stringify(a.components ?? []) === JSON.stringify(b.components)
+      : a[key] === b[key],
+  );
+}
+
+/**
+ * Lines to write so the ledger moves from what is booked (`state`) to what
+ * should be booked (`desired`). Returns null when nothing changes, which is
+ * what makes retried invocations harmless. Line ids derive from the source
+ * record and revision, so replaying a plan overwrites rather than appends.
+ */
+export function planReplication(
+  sourceAttendanceId: string,
+  state: ReplicationState | null,
+  desired: LedgerEntry | null,
+  now: number,
+): { lines: PlannedLine[]; state: ReplicationState } | null {
+  const current = state?.current ?? null;
+  if (sameEntry(current, desired)) return null;
+
+  const revision = state?.revision ?? 0;
+  const next = revision + 1;
+  const base = `${desired?.subOrgId ?? current!.subOrgId}_${sourceAttendanceId}`;
+  const lines: PlannedLine[] = [];
+
+  if (current) {
+    lines.push({
+      id: `${base}_${revision}_reversal`,
+      line: {
+        ...current,
+        hours: -current.hours,
+        amount: -current.amount,
+        components: (current.components ?? []).map((c) => ({
+          ...c,
+          hours: -c.hours,
+          amount: -c.amount,
+        })),
+        kind: "reversal",
+        revision,
+        sourceAttendanceId,
+        createdAt: now,
+      },
+    });
+  }
+  if (desired) {
+    lines.push({
+      id: `${base}_${next}`,
+      line: {
+        ...desired,
+        kind: revision === 0 ? "original" : "adjustment",
+        revision: next,
+        sourceAttendanceId,
+        createdAt: now,
+      },
+    });
+  }
+
+  return {
+    lines,
+    state: {
+      revision: next,
+      current: desired,
+      bookedPeriodId: desired?.periodId ?? null,
+      updatedAt: now,
+    },
+  };
+}
+
+/**
+ * Move a planned line to `periodId`, the first open period at or after the
+ * one it belongs to. A late original becomes an adjustment there.
+ */
+export function routeLine(line: LedgerLine, periodId: string): LedgerLine {
+  if (periodId === line.periodId) return line;
+  return {
+    ...line,
+    periodId,
+    originalPeriodId: line.originalPeriodId ?? line.periodId,
+    kind: line.kind === "original" ? "adjustment" : line.kind,
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { derivePeriodId, nextPeriodId, weekBounds } from "./time";
+
+const at = (iso: string) => Date.parse(iso);
+
+describe("Period derivation", () => {
+  it("should bucket by the local date in the contract's time zone", () => {
+    // Sunday 22:00 in Los Angeles is already Monday in UTC
+    const sundayNight = at("2025-06-09T05:00:00Z");
+
+    expect(derivePeriodId(sundayNight, "weekly")).toBe("2025-W24");
+    expect(
+      derivePeriodId(sundayNight, "weekly", {
+        timeZone: "America/Los_Angeles",
+      }),
+    ).toBe("2025-W23");
+    expect(
+      derivePeriodId(at("2025-06-01T03:00:00Z"), "monthly", {
+        timeZone: "America/Los_Angeles",
+      }),
+    ).toBe("2025-M05");
+  });
+
+  it("should number weeks from the configured start day", () => {
+    const sunday = at("2025-06-08T10:00:00Z");
+
+    expect(derivePeriodId(sunday, "weekly")).toBe("2025-W23");
+    expect(derivePeriodId(sunday, "weekly", { weekStartsOn: 0 })).toBe(
+      "2025-W24",
+    );
+  });
+
+  it("should keep biweekly periods 14 days long across 53-week years", () => {
+    const id = (day: string) =>
+      derivePeriodId(at(`${day}T12:00:00Z`), "biweekly");
+
+    // ISO week 2026-W53 runs Dec 28 to Jan 3 and shares a period with 2027-W01
+    expect(id("2026-12-27")).toBe("2026-BW26");
+    expect(id("2026-12-28")).toBe("2027-BW01");
+    expect(id("2027-01-10")).toBe("2027-BW01");
+    expect(id("2027-01-11")).toBe("2027-BW02");
+  });
+
+  it("should start biweekly periods on the anchor date", () => {
+    const calendar = { biweeklyAnchor: "2025-01-06" };
+
+    expect(
+      derivePeriodId(at("2025-01-05T12:00:00Z"), "biweekly", calendar),
+    ).not.toBe(
+      derivePeriodId(at("2025-01-06T12:00:00Z"), "biweekly", calendar),
+    );
+    expect(
+      derivePeriodId(at("2025-01-06T12:00:00Z"), "biweekly", calendar),
+    ).toBe(derivePeriodId(at("2025-01-19T12:00:00Z"), "biweekly", calendar));
+  });
+});
+
+describe("Next period", () => {
+  it("should roll over at the end of the year", () => {
+    expect(nextPeriodId("2025-M12")).toBe("2026-M01");
+    expect(nextPeriodId("2026-W52")).toBe("2026-W53");
+    expect(nextPeriodId("2026-W53")).toBe("2027-W01");
+    expect(nextPeriodId("2026-BW26")).toBe("2027-BW01");
+  });
+
+  it("should agree with derivation for the same calendar", () => {
+    const calendar = { weekStartsOn: 0, biweeklyAnchor: "2025-01-05" };
+    const start = at("2025-12-20T12:00:00Z");
+    const twoWeeksLater = start + 14 * 24 * 60 * 60 * 1000;
+
+    expect(
+      nextPeriodId(derivePeriodId(start, "biweekly", calendar), calendar),
+    ).toBe(derivePeriodId(twoWeeksLater, "biweekly", calendar));
+  });
+});
+
+describe("Week bounds", () => {
+  it("should span local midnights across a DST change", () => {
+    const { start, end } = weekBounds(at("2025-03-05T12:00:00Z"), {
+      timeZone: "America/New_York",
+    });
+
+    expect(new Date(start).toISOString()).toBe("2025-03-03T05:00:00.000Z");
+    expect(new Date(end).toISOString()).toBe("2025-03-10T04:00:00.000Z");
+  });
+});
@@ -15,36 +15,185 @@ export function computeHours(
   return Math.round((roundedMin / 60) * 100) / 100;
 }
 
-export function derivePeriodId(
-  atMs: number,
-  period: "weekly" | "biweekly" | "monthly",
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PeriodLength = "weekly" | "biweekly" | "monthly";
+
+// How a contract lays out its billing periods. Period ids are local
+// calendar ids: "2025-W23" is the same week whatever zone derived it.
+export type PeriodCalendar = {
+  timeZone?: string; // IANA zone periods follow; UTC by default
+  weekStartsOn?: number; // 0 = Sunday ... 6 = Saturday; Monday by default
+  biweeklyAnchor?: string; // "yyyy-MM-dd" some biweekly period starts on
+};
+
+/**
+ * The calendar date ("yyyy-MM-dd") of an instant in `timeZone`.
+ */
+export function localDateKey(atMs: number, timeZone = "UTC"): string {
+  // en-CA formats dates as yyyy-MM-dd
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(atMs));
+}
+
+// Calendar days are counted from 1970-01-01 so they can be stepped through
+// without any zone; read their fields back with the getUTC* methods.
+function dayOfKey(key: string): number {
+  const [y, m, d] = key.split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / DAY_MS;
+}
+
+const dateOfDay = (day: number) => new Date(day * DAY_MS);
+const yearStartDay = (year: number) => Date.UTC(year, 0, 1) / DAY_MS;
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+function weekStartDay(day: number, weekStartsOn: number): number {
+  return day - ((dateOfDay(day).getUTCDay() - weekStartsOn + 7) % 7);
+}
+
+// The first week of a year is the one holding January 4th, so a week
+// belongs to the year its fourth day falls in. With Monday starts this is
+// ISO week numbering.
+function firstWeekStart(year: number, weekStartsOn: number): number {
+  return weekStartDay(Date.UTC(year, 0, 4) / DAY_MS, weekStartsOn);
+}
+
+function biweeklyAnchorDay(calendar: PeriodCalendar): number {
+  return calendar.biweeklyAnchor
+    ? dayOfKey(calendar.biweeklyAnchor)
+    : firstWeekStart(2024, calendar.weekStartsOn ?? 1);
+}
+
+// Index, counted from the anchor, of the first biweekly period of `year`.
+// A period belongs to the year its middle (eighth) day falls in.
+function firstBiweeklyIndex(year: number, anchor: number): number {
+  return Math.ceil((yearStartDay(year) - 7 - anchor) / 14);
+}
+
+function periodIdForDay(
+  day: number,
+  period: PeriodLength,
+  calendar: PeriodCalendar,
 ): string {
-  const d = new Date(atMs);
-  const y = d.getUTCFullYear();
+  const date = dateOfDay(day);
   if (period === "monthly") {
-    const m = String(d.getUTCMonth() + 1).padStart(2, "0");
-    return `${y}-M${m}`;
+    return `${date.getUTCFullYear()}-M${pad2(date.getUTCMonth() + 1)}`;
   }
-  // weekly/biweekly based on ISO week
-  const { isoYear, isoWeek } = isoWeekOfYear(d);
+  const weekStartsOn = calendar.weekStartsOn ?? 1;
   if (period === "weekly") {
-    return `${isoYear}-W${String(isoWeek).padStart(2, "0")}`;
+    const start = weekStartDay(day, weekStartsOn);
+    const year = dateOfDay(start + 3).getUTCFullYear();
+    const week = (start - firstWeekStart(year, weekStartsOn)) / 7 + 1;
+    return `${year}-W${pad2(week)}`;
   }
-  // biweekly: odd/even bucket
-  const bi = Math.ceil(isoWeek / 2);
-  return `${isoYear}-BW${String(bi).padStart(2, "0")}`;
+  // Fixed 14-day runs from the anchor, so 53-week years don't break pairs
+  const anchor = biweeklyAnchorDay(calendar);
+  const index = Math.floor((day - anchor) / 14);
+  const year = dateOfDay(anchor + index * 14 + 7).getUTCFullYear();
+  return `${year}-BW${pad2(index - firstBiweeklyIndex(year, anchor) + 1)}`;
 }
 
-// Minimal ISO week calculator (to avoid extra deps)
-function isoWeekOfYear(date: Date): { isoYear: number; isoWeek: number } {
-  const tmp = new Date(
-    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+/**
+ * Id of the billing period `atMs` falls in, using the local date in the
+ * calendar's time zone.
+ */
+export function derivePeriodId(
+  atMs: number,
+  period: PeriodLength,
+  calendar: PeriodCalendar = {},
+): string {
+  return periodIdForDay(
+    dayOfKey(localDateKey(atMs, calendar.timeZone)),
+    period,
+    calendar,
   );
-  // Thursday in current week determines the year
-  tmp.setUTCDate(tmp.getUTCDate() + 4 - (tmp.getUTCDay() || 7));
-  const yearStart = new Date(Date.UTC(tmp.getUTCFullYear(), 0, 1));
-  const weekNo = Math.ceil(
-    ((tmp.getTime() - yearStart.getTime()) / 86400000 + 1) / 7,
+}
+
+/**
+ * The period id following `periodId`, in the format `derivePeriodId` emits
+ * for the same calendar.
+ */
+export function nextPeriodId(
+  periodId: string,
+  calendar: PeriodCalendar = {},
+): string {
+  const match = periodId.match(/^(\d{4})-(M|W|BW)(\d{2})$/);
+  if (!match) throw new Error(`Invalid period id: ${periodId}`);
+  const year = Number(match[1]);
+  const index = Number(match[3]);
+
+  switch (match[2]) {
+    case "M":
+      return periodIdForDay(
+        Date.UTC(year, index, 1) / DAY_MS,
+        "monthly",
+        calendar,
+      );
+    case "W": {
+      const start =
+        firstWeekStart(year, calendar.weekStartsOn ?? 1) + (index - 1) * 7;
+      return periodIdForDay(start + 7, "weekly", calendar);
+    }
+    default: {
+      const anchor = biweeklyAnchorDay(calendar);
+      const start =
+        anchor + (firstBiweeklyIndex(year, anchor) + index - 1) * 14;
+      return periodIdForDay(start + 14, "biweekly", calendar);
+    }
+  }
+}
+
+// Offset of the zone from UTC at the given instant, in minutes
+function zoneOffsetMinutes(atMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(atMs));
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return Math.round((asUtc - atMs) / 60000);
+}
+
+// Instant of local midnight starting `day` in `timeZone`
+function localMidnight(day: number, timeZone: string): number {
+  const wallClock = day * DAY_MS;
+  // Re-check the offset at the first guess to settle DST transitions
+  const guess = wallClock - zoneOffsetMinutes(wallClock, timeZone) * 60000;
+  return wallClock - zoneOffsetMinutes(guess, timeZone) * 60000;
+}
+
+/**
+ * Start and end instants of the local week containing `atMs`.
+ */
+export function weekBounds(
+  atMs: number,
+  calendar: PeriodCalendar = {},
+): { start: number; end: number } {
+  const timeZone = calendar.timeZone ?? "UTC";
+  const start = weekStartDay(
+    dayOfKey(localDateKey(atMs, timeZone)),
+    calendar.weekStartsOn ?? 1,
   );
-  return { isoYear: tmp.getUTCFullYear(), isoWeek: weekNo };
+  return {
+    start: localMidnight(start, timeZone),
+    end: localMidnight(start + 7, timeZone),
+  };
 }
@@ -0,0 +1,123 @@
+import * as admin from "firebase-admin";
+import {
+  ClaimsDrift,
+  Membership,
+  MembershipClaims,
+  claimsDrift,
+  expectedClaims,
+} from "./lib/claims";
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+const db = admin.firestore();
+
+export type ClaimsReport = {
+  uid: string;
+  drift: ClaimsDrift[];
+  repaired: boolean;
+};
+
+function membershipFrom(
+  doc: admin.firestore.QueryDocumentSnapshot,
+): Membership | null {
+  const orgId = doc.ref.parent.parent?.id;
+  const role = doc.get("role");
+  return orgId && typeof role === "string" ? { orgId, role } : null;
+}
+
+async function membershipsFor(uid: string): Promise<Membership[]> {
+  const snapshot = await db
+    .collectionGroup("members")
+    .where("uid", "==", uid)
+    .get();
+  return snapshot.docs.flatMap((doc) => membershipFrom(doc) ?? []);
+}
+
+/**
+ * Compare one user's claims with their member docs and, when `repair` is
+ * set, rewrite the claims to match. Claims reach the user's ID token the
+ * next time it refreshes.
+ */
+async function reconcile(
+  user: admin.auth.UserRecord,
+  memberships: Membership[],
+  repair: boolean,
+): Promise<ClaimsReport> {
+  const current = (user.customClaims ?? {}) as MembershipClaims;
+  const drift = claimsDrift(current, memberships);
+  if (drift.length === 0) return { uid: user.uid, drift, repaired: false };
+
+  console.warn(
+    JSON.stringify({ event: "claims_drift", uid: user.uid, drift, repair }),
+  );
+  if (repair) {
+    await admin
+      .auth()
+      .setCustomUserClaims(user.uid, expectedClaims(current, memberships));
+  }
+  return { uid: user.uid, drift, repaired: repair };
+}
+
+export async function reconcileUser(
+  uid: string,
+  { repair }: { repair: boolean },
+): Promise<ClaimsReport> {
+  const [user, memberships] = await Promise.all([
+    admin.auth().getUser(uid),
+    membershipsFor(uid),
+  ]);
+  return reconcile(user, memberships, repair);
+}
+
+/**
+ * Reconcile every user: member docs are read in one pass and matched to
+ * users page by page. Only users with drift are reported.
+ */
+export async function reconcileAllUsers({
+  repair,
+}: {
+  repair: boolean;
+}): Promise<{ checked: number; drifted: ClaimsReport[] }> {
+  const byUid = new Map<string, Membership[]>();
+  const members = await db
+    .collectionGroup("members")
+    .select("uid", "role")
+    .get();
+  for (const doc of members.docs) {
+    const uid = doc.get("uid");
+    const membership = membershipFrom(doc);
+    if (typeof uid !== "string" || !membership) continue;
+    byUid.set(uid, [...(byUid.get(uid) ?? []), membership]);
+  }
+
+  let checked = 0;
+  const drifted: ClaimsReport[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await admin.auth().listUsers(1000, pageToken);
+    for (const user of page.users) {
+      checked++;
+      const report = await reconcile(user, byUid.get(user.uid) ?? [], repair);
+      if (report.drift.length > 0) drifted.push(report);
+    }
+    pageToken = page.pageToken;
+  } while (pageToken);
+
+  return { checked, drifted };
+}
+
+/**
+ * Whether `callerUid` is an admin member of an org `uid` belongs to.
+ * Functions cannot resolve custom roles, so only the built-in admin role
+ * counts.
+ */
+export async function administersMemberOf(callerUid: string, uid: string) {
+  const memberships = await membershipsFor(uid);
+  const callerDocs = await Promise.all(
+    memberships.map(({ orgId }) =>
+      db.doc(`orgs/${orgId}/members/${callerUid}`).get(),
+    ),
+  );
+  return callerDocs.some((doc) => doc.get("role") === "admin");
+}
@@ -1,13 +1,94 @@
 import * as admin from "firebase-admin";
 import { Change, EventContext } from "firebase-functions";
-import { computeHours, derivePeriodId } from "./lib/time";
-import { getParentForOrg, getContract } from "./lib/contracts";
+import { Contract, getParentForOrg, getContract } from "./lib/contracts";
+import {
+  LedgerEntry,
+  LedgerPeriodStatus,
+  PlannedLine,
+  ReplicationState,
+  planReplication,
+  routeLine,
+  toLedgerEntry,
+} from "./lib/ledger";
+import {
+  PeriodCalendar,
+  computeHours,
+  nextPeriodId,
+  weekBounds,
+} from "./lib/time";
 
 if (!admin.apps.length) {
   admin.initializeApp();
 }
 const db = admin.firestore();
 
+// How far past a closed period to look for an open one before giving up
+const MAX_PERIODS_AHEAD = 60;
+
+function ledgerRef(parentId: string, periodId: string) {
+  return db
+    .collection("parents")
+    .doc(parentId)
+    .collection("ledgers")
+    .doc(periodId);
+}
+
+/**
+ * The first period at or after `periodId` that still accepts lines, and
+ * whether its ledger document exists yet.
+ */
+async function firstOpenPeriod(
+  tx: admin.firestore.Transaction,
+  parentId: string,
+  periodId: string,
+  calendar: PeriodCalendar,
+): Promise<{ periodId: string; exists: boolean }> {
+  let candidate = periodId;
+  for (let i = 0; i < MAX_PERIODS_AHEAD; i++) {
+    const snap = await tx.get(ledgerRef(parentId, candidate));
+    const status = snap.get("status") as LedgerPeriodStatus | undefined;
+    if (!snap.exists || status === "open") {
+      return { periodId: candidate, exists: snap.exists };
+    }
+    candidate = nextPeriodId(candidate, calendar);
+  }
+  throw new Error(
+    `No open ledger period for parent ${parentId} after ${periodId}`,
+  );
+}
+
+function approvedInWeek(
+  orgId: string,
+  staffId: string,
+  clockIn: number,
+  calendar: PeriodCalendar,
+  range: "before" | "after",
+) {
+  const week = weekBounds(clockIn, calendar);
+  const query = db
+    .collection(`orgs/${orgId}/attendance`)
+    .where("staffId", "==", staffId)
+    .where("status", "==", "approved");
+  return range === "before"
+    ? query.where("clockIn", ">=", week.start).where("clockIn", "<", clockIn)
+    : query
+        .where("clockIn", ">", clockIn)
+        .where("clockIn", "<", week.end)
+        .orderBy("clockIn", "asc");
+}
+
+/**
+ * Keep the parent ledger in step with an attendance record. Approval books
+ * a line; edits to an approved record or un-approving it book a reversal
+ * and, if still approved, a replacement line.
+ *
+ * Overtime depends on what the member worked earlier in the week, so when
+ * the contract has it, the member's later approved records that week are
+ * re-billed too.
+ *
+ * Orgs without a parent, including ones unlinked from theirs, are not
+ * replicated at all; lines already booked stay on the parent's ledger.
+ */
 export async function replicateApprovedAttendance(
   change: Change<admin.firestore.DocumentSnapshot>,
   ctx: EventContext,
@@ -15,63 +96,141 @@ export async function replicateApprovedAttendance(
   const after = change.after.exists ? change.after.data() : null;
   const before = change.before.exists ? change.before.data() : null;
 
-  if (!after) return; // deleted
-  const becameApproved =
-    after.status === "approved" && (!before || before.status !== "approved");
-  if (!becameApproved) return;
+  // Records that were never approved have nothing booked
+  if (before?.status !== "approved" && after?.status !== "approved") return;
 
   const orgId = ctx.params.orgId as string;
   const parentId = await getParentForOrg(db, orgId);
-  if (!parentId) {
-    console.warn(`No parentId for org ${orgId}, skipping ledger replication`);
-    return;
-  }
+  if (!parentId) return;
 
-  // Required fields
-  const staffId = after.staffId as string;
-  const venueId = after.venueId as string;
-  const clockIn = after.clockIn as number;
-  const clockOut = (after.clockOut ?? Date.now()) as number;
+  await replicateRecord(orgId, change.after.id, parentId);
 
-  if (!staffId || !clockIn) {
-    console.warn("Attendance missing staffId/clockIn, skipping");
-    return;
-  }
-  if (clockOut < clockIn) {
-    console.warn("clockOut < clockIn, skipping");
-    return;
+  const record = after ?? before;
+  if (!record?.staffId || !record.clockIn) return;
+  const contract = await getContract(db, parentId, orgId, record.clockIn);
+  if (!contract?.overtime) return;
+  const later = await approvedInWeek(
+    orgId,
+    record.staffId,
+    record.clockIn,
+    contract,
+    "after",
+  ).get();
+  for (const doc of later.docs) {
+    await replicateRecord(orgId, doc.id, parentId);
   }
+}
 
-  const contract = await getContract(db, parentId, orgId);
-  if (!contract) {
-    console.warn(`Missing contract for parent=${parentId} org=${orgId}`);
-    return;
-  }
+/**
+ * Book what one attendance record should contribute to the ledger, billed
+ * under the contract version in force when it clocked in.
+ *
+ * The record is re-read inside a transaction and compared with the entry
+ * already booked for it, so retries and out-of-order events are no-ops.
+ * Closed periods are never written to: their lines go to the next open
+ * period as adjustments, and the period reads in the transaction make a
+ * concurrent close retry us.
+ */
+async function replicateRecord(
+  orgId: string,
+  attendanceId: string,
+  parentId: string,
+) {
+  const sourceRef = db.doc(`orgs/${orgId}/attendance/${attendanceId}`);
+  const stateRef = db.doc(`orgs/${orgId}/ledgerReplication/${attendanceId}`);
 
-  const hours = computeHours(clockIn, clockOut, contract.rounding || "none");
-  const periodId = derivePeriodId(clockOut, contract.period || "biweekly");
-  const amount = Math.round(hours * (contract.billRate || 0) * 100) / 100;
+  await db.runTransaction(async (tx) => {
+    const [source, stateSnap] = await Promise.all([
+      tx.get(sourceRef),
+      tx.get(stateRef),
+    ]);
+    const attendance = source.exists ? source.data()! : null;
+    const contract: Contract | null = attendance?.clockIn
+      ? await getContract(db, parentId, orgId, attendance.clockIn)
+      : null;
 
-  const line = {
-    parentId,
-    subOrgId: orgId,
-    staffRef: staffId, // no PII here; parent sees only a reference
-    venueId,
-    periodId,
-    hours,
-    billRate: contract.billRate || 0,
-    amount,
-    sourceAttendanceId: change.after.id,
-    createdAt: Date.now(),
-  };
+    let desired: LedgerEntry | null = null;
+    if (attendance?.status === "approved") {
+      if (!contract) {
+        console.warn(
+          `No contract in force for attendance ${attendanceId} in org ${orgId}, skipping ledger replication`,
+        );
+        return;
+      }
+      let priorWeekHours = 0;
+      if (contract.overtime && attendance.staffId && attendance.clockIn) {
+        const prior = await tx.get(
+          approvedInWeek(
+            orgId,
+            attendance.staffId,
+            attendance.clockIn,
+            contract,
+            "before",
+          ),
+        );
+        for (const doc of prior.docs) {
+          const { clockIn, clockOut } = doc.data();
+          if (clockOut != null && clockOut > clockIn) {
+            priorWeekHours += computeHours(
+              clockIn,
+              clockOut,
+              contract.rounding || "none",
+            );
+          }
+        }
+      }
+      desired = toLedgerEntry(orgId, attendance, contract, priorWeekHours);
+      if (!desired) {
+        console.warn(`Attendance ${attendanceId} cannot be billed, skipping`);
+        return;
+      }
+    }
+    const state = (stateSnap.data() as ReplicationState | undefined) ?? null;
+    const now = Date.now();
+    const plan = planReplication(attendanceId, state, desired, now);
+    if (!plan) return;
 
-  const dest = db
-    .collection("parents")
-    .doc(parentId)
-    .collection("ledgers")
-    .doc(periodId)
-    .collection("lines");
+    // Resolve every destination before writing; transactions read first
+    const lines: PlannedLine[] = [];
+    const newPeriods = new Map<
+      string,
+      { parentId: string; periodId: string }
+    >();
+    for (const { id, line } of plan.lines) {
+      const from =
+        line.kind === "reversal"
+          ? (state?.bookedPeriodId ?? line.periodId)
+          : line.periodId;
+      const target = await firstOpenPeriod(
+        tx,
+        line.parentId,
+        from,
+        contract ?? {},
+      );
+      if (!target.exists) {
+        newPeriods.set(`${line.parentId}/${target.periodId}`, {
+          parentId: line.parentId,
+          periodId: target.periodId,
+        });
+      }
+      lines.push({ id, line: routeLine(line, target.periodId) });
+      if (line.kind !== "reversal") plan.state.bookedPeriodId = target.periodId;
+    }
 
-  // Append-only write
-  await dest.add(line);
+    for (const { parentId, periodId } of newPeriods.values()) {
+      tx.set(ledgerRef(parentId, periodId), {
+        parentId,
+        periodId,
+        status: "open" satisfies LedgerPeriodStatus,
+        createdAt: now,
+      });
+    }
+    for (const { id, line } of lines) {
+      tx.set(
+        ledgerRef(line.parentId, line.periodId).collection("lines").doc(id),
+        line,
+      );
+    }
+    tx.set(stateRef, plan.state);
+  });
 }
@@ -22,10 +22,26 @@ async function main() {
     .doc(`orgs/${orgId}/members/${adminUid}`)
     .set({ uid: adminUid, orgId, role: "admin", createdAt: Date.now() });
 
-  await db.doc(`parents/${parentId}/contracts/${orgId}`).set({
+  const terms = {
     billRate: 22.5,
     rounding: "nearest-15",
     period: "biweekly",
+  };
+  const version = {
+    version: 1,
+    effectiveFrom: "1970-01-01",
+    createdAt: Date.now(),
+    createdBy: parentAdminUid,
+  };
+  await db
+    .doc(`parents/${parentId}/contracts/${orgId}/versions/1`)
+    .set({ ...terms, ...version });
+  await db.doc(`parents/${parentId}/contracts/${orgId}`).set({
+    ...terms,
+    parentId,
+    subOrgId: orgId,
+    version: 1,
+    effectiveFrom: version.effectiveFrom,
   });
 
   // Create parent admin user in emulator and set claims
@@ -6,6 +6,9 @@
  * - flagConflicts - Analyzes employee availability and flags potential scheduling conflicts.
  * - ConflictFlaggingInput - Input type for the flagConflicts function.
  * - ConflictFlaggingOutput - Return type for the flagConflicts function.
+ * - explainConflicts - Summarizes conflicts found by the rule-based engine in
+ *   src/lib/conflicts.ts. The engine's results are authoritative; this only
+ *   rewrites them for people.
  */
 
 import { ai } from "@/ai/genkit";
@@ -72,3 +75,64 @@ const flagConflictsFlow = ai.defineFlow(
     return output!;
   },
 );
+
+const ConflictExplanationInputSchema = z.object({
+  conflicts: z
+    .array(
+      z.object({
+        type: z.string(),
+        severity: z.enum(["error", "warning"]),
+        message: z.string(),
+      }),
+    )
+    .describe("Conflicts detected by the deterministic conflict engine."),
+});
+export type ConflictExplanationInput = z.infer<
+  typeof ConflictExplanationInputSchema
+>;
+
+const ConflictExplanationOutputSchema = z.object({
+  summary: z
+    .string()
+    .describe("A short summary of the conflicts for a schedule manager."),
+  details: z
+    .array(z.string())
+    .describe("One suggested fix per conflict, in the same order"),
+});
+export type ConflictExplanationOutput = z.infer<
+  typeof ConflictExplanationOutputSchema
+>;
+
+export async function explainConflicts(
+  input: ConflictExplanationInput,
+): Promise<ConflictExplanationOutput> {
+  return explainConflictsFlow(input);
+}
+
+const conflictExplanationPrompt = ai.definePrompt({
+  name: "conflictExplanationPrompt",
+  input: { schema: ConflictExplanationInputSchema },
+  output: { schema: ConflictExplanationOutputSchema },
+  prompt: `You are an AI assistant helping a manager fix a work schedule.
+
+  The following conflicts were found by a rule-based checker. Treat them as facts: do not add, remove or dispute conflicts.
+
+  {{#each conflicts}}
+  - [{{severity}}] {{type}}: {{message}}
+  {{/each}}
+
+  Write a short summary that prioritizes errors over warnings, then give one practical suggestion per conflict in details, each under 25 words.
+  `,
+});
+
+const explainConflictsFlow = ai.defineFlow(
+  {
+    name: "explainConflictsFlow",
+    inputSchema: ConflictExplanationInputSchema,
+    outputSchema: ConflictExplanationOutputSchema,
+  },
+  async (input) => {
+    const { output } = await conflictExplanationPrompt(input);
+    return output!;
+  },
+);
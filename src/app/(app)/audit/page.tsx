@@ -0,0 +1,25 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { AuditLog } from "@/components/admin/audit-log";
+
+export default function AuditPage() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Log</CardTitle>
+        <CardDescription>
+          Every privileged change in the organization, who made it and what it
+          changed. Entries cannot be edited or deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <AuditLog />
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,20 +6,35 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import ConflictDetector from "@/components/conflict-detector/conflict-detector";
+import { ScheduleConflicts } from "@/components/conflict-detector/schedule-conflicts";
 
 export default function ConflictDetectorPage() {
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>AI Conflict Detector</CardTitle>
-        <CardDescription>
-          Paste your employee availability and current schedule documents below.
-          The AI will analyze them and flag any potential conflicts.
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <ConflictDetector />
-      </CardContent>
-    </Card>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Schedule Conflicts</CardTitle>
+          <CardDescription>
+            Double-bookings, availability, rest and overtime problems found in
+            this week&apos;s draft schedule.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ScheduleConflicts />
+        </CardContent>
+      </Card>
+      <Card>
+        <CardHeader>
+          <CardTitle>AI Conflict Detector</CardTitle>
+          <CardDescription>
+            Paste your employee availability and current schedule documents
+            below. The AI will analyze them and flag any potential conflicts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ConflictDetector />
+        </CardContent>
+      </Card>
+    </div>
   );
 }
@@ -39,6 +39,8 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { QrCode, Plus, Copy, Trash2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { api } from "@/lib/api.client";
 
 interface Invite {
   code: string;
@@ -52,17 +54,9 @@ interface Invite {
   qrCodeUrl?: string;
 }
 
-async function getCsrfToken(): Promise<string> {
-  await fetch("/api/auth/csrf", { method: "GET", credentials: "include" });
-  const token = document.cookie
-    .split("; ")
-    .find((row) => row.startsWith("XSRF-TOKEN="))
-    ?.split("=")[1];
-  return token || "";
-}
-
 export default function InvitesPage() {
   const _router = useRouter();
+  const { orgId } = useActiveOrg();
   const [invites, setInvites] = useState<Invite[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
@@ -83,13 +77,8 @@ export default function InvitesPage() {
   const loadInvites = async () => {
     try {
       setLoading(true);
-      const response = await fetch("/api/invites/list", {
-        credentials: "include",
-      });
-      if (response.ok) {
-        const data = await response.json();
-        setInvites(data.invites || []);
-      }
+      const data = await api.invites.list();
+      setInvites((data.invites || []) as Invite[]);
     } catch (error) {
       console.error("Failed to load invites:", error);
       toast({
@@ -105,39 +94,26 @@ export default function InvitesPage() {
   const createInvite = async () => {
     try {
       setCreating(true);
-      const csrf = await getCsrfToken();
+      if (!orgId) throw new Error("No organization found");
 
-      const response = await fetch("/api/invites/create", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-csrf-token": csrf,
-        },
-        credentials: "include",
-        body: JSON.stringify({
-          role,
-          expiresIn: parseInt(expiresIn),
-          maxUses: parseInt(maxUses),
-          notes: notes.trim() || undefined,
-        }),
+      await api.invites.create({
+        orgId,
+        role,
+        expiresIn: parseInt(expiresIn),
+        maxUses: parseInt(maxUses),
+        notes: notes.trim() || undefined,
       });
-
-      const data = await response.json();
-      if (data.success) {
-        toast({
-          title: "Success",
-          description: "Invite created successfully",
-        });
-        setShowCreateDialog(false);
-        loadInvites();
-        // Reset form
-        setRole("employee");
-        setExpiresIn("30");
-        setMaxUses("10");
-        setNotes("");
-      } else {
-        throw new Error(data.error || "Failed to create invite");
-      }
+      toast({
+        title: "Success",
+        description: "Invite created successfully",
+      });
+      setShowCreateDialog(false);
+      loadInvites();
+      // Reset form
+      setRole("employee");
+      setExpiresIn("30");
+      setMaxUses("10");
+      setNotes("");
     } catch (error) {
       toast({
         title: "Error",
@@ -162,29 +138,18 @@ export default function InvitesPage() {
 
   const revokeInvite = async (code: string) => {
     try {
-      const csrf = await getCsrfToken();
-      const response = await fetch(`/api/invites/${code}/revoke`, {
-        method: "POST",
-        headers: {
-          "x-csrf-token": csrf,
-        },
-        credentials: "include",
+      await api.invites.revoke(code);
+      toast({
+        title: "Success",
+        description: "Invite revoked successfully",
       });
-
-      if (response.ok) {
-        toast({
-          title: "Success",
-          description: "Invite revoked successfully",
-        });
-        loadInvites();
-      } else {
-        throw new Error("Failed to revoke invite");
-      }
+      loadInvites();
     } catch (error) {
       console.error("Failed to revoke invite:", error);
       toast({
         title: "Error",
-        description: "Failed to revoke invite",
+        description:
+          error instanceof Error ? error.message : "Failed to revoke invite",
         variant: "destructive",
       });
     }
@@ -0,0 +1,25 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { MemberManager } from "@/components/admin/member-manager";
+
+export default function MembersPage() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Members</CardTitle>
+        <CardDescription>
+          Change roles and venues, suspend members while keeping their history,
+          or remove them from the organization.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <MemberManager />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,25 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { OpenShiftsBoard } from "@/components/open-shifts/open-shifts-board";
+
+export default function OpenShiftsPage() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Open Shifts</CardTitle>
+        <CardDescription>
+          Shifts with unfilled slots. Claim one you can work; some need a
+          manager&apos;s approval first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <OpenShiftsBoard />
+      </CardContent>
+    </Card>
+  );
+}
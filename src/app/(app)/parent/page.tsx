@@ -0,0 +1,25 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ParentPortal } from "@/components/parent/parent-portal";
+
+export default function ParentPage() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Parent Portal</CardTitle>
+        <CardDescription>
+          Contracts and billed hours across your sub-organizations, by ledger
+          period.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ParentPortal />
+      </CardContent>
+    </Card>
+  );
+}
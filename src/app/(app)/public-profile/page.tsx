@@ -15,6 +15,7 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { X } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { apiFetch } from "@/lib/api.client";
 
 interface PublicProfile {
   listed: boolean;
@@ -23,15 +24,6 @@ interface PublicProfile {
   tags: string[];
 }
 
-async function getCsrfToken(): Promise<string> {
-  await fetch("/api/auth/csrf", { method: "GET", credentials: "include" });
-  const token = document.cookie
-    .split("; ")
-    .find((row) => row.startsWith("XSRF-TOKEN="))
-    ?.split("=")[1];
-  return token || "";
-}
-
 export default function PublicProfilePage() {
   const [profile, setProfile] = useState<PublicProfile>({
     listed: false,
@@ -72,27 +64,11 @@ export default function PublicProfilePage() {
   const saveProfile = async () => {
     try {
       setSaving(true);
-      const csrf = await getCsrfToken();
-
-      const response = await fetch("/api/orgs/public-profile", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-csrf-token": csrf,
-        },
-        credentials: "include",
-        body: JSON.stringify(profile),
+      await apiFetch("/api/orgs/public-profile", { json: profile });
+      toast({
+        title: "Success",
+        description: "Public profile updated successfully",
       });
-
-      const data = await response.json();
-      if (data.success) {
-        toast({
-          title: "Success",
-          description: "Public profile updated successfully",
-        });
-      } else {
-        throw new Error(data.error || "Failed to update profile");
-      }
     } catch (error) {
       toast({
         title: "Error",
@@ -5,6 +5,7 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { ShiftRequests } from "@/components/requests/shift-requests";
 
 export default function RequestsPage() {
   return (
@@ -12,13 +13,12 @@ export default function RequestsPage() {
       <CardHeader>
         <CardTitle>Shift Requests</CardTitle>
         <CardDescription>
-          Review and approve or deny shift change requests from staff.
+          Swap, drop or pick up shifts and ask for time off. Managers approve or
+          deny requests once any swap partner has agreed.
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="text-center text-muted-foreground py-12">
-          <p>Request management feature coming soon.</p>
-        </div>
+        <ShiftRequests />
       </CardContent>
     </Card>
   );
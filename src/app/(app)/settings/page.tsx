@@ -5,21 +5,26 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { AvailabilityEditor } from "@/components/availability/availability-editor";
+import { ParentLink } from "@/components/admin/parent-link";
+import { VenueManager } from "@/components/admin/venue-manager";
 
 export default function SettingsPage() {
   return (
-    <Card>
-      <CardHeader>
-        <CardTitle>Settings</CardTitle>
-        <CardDescription>
-          Manage your account and organization settings.
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <div className="text-center text-muted-foreground py-12">
-          <p>Settings page coming soon.</p>
-        </div>
-      </CardContent>
-    </Card>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>My Availability</CardTitle>
+          <CardDescription>
+            Managers see these hours when assigning shifts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AvailabilityEditor />
+        </CardContent>
+      </Card>
+      <VenueManager />
+      <ParentLink />
+    </div>
   );
 }
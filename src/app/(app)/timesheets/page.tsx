@@ -0,0 +1,25 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { TimesheetReview } from "@/components/timesheets/timesheet-review";
+
+export default function TimesheetsPage() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timesheets</CardTitle>
+        <CardDescription>
+          Review clock-ins against the schedule, correct mistakes and approve
+          hours for billing.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <TimesheetReview />
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,27 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
-import crypto from "node:crypto";
-
-function getAllowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL;
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
+import { allowsReadOrigin } from "@/lib/api-guard";
+import { setCsrfCookie } from "@/lib/csrf";
+import { apiError } from "@/lib/api-error";
 
 export async function GET(req: NextRequest) {
-  const origin = req.headers.get("origin") || "";
-  const allowed = getAllowedOrigins();
-  if (origin && !allowed.includes(origin)) {
-    return new NextResponse("Forbidden origin", { status: 403 });
+  if (!allowsReadOrigin(req)) {
+    return apiError(403, "forbidden-origin", "Origin is not allowed.");
   }
 
-  const token = crypto.randomBytes(32).toString("hex");
   const res = NextResponse.json({ ok: true });
-  res.cookies.set("XSRF-TOKEN", token, {
-    httpOnly: false,
-    secure: process.env.NODE_ENV === "production",
-    path: "/",
-    sameSite: "lax",
-    maxAge: 60 * 60 * 24 * 7, // 7 days
-  });
+  setCsrfCookie(res);
   return res;
 }
@@ -12,6 +12,7 @@ vi.mock("@/lib/firebase.server", () => ({
 
 // Mock auth utils
 vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
   getUserCustomClaims: vi.fn(),
   getUserOrganizations: vi.fn(),
 }));
@@ -69,7 +70,10 @@ describe("/api/auth/me", () => {
 
       const response = await GET(request);
       expect(response.status).toBe(403);
-      expect(await response.text()).toBe("Forbidden origin");
+      expect(await response.json()).toEqual({
+        code: "forbidden-origin",
+        message: "Origin is not allowed.",
+      });
     });
 
     it("should allow requests without origin header", async () => {
@@ -93,9 +97,8 @@ describe("/api/auth/me", () => {
 
     it("should return user data when valid session", async () => {
       const { adminAuth } = await import("@/lib/firebase.server");
-      const { getUserCustomClaims, getUserOrganizations } = await import(
-        "@/lib/auth-utils"
-      );
+      const { getOrgAccess, getUserCustomClaims, getUserOrganizations } =
+        await import("@/lib/auth-utils");
 
       const mockVerifySessionCookie = vi.fn().mockResolvedValue({
         uid: "test-uid",
@@ -118,6 +121,11 @@ describe("/api/auth/me", () => {
       (getUserOrganizations as any).mockResolvedValue([
         { id: "org-1", name: "Test Org" },
       ]);
+      (getOrgAccess as any).mockResolvedValue({
+        role: "admin",
+        permissions: ["schedule.edit", "org.manage"],
+        venueIds: null,
+      });
 
       const request = new NextRequest("http://localhost:3000/api/auth/me", {
         headers: {
@@ -132,6 +140,8 @@ describe("/api/auth/me", () => {
       expect(data.authenticated).toBe(true);
       expect(data.uid).toBe("test-uid");
       expect(data.email).toBe("test@example.com");
+      expect(getOrgAccess).toHaveBeenCalledWith("test-uid", "org-1");
+      expect(data.access.permissions).toContain("org.manage");
     });
 
     it("should handle build-time phase gracefully", async () => {
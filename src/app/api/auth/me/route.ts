@@ -1,27 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminAuth } from "@/lib/firebase.server";
-import { getUserCustomClaims, getUserOrganizations } from "@/lib/auth-utils";
+import {
+  getOrgAccess,
+  getUserCustomClaims,
+  getUserOrganizations,
+} from "@/lib/auth-utils";
+import type { OrgAccess } from "@/lib/permissions";
 import type { CustomClaims, Organization } from "@/lib/types";
-
-function getAllowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL;
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
-
-function allowOrigin(req: NextRequest): boolean {
-  const origin = req.headers.get("origin");
-  if (!origin) return true;
-  return getAllowedOrigins().includes(origin);
-}
+import { allowsReadOrigin } from "@/lib/api-guard";
+import { apiError } from "@/lib/api-error";
 
 function isBuildPhase(): boolean {
   return process.env.NEXT_PHASE === "phase-production-build";
 }
 
 export async function GET(req: NextRequest) {
-  if (!allowOrigin(req)) {
-    return new NextResponse("Forbidden origin", { status: 403 });
+  if (!allowsReadOrigin(req)) {
+    return apiError(403, "forbidden-origin", "Origin is not allowed.");
   }
 
   const session = req.cookies.get("__session")?.value;
@@ -38,9 +33,13 @@ export async function GET(req: NextRequest) {
       (user.customClaims as CustomClaims | undefined) ??
       (await getUserCustomClaims(user.uid));
 
+    // What the user may do in their active org, for gating the UI
+    const activeOrgId = claims.orgId ?? claims.orgIds?.[0] ?? null;
     let organizations: Organization[] = [];
+    let access: OrgAccess | null = null;
     if (!isBuildPhase()) {
       organizations = await getUserOrganizations(user.uid);
+      if (activeOrgId) access = await getOrgAccess(user.uid, activeOrgId);
     }
 
     const emailVerified =
@@ -57,6 +56,7 @@ export async function GET(req: NextRequest) {
       photoURL: user.photoURL ?? null,
       claims,
       organizations,
+      access,
     });
   } catch (error) {
     console.warn("Failed to verify auth session", error);
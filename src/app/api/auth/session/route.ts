@@ -1,37 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminAuth } from "@/lib/firebase.server";
+import { rejectCrossSite } from "@/lib/api-guard";
+import { apiError } from "@/lib/api-error";
 
 const ONE_DAY_SECONDS = 60 * 60 * 24;
 
-function getAllowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL;
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
-
-function validateCsrf(req: NextRequest): boolean {
-  const header = req.headers.get("x-csrf-token");
-  const cookie = req.cookies.get("XSRF-TOKEN")?.value;
-  return Boolean(header && cookie && header === cookie);
-}
-
-function allowOrigin(req: NextRequest): boolean {
-  const origin = req.headers.get("origin");
-  if (!origin) return true; // allow same-origin/no CORS fetches
-  return getAllowedOrigins().includes(origin);
-}
-
 export async function POST(req: NextRequest) {
-  if (!allowOrigin(req))
-    return new NextResponse("Forbidden origin", { status: 403 });
-  if (!validateCsrf(req))
-    return new NextResponse("CSRF validation failed", { status: 403 });
+  const rejected = rejectCrossSite(req);
+  if (rejected) return rejected;
 
   const { idToken } = await req
     .json()
     .catch(() => ({ idToken: undefined as string | undefined }));
-  if (!idToken)
-    return NextResponse.json({ error: "Missing idToken" }, { status: 400 });
+  if (!idToken) return apiError(400, "bad-request", "Missing idToken");
 
   try {
     // Verify ID token before creating cookie
@@ -51,18 +32,13 @@ export async function POST(req: NextRequest) {
     });
     return res;
   } catch {
-    return NextResponse.json(
-      { error: "Failed to create session" },
-      { status: 401 },
-    );
+    return apiError(401, "unauthenticated", "Failed to create session");
   }
 }
 
 export async function DELETE(req: NextRequest) {
-  if (!allowOrigin(req))
-    return new NextResponse("Forbidden origin", { status: 403 });
-  if (!validateCsrf(req))
-    return new NextResponse("CSRF validation failed", { status: 403 });
+  const rejected = rejectCrossSite(req);
+  if (rejected) return rejected;
 
   try {
     const sessionCookie = req.cookies.get("__session")?.value;
@@ -10,13 +10,25 @@ vi.mock("@/lib/firebase.server", () => ({
 }));
 
 vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
   switchUserPrimaryOrg: vi.fn(),
 }));
 
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
 describe("/api/auth/switch-org", () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks();
     delete process.env.NEXT_PUBLIC_APP_URL;
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getOrgAccess as any).mockResolvedValue({
+      role: "employee",
+      permissions: [],
+      venueIds: null,
+    });
   });
 
   describe("CSRF Protection", () => {
@@ -36,7 +48,7 @@ describe("/api/auth/switch-org", () => {
 
       const response = await POST(request);
       expect(response.status).toBe(403);
-      expect(await response.text()).toBe("CSRF validation failed");
+      expect((await response.json()).code).toBe("csrf-failed");
     });
 
     it("should accept matching CSRF token in header and cookie", async () => {
@@ -88,7 +100,7 @@ describe("/api/auth/switch-org", () => {
 
       const response = await POST(request);
       expect(response.status).toBe(403);
-      expect(await response.text()).toBe("CSRF validation failed");
+      expect((await response.json()).code).toBe("csrf-failed");
     });
 
     it("should reject missing CSRF header", async () => {
@@ -107,7 +119,7 @@ describe("/api/auth/switch-org", () => {
 
       const response = await POST(request);
       expect(response.status).toBe(403);
-      expect(await response.text()).toBe("CSRF validation failed");
+      expect((await response.json()).code).toBe("csrf-failed");
     });
 
     it("should reject missing CSRF cookie", async () => {
@@ -127,7 +139,7 @@ describe("/api/auth/switch-org", () => {
 
       const response = await POST(request);
       expect(response.status).toBe(403);
-      expect(await response.text()).toBe("CSRF validation failed");
+      expect((await response.json()).code).toBe("csrf-failed");
     });
   });
 
@@ -147,7 +159,7 @@ describe("/api/auth/switch-org", () => {
 
       const response = await POST(request);
       expect(response.status).toBe(403);
-      expect(await response.text()).toBe("Forbidden origin");
+      expect((await response.json()).code).toBe("forbidden-origin");
     });
 
     it("should allow requests from configured origins", async () => {
@@ -203,8 +215,8 @@ describe("/api/auth/switch-org", () => {
       expect(response.status).toBe(401);
 
       const data = await response.json();
-      expect(data.success).toBe(false);
-      expect(data.error).toBe("Authentication required");
+      expect(data.code).toBe("unauthenticated");
+      expect(data.message).toBe("Authentication required.");
     });
 
     it("should handle invalid session tokens", async () => {
@@ -232,11 +244,43 @@ describe("/api/auth/switch-org", () => {
       );
 
       const response = await POST(request);
-      expect(response.status).toBe(500);
+      expect(response.status).toBe(401);
 
       const data = await response.json();
-      expect(data.success).toBe(false);
-      expect(data.error).toBe("Invalid session");
+      expect(data.code).toBe("invalid-session");
+    });
+  });
+
+  describe("Membership", () => {
+    it("should refuse orgs the caller does not belong to", async () => {
+      const { adminAuth } = await import("@/lib/firebase.server");
+      const { getOrgAccess, switchUserPrimaryOrg } = await import(
+        "@/lib/auth-utils"
+      );
+      (adminAuth as any).mockReturnValue({
+        verifySessionCookie: vi.fn().mockResolvedValue({ uid: "test-uid" }),
+      });
+      (getOrgAccess as any).mockResolvedValue(null);
+
+      const csrfToken = "test-csrf-token";
+      const request = new NextRequest(
+        "http://localhost:3000/api/auth/switch-org",
+        {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            "x-csrf-token": csrfToken,
+            origin: "http://localhost:3000",
+            cookie: `__session=valid-session; XSRF-TOKEN=${csrfToken}`,
+          },
+          body: JSON.stringify({ orgId: "org-2" }),
+        },
+      );
+
+      const response = await POST(request);
+      expect(response.status).toBe(403);
+      expect((await response.json()).code).toBe("forbidden");
+      expect(switchUserPrimaryOrg).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,21 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase.server";
-
-function getAllowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL;
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
-
-function allowOrigin(req: NextRequest): boolean {
-  const origin = req.headers.get("origin");
-  if (!origin) return true;
-  return getAllowedOrigins().includes(origin);
-}
+import { allowsReadOrigin } from "@/lib/api-guard";
+import { apiError } from "@/lib/api-error";
 
 export async function GET(req: NextRequest) {
-  if (!allowOrigin(req)) {
-    return new NextResponse("Forbidden origin", { status: 403 });
+  if (!allowsReadOrigin(req)) {
+    return apiError(403, "forbidden-origin", "Origin is not allowed.");
   }
 
   try {
@@ -75,9 +65,6 @@ export async function GET(req: NextRequest) {
     });
   } catch (error) {
     console.error("Error searching organizations:", error);
-    return NextResponse.json(
-      { success: false, error: "Failed to search organizations" },
-      { status: 500 },
-    );
+    return apiError(500, "internal", "Failed to search organizations");
   }
 }
@@ -1,7 +1,10 @@
-import { NextRequest, NextResponse } from "next/server";
-import { adminAuth, adminInit } from "@/lib/firebase.server";
+import { NextResponse } from "next/server";
+import { adminInit } from "@/lib/firebase.server";
 import { getFirestore } from "firebase-admin/firestore";
-import { isUserOrgAdmin } from "@/lib/auth-utils";
+import { verifyOrgAccess } from "@/lib/auth-utils";
+import { withGuard } from "@/lib/api-guard";
+import { auditInvite, recordAudit, redactInviteCode } from "@/lib/audit";
+import { apiError } from "@/lib/api-error";
 
 // Lazy initialize to avoid build-time errors
 function getDb() {
@@ -9,93 +12,57 @@ function getDb() {
   return getFirestore();
 }
 
-function getAllowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL;
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
-
-function validateCsrf(req: NextRequest): boolean {
-  const header = req.headers.get("x-csrf-token");
-  const cookie = req.cookies.get("XSRF-TOKEN")?.value;
-  return Boolean(header && cookie && header === cookie);
-}
+export const POST = withGuard<{ code: string }>(
+  {},
+  async (req, { params: { code }, uid, email, activeOrgId: orgId }) => {
+    try {
+      if (!orgId) {
+        return apiError(400, "bad-request", "No organization found");
+      }
 
-function allowOrigin(req: NextRequest): boolean {
-  const origin = req.headers.get("origin");
-  if (!origin) return true;
-  return getAllowedOrigins().includes(origin);
-}
+      // Verify user may manage the organization's invites
+      const allowed = await verifyOrgAccess(uid, orgId, "invites.manage");
+      if (!allowed) {
+        return apiError(
+          403,
+          "forbidden",
+          "Permission to manage invites required",
+        );
+      }
 
-export async function POST(
-  req: NextRequest,
-  { params }: { params: Promise<{ code: string }> },
-) {
-  const { code } = await params;
-  if (!allowOrigin(req)) {
-    return new NextResponse("Forbidden origin", { status: 403 });
-  }
-  if (!validateCsrf(req)) {
-    return new NextResponse("CSRF validation failed", { status: 403 });
-  }
+      // Update invite to set isActive = false
+      const inviteRef = getDb().doc(`orgs/${orgId}/invites/${code}`);
+      const inviteDoc = await inviteRef.get();
 
-  // Verify session
-  const session = req.cookies.get("__session")?.value;
-  if (!session) {
-    return NextResponse.json(
-      { success: false, error: "Authentication required" },
-      { status: 401 },
-    );
-  }
+      if (!inviteDoc.exists) {
+        return apiError(404, "not-found", "Invite not found");
+      }
 
-  try {
-    const decoded = await adminAuth().verifySessionCookie(session, true);
-    const uid = decoded.uid;
-    const orgId = decoded.org_id || decoded.orgId; // Support both claim formats
-
-    if (!orgId) {
-      return NextResponse.json(
-        { success: false, error: "No organization found" },
-        { status: 400 },
-      );
-    }
+      const revocation = {
+        isActive: false,
+        revokedAt: new Date(),
+        revokedBy: uid,
+      };
+      await inviteRef.update(revocation);
 
-    // Verify user is admin of the organization
-    const isAdmin = await isUserOrgAdmin(uid, orgId);
-    if (!isAdmin) {
-      return NextResponse.json(
-        { success: false, error: "Admin access required" },
-        { status: 403 },
+      await recordAudit(
+        req,
+        { uid, email },
+        {
+          orgId,
+          action: "invite.revoke",
+          target: { type: "invite", id: redactInviteCode(code) },
+          before: auditInvite(inviteDoc.data()),
+          after: auditInvite({ ...inviteDoc.data(), ...revocation }),
+        },
       );
-    }
-
-    // code is already destructured at the top
 
-    // Update invite to set isActive = false
-    const inviteRef = getDb().doc(`orgs/${orgId}/invites/${code}`);
-    const inviteDoc = await inviteRef.get();
-
-    if (!inviteDoc.exists) {
-      return NextResponse.json(
-        { success: false, error: "Invite not found" },
-        { status: 404 },
-      );
+      return NextResponse.json({
+        success: true,
+      });
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      return apiError(500, "internal", "Failed to revoke invite");
     }
-
-    await inviteRef.update({
-      isActive: false,
-      revokedAt: new Date(),
-      revokedBy: uid,
-    });
-
-    return NextResponse.json({
-      success: true,
-    });
-  } catch (error) {
-    console.error("Error revoking invite:", error);
-    return NextResponse.json(
-      { success: false, error: "Failed to revoke invite" },
-      { status: 500 },
-    );
-  }
-}
+  },
+);
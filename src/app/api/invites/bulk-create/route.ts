@@ -1,47 +1,57 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { adminDb } from "@/lib/firebase.server";
-import { generateInviteCode } from "@/lib/auth-utils";
-import { generateShortCode } from "@/lib/types";
+import { generateInviteCode, getOrgAccess } from "@/lib/auth-utils";
+import { withGuard } from "@/lib/api-guard";
+import { auditInvite, recordAudit, type AuditEvent } from "@/lib/audit";
+import { canGrant, hasPermission } from "@/lib/permissions";
+import { getRolePermissions } from "@/lib/roles";
+import { generateShortCode, RoleIdSchema } from "@/lib/types";
+import { apiError, validationError } from "@/lib/api-error";
 
 const bulkCreateSchema = z.object({
   orgId: z.string(),
   users: z.array(
     z.object({
       email: z.string().email(),
-      role: z.enum(["admin", "manager", "employee"]),
+      role: RoleIdSchema,
     }),
   ),
 });
 
-export async function POST(req: Request) {
+export const POST = withGuard({}, async (req, { uid, email }) => {
   try {
-    // TODO: Implement getSession from auth context
-    // const session = await getSession(req);
-    const session = null as any;
-    if (!session?.uid) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 },
-      );
-    }
-
     const json = await req.json();
     const { orgId, users } = bulkCreateSchema.parse(json);
 
-    // TODO: Implement verifyOrgAccess for org-level permissions
-    // const allowed = await verifyOrgAccess(session.uid, orgId, ["admin", "manager"]);
-    const allowed = false;
-    if (!allowed) {
-      return NextResponse.json(
-        { success: false, error: "Forbidden" },
-        { status: 403 },
+    const access = await getOrgAccess(uid, orgId);
+    if (!access || !hasPermission(access, "invites.manage")) {
+      return apiError(
+        403,
+        "forbidden",
+        "Permission to manage invites required",
       );
     }
 
+    // Each invite can only grant a role the inviter could grant on its own
+    for (const roleId of new Set(users.map((u) => u.role))) {
+      const rolePermissions = await getRolePermissions(orgId, roleId);
+      if (!rolePermissions) {
+        return apiError(400, "bad-request", `Unknown role: ${roleId}`);
+      }
+      if (!canGrant(access, rolePermissions)) {
+        return apiError(
+          403,
+          "forbidden",
+          `You cannot grant the ${roleId} role`,
+        );
+      }
+    }
+
     const db = adminDb();
     const invitesCollection = db.collection(`orgs/${orgId}/invites`);
     const batch = db.batch();
+    const events: AuditEvent[] = [];
     let createdCount = 0;
 
     for (const user of users) {
@@ -60,22 +70,23 @@ export async function POST(req: Request) {
       };
 
       batch.set(docRef, newInvite);
+      events.push({
+        orgId,
+        action: "invite.create",
+        target: { type: "invite", id: docRef.id },
+        after: auditInvite(newInvite),
+      });
       createdCount++;
     }
 
     await batch.commit();
+    await recordAudit(req, { uid, email }, events);
     return NextResponse.json({ success: true, createdCount });
   } catch (error) {
     if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { success: false, error: error.issues },
-        { status: 400 },
-      );
+      return validationError(error);
     }
     console.error("Bulk invite creation error:", error);
-    return NextResponse.json(
-      { success: false, error: "An unexpected error occurred." },
-      { status: 500 },
-    );
+    return apiError(500, "internal", "An unexpected error occurred.");
   }
-}
+});
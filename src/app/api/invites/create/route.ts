@@ -1,5 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
-import { adminAuth, adminInit } from "@/lib/firebase.server";
+import { NextResponse } from "next/server";
+import { adminInit } from "@/lib/firebase.server";
 import { getFirestore } from "firebase-admin/firestore";
 import {
   CreateInviteRequestSchema,
@@ -10,8 +10,13 @@ import {
 import {
   generateInviteCode,
   generateQRCodeUrl,
-  isUserOrgAdmin,
+  getOrgAccess,
 } from "@/lib/auth-utils";
+import { canGrant, hasPermission } from "@/lib/permissions";
+import { getRolePermissions } from "@/lib/roles";
+import { withGuard } from "@/lib/api-guard";
+import { auditInvite, recordAudit, redactInviteCode } from "@/lib/audit";
+import { apiError, validationError } from "@/lib/api-error";
 
 // Lazy initialize Firestore to avoid build-time errors
 function getDb() {
@@ -19,127 +24,99 @@ function getDb() {
   return getFirestore();
 }
 
-function getAllowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL;
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
-
-function validateCsrf(req: NextRequest): boolean {
-  const header = req.headers.get("x-csrf-token");
-  const cookie = req.cookies.get("XSRF-TOKEN")?.value;
-  return Boolean(header && cookie && header === cookie);
-}
-
-function allowOrigin(req: NextRequest): boolean {
-  const origin = req.headers.get("origin");
-  if (!origin) return true;
-  return getAllowedOrigins().includes(origin);
-}
-
-export async function POST(req: NextRequest) {
-  if (!allowOrigin(req)) {
-    return new NextResponse("Forbidden origin", { status: 403 });
-  }
-  if (!validateCsrf(req)) {
-    return new NextResponse("CSRF validation failed", { status: 403 });
-  }
-
-  // Verify session
-  const session = req.cookies.get("__session")?.value;
-  if (!session) {
-    return NextResponse.json<CreateInviteResponse>(
-      { success: false, error: "Authentication required" },
-      { status: 401 },
-    );
-  }
-
-  try {
-    const decoded = await adminAuth().verifySessionCookie(session, true);
-    const uid = decoded.uid;
-    if (decoded.email_verified === false) {
-      return NextResponse.json<CreateInviteResponse>(
-        { success: false, error: "Email must be verified to create invites" },
-        { status: 403 },
-      );
-    }
-
-    // Parse request body
-    const body = await req.json().catch(() => ({}));
-    const parseResult = CreateInviteRequestSchema.safeParse(body);
-
-    if (!parseResult.success) {
-      return NextResponse.json<CreateInviteResponse>(
-        { success: false, error: "Invalid request data" },
-        { status: 400 },
-      );
-    }
-
-    const { orgId, role, expiresIn, maxUses, notes } = parseResult.data;
-
-    // Verify user is admin of the organization
-    const isAdmin = await isUserOrgAdmin(uid, orgId);
-    if (!isAdmin) {
-      return NextResponse.json<CreateInviteResponse>(
-        { success: false, error: "Admin access required" },
-        { status: 403 },
+export const POST = withGuard(
+  { verifiedEmail: true },
+  async (req, { uid, email }) => {
+    try {
+      // Parse request body
+      const body = await req.json().catch(() => ({}));
+      const parseResult = CreateInviteRequestSchema.safeParse(body);
+
+      if (!parseResult.success) {
+        return validationError(parseResult.error);
+      }
+
+      const { orgId, role, expiresIn, maxUses, notes } = parseResult.data;
+
+      // Verify user may manage the organization's invites
+      const access = await getOrgAccess(uid, orgId);
+      if (!access || !hasPermission(access, "invites.manage")) {
+        return apiError(
+          403,
+          "forbidden",
+          "Permission to manage invites required",
+        );
+      }
+
+      // The invite can only grant a role that exists and that the inviter holds
+      const rolePermissions = await getRolePermissions(orgId, role);
+      if (!rolePermissions) {
+        return apiError(400, "bad-request", "Unknown role");
+      }
+      if (!canGrant(access, rolePermissions)) {
+        return apiError(403, "forbidden", "You cannot grant this role");
+      }
+
+      // Verify organization exists
+      const orgDoc = await getDb().doc(`orgs/${orgId}`).get();
+      if (!orgDoc.exists) {
+        return apiError(404, "not-found", "Organization not found");
+      }
+
+      // Generate invite code
+      const code = generateInviteCode();
+      const now = new Date();
+      const expiresAt = expiresIn
+        ? new Date(now.getTime() + expiresIn * 24 * 60 * 60 * 1000)
+        : undefined;
+
+      const inviteData: InviteCode = {
+        code,
+        orgId,
+        createdBy: uid,
+        createdAt: now,
+        expiresAt,
+        maxUses,
+        currentUses: 0,
+        isActive: true,
+        role,
+        notes,
+      };
+
+      // Save invite to Firestore
+      await getDb().doc(`orgs/${orgId}/invites/${code}`).set(inviteData);
+
+      // Generate response data
+      const shortCode = generateShortCode(orgId, code);
+      const qrCodeUrl = generateQRCodeUrl(shortCode);
+
+      // Update invite with QR code URL
+      await getDb().doc(`orgs/${orgId}/invites/${code}`).update({ qrCodeUrl });
+
+      await recordAudit(
+        req,
+        { uid, email },
+        {
+          orgId,
+          action: "invite.create",
+          target: { type: "invite", id: redactInviteCode(code) },
+          after: auditInvite(inviteData),
+        },
       );
-    }
 
-    // Verify organization exists
-    const orgDoc = await getDb().doc(`orgs/${orgId}`).get();
-    if (!orgDoc.exists) {
-      return NextResponse.json<CreateInviteResponse>(
-        { success: false, error: "Organization not found" },
-        { status: 404 },
-      );
+      return NextResponse.json<CreateInviteResponse>({
+        success: true,
+        invite: {
+          code,
+          shortCode,
+          qrCodeUrl,
+          expiresAt: expiresAt?.toISOString(),
+          maxUses,
+        },
+      });
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      return apiError(500, "internal", "Failed to create invite");
     }
-
-    // Generate invite code
-    const code = generateInviteCode();
-    const now = new Date();
-    const expiresAt = expiresIn
-      ? new Date(now.getTime() + expiresIn * 24 * 60 * 60 * 1000)
-      : undefined;
-
-    const inviteData: InviteCode = {
-      code,
-      orgId,
-      createdBy: uid,
-      createdAt: now,
-      expiresAt,
-      maxUses,
-      currentUses: 0,
-      isActive: true,
-      role,
-      notes,
-    };
-
-    // Save invite to Firestore
-    await getDb().doc(`orgs/${orgId}/invites/${code}`).set(inviteData);
-
-    // Generate response data
-    const shortCode = generateShortCode(orgId, code);
-    const qrCodeUrl = generateQRCodeUrl(shortCode);
-
-    // Update invite with QR code URL
-    await getDb().doc(`orgs/${orgId}/invites/${code}`).update({ qrCodeUrl });
-
-    return NextResponse.json<CreateInviteResponse>({
-      success: true,
-      invite: {
-        code,
-        shortCode,
-        qrCodeUrl,
-        expiresAt: expiresAt?.toISOString(),
-        maxUses,
-      },
-    });
-  } catch (error) {
-    console.error("Error creating invite:", error);
-    return NextResponse.json<CreateInviteResponse>(
-      { success: false, error: "Failed to create invite" },
-      { status: 500 },
-    );
-  }
-}
+  },
+);
@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from "next/server";
 import { adminAuth, adminInit } from "@/lib/firebase.server";
 import { getFirestore } from "firebase-admin/firestore";
 
-import { isUserOrgAdmin } from "@/lib/auth-utils";
+import { verifyOrgAccess } from "@/lib/auth-utils";
+import { allowsReadOrigin } from "@/lib/api-guard";
+import type { ListInvitesResponse, SerializedInvite } from "@/lib/types";
+import { apiError } from "@/lib/api-error";
 
 interface InviteData {
   code: string;
@@ -16,57 +19,21 @@ interface InviteData {
   qrCodeUrl?: string;
 }
 
-interface InviteResponse {
-  code: string;
-  shortCode: string;
-  role: string;
-  expiresAt: string | undefined;
-  maxUses: number;
-  currentUses: number;
-  createdAt: string | undefined;
-  isActive: boolean;
-  notes?: string;
-  qrCodeUrl?: string;
-}
-
-interface ListInvitesResponse {
-  success: boolean;
-  invites?: InviteResponse[];
-  error?: string;
-}
-
 // Lazy initialize to avoid build-time errors
 function getDb(): FirebaseFirestore.Firestore {
   adminInit();
   return getFirestore();
 }
 
-function getAllowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL;
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
-
-function allowOrigin(req: NextRequest): boolean {
-  const origin = req.headers.get("origin");
-  if (!origin) return true;
-  return getAllowedOrigins().includes(origin);
-}
-
-export async function GET(
-  req: NextRequest,
-): Promise<NextResponse<ListInvitesResponse>> {
-  if (!allowOrigin(req)) {
-    return new NextResponse("Forbidden origin", { status: 403 });
+export async function GET(req: NextRequest) {
+  if (!allowsReadOrigin(req)) {
+    return apiError(403, "forbidden-origin", "Origin is not allowed.");
   }
 
   // Verify session
   const session = req.cookies.get("__session")?.value;
   if (!session) {
-    return NextResponse.json(
-      { success: false, error: "Authentication required" },
-      { status: 401 },
-    );
+    return apiError(401, "unauthenticated", "Authentication required");
   }
 
   try {
@@ -75,18 +42,16 @@ export async function GET(
     const orgId = decoded.org_id || decoded.orgId; // Support both claim formats
 
     if (!orgId) {
-      return NextResponse.json(
-        { success: false, error: "No organization found" },
-        { status: 400 },
-      );
+      return apiError(400, "bad-request", "No organization found");
     }
 
-    // Verify user is admin of the organization
-    const isAdmin = await isUserOrgAdmin(uid, orgId);
-    if (!isAdmin) {
-      return NextResponse.json(
-        { success: false, error: "Admin access required" },
-        { status: 403 },
+    // Verify user may manage the organization's invites
+    const allowed = await verifyOrgAccess(uid, orgId, "invites.manage");
+    if (!allowed) {
+      return apiError(
+        403,
+        "forbidden",
+        "Permission to manage invites required",
       );
     }
 
@@ -97,7 +62,7 @@ export async function GET(
       .orderBy("createdAt", "desc")
       .get();
 
-    const invites: InviteResponse[] = invitesSnapshot.docs.map((doc) => {
+    const invites: SerializedInvite[] = invitesSnapshot.docs.map((doc) => {
       const data = doc.data() as InviteData;
       return {
         code: data.code,
@@ -113,15 +78,12 @@ export async function GET(
       };
     });
 
-    return NextResponse.json({
+    return NextResponse.json<ListInvitesResponse>({
       success: true,
       invites,
     });
   } catch (error) {
     console.error("Error listing invites:", error);
-    return NextResponse.json(
-      { success: false, error: "Failed to list invites" },
-      { status: 500 },
-    );
+    return apiError(500, "internal", "Failed to list invites");
   }
 }
@@ -0,0 +1,56 @@
+// src/app/api/orgs/[orgId]/attendance/[attendanceId]/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import { CorrectAttendanceSchema } from "@/lib/types";
+import { AttendanceError, correctAttendance } from "@/lib/attendance";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+/**
+ * Correct the clock times of a pending punch. A reason is required.
+ */
+export const PATCH = withGuard<{ orgId: string; attendanceId: string }>(
+  {
+    permission: "attendance.approve",
+    forbidden: "You do not have permission to correct attendance.",
+  },
+  async (request, { params: { orgId, attendanceId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = CorrectAttendanceSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const before = await auditSnapshot(
+        `orgs/${orgId}/attendance/${attendanceId}`,
+      );
+      const updated = await correctAttendance(
+        orgId,
+        attendanceId,
+        uid,
+        parsed.data,
+        access.venueIds,
+      );
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "attendance.update",
+          target: { type: "attendance", id: attendanceId },
+          before,
+          after: updated,
+        },
+      );
+      return NextResponse.json(updated);
+    } catch (error) {
+      if (error instanceof AttendanceError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error correcting attendance ${attendanceId}:`, error);
+      return internalError();
+    }
+  },
+);
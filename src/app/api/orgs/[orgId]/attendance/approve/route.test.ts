@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/attendance", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/attendance")>()),
+  approveAttendance: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1" });
+
+const manager = {
+  role: "manager",
+  permissions: ["attendance.approve"],
+  venueIds: null,
+};
+const employee = { role: "employee", permissions: [], venueIds: null };
+
+function makeRequest(body: unknown) {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/attendance/approve",
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+    },
+  );
+}
+
+describe("/api/orgs/[orgId]/attendance/approve", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require a session", async () => {
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue(null);
+
+    const response = await POST(makeRequest({ ids: ["a"] }), { params });
+    expect(response.status).toBe(401);
+  });
+
+  it("should only let managers approve", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { approveAttendance } = await import("@/lib/attendance");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(employee);
+
+    const response = await POST(makeRequest({ ids: ["a"] }), { params });
+    expect(response.status).toBe(403);
+    expect(approveAttendance).not.toHaveBeenCalled();
+  });
+
+  it("should reject an empty selection", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "boss" });
+    (getOrgAccess as any).mockResolvedValue(manager);
+
+    const response = await POST(makeRequest({ ids: [] }), { params });
+    expect(response.status).toBe(400);
+  });
+
+  it("should approve as the signed-in manager", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { approveAttendance } = await import("@/lib/attendance");
+    (getSession as any).mockResolvedValue({ uid: "boss" });
+    (getOrgAccess as any).mockResolvedValue(manager);
+    (approveAttendance as any).mockResolvedValue({
+      approved: ["a"],
+      skipped: [{ id: "b", reason: "Still clocked in" }],
+    });
+
+    const response = await POST(makeRequest({ ids: ["a", "b"] }), { params });
+    expect(response.status).toBe(200);
+    expect(approveAttendance).toHaveBeenCalledWith(
+      "org-1",
+      ["a", "b"],
+      "boss",
+      null,
+    );
+    expect((await response.json()).skipped).toHaveLength(1);
+  });
+
+  it("should limit a venue-scoped manager to their venues", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { approveAttendance } = await import("@/lib/attendance");
+    (getSession as any).mockResolvedValue({ uid: "lead" });
+    (getOrgAccess as any).mockResolvedValue({
+      ...manager,
+      venueIds: ["venue-1"],
+    });
+    (approveAttendance as any).mockResolvedValue({ approved: [], skipped: [] });
+
+    await POST(makeRequest({ ids: ["a"] }), { params });
+    expect(approveAttendance).toHaveBeenCalledWith("org-1", ["a"], "lead", [
+      "venue-1",
+    ]);
+  });
+});
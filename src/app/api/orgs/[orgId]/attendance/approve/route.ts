@@ -0,0 +1,50 @@
+// src/app/api/orgs/[orgId]/attendance/approve/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { ApproveAttendanceSchema } from "@/lib/types";
+import { approveAttendance } from "@/lib/attendance";
+import { internalError, validationError } from "@/lib/api-error";
+
+/**
+ * Bulk-approve punches. Approval triggers ledger replication, so rows that
+ * are open or already decided are skipped and reported back.
+ */
+export const POST = withGuard<{ orgId: string }>(
+  {
+    permission: "attendance.approve",
+    forbidden: "You do not have permission to approve attendance.",
+  },
+  async (request, { params: { orgId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = ApproveAttendanceSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const result = await approveAttendance(
+        orgId,
+        parsed.data.ids,
+        uid,
+        access.venueIds,
+      );
+      await recordAudit(
+        request,
+        { uid, email },
+        result.approved.map((id) => ({
+          orgId,
+          action: "attendance.approve" as const,
+          target: { type: "attendance", id },
+          before: { status: "pending" },
+          after: { status: "approved" },
+        })),
+      );
+      return NextResponse.json(result);
+    } catch (error) {
+      console.error(`Error approving attendance for org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/attendance", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/attendance")>()),
+  clockIn: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1" });
+
+function makeRequest(body?: unknown) {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/attendance/clock-in",
+    {
+      method: "POST",
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    },
+  );
+}
+
+describe("/api/orgs/[orgId]/attendance/clock-in", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require a session", async () => {
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue(null);
+
+    const response = await POST(makeRequest(), { params });
+    expect(response.status).toBe(401);
+  });
+
+  it("should reject non-members", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { clockIn } = await import("@/lib/attendance");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(null);
+
+    const response = await POST(makeRequest(), { params });
+    expect(response.status).toBe(403);
+    expect(clockIn).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a second clock-in", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { clockIn, AttendanceError } = await import("@/lib/attendance");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+    (clockIn as any).mockRejectedValue(
+      new AttendanceError("You are already clocked in", 409),
+    );
+
+    const response = await POST(makeRequest(), { params });
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      code: "conflict",
+      message: "You are already clocked in",
+    });
+  });
+
+  it("should clock in to the given shift", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { clockIn } = await import("@/lib/attendance");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+    (clockIn as any).mockResolvedValue({
+      id: "shift-1_alice",
+      status: "pending",
+    });
+
+    const response = await POST(makeRequest({ shiftId: "shift-1" }), {
+      params,
+    });
+    expect(response.status).toBe(201);
+    expect(clockIn).toHaveBeenCalledWith("org-1", "alice", "shift-1");
+    expect((await response.json()).status).toBe("pending");
+  });
+});
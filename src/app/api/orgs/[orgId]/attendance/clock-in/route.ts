@@ -0,0 +1,29 @@
+// src/app/api/orgs/[orgId]/attendance/clock-in/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { ClockInSchema } from "@/lib/types";
+import { AttendanceError, clockIn } from "@/lib/attendance";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const POST = withGuard<{ orgId: string }>(
+  { permission: "member" },
+  async (request, { params: { orgId }, uid }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = ClockInSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const punch = await clockIn(orgId, uid, parsed.data.shiftId);
+      return NextResponse.json(punch, { status: 201 });
+    } catch (error) {
+      if (error instanceof AttendanceError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error clocking in for org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
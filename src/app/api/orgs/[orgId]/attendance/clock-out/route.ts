@@ -0,0 +1,21 @@
+// src/app/api/orgs/[orgId]/attendance/clock-out/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { AttendanceError, clockOut } from "@/lib/attendance";
+import { internalError, statusError } from "@/lib/api-error";
+
+export const POST = withGuard<{ orgId: string }>(
+  { permission: "member" },
+  async (_request, { params: { orgId }, uid }) => {
+    try {
+      return NextResponse.json(await clockOut(orgId, uid));
+    } catch (error) {
+      if (error instanceof AttendanceError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error clocking out for org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
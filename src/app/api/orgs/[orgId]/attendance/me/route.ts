@@ -0,0 +1,37 @@
+// src/app/api/orgs/[orgId]/attendance/me/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { getTimeClockState } from "@/lib/attendance";
+import { apiError, internalError } from "@/lib/api-error";
+
+/**
+ * The signed-in member's open punch and the shift they can clock in to.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access) {
+      return apiError(
+        403,
+        "forbidden",
+        "You are not a member of this organization.",
+      );
+    }
+
+    return NextResponse.json(await getTimeClockState(orgId, session.uid));
+  } catch (error) {
+    console.error(`Error reading time clock for org ${orgId}:`, error);
+    return internalError();
+  }
+}
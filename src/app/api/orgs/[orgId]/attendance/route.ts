@@ -0,0 +1,52 @@
+// src/app/api/orgs/[orgId]/attendance/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { AttendanceListQuerySchema } from "@/lib/types";
+import { listTimesheet } from "@/lib/attendance";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+/**
+ * Timesheet rows for a period, pending ones by default.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access || !hasPermission(access, "attendance.approve")) {
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to review attendance.",
+      );
+    }
+
+    const parsed = AttendanceListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+    if (!parsed.success) {
+      return validationError(parsed.error);
+    }
+
+    // Venue-scoped managers only see punches at their venues
+    const rows = await listTimesheet(orgId, parsed.data);
+    return NextResponse.json(
+      rows.filter((row) =>
+        hasPermission(access, "attendance.approve", row.venueId ?? null),
+      ),
+    );
+  } catch (error) {
+    console.error(`Error listing attendance for org ${orgId}:`, error);
+    return internalError();
+  }
+}
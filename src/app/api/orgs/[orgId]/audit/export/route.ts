@@ -0,0 +1,55 @@
+// src/app/api/orgs/[orgId]/audit/export/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { AuditExportQuerySchema } from "@/lib/types";
+import { exportAudit } from "@/lib/audit";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ orgId: string }> };
+
+/**
+ * Every audit entry matching the filters, as a CSV or JSON download.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!hasPermission(access, "audit.view")) {
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to view the audit log.",
+      );
+    }
+
+    const parsed = AuditExportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+    if (!parsed.success) {
+      return validationError(parsed.error);
+    }
+    const { format, ...query } = parsed.data;
+
+    const { body, contentType, filename } = exportAudit(orgId, query, format);
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "content-type": contentType,
+        "content-disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error(`Error exporting audit entries for org ${orgId}:`, error);
+    return internalError();
+  }
+}
@@ -0,0 +1,49 @@
+// src/app/api/orgs/[orgId]/audit/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { AuditQuerySchema } from "@/lib/types";
+import { InvalidAuditCursorError, listAudit } from "@/lib/audit";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string }> };
+
+/**
+ * A page of the org's audit log, newest first, filtered by action, actor
+ * and time.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!hasPermission(access, "audit.view")) {
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to view the audit log.",
+      );
+    }
+
+    const parsed = AuditQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+    if (!parsed.success) {
+      return validationError(parsed.error);
+    }
+
+    return NextResponse.json(await listAudit(orgId, parsed.data));
+  } catch (error) {
+    if (error instanceof InvalidAuditCursorError) {
+      return apiError(400, "bad-request", error.message);
+    }
+    console.error(`Error listing audit entries for org ${orgId}:`, error);
+    return internalError();
+  }
+}
@@ -0,0 +1,38 @@
+// src/app/api/orgs/[orgId]/availability/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { verifyOrgAccess } from "@/lib/auth-utils";
+import { listOrgAvailability } from "@/lib/availability";
+import { apiError, internalError } from "@/lib/api-error";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const isAllowed = await verifyOrgAccess(
+      session.uid,
+      orgId,
+      "availability.view",
+    );
+    if (!isAllowed) {
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to view member availability.",
+      );
+    }
+
+    return NextResponse.json(await listOrgAvailability(orgId));
+  } catch (error) {
+    console.error(`Error listing availability for org ${orgId}:`, error);
+    return internalError();
+  }
+}
@@ -0,0 +1,90 @@
+// src/app/api/orgs/[orgId]/conflicts/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { adminDb } from "@/lib/firebase.server";
+import { verifyOrgAccess } from "@/lib/auth-utils";
+import {
+  ConflictReportQuerySchema,
+  type ConflictReportResponse,
+  type OrgMember,
+} from "@/lib/types";
+import { serializeShift, shiftsCollection } from "@/lib/shifts";
+import { deserializeShift } from "@/lib/schedule";
+import { detectConflicts } from "@/lib/conflicts";
+import { listOrgAvailability } from "@/lib/availability";
+import { explainConflicts } from "@/ai/flows/conflict-flagging";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+/**
+ * Run the rule-based conflict engine over the draft shifts starting in
+ * [from, to). With `explain=true` an AI summary is added on top; the
+ * structured conflicts are returned even if that call fails.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const isAllowed = await verifyOrgAccess(
+      session.uid,
+      orgId,
+      "schedule.edit",
+    );
+    if (!isAllowed) {
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to review schedule conflicts.",
+      );
+    }
+
+    const parsed = ConflictReportQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+    if (!parsed.success) {
+      return validationError(parsed.error);
+    }
+    const { from, to, timeZone, explain } = parsed.data;
+
+    const [shiftsSnap, membersSnap, availability] = await Promise.all([
+      shiftsCollection(orgId)
+        .where("start", ">=", from)
+        .where("start", "<", to)
+        .get(),
+      adminDb().collection(`orgs/${orgId}/members`).get(),
+      listOrgAvailability(orgId),
+    ]);
+
+    const conflicts = detectConflicts(
+      {
+        shifts: shiftsSnap.docs.map((d) =>
+          deserializeShift(serializeShift({ ...d.data(), id: d.id })),
+        ),
+        members: membersSnap.docs.map((d) => d.data() as OrgMember),
+        availability,
+      },
+      { timeZone },
+    );
+
+    const response: ConflictReportResponse = { conflicts };
+    if (explain && conflicts.length > 0) {
+      try {
+        response.explanation = await explainConflicts({ conflicts });
+      } catch (error) {
+        console.error(`Error explaining conflicts for org ${orgId}:`, error);
+      }
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error(`Error checking conflicts for org ${orgId}:`, error);
+    return internalError();
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { GET, PUT } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+const setMock = vi.fn();
+
+vi.mock("@/lib/availability", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/availability")>()),
+  availabilityDoc: vi.fn(() => ({ set: setMock })),
+  getAvailability: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1", uid: "alice" });
+
+function makeRequest(method = "GET", body?: unknown) {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/members/alice/availability",
+    {
+      method,
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    },
+  );
+}
+
+describe("/api/orgs/[orgId]/members/[uid]/availability", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require a session", async () => {
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue(null);
+
+    const response = await GET(makeRequest(), { params });
+    expect(response.status).toBe(401);
+  });
+
+  it("should not let employees read other members' availability", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "bob" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+
+    const response = await GET(makeRequest(), { params });
+    expect(response.status).toBe(403);
+  });
+
+  it("should let managers read anyone's availability", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { getAvailability } = await import("@/lib/availability");
+    (getSession as any).mockResolvedValue({ uid: "bob" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager"));
+    (getAvailability as any).mockResolvedValue({ uid: "alice", weekly: [] });
+
+    const response = await GET(makeRequest(), { params });
+    expect(response.status).toBe(200);
+    expect(getAvailability).toHaveBeenCalledWith("org-1", "alice");
+  });
+
+  it("should only let members edit their own availability", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "bob" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("admin"));
+
+    const response = await PUT(makeRequest("PUT", { weekly: [] }), { params });
+    expect(response.status).toBe(403);
+    expect(setMock).not.toHaveBeenCalled();
+  });
+
+  it("should reject invalid windows", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+
+    const response = await PUT(
+      makeRequest("PUT", {
+        weekly: [{ day: "XX", start: "9am", end: "17:00" }],
+      }),
+      { params },
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it("should save the member's availability", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+
+    const response = await PUT(
+      makeRequest("PUT", {
+        timeZone: "Europe/Berlin",
+        weekly: [{ day: "MO", start: "09:00", end: "17:00" }],
+        exceptions: [{ date: "2025-06-02", available: false }],
+        maxHoursPerWeek: 20,
+      }),
+      { params },
+    );
+    expect(response.status).toBe(200);
+    expect(setMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        uid: "alice",
+        orgId: "org-1",
+        timeZone: "Europe/Berlin",
+        maxHoursPerWeek: 20,
+      }),
+    );
+    const body = await response.json();
+    expect(body.weekly).toEqual([{ day: "MO", start: "09:00", end: "17:00" }]);
+  });
+});
@@ -0,0 +1,76 @@
+// src/app/api/orgs/[orgId]/members/[uid]/availability/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { withGuard } from "@/lib/api-guard";
+import { hasPermission } from "@/lib/permissions";
+import { AvailabilityInputSchema } from "@/lib/types";
+import {
+  availabilityDoc,
+  getAvailability,
+  serializeAvailability,
+} from "@/lib/availability";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string; uid: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId, uid } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    // Members read their own availability; schedulers read anyone's
+    const access = await getOrgAccess(session.uid, orgId);
+    const isSelf = session.uid === uid;
+    if (!access || (!isSelf && !hasPermission(access, "availability.view"))) {
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to view this availability.",
+      );
+    }
+
+    return NextResponse.json(await getAvailability(orgId, uid));
+  } catch (error) {
+    console.error(`Error fetching availability for ${uid} in ${orgId}:`, error);
+    return internalError();
+  }
+}
+
+export const PUT = withGuard<{ orgId: string; uid: string }>(
+  { permission: "member" },
+  async (request, { params: { orgId, uid }, uid: callerUid }) => {
+    if (callerUid !== uid) {
+      return apiError(
+        403,
+        "forbidden",
+        "You can only edit your own availability.",
+      );
+    }
+
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = AvailabilityInputSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const availability = {
+        ...parsed.data,
+        uid,
+        orgId,
+        updatedAt: new Date(),
+      };
+      await availabilityDoc(orgId, uid).set(availability);
+
+      return NextResponse.json(serializeAvailability(availability));
+    } catch (error) {
+      console.error(`Error saving availability for ${uid} in ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
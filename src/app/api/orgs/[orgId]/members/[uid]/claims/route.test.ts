@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { GET } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+  getUserCustomClaims: vi.fn(),
+}));
+
+// Member docs found by the collection group query, as { orgId: role }
+let memberDocs: Record<string, string> = {};
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminDb: () => ({
+    collectionGroup: () => ({
+      where: () => ({
+        get: async () => ({
+          docs: Object.entries(memberDocs).map(([orgId, role]) => ({
+            ref: { parent: { parent: { id: orgId } } },
+            get: (field: string) => (field === "role" ? role : undefined),
+          })),
+        }),
+      }),
+    }),
+  }),
+}));
+
+const params = Promise.resolve({ orgId: "org-1", uid: "bob" });
+
+const makeRequest = () =>
+  new NextRequest("http://localhost:3000/api/orgs/org-1/members/bob/claims");
+
+describe("/api/orgs/[orgId]/members/[uid]/claims", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("admin"));
+    memberDocs = { "org-1": "employee", "org-2": "admin" };
+  });
+
+  it("should be limited to member managers", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager"));
+
+    const response = await GET(makeRequest(), { params });
+    expect(response.status).toBe(403);
+  });
+
+  it("should report no drift for claims that match", async () => {
+    const { getUserCustomClaims } = await import("@/lib/auth-utils");
+    (getUserCustomClaims as any).mockResolvedValue({
+      orgId: "org-2",
+      orgIds: ["org-2", "org-1"],
+      orgRole: "admin",
+      orgRoles: { "org-1": "employee", "org-2": "admin" },
+      admin: true,
+    });
+
+    const response = await GET(makeRequest(), { params });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      uid: "bob",
+      orgId: "org-1",
+      memberRole: "employee",
+      claimedRole: "employee",
+      primary: false,
+      drift: [],
+    });
+  });
+
+  it("should report only the drift involving the route's org", async () => {
+    const { getUserCustomClaims } = await import("@/lib/auth-utils");
+    (getUserCustomClaims as any).mockResolvedValue({
+      orgId: "org-1",
+      orgIds: ["org-1", "org-3"],
+      orgRole: "manager",
+      orgRoles: { "org-1": "manager", "org-3": "employee" },
+    });
+
+    const response = await GET(makeRequest(), { params });
+    const audit = await response.json();
+    expect(audit.drift).toEqual([
+      {
+        kind: "role-mismatch",
+        orgId: "org-1",
+        claimed: "manager",
+        actual: "employee",
+      },
+      {
+        kind: "primary-org",
+        claimed: { orgId: "org-1", orgRole: "manager" },
+        expected: { orgId: "org-1", orgRole: "employee" },
+      },
+    ]);
+  });
+
+  it("should report claims left behind after removal", async () => {
+    const { getUserCustomClaims } = await import("@/lib/auth-utils");
+    (getUserCustomClaims as any).mockResolvedValue({
+      orgIds: ["org-1"],
+      orgRoles: { "org-1": "employee" },
+    });
+    memberDocs = {};
+
+    const response = await GET(makeRequest(), { params });
+    expect((await response.json()).drift).toEqual([
+      { kind: "stale-org", orgId: "org-1" },
+    ]);
+  });
+
+  it("should not find users with no tie to the org", async () => {
+    const { getUserCustomClaims } = await import("@/lib/auth-utils");
+    (getUserCustomClaims as any).mockResolvedValue({});
+    memberDocs = {};
+
+    const response = await GET(makeRequest(), { params });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,42 @@
+// src/app/api/orgs/[orgId]/members/[uid]/claims/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { auditMemberClaims } from "@/lib/claims";
+import { apiError, internalError } from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string; uid: string }> };
+
+/**
+ * Whether a member's custom claims agree with their member doc in this
+ * org. Users who are neither members nor claim to be are not found.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId, uid } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access || !hasPermission(access, "members.manage")) {
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to audit member claims.",
+      );
+    }
+
+    const audit = await auditMemberClaims(orgId, uid);
+    if (!audit.memberRole && !audit.claimedRole && !audit.primary) {
+      return apiError(404, "not-found", "Member not found");
+    }
+    return NextResponse.json(audit);
+  } catch (error) {
+    console.error(`Error auditing claims for ${uid} in ${orgId}:`, error);
+    return internalError();
+  }
+}
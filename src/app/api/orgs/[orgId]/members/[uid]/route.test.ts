@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { DELETE, PATCH } from "./route";
+import { NextRequest } from "next/server";
+import { MemberError } from "@/lib/members";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminDb: vi.fn(),
+}));
+
+vi.mock("@/lib/members", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/members")>()),
+  removeOrgMember: vi.fn(),
+  updateOrgMember: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1", uid: "bob" });
+
+function makeRequest(method: string, body?: unknown) {
+  return new NextRequest("http://localhost:3000/api/orgs/org-1/members/bob", {
+    method,
+    headers: signedInHeaders({ "Content-Type": "application/json" }),
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+describe("/api/orgs/[orgId]/members/[uid]", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("admin"));
+  });
+
+  it("should only let member managers change members", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { updateOrgMember } = await import("@/lib/members");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager"));
+
+    const response = await PATCH(makeRequest("PATCH", { role: "admin" }), {
+      params,
+    });
+    expect(response.status).toBe(403);
+    expect(updateOrgMember).not.toHaveBeenCalled();
+  });
+
+  it("should reject an empty change", async () => {
+    const response = await PATCH(makeRequest("PATCH", {}), { params });
+    expect(response.status).toBe(400);
+    expect((await response.json()).code).toBe("validation-error");
+  });
+
+  it("should change the role as the caller", async () => {
+    const { updateOrgMember } = await import("@/lib/members");
+    (updateOrgMember as any).mockResolvedValue({ uid: "bob", role: "manager" });
+
+    const response = await PATCH(
+      makeRequest("PATCH", { role: "manager", venueIds: null }),
+      { params },
+    );
+    expect(response.status).toBe(200);
+    expect(updateOrgMember).toHaveBeenCalledWith(
+      "org-1",
+      "bob",
+      { role: "manager", venueIds: null },
+      { uid: "alice", access: accessAs("admin") },
+    );
+  });
+
+  it("should refuse to leave the org without an admin", async () => {
+    const { updateOrgMember } = await import("@/lib/members");
+    (updateOrgMember as any).mockRejectedValue(
+      new MemberError("An organization needs at least one admin", 409),
+    );
+
+    const response = await PATCH(makeRequest("PATCH", { suspended: true }), {
+      params,
+    });
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      code: "conflict",
+      message: "An organization needs at least one admin",
+    });
+  });
+
+  it("should log a suspension to the audit log", async () => {
+    const { updateOrgMember } = await import("@/lib/members");
+    const { auditSnapshot, recordAudit } = await import("@/lib/audit");
+    (auditSnapshot as any).mockResolvedValue({ uid: "bob", role: "member" });
+    (updateOrgMember as any).mockResolvedValue({
+      uid: "bob",
+      role: "member",
+      suspended: true,
+    });
+
+    const response = await PATCH(makeRequest("PATCH", { suspended: true }), {
+      params,
+    });
+    expect(response.status).toBe(200);
+    expect(recordAudit).toHaveBeenCalledWith(
+      expect.anything(),
+      { uid: "alice", email: undefined },
+      {
+        orgId: "org-1",
+        action: "member.suspend",
+        target: { type: "member", id: "bob" },
+        before: { uid: "bob", role: "member" },
+        after: { uid: "bob", role: "member", suspended: true },
+      },
+    );
+  });
+
+  it("should remove the member", async () => {
+    const { removeOrgMember } = await import("@/lib/members");
+
+    const response = await DELETE(makeRequest("DELETE"), { params });
+    expect(response.status).toBe(204);
+    expect(removeOrgMember).toHaveBeenCalledWith(
+      "org-1",
+      "bob",
+      accessAs("admin"),
+    );
+  });
+});
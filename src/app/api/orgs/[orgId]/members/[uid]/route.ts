@@ -0,0 +1,97 @@
+// src/app/api/orgs/[orgId]/members/[uid]/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import {
+  UpdateOrgMemberSchema,
+  type AuditAction,
+  type UpdateOrgMember,
+} from "@/lib/types";
+import { MemberError, removeOrgMember, updateOrgMember } from "@/lib/members";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+type RouteParams = { orgId: string; uid: string };
+
+const guard = {
+  permission: "members.manage",
+  forbidden: "You do not have permission to manage members.",
+} as const;
+
+// Suspensions stand out in the log even when the role changes with them
+function memberAction(patch: UpdateOrgMember): AuditAction {
+  if (patch.suspended === true) return "member.suspend";
+  if (patch.suspended === false) return "member.reinstate";
+  if (patch.role !== undefined) return "member.role-change";
+  return "member.update";
+}
+
+/**
+ * Change a member's role, venue scope or suspension.
+ */
+export const PATCH = withGuard<RouteParams>(
+  guard,
+  async (request, { params: { orgId, uid }, uid: actorUid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = UpdateOrgMemberSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const before = await auditSnapshot(`orgs/${orgId}/members/${uid}`);
+      const member = await updateOrgMember(orgId, uid, parsed.data, {
+        uid: actorUid,
+        access,
+      });
+      await recordAudit(
+        request,
+        { uid: actorUid, email },
+        {
+          orgId,
+          action: memberAction(parsed.data),
+          target: { type: "member", id: uid },
+          before,
+          after: member,
+        },
+      );
+      return NextResponse.json(member);
+    } catch (error) {
+      if (error instanceof MemberError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error updating member ${uid} in org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
+
+/**
+ * Remove a member and sign them out everywhere.
+ */
+export const DELETE = withGuard<RouteParams>(
+  guard,
+  async (request, { params: { orgId, uid }, uid: actorUid, email, access }) => {
+    try {
+      const before = await auditSnapshot(`orgs/${orgId}/members/${uid}`);
+      await removeOrgMember(orgId, uid, access);
+      await recordAudit(
+        request,
+        { uid: actorUid, email },
+        {
+          orgId,
+          action: "member.remove",
+          target: { type: "member", id: uid },
+          before,
+        },
+      );
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      if (error instanceof MemberError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error removing member ${uid} from org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -3,32 +3,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
 import { adminDb } from "@/lib/firebase.server";
+import { getOrgAccess } from "@/lib/auth-utils";
 import { OrgMember } from "@/lib/types";
+import { apiError, internalError } from "@/lib/api-error";
 
-export async function GET(request: NextRequest, context: unknown) {
-  const { params } = context as { params: { orgId: string } };
+type RouteContext = { params: Promise<{ orgId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId } = await params;
   try {
     const session = await getSession(request);
     if (!session?.uid) {
-      return new NextResponse("Unauthorized", { status: 401 });
+      return apiError(401, "unauthenticated", "Authentication required.");
     }
 
-    const { orgId } = params;
-
-    // Security Check: Verify the requester is a member of the organization
-    const requesterMemberDoc = await adminDb()
-      .collection(`orgs/${orgId}/members`)
-      .doc(session.uid)
-      .get();
-
-    if (!requesterMemberDoc.exists) {
-      return new NextResponse(
-        "Forbidden: You are not a member of this organization.",
-        { status: 403 },
+    // Security Check: Verify the requester is an active member of the organization
+    if (!(await getOrgAccess(session.uid, orgId))) {
+      return apiError(
+        403,
+        "forbidden",
+        "You are not a member of this organization.",
       );
     }
 
-    // Fetch all members of the organization
+    // Fetch all members of the organization, suspended ones included so
+    // their past shifts and punches keep a name
     const membersSnapshot = await adminDb()
       .collection(`orgs/${orgId}/members`)
       .get();
@@ -38,7 +37,7 @@ export async function GET(request: NextRequest, context: unknown) {
 
     return NextResponse.json(members);
   } catch (error) {
-    console.error(`Error fetching members for org ${params.orgId}:`, error);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    console.error(`Error fetching members for org ${orgId}:`, error);
+    return internalError();
   }
 }
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/open-shifts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/open-shifts")>()),
+  claimOpenShift: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1", shiftId: "shift-1" });
+
+function makeRequest() {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/open-shifts/shift-1/claim",
+    { method: "POST", headers: signedInHeaders() },
+  );
+}
+
+describe("/api/orgs/[orgId]/open-shifts/[shiftId]/claim", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require a session", async () => {
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue(null);
+
+    const response = await POST(makeRequest(), { params });
+    expect(response.status).toBe(401);
+  });
+
+  it("should reject non-members", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { claimOpenShift } = await import("@/lib/open-shifts");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(null);
+
+    const response = await POST(makeRequest(), { params });
+    expect(response.status).toBe(403);
+    expect(claimOpenShift).not.toHaveBeenCalled();
+  });
+
+  it("should answer 409 when the last slot is gone", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { claimOpenShift, OpenShiftError } = await import(
+      "@/lib/open-shifts"
+    );
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+    (claimOpenShift as any).mockRejectedValue(
+      new OpenShiftError("No open slots left", 409),
+    );
+
+    const response = await POST(makeRequest(), { params });
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      code: "conflict",
+      message: "No open slots left",
+    });
+  });
+
+  it("should claim the shift for the signed-in member", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { claimOpenShift } = await import("@/lib/open-shifts");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+    (claimOpenShift as any).mockResolvedValue({
+      id: "shift-1_alice",
+      status: "approved",
+    });
+
+    const response = await POST(makeRequest(), { params });
+    expect(response.status).toBe(201);
+    expect(claimOpenShift).toHaveBeenCalledWith("org-1", "shift-1", "alice");
+  });
+});
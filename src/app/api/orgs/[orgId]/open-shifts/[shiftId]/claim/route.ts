@@ -0,0 +1,25 @@
+// src/app/api/orgs/[orgId]/open-shifts/[shiftId]/claim/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { OpenShiftError, claimOpenShift } from "@/lib/open-shifts";
+import { internalError, statusError } from "@/lib/api-error";
+
+/**
+ * Claim a slot on an open shift for the signed-in member.
+ */
+export const POST = withGuard<{ orgId: string; shiftId: string }>(
+  { permission: "member" },
+  async (_request, { params: { orgId, shiftId }, uid }) => {
+    try {
+      const claim = await claimOpenShift(orgId, shiftId, uid);
+      return NextResponse.json(claim, { status: 201 });
+    } catch (error) {
+      if (error instanceof OpenShiftError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error claiming shift ${shiftId} in org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
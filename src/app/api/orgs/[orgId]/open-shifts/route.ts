@@ -0,0 +1,39 @@
+// src/app/api/orgs/[orgId]/open-shifts/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { listOpenShifts } from "@/lib/open-shifts";
+import { apiError, internalError } from "@/lib/api-error";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access) {
+      return apiError(
+        403,
+        "forbidden",
+        "You are not a member of this organization.",
+      );
+    }
+
+    const shifts = await listOpenShifts(orgId, {
+      uid: session.uid,
+      isManager: hasPermission(access, "requests.review"),
+    });
+    return NextResponse.json(shifts);
+  } catch (error) {
+    console.error(`Error listing open shifts for org ${orgId}:`, error);
+    return internalError();
+  }
+}
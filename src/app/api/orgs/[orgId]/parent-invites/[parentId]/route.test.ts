@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminDb: vi.fn(),
+}));
+
+vi.mock("@/lib/parents", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/parents")>()),
+  respondToLinkInvite: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1", parentId: "parent-1" });
+
+function makeRequest(body: unknown) {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/parent-invites/parent-1",
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+    },
+  );
+}
+
+async function signInAs(uid: string, isAdmin: boolean) {
+  const { getSession } = await import("@/lib/session");
+  const { getOrgAccess } = await import("@/lib/auth-utils");
+  (getSession as any).mockResolvedValue({ uid });
+  (getOrgAccess as any).mockResolvedValue(
+    accessAs(isAdmin ? "admin" : "employee"),
+  );
+}
+
+describe("/api/orgs/[orgId]/parent-invites/[parentId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should only let org admins answer invites", async () => {
+    const { respondToLinkInvite } = await import("@/lib/parents");
+    await signInAs("manager-1", false);
+
+    const response = await POST(makeRequest({ action: "accept" }), {
+      params,
+    });
+
+    expect(response.status).toBe(403);
+    expect(respondToLinkInvite).not.toHaveBeenCalled();
+  });
+
+  it("should reject an unknown action", async () => {
+    await signInAs("admin-1", true);
+
+    const response = await POST(makeRequest({ action: "maybe" }), {
+      params,
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("should accept the invite as the admin", async () => {
+    const { respondToLinkInvite } = await import("@/lib/parents");
+    await signInAs("admin-1", true);
+    (respondToLinkInvite as any).mockResolvedValue({
+      parentId: "parent-1",
+      orgId: "org-1",
+      status: "accepted",
+    });
+
+    const response = await POST(makeRequest({ action: "accept" }), {
+      params,
+    });
+
+    expect(response.status).toBe(200);
+    expect(respondToLinkInvite).toHaveBeenCalledWith(
+      "org-1",
+      "parent-1",
+      true,
+      "admin-1",
+    );
+  });
+
+  it("should return 409 when the org already has a parent", async () => {
+    const { respondToLinkInvite, SubOrgLinkError } = await import(
+      "@/lib/parents"
+    );
+    await signInAs("admin-1", true);
+    (respondToLinkInvite as any).mockRejectedValue(
+      new SubOrgLinkError("Organization already has a parent", 409),
+    );
+
+    const response = await POST(makeRequest({ action: "accept" }), {
+      params,
+    });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      code: "conflict",
+      message: "Organization already has a parent",
+    });
+  });
+});
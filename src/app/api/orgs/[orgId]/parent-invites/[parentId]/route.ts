@@ -0,0 +1,51 @@
+// src/app/api/orgs/[orgId]/parent-invites/[parentId]/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { SubOrgLinkError, respondToLinkInvite } from "@/lib/parents";
+import { RespondToLinkInviteSchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+/**
+ * Accept or decline a parent's invite. Accepting links the org and starts
+ * billing the parent under the invite's terms.
+ */
+export const POST = withGuard<{ orgId: string; parentId: string }>(
+  {
+    permission: "org.manage",
+    forbidden: "Only admins can manage the parent organization.",
+  },
+  async (request, { params: { orgId, parentId }, uid, email }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = RespondToLinkInviteSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const accept = parsed.data.action === "accept";
+      const invite = await respondToLinkInvite(orgId, parentId, accept, uid);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: accept ? "parent.link" : "parent.decline",
+          target: { type: "parent", id: parentId },
+          after: invite,
+        },
+      );
+      return NextResponse.json(invite);
+    } catch (error) {
+      if (error instanceof SubOrgLinkError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(
+        `Error answering parent ${parentId} invite for org ${orgId}:`,
+        error,
+      );
+      return internalError();
+    }
+  },
+);
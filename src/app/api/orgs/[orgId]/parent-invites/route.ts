@@ -0,0 +1,36 @@
+// src/app/api/orgs/[orgId]/parent-invites/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { verifyOrgAccess } from "@/lib/auth-utils";
+import { getOrgParentLink } from "@/lib/parents";
+import { apiError, internalError } from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string }> };
+
+/**
+ * The org's parent, if linked, and the parent invites awaiting an answer.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const isAllowed = await verifyOrgAccess(session.uid, orgId, "org.manage");
+    if (!isAllowed) {
+      return apiError(
+        403,
+        "forbidden",
+        "Only admins can manage the parent organization.",
+      );
+    }
+
+    return NextResponse.json(await getOrgParentLink(orgId));
+  } catch (error) {
+    console.error(`Error loading parent invites for org ${orgId}:`, error);
+    return internalError();
+  }
+}
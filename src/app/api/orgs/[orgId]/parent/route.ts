@@ -0,0 +1,42 @@
+// src/app/api/orgs/[orgId]/parent/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import { SubOrgLinkError, unlinkSubOrg } from "@/lib/parents";
+import { internalError, statusError } from "@/lib/api-error";
+
+/**
+ * Unlink the org from its parent. Attendance approved afterwards is no
+ * longer billed to the parent.
+ */
+export const DELETE = withGuard<{ orgId: string }>(
+  {
+    permission: "org.manage",
+    forbidden: "Only admins can manage the parent organization.",
+  },
+  async (request, { params: { orgId }, uid, email }) => {
+    try {
+      const org = await auditSnapshot(`orgs/${orgId}`);
+      await unlinkSubOrg(orgId, uid);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "parent.unlink",
+          target: { type: "org", id: orgId },
+          before: { parentId: org?.parentId },
+          after: { parentId: null },
+        },
+      );
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      if (error instanceof SubOrgLinkError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error unlinking org ${orgId} from its parent:`, error);
+      return internalError();
+    }
+  },
+);
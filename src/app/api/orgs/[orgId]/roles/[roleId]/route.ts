@@ -0,0 +1,92 @@
+// src/app/api/orgs/[orgId]/roles/[roleId]/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import { canGrant } from "@/lib/permissions";
+import { UpdateOrgRoleSchema } from "@/lib/types";
+import { deleteOrgRole, RoleError, updateOrgRole } from "@/lib/roles";
+import {
+  apiError,
+  internalError,
+  statusError,
+  validationError,
+} from "@/lib/api-error";
+
+type RouteParams = { orgId: string; roleId: string };
+
+const guard = {
+  permission: "roles.manage",
+  forbidden: "You do not have permission to manage roles.",
+} as const;
+
+export const PATCH = withGuard<RouteParams>(
+  guard,
+  async (request, { params: { orgId, roleId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = UpdateOrgRoleSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+      if (!canGrant(access, parsed.data.permissions ?? [])) {
+        return apiError(
+          403,
+          "forbidden",
+          "A role cannot grant permissions you do not hold.",
+        );
+      }
+
+      const before = await auditSnapshot(`orgs/${orgId}/roles/${roleId}`);
+      const role = await updateOrgRole(orgId, roleId, parsed.data);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "role.update",
+          target: { type: "role", id: roleId },
+          before,
+          after: role,
+        },
+      );
+      return NextResponse.json(role);
+    } catch (error) {
+      if (error instanceof RoleError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error updating role ${roleId} in org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
+
+/**
+ * Delete a custom role. Members holding it must be given another role first.
+ */
+export const DELETE = withGuard<RouteParams>(
+  guard,
+  async (request, { params: { orgId, roleId }, uid, email }) => {
+    try {
+      const before = await auditSnapshot(`orgs/${orgId}/roles/${roleId}`);
+      await deleteOrgRole(orgId, roleId);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "role.delete",
+          target: { type: "role", id: roleId },
+          before,
+        },
+      );
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      if (error instanceof RoleError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error deleting role ${roleId} in org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { signedInHeaders } from "@/test/api";
+import { RoleError } from "@/lib/roles";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminDb: vi.fn(),
+}));
+
+vi.mock("@/lib/roles", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/roles")>()),
+  createOrgRole: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1" });
+
+const roleManager = {
+  role: "people-ops",
+  permissions: ["roles.manage", "schedule.edit", "attendance.approve"],
+  venueIds: null,
+};
+
+function makeRequest(body: unknown) {
+  return new NextRequest("http://localhost:3000/api/orgs/org-1/roles", {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: signedInHeaders({ "Content-Type": "application/json" }),
+  });
+}
+
+const venueLead = {
+  id: "venue-lead",
+  name: "Venue lead",
+  permissions: ["schedule.edit", "attendance.approve"],
+};
+
+describe("/api/orgs/[orgId]/roles", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should only let role managers create roles", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { createOrgRole } = await import("@/lib/roles");
+    (getSession as any).mockResolvedValue({ uid: "boss" });
+    (getOrgAccess as any).mockResolvedValue({
+      role: "manager",
+      permissions: ["schedule.edit"],
+      venueIds: null,
+    });
+
+    const response = await POST(makeRequest(venueLead), { params });
+    expect(response.status).toBe(403);
+    expect(createOrgRole).not.toHaveBeenCalled();
+  });
+
+  it("should refuse to redefine a built-in role", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "boss" });
+    (getOrgAccess as any).mockResolvedValue(roleManager);
+
+    const response = await POST(makeRequest({ ...venueLead, id: "manager" }), {
+      params,
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("should not grant permissions the creator lacks", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { createOrgRole } = await import("@/lib/roles");
+    (getSession as any).mockResolvedValue({ uid: "boss" });
+    (getOrgAccess as any).mockResolvedValue(roleManager);
+
+    const response = await POST(
+      makeRequest({ ...venueLead, permissions: ["invites.manage"] }),
+      { params },
+    );
+    expect(response.status).toBe(403);
+    expect(createOrgRole).not.toHaveBeenCalled();
+  });
+
+  it("should create the role and report duplicates", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { createOrgRole } = await import("@/lib/roles");
+    (getSession as any).mockResolvedValue({ uid: "boss" });
+    (getOrgAccess as any).mockResolvedValue(roleManager);
+    (createOrgRole as any).mockResolvedValueOnce({
+      ...venueLead,
+      builtIn: false,
+    });
+
+    const response = await POST(makeRequest(venueLead), { params });
+    expect(response.status).toBe(201);
+    expect(createOrgRole).toHaveBeenCalledWith("org-1", venueLead, "boss");
+
+    (createOrgRole as any).mockRejectedValueOnce(
+      new RoleError("A role with this id already exists", 409),
+    );
+    const duplicate = await POST(makeRequest(venueLead), { params });
+    expect(duplicate.status).toBe(409);
+  });
+});
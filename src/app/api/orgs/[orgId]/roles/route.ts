@@ -0,0 +1,87 @@
+// src/app/api/orgs/[orgId]/roles/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { canGrant } from "@/lib/permissions";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { CreateOrgRoleSchema } from "@/lib/types";
+import { createOrgRole, listOrgRoles, RoleError } from "@/lib/roles";
+import {
+  apiError,
+  internalError,
+  statusError,
+  validationError,
+} from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string }> };
+
+/**
+ * Built-in and custom roles, for any member picking or reading roles.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access) {
+      return apiError(
+        403,
+        "forbidden",
+        "You are not a member of this organization.",
+      );
+    }
+
+    return NextResponse.json(await listOrgRoles(orgId));
+  } catch (error) {
+    console.error(`Error listing roles for org ${orgId}:`, error);
+    return internalError();
+  }
+}
+
+export const POST = withGuard<{ orgId: string }>(
+  {
+    permission: "roles.manage",
+    forbidden: "You do not have permission to manage roles.",
+  },
+  async (request, { params: { orgId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = CreateOrgRoleSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+      if (!canGrant(access, parsed.data.permissions)) {
+        return apiError(
+          403,
+          "forbidden",
+          "A role cannot grant permissions you do not hold.",
+        );
+      }
+
+      const role = await createOrgRole(orgId, parsed.data, uid);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "role.create",
+          target: { type: "role", id: role.id },
+          after: role,
+        },
+      );
+      return NextResponse.json(role, { status: 201 });
+    } catch (error) {
+      if (error instanceof RoleError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error creating role for org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/schedule-periods", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/schedule-periods")>()),
+  lockSchedulePeriod: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1", periodId: "2025-06-02" });
+
+function makeRequest() {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/schedule-periods/2025-06-02/lock",
+    { method: "POST", headers: signedInHeaders() },
+  );
+}
+
+describe("/api/orgs/[orgId]/schedule-periods/[periodId]/lock", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+  });
+
+  it("should refuse managers limited to some venues", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { lockSchedulePeriod } = await import("@/lib/schedule-periods");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager", ["venue-1"]));
+
+    const response = await POST(makeRequest(), { params });
+    expect(response.status).toBe(403);
+    expect(lockSchedulePeriod).not.toHaveBeenCalled();
+  });
+
+  it("should lock for managers of every venue", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { lockSchedulePeriod } = await import("@/lib/schedule-periods");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager"));
+    (lockSchedulePeriod as any).mockResolvedValue({ id: "2025-06-02" });
+
+    const response = await POST(makeRequest(), { params });
+    expect(response.status).toBe(200);
+  });
+});
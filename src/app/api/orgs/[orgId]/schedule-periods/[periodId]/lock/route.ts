@@ -0,0 +1,45 @@
+// src/app/api/orgs/[orgId]/schedule-periods/[periodId]/lock/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import { lockSchedulePeriod } from "@/lib/schedule-periods";
+import { apiError, internalError } from "@/lib/api-error";
+
+export const POST = withGuard<{ orgId: string; periodId: string }>(
+  {
+    permission: "schedule.edit",
+    forbidden: "You do not have permission to lock schedules.",
+    allVenues: true,
+  },
+  async (request, { params: { orgId, periodId }, uid, email }) => {
+    try {
+      const before = await auditSnapshot(
+        `orgs/${orgId}/schedulePeriods/${periodId}`,
+      );
+      const period = await lockSchedulePeriod(orgId, periodId, uid);
+      if (!period) {
+        return apiError(
+          409,
+          "conflict",
+          "Only published periods can be locked",
+        );
+      }
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "schedule-period.lock",
+          target: { type: "schedule-period", id: periodId },
+          before,
+          after: period,
+        },
+      );
+      return NextResponse.json(period);
+    } catch (error) {
+      console.error(`Error locking schedule period ${periodId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,65 @@
+// src/app/api/orgs/[orgId]/schedule-periods/[periodId]/publish/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import { SchedulePeriodRangeSchema } from "@/lib/types";
+import {
+  SchedulePeriodError,
+  SchedulePeriodLockedError,
+  publishSchedulePeriod,
+} from "@/lib/schedule-periods";
+import {
+  apiError,
+  internalError,
+  statusError,
+  validationError,
+} from "@/lib/api-error";
+
+export const POST = withGuard<{ orgId: string; periodId: string }>(
+  {
+    permission: "schedule.edit",
+    forbidden: "You do not have permission to publish schedules.",
+    allVenues: true,
+  },
+  async (request, { params: { orgId, periodId }, uid, email }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = SchedulePeriodRangeSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const before = await auditSnapshot(
+        `orgs/${orgId}/schedulePeriods/${periodId}`,
+      );
+      const period = await publishSchedulePeriod(
+        orgId,
+        periodId,
+        parsed.data,
+        uid,
+      );
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "schedule-period.publish",
+          target: { type: "schedule-period", id: periodId },
+          before,
+          after: period,
+        },
+      );
+      return NextResponse.json(period);
+    } catch (error) {
+      if (error instanceof SchedulePeriodLockedError) {
+        return apiError(409, "conflict", error.message);
+      }
+      if (error instanceof SchedulePeriodError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error publishing schedule period ${periodId}:`, error);
+      return internalError();
+    }
+  },
+);
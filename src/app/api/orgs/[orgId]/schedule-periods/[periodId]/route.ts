@@ -0,0 +1,55 @@
+// src/app/api/orgs/[orgId]/schedule-periods/[periodId]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { SchedulePeriodRangeSchema, SchedulePeriodResponse } from "@/lib/types";
+import {
+  getSchedulePeriod,
+  getSchedulePeriodDiff,
+} from "@/lib/schedule-periods";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string; periodId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId, periodId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access) {
+      return apiError(
+        403,
+        "forbidden",
+        "You are not a member of this organization.",
+      );
+    }
+
+    const parsed = SchedulePeriodRangeSchema.safeParse({
+      start: request.nextUrl.searchParams.get("start"),
+      end: request.nextUrl.searchParams.get("end"),
+    });
+    if (!parsed.success) {
+      return validationError(parsed.error);
+    }
+
+    const period = await getSchedulePeriod(orgId, periodId, parsed.data);
+    const body: SchedulePeriodResponse = { period };
+    if (hasPermission(access, "schedule.edit")) {
+      body.diff = await getSchedulePeriodDiff(orgId, periodId, {
+        start: new Date(period.start),
+        end: new Date(period.end),
+      });
+    }
+
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error(`Error fetching schedule period ${periodId}:`, error);
+    return internalError();
+  }
+}
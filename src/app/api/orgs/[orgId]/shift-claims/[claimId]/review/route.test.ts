@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+const { docs, tx } = vi.hoisted(() => {
+  const docs: Record<string, Record<string, unknown>> = {};
+  const snap = (path: string) => ({
+    exists: path in docs,
+    data: () => docs[path],
+    get: (field: string) => docs[path]?.[field],
+  });
+  return {
+    docs,
+    tx: {
+      get: vi.fn(async (ref: { path: string }) => snap(ref.path)),
+      update: vi.fn(),
+    },
+  };
+});
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminDb: () => ({
+    collection: (path: string) => ({
+      doc: (id: string) => ({
+        path: `${path}/${id}`,
+        get: () => tx.get({ path: `${path}/${id}` }),
+      }),
+    }),
+    runTransaction: (fn: (t: typeof tx) => unknown) => fn(tx),
+  }),
+}));
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/schedule-periods", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/schedule-periods")>()),
+  findLockedPeriod: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1", claimId: "shift-1_bob" });
+
+function makeRequest(approved: boolean) {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/shift-claims/shift-1_bob/review",
+    {
+      method: "POST",
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify({ approved }),
+    },
+  );
+}
+
+describe("/api/orgs/[orgId]/shift-claims/[claimId]/review", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    for (const path of Object.keys(docs)) delete docs[path];
+    docs["orgs/org-1/shiftClaims/shift-1_bob"] = {
+      id: "shift-1_bob",
+      shiftId: "shift-1",
+      uid: "bob",
+      status: "pending",
+    };
+    docs["orgs/org-1/shifts/shift-1"] = {
+      id: "shift-1",
+      venueId: "venue-2",
+      start: new Date("2025-06-02T16:00:00.000Z"),
+      assignedTo: [],
+      openSlots: 1,
+    };
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+  });
+
+  it("should refuse claims on shifts at other venues", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager", ["venue-1"]));
+
+    for (const approved of [true, false]) {
+      const response = await POST(makeRequest(approved), { params });
+      expect(response.status).toBe(403);
+    }
+    expect(tx.update).not.toHaveBeenCalled();
+  });
+
+  it("should let managers at the shift's venue reject", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager", ["venue-2"]));
+
+    const response = await POST(makeRequest(false), { params });
+    expect(response.status).toBe(200);
+    expect((await response.json()).status).toBe("rejected");
+  });
+});
@@ -0,0 +1,55 @@
+// src/app/api/orgs/[orgId]/shift-claims/[claimId]/review/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import { ReviewShiftClaimSchema } from "@/lib/types";
+import { OpenShiftError, reviewShiftClaim } from "@/lib/open-shifts";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+/**
+ * Approve or reject a pending claim on an open shift.
+ */
+export const POST = withGuard<{ orgId: string; claimId: string }>(
+  {
+    permission: "requests.review",
+    forbidden: "You do not have permission to review shift claims.",
+  },
+  async (request, { params: { orgId, claimId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = ReviewShiftClaimSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const before = await auditSnapshot(
+        `orgs/${orgId}/shiftClaims/${claimId}`,
+      );
+      const updated = await reviewShiftClaim(
+        orgId,
+        claimId,
+        { uid, access },
+        parsed.data.approved,
+      );
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "shift-claim.review",
+          target: { type: "shift-claim", id: claimId },
+          before,
+          after: updated,
+        },
+      );
+      return NextResponse.json(updated);
+    } catch (error) {
+      if (error instanceof OpenShiftError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error reviewing shift claim ${claimId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,22 @@
+// src/app/api/orgs/[orgId]/shift-requests/[requestId]/cancel/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { ShiftRequestError, cancelShiftRequest } from "@/lib/shift-requests";
+import { internalError, statusError } from "@/lib/api-error";
+
+export const POST = withGuard<{ orgId: string; requestId: string }>(
+  { permission: "member" },
+  async (_request, { params: { orgId, requestId }, uid }) => {
+    try {
+      const updated = await cancelShiftRequest(orgId, requestId, uid);
+      return NextResponse.json(updated);
+    } catch (error) {
+      if (error instanceof ShiftRequestError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error cancelling shift request ${requestId}:`, error);
+      return internalError();
+    }
+  },
+);
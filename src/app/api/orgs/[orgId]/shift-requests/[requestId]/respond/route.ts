@@ -0,0 +1,37 @@
+// src/app/api/orgs/[orgId]/shift-requests/[requestId]/respond/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { RespondToSwapSchema } from "@/lib/types";
+import { ShiftRequestError, respondToSwap } from "@/lib/shift-requests";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+/**
+ * The member a swap was offered to accepts or declines it.
+ */
+export const POST = withGuard<{ orgId: string; requestId: string }>(
+  { permission: "member" },
+  async (request, { params: { orgId, requestId }, uid }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = RespondToSwapSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const updated = await respondToSwap(
+        orgId,
+        requestId,
+        uid,
+        parsed.data.accept,
+      );
+      return NextResponse.json(updated);
+    } catch (error) {
+      if (error instanceof ShiftRequestError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error responding to shift request ${requestId}:`, error);
+      return internalError();
+    }
+  },
+);
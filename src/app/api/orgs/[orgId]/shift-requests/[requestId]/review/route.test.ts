@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+const { docs, tx } = vi.hoisted(() => {
+  const docs: Record<string, Record<string, unknown>> = {};
+  const snap = (path: string) => ({
+    exists: path in docs,
+    data: () => docs[path],
+    get: (field: string) => docs[path]?.[field],
+  });
+  return {
+    docs,
+    tx: {
+      get: vi.fn(async (ref: { path: string }) => snap(ref.path)),
+      update: vi.fn(),
+    },
+  };
+});
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminDb: () => ({
+    collection: (path: string) => ({
+      doc: (id: string) => ({
+        path: `${path}/${id}`,
+        get: () => tx.get({ path: `${path}/${id}` }),
+      }),
+    }),
+    runTransaction: (fn: (t: typeof tx) => unknown) => fn(tx),
+  }),
+}));
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/schedule-periods", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/schedule-periods")>()),
+  findLockedPeriod: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1", requestId: "request-1" });
+
+function makeRequest(approved: boolean) {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/shift-requests/request-1/review",
+    {
+      method: "POST",
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify({ approved }),
+    },
+  );
+}
+
+describe("/api/orgs/[orgId]/shift-requests/[requestId]/review", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    for (const path of Object.keys(docs)) delete docs[path];
+    docs["orgs/org-1/shiftRequests/request-1"] = {
+      id: "request-1",
+      type: "drop",
+      status: "pending",
+      requestedBy: "bob",
+      shiftId: "shift-1",
+    };
+    docs["orgs/org-1/shifts/shift-1"] = {
+      id: "shift-1",
+      venueId: "venue-2",
+      start: new Date("2025-06-02T16:00:00.000Z"),
+      assignedTo: ["bob"],
+    };
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+  });
+
+  it("should refuse requests on shifts at other venues", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager", ["venue-1"]));
+
+    for (const approved of [true, false]) {
+      const response = await POST(makeRequest(approved), { params });
+      expect(response.status).toBe(403);
+    }
+    expect(tx.update).not.toHaveBeenCalled();
+  });
+
+  it("should let managers at the shift's venue approve", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager", ["venue-2"]));
+
+    const response = await POST(makeRequest(true), { params });
+    expect(response.status).toBe(200);
+    expect(tx.update).toHaveBeenCalledWith(
+      { path: "orgs/org-1/shifts/shift-1", get: expect.any(Function) },
+      expect.objectContaining({ assignedTo: [] }),
+    );
+  });
+});
@@ -0,0 +1,55 @@
+// src/app/api/orgs/[orgId]/shift-requests/[requestId]/review/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import { ReviewShiftRequestSchema } from "@/lib/types";
+import { ShiftRequestError, reviewShiftRequest } from "@/lib/shift-requests";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+/**
+ * Approve or deny a pending request; approval updates the shifts.
+ */
+export const POST = withGuard<{ orgId: string; requestId: string }>(
+  {
+    permission: "requests.review",
+    forbidden: "You do not have permission to review requests.",
+  },
+  async (request, { params: { orgId, requestId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = ReviewShiftRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const before = await auditSnapshot(
+        `orgs/${orgId}/shiftRequests/${requestId}`,
+      );
+      const updated = await reviewShiftRequest(
+        orgId,
+        requestId,
+        { uid, access },
+        parsed.data,
+      );
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "shift-request.review",
+          target: { type: "shift-request", id: requestId },
+          before,
+          after: updated,
+        },
+      );
+      return NextResponse.json(updated);
+    } catch (error) {
+      if (error instanceof ShiftRequestError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error reviewing shift request ${requestId}:`, error);
+      return internalError();
+    }
+  },
+);
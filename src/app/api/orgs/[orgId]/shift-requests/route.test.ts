@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { GET, POST } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/shift-requests", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/shift-requests")>()),
+  createShiftRequest: vi.fn(),
+  listShiftRequests: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1" });
+
+function makeRequest(method = "GET", body?: unknown, query = "") {
+  return new NextRequest(
+    `http://localhost:3000/api/orgs/org-1/shift-requests${query}`,
+    {
+      method,
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    },
+  );
+}
+
+describe("/api/orgs/[orgId]/shift-requests", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require a session", async () => {
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue(null);
+
+    const response = await GET(makeRequest(), { params });
+    expect(response.status).toBe(401);
+  });
+
+  it("should reject non-members", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(null);
+
+    const response = await POST(makeRequest("POST", { type: "drop" }), {
+      params,
+    });
+    expect(response.status).toBe(403);
+  });
+
+  it("should list only the employee's own requests", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { listShiftRequests } = await import("@/lib/shift-requests");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+    (listShiftRequests as any).mockResolvedValue([]);
+
+    const response = await GET(
+      makeRequest("GET", undefined, "?status=pending"),
+      {
+        params,
+      },
+    );
+    expect(response.status).toBe(200);
+    expect(listShiftRequests).toHaveBeenCalledWith(
+      "org-1",
+      { uid: "alice", isManager: false },
+      "pending",
+    );
+  });
+
+  it("should reject a swap without a partner", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { createShiftRequest } = await import("@/lib/shift-requests");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+
+    const response = await POST(
+      makeRequest("POST", { type: "swap", shiftId: "shift-1" }),
+      { params },
+    );
+    expect(response.status).toBe(400);
+    expect(createShiftRequest).not.toHaveBeenCalled();
+  });
+
+  it("should reject time off ending before it starts", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+
+    const response = await POST(
+      makeRequest("POST", {
+        type: "time_off",
+        startDate: "2025-06-10",
+        endDate: "2025-06-09",
+      }),
+      { params },
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it("should map workflow errors to their status", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { createShiftRequest, ShiftRequestError } = await import(
+      "@/lib/shift-requests"
+    );
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+    (createShiftRequest as any).mockRejectedValue(
+      new ShiftRequestError("You are not assigned to this shift", 409),
+    );
+
+    const response = await POST(
+      makeRequest("POST", { type: "drop", shiftId: "shift-1" }),
+      { params },
+    );
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      code: "conflict",
+      message: "You are not assigned to this shift",
+    });
+  });
+
+  it("should create the request for the signed-in member", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { createShiftRequest } = await import("@/lib/shift-requests");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+    (createShiftRequest as any).mockResolvedValue({
+      id: "req-1",
+      status: "awaiting_peer",
+    });
+
+    const response = await POST(
+      makeRequest("POST", {
+        type: "swap",
+        shiftId: "shift-1",
+        targetUid: "bob",
+      }),
+      { params },
+    );
+    expect(response.status).toBe(201);
+    expect(createShiftRequest).toHaveBeenCalledWith(
+      "org-1",
+      "alice",
+      expect.objectContaining({ type: "swap", targetUid: "bob" }),
+    );
+  });
+});
@@ -0,0 +1,85 @@
+// src/app/api/orgs/[orgId]/shift-requests/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { withGuard } from "@/lib/api-guard";
+import { hasPermission } from "@/lib/permissions";
+import {
+  CreateShiftRequestSchema,
+  ShiftRequestListQuerySchema,
+} from "@/lib/types";
+import {
+  ShiftRequestError,
+  createShiftRequest,
+  listShiftRequests,
+} from "@/lib/shift-requests";
+import {
+  apiError,
+  internalError,
+  statusError,
+  validationError,
+} from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access) {
+      return apiError(
+        403,
+        "forbidden",
+        "You are not a member of this organization.",
+      );
+    }
+
+    const parsed = ShiftRequestListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+    if (!parsed.success) {
+      return validationError(parsed.error);
+    }
+
+    const requests = await listShiftRequests(
+      orgId,
+      {
+        uid: session.uid,
+        isManager: hasPermission(access, "requests.review"),
+      },
+      parsed.data.status,
+    );
+    return NextResponse.json(requests);
+  } catch (error) {
+    console.error(`Error listing shift requests for org ${orgId}:`, error);
+    return internalError();
+  }
+}
+
+export const POST = withGuard<{ orgId: string }>(
+  { permission: "member" },
+  async (request, { params: { orgId }, uid }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = CreateShiftRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const created = await createShiftRequest(orgId, uid, parsed.data);
+      return NextResponse.json(created, { status: 201 });
+    } catch (error) {
+      if (error instanceof ShiftRequestError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error creating shift request for org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,180 @@
+// src/app/api/orgs/[orgId]/shift-templates/[templateId]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { verifyOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import {
+  ShiftTemplateInputSchema,
+  UpdateShiftTemplateSchema,
+  type ShiftTemplate,
+} from "@/lib/types";
+import {
+  propagateTemplate,
+  serializeTemplate,
+  templatesCollection,
+} from "@/lib/shift-templates";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string; templateId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId, templateId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const isAllowed = await verifyOrgAccess(
+      session.uid,
+      orgId,
+      "schedule.edit",
+    );
+    if (!isAllowed) {
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to view shift templates.",
+      );
+    }
+
+    const snap = await templatesCollection(orgId).doc(templateId).get();
+    if (!snap.exists) {
+      return apiError(404, "not-found", "Shift template not found");
+    }
+
+    return NextResponse.json(
+      serializeTemplate({ ...snap.data(), id: snap.id }),
+    );
+  } catch (error) {
+    console.error(`Error fetching shift template ${templateId}:`, error);
+    return internalError();
+  }
+}
+
+/**
+ * Update a template. With `?propagate=true` the change is also applied to
+ * the series' upcoming generated shifts outside locked periods.
+ */
+export const PATCH = withGuard<{ orgId: string; templateId: string }>(
+  {
+    permission: "schedule.edit",
+    forbidden: "You do not have permission to edit shift templates.",
+  },
+  async (request, { params: { orgId, templateId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = UpdateShiftTemplateSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const templateRef = templatesCollection(orgId).doc(templateId);
+      const snap = await templateRef.get();
+      if (!snap.exists) {
+        return apiError(404, "not-found", "Shift template not found");
+      }
+
+      // Re-validate the merged template so partial edits stay consistent
+      const merged = ShiftTemplateInputSchema.safeParse({
+        ...snap.data(),
+        ...parsed.data,
+      });
+      if (!merged.success) {
+        return validationError(merged.error);
+      }
+      if (
+        !hasPermission(access, "schedule.edit", snap.get("venueId") ?? null) ||
+        !hasPermission(access, "schedule.edit", merged.data.venueId ?? null)
+      ) {
+        return apiError(
+          403,
+          "forbidden",
+          "You can only edit templates at your venues.",
+        );
+      }
+
+      const patch = { ...parsed.data, updatedAt: new Date() };
+      await templateRef.update(patch);
+      const template = {
+        ...snap.data(),
+        ...patch,
+        id: snap.id,
+      } as ShiftTemplate;
+
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "shift-template.update",
+          target: { type: "shift-template", id: templateId },
+          before: snap.data(),
+          after: template,
+        },
+      );
+
+      const propagated =
+        request.nextUrl.searchParams.get("propagate") === "true"
+          ? await propagateTemplate(orgId, templateId, template)
+          : undefined;
+
+      return NextResponse.json({
+        ...serializeTemplate(template),
+        ...(propagated && { propagated }),
+      });
+    } catch (error) {
+      console.error(`Error updating shift template ${templateId}:`, error);
+      return internalError();
+    }
+  },
+);
+
+/**
+ * Delete a template and its upcoming unassigned shifts. Shifts that already
+ * have staff, or fall in locked periods, are kept.
+ */
+export const DELETE = withGuard<{ orgId: string; templateId: string }>(
+  {
+    permission: "schedule.edit",
+    forbidden: "You do not have permission to delete shift templates.",
+  },
+  async (request, { params: { orgId, templateId }, uid, email, access }) => {
+    try {
+      const templateRef = templatesCollection(orgId).doc(templateId);
+      const snap = await templateRef.get();
+      if (!snap.exists) {
+        return apiError(404, "not-found", "Shift template not found");
+      }
+      if (
+        !hasPermission(access, "schedule.edit", snap.get("venueId") ?? null)
+      ) {
+        return apiError(
+          403,
+          "forbidden",
+          "You can only delete templates at your venues.",
+        );
+      }
+
+      await propagateTemplate(orgId, templateId, null);
+      await templateRef.delete();
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "shift-template.delete",
+          target: { type: "shift-template", id: templateId },
+          before: snap.data(),
+        },
+      );
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      console.error(`Error deleting shift template ${templateId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+const { templates } = vi.hoisted(() => ({
+  templates: [] as Record<string, unknown>[],
+}));
+
+vi.mock("@/lib/firebase.server", () => {
+  const snap = (data: Record<string, unknown>) => ({
+    exists: true,
+    id: data.id,
+    data: () => data,
+  });
+  return {
+    adminDb: () => ({
+      collection: () => ({
+        doc: (id: string) => ({ id }),
+        where: () => ({
+          get: async () => ({ docs: templates.map(snap) }),
+        }),
+      }),
+      getAll: async (...refs: { id: string }[]) =>
+        refs.map((ref) => snap(templates.find((t) => t.id === ref.id)!)),
+    }),
+  };
+});
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1" });
+
+function makeRequest(body: unknown) {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/shift-templates/generate",
+    {
+      method: "POST",
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(body),
+    },
+  );
+}
+
+const range = { from: "2025-06-02", to: "2025-06-08" };
+
+describe("/api/orgs/[orgId]/shift-templates/generate", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    templates.splice(0, templates.length, {
+      id: "bar",
+      title: "Bar",
+      venueId: "venue-2",
+      startTime: "16:00",
+      endTime: "22:00",
+      timeZone: "UTC",
+      recurrence: { freq: "DAILY", interval: 1, dtstart: "2025-06-02" },
+      active: true,
+    });
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager", ["venue-1"]));
+  });
+
+  it("should refuse templates at other venues", async () => {
+    const response = await POST(
+      makeRequest({ ...range, templateIds: ["bar"] }),
+      { params },
+    );
+    expect(response.status).toBe(403);
+  });
+
+  it("should leave other venues out when generating every template", async () => {
+    const response = await POST(makeRequest(range), { params });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ created: [], skipped: 0 });
+  });
+});
@@ -0,0 +1,72 @@
+// src/app/api/orgs/[orgId]/shift-templates/generate/route.ts
+
+import { NextResponse } from "next/server";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { GenerateShiftsRequestSchema } from "@/lib/types";
+import {
+  ShiftTemplateError,
+  generateShiftsFromTemplates,
+} from "@/lib/shift-templates";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+// Roughly a quarter; keeps a single request within a few write batches
+const MAX_RANGE_DAYS = 92;
+
+/**
+ * Materialize shift templates into draft shifts for a date range.
+ * Re-running the same range only creates occurrences that are missing.
+ */
+export const POST = withGuard<{ orgId: string }>(
+  {
+    permission: "schedule.edit",
+    forbidden: "You do not have permission to generate shifts.",
+  },
+  async (request, { params: { orgId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = GenerateShiftsRequestSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const { from, to } = parsed.data;
+      if (
+        differenceInCalendarDays(parseISO(to), parseISO(from)) >= MAX_RANGE_DAYS
+      ) {
+        return validationError([
+          {
+            path: ["to"],
+            message: `Range cannot exceed ${MAX_RANGE_DAYS} days`,
+          },
+        ]);
+      }
+
+      const result = await generateShiftsFromTemplates(
+        orgId,
+        parsed.data,
+        access,
+      );
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "shift-template.generate",
+          target: { type: "org", id: orgId },
+          after: { ...parsed.data, created: result.created.length },
+        },
+      );
+      return NextResponse.json(result, {
+        status: result.created.length ? 201 : 200,
+      });
+    } catch (error) {
+      if (error instanceof ShiftTemplateError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error generating shifts for org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
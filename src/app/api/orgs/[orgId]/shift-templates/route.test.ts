@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+  verifyOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/shift-templates", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/shift-templates")>()),
+  templatesCollection: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1" });
+
+const template = {
+  title: "Bar",
+  venueId: "venue-2",
+  startTime: "16:00",
+  endTime: "22:00",
+  recurrence: { freq: "WEEKLY", byDay: ["MO"], dtstart: "2025-06-02" },
+};
+
+function makeRequest(body: unknown) {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/shift-templates",
+    {
+      method: "POST",
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(body),
+    },
+  );
+}
+
+describe("/api/orgs/[orgId]/shift-templates", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue({ uid: "alice" });
+  });
+
+  it("should refuse templates at other venues", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { templatesCollection } = await import("@/lib/shift-templates");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager", ["venue-1"]));
+
+    const response = await POST(makeRequest(template), { params });
+    expect(response.status).toBe(403);
+    expect(templatesCollection).not.toHaveBeenCalled();
+  });
+
+  it("should create templates at the manager's venues", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { templatesCollection } = await import("@/lib/shift-templates");
+    const set = vi.fn();
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager", ["venue-2"]));
+    (templatesCollection as any).mockReturnValue({
+      doc: () => ({ id: "template-1", set }),
+    });
+
+    const response = await POST(makeRequest(template), { params });
+    expect(response.status).toBe(201);
+    expect(set).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "template-1", venueId: "venue-2" }),
+    );
+  });
+});
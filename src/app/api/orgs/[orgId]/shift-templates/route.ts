@@ -0,0 +1,97 @@
+// src/app/api/orgs/[orgId]/shift-templates/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { verifyOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { ShiftTemplateInputSchema } from "@/lib/types";
+import { serializeTemplate, templatesCollection } from "@/lib/shift-templates";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const isAllowed = await verifyOrgAccess(
+      session.uid,
+      orgId,
+      "schedule.edit",
+    );
+    if (!isAllowed) {
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to view shift templates.",
+      );
+    }
+
+    const snapshot = await templatesCollection(orgId).orderBy("title").get();
+    return NextResponse.json(
+      snapshot.docs.map((d) => serializeTemplate({ ...d.data(), id: d.id })),
+    );
+  } catch (error) {
+    console.error(`Error listing shift templates for org ${orgId}:`, error);
+    return internalError();
+  }
+}
+
+export const POST = withGuard<{ orgId: string }>(
+  {
+    permission: "schedule.edit",
+    forbidden: "You do not have permission to create shift templates.",
+  },
+  async (request, { params: { orgId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = ShiftTemplateInputSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+      if (
+        !hasPermission(access, "schedule.edit", parsed.data.venueId ?? null)
+      ) {
+        return apiError(
+          403,
+          "forbidden",
+          "You can only create templates at your venues.",
+        );
+      }
+
+      const templateRef = templatesCollection(orgId).doc();
+      const now = new Date();
+      const newTemplate = {
+        ...parsed.data,
+        id: templateRef.id,
+        orgId,
+        createdBy: uid,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await templateRef.set(newTemplate);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "shift-template.create",
+          target: { type: "shift-template", id: templateRef.id },
+          after: newTemplate,
+        },
+      );
+
+      return NextResponse.json(serializeTemplate(newTemplate), { status: 201 });
+    } catch (error) {
+      console.error(`Error creating shift template for org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
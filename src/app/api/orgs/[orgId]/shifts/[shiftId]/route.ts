@@ -0,0 +1,184 @@
+// src/app/api/orgs/[orgId]/shifts/[shiftId]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { UpdateShiftSchema } from "@/lib/types";
+import {
+  publishedShiftsCollection,
+  serializeShift,
+  shiftsCollection,
+} from "@/lib/shifts";
+import { findLockedPeriod } from "@/lib/schedule-periods";
+import { overriddenFields } from "@/lib/shift-templates";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string; shiftId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId, shiftId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access) {
+      return apiError(
+        403,
+        "forbidden",
+        "You are not a member of this organization.",
+      );
+    }
+
+    const collection = hasPermission(access, "schedule.edit")
+      ? shiftsCollection(orgId)
+      : publishedShiftsCollection(orgId);
+    const snap = await collection.doc(shiftId).get();
+    if (!snap.exists) {
+      return apiError(404, "not-found", "Shift not found");
+    }
+
+    return NextResponse.json(serializeShift({ ...snap.data(), id: snap.id }));
+  } catch (error) {
+    console.error(`Error fetching shift ${shiftId} in org ${orgId}:`, error);
+    return internalError();
+  }
+}
+
+export const PATCH = withGuard<{ orgId: string; shiftId: string }>(
+  {
+    permission: "schedule.edit",
+    forbidden: "You do not have permission to edit shifts.",
+  },
+  async (request, { params: { orgId, shiftId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = UpdateShiftSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const shiftRef = shiftsCollection(orgId).doc(shiftId);
+      const snap = await shiftRef.get();
+      if (!snap.exists) {
+        return apiError(404, "not-found", "Shift not found");
+      }
+
+      const current = serializeShift({ ...snap.data(), id: snap.id });
+      const venueId =
+        "venueId" in parsed.data ? parsed.data.venueId : current.venueId;
+      if (
+        !hasPermission(access, "schedule.edit", current.venueId ?? null) ||
+        !hasPermission(access, "schedule.edit", venueId ?? null)
+      ) {
+        return apiError(
+          403,
+          "forbidden",
+          "You can only edit shifts at your venues.",
+        );
+      }
+
+      const start = parsed.data.start ?? new Date(current.start);
+      const end = parsed.data.end ?? new Date(current.end);
+      if (end <= start) {
+        return validationError([
+          { path: ["end"], message: "Shift end must be after start" },
+        ]);
+      }
+
+      const lockedPeriod =
+        (await findLockedPeriod(orgId, new Date(current.start))) ??
+        (await findLockedPeriod(orgId, start));
+      if (lockedPeriod) {
+        return apiError(
+          409,
+          "conflict",
+          `Schedule period ${lockedPeriod} is locked`,
+        );
+      }
+
+      const overridden = overriddenFields(current, parsed.data);
+      const patch = {
+        ...parsed.data,
+        ...(overridden && { overridden }),
+        updatedAt: new Date(),
+      };
+      await shiftRef.update(patch);
+      const updated = { ...snap.data(), ...patch, id: snap.id };
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "shift.update",
+          target: { type: "shift", id: shiftId },
+          before: snap.data(),
+          after: updated,
+        },
+      );
+
+      return NextResponse.json(serializeShift(updated));
+    } catch (error) {
+      console.error(`Error updating shift ${shiftId} in org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
+
+export const DELETE = withGuard<{ orgId: string; shiftId: string }>(
+  {
+    permission: "schedule.edit",
+    forbidden: "You do not have permission to delete shifts.",
+  },
+  async (request, { params: { orgId, shiftId }, uid, email, access }) => {
+    try {
+      const shiftRef = shiftsCollection(orgId).doc(shiftId);
+      const snap = await shiftRef.get();
+      if (!snap.exists) {
+        return apiError(404, "not-found", "Shift not found");
+      }
+
+      const current = serializeShift({ ...snap.data(), id: snap.id });
+      if (!hasPermission(access, "schedule.edit", current.venueId ?? null)) {
+        return apiError(
+          403,
+          "forbidden",
+          "You can only delete shifts at your venues.",
+        );
+      }
+
+      const lockedPeriod = await findLockedPeriod(
+        orgId,
+        new Date(current.start),
+      );
+      if (lockedPeriod) {
+        return apiError(
+          409,
+          "conflict",
+          `Schedule period ${lockedPeriod} is locked`,
+        );
+      }
+
+      await shiftRef.delete();
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "shift.delete",
+          target: { type: "shift", id: shiftId },
+          before: snap.data(),
+        },
+      );
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      console.error(`Error deleting shift ${shiftId} in org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
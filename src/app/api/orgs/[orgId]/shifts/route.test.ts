@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { GET } from "./route";
+import { NextRequest } from "next/server";
+import { accessAs } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/shifts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/shifts")>()),
+  listShifts: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1" });
+
+function makeRequest(query = "") {
+  return new NextRequest(`http://localhost:3000/api/orgs/org-1/shifts${query}`);
+}
+
+describe("/api/orgs/[orgId]/shifts", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require a session", async () => {
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue(null);
+
+    const response = await GET(makeRequest(), { params });
+    expect(response.status).toBe(401);
+  });
+
+  it("should reject non-members", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "user-1" });
+    (getOrgAccess as any).mockResolvedValue(null);
+
+    const response = await GET(makeRequest(), { params });
+    expect(response.status).toBe(403);
+    expect(getOrgAccess).toHaveBeenCalledWith("user-1", "org-1");
+  });
+
+  it("should reject invalid filters", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "user-1" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager"));
+
+    const response = await GET(makeRequest("?from=not-a-date"), { params });
+    expect(response.status).toBe(400);
+  });
+
+  it("should pass parsed filters to the query", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { listShifts } = await import("@/lib/shifts");
+    (getSession as any).mockResolvedValue({ uid: "user-1" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager"));
+    (listShifts as any).mockResolvedValue({ shifts: [], nextCursor: null });
+
+    const response = await GET(
+      makeRequest(
+        "?from=2025-06-01T00:00:00.000Z&to=2025-06-08T00:00:00.000Z&venueId=v1&assignee=bob&limit=20",
+      ),
+      { params },
+    );
+
+    expect(response.status).toBe(200);
+    expect(listShifts).toHaveBeenCalledWith(
+      "org-1",
+      {
+        from: new Date("2025-06-01T00:00:00.000Z"),
+        to: new Date("2025-06-08T00:00:00.000Z"),
+        venueId: "v1",
+        assignee: "bob",
+        limit: 20,
+      },
+      { published: false },
+    );
+    expect(await response.json()).toEqual({ shifts: [], nextCursor: null });
+  });
+
+  it("should only show published shifts to employees", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { listShifts } = await import("@/lib/shifts");
+    (getSession as any).mockResolvedValue({ uid: "user-1" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+    (listShifts as any).mockResolvedValue({ shifts: [], nextCursor: null });
+
+    const response = await GET(makeRequest(), { params });
+
+    expect(response.status).toBe(200);
+    expect(listShifts).toHaveBeenCalledWith("org-1", expect.any(Object), {
+      published: true,
+    });
+  });
+
+  it("should return 400 for an unknown cursor", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { listShifts, InvalidCursorError } = await import("@/lib/shifts");
+    (getSession as any).mockResolvedValue({ uid: "user-1" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager"));
+    (listShifts as any).mockRejectedValue(new InvalidCursorError("missing"));
+
+    const response = await GET(makeRequest("?cursor=missing"), { params });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,119 @@
+// src/app/api/orgs/[orgId]/shifts/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { CreateShiftSchema, ShiftListQuerySchema } from "@/lib/types";
+import {
+  InvalidCursorError,
+  listShifts,
+  serializeShift,
+  shiftsCollection,
+} from "@/lib/shifts";
+import { findLockedPeriod } from "@/lib/schedule-periods";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access) {
+      return apiError(
+        403,
+        "forbidden",
+        "You are not a member of this organization.",
+      );
+    }
+
+    const parsed = ShiftListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams),
+    );
+    if (!parsed.success) {
+      return validationError(parsed.error);
+    }
+
+    // Only schedulers see drafts; everyone else sees the published copies
+    const result = await listShifts(orgId, parsed.data, {
+      published: !hasPermission(access, "schedule.edit"),
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return apiError(400, "bad-request", error.message);
+    }
+    console.error(`Error listing shifts for org ${orgId}:`, error);
+    return internalError();
+  }
+}
+
+export const POST = withGuard<{ orgId: string }>(
+  {
+    permission: "schedule.edit",
+    forbidden: "You do not have permission to create shifts.",
+  },
+  async (request, { params: { orgId }, uid, email, access }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = CreateShiftSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+      if (
+        !hasPermission(access, "schedule.edit", parsed.data.venueId ?? null)
+      ) {
+        return apiError(
+          403,
+          "forbidden",
+          "You can only schedule shifts at your venues.",
+        );
+      }
+
+      const lockedPeriod = await findLockedPeriod(orgId, parsed.data.start);
+      if (lockedPeriod) {
+        return apiError(
+          409,
+          "conflict",
+          `Schedule period ${lockedPeriod} is locked`,
+        );
+      }
+
+      const shiftRef = shiftsCollection(orgId).doc();
+      const now = new Date();
+      const newShift = {
+        ...parsed.data,
+        id: shiftRef.id,
+        orgId,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await shiftRef.set(newShift);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "shift.create",
+          target: { type: "shift", id: shiftRef.id },
+          after: newShift,
+        },
+      );
+
+      return NextResponse.json(serializeShift(newShift), { status: 201 });
+    } catch (error) {
+      console.error(`Error creating shift for org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,46 @@
+// src/app/api/orgs/[orgId]/transfer-ownership/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { TransferOwnershipSchema } from "@/lib/types";
+import { MemberError, transferOrgOwnership } from "@/lib/members";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+type RouteParams = { orgId: string };
+
+/**
+ * Make another member the org's owner. Only the current owner may.
+ */
+export const POST = withGuard<RouteParams>(
+  { permission: "member" },
+  async (request, { params: { orgId }, uid, email }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = TransferOwnershipSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      await transferOrgOwnership(orgId, parsed.data.uid, uid);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "org.transfer-ownership",
+          target: { type: "org", id: orgId },
+          before: { ownerUid: uid },
+          after: { ownerUid: parsed.data.uid },
+        },
+      );
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      if (error instanceof MemberError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error transferring ownership of org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { DELETE, PATCH } from "./route";
+import { NextRequest } from "next/server";
+import { VenueError } from "@/lib/venues";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminDb: vi.fn(),
+}));
+
+vi.mock("@/lib/venues", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/venues")>()),
+  deleteVenue: vi.fn(),
+  updateVenue: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1", venueId: "venue-1" });
+
+function makeRequest(method: string, body?: unknown) {
+  return new NextRequest(
+    "http://localhost:3000/api/orgs/org-1/venues/venue-1",
+    {
+      method,
+      headers: signedInHeaders({ "Content-Type": "application/json" }),
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    },
+  );
+}
+
+describe("/api/orgs/[orgId]/venues/[venueId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should only let org managers edit venues", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { updateVenue } = await import("@/lib/venues");
+    (getSession as any).mockResolvedValue({ uid: "bob" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager"));
+
+    const response = await PATCH(makeRequest("PATCH", { name: "Arena" }), {
+      params,
+    });
+    expect(response.status).toBe(403);
+    expect(getOrgAccess).toHaveBeenCalledWith("bob", "org-1");
+    expect(updateVenue).not.toHaveBeenCalled();
+  });
+
+  it("should reject a blank name", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "boss" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("admin"));
+
+    const response = await PATCH(makeRequest("PATCH", { name: "  " }), {
+      params,
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("should rename the venue", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { updateVenue } = await import("@/lib/venues");
+    (getSession as any).mockResolvedValue({ uid: "boss" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("admin"));
+    (updateVenue as any).mockResolvedValue({ id: "venue-1", name: "Arena" });
+
+    const response = await PATCH(makeRequest("PATCH", { name: " Arena " }), {
+      params,
+    });
+    expect(response.status).toBe(200);
+    expect(updateVenue).toHaveBeenCalledWith("org-1", "venue-1", {
+      name: "Arena",
+    });
+  });
+
+  it("should keep venues that still have upcoming shifts", async () => {
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    const { deleteVenue } = await import("@/lib/venues");
+    (getSession as any).mockResolvedValue({ uid: "boss" });
+    (getOrgAccess as any).mockResolvedValue(accessAs("admin"));
+    (deleteVenue as any).mockRejectedValue(
+      new VenueError("Move the venue's upcoming shifts first", 409),
+    );
+
+    const response = await DELETE(makeRequest("DELETE"), { params });
+    expect(response.status).toBe(409);
+  });
+});
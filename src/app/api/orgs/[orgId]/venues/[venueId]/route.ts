@@ -0,0 +1,78 @@
+// src/app/api/orgs/[orgId]/venues/[venueId]/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import { UpdateVenueSchema } from "@/lib/types";
+import { deleteVenue, updateVenue, VenueError } from "@/lib/venues";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const PATCH = withGuard<{ orgId: string; venueId: string }>(
+  {
+    permission: "org.manage",
+    forbidden: "You do not have permission to manage venues.",
+  },
+  async (request, { params: { orgId, venueId }, uid, email }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = UpdateVenueSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const before = await auditSnapshot(`orgs/${orgId}/venues/${venueId}`);
+      const venue = await updateVenue(orgId, venueId, parsed.data);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "venue.update",
+          target: { type: "venue", id: venueId },
+          before: before,
+          after: venue,
+        },
+      );
+      return NextResponse.json(venue);
+    } catch (error) {
+      if (error instanceof VenueError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error updating venue ${venueId} in org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
+
+/**
+ * Delete a venue and its stands, unless shifts are still scheduled there.
+ */
+export const DELETE = withGuard<{ orgId: string; venueId: string }>(
+  {
+    permission: "org.manage",
+    forbidden: "You do not have permission to manage venues.",
+  },
+  async (request, { params: { orgId, venueId }, uid, email }) => {
+    try {
+      const before = await auditSnapshot(`orgs/${orgId}/venues/${venueId}`);
+      await deleteVenue(orgId, venueId);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "venue.delete",
+          target: { type: "venue", id: venueId },
+          before: before,
+        },
+      );
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      if (error instanceof VenueError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error deleting venue ${venueId} in org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
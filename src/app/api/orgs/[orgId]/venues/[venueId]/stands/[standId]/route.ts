@@ -0,0 +1,81 @@
+// src/app/api/orgs/[orgId]/venues/[venueId]/stands/[standId]/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { auditSnapshot, recordAudit } from "@/lib/audit";
+import { UpdateStandSchema } from "@/lib/types";
+import { deleteStand, updateStand, VenueError } from "@/lib/venues";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+type RouteParams = { orgId: string; venueId: string; standId: string };
+
+export const PATCH = withGuard<RouteParams>(
+  {
+    permission: "org.manage",
+    forbidden: "You do not have permission to manage venues.",
+  },
+  async (request, { params: { orgId, venueId, standId }, uid, email }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = UpdateStandSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const before = await auditSnapshot(
+        `orgs/${orgId}/venues/${venueId}/stands/${standId}`,
+      );
+      const stand = await updateStand(orgId, venueId, standId, parsed.data);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "stand.update",
+          target: { type: "stand", id: standId },
+          before: before,
+          after: stand,
+        },
+      );
+      return NextResponse.json(stand);
+    } catch (error) {
+      if (error instanceof VenueError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error updating stand ${standId}:`, error);
+      return internalError();
+    }
+  },
+);
+
+export const DELETE = withGuard<RouteParams>(
+  {
+    permission: "org.manage",
+    forbidden: "You do not have permission to manage venues.",
+  },
+  async (request, { params: { orgId, venueId, standId }, uid, email }) => {
+    try {
+      const before = await auditSnapshot(
+        `orgs/${orgId}/venues/${venueId}/stands/${standId}`,
+      );
+      await deleteStand(orgId, venueId, standId);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "stand.delete",
+          target: { type: "stand", id: standId },
+          before: before,
+        },
+      );
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      if (error instanceof VenueError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error deleting stand ${standId}:`, error);
+      return internalError();
+    }
+  },
+);
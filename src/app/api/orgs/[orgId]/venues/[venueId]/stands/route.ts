@@ -0,0 +1,43 @@
+// src/app/api/orgs/[orgId]/venues/[venueId]/stands/route.ts
+
+import { NextResponse } from "next/server";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { StandInputSchema } from "@/lib/types";
+import { createStand, VenueError } from "@/lib/venues";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const POST = withGuard<{ orgId: string; venueId: string }>(
+  {
+    permission: "org.manage",
+    forbidden: "You do not have permission to manage venues.",
+  },
+  async (request, { params: { orgId, venueId }, uid, email }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = StandInputSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const stand = await createStand(orgId, venueId, parsed.data);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "stand.create",
+          target: { type: "stand", id: stand.id },
+          after: stand,
+        },
+      );
+      return NextResponse.json(stand, { status: 201 });
+    } catch (error) {
+      if (error instanceof VenueError) {
+        return statusError(error.status, error.message);
+      }
+      console.error(`Error creating stand at venue ${venueId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -0,0 +1,71 @@
+// src/app/api/orgs/[orgId]/venues/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { VenueInputSchema } from "@/lib/types";
+import { createVenue, listVenues } from "@/lib/venues";
+import { apiError, internalError, validationError } from "@/lib/api-error";
+
+type RouteContext = { params: Promise<{ orgId: string }> };
+
+/**
+ * Venues with their stands, for any member reading or picking locations.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { orgId } = await params;
+  try {
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access) {
+      return apiError(
+        403,
+        "forbidden",
+        "You are not a member of this organization.",
+      );
+    }
+
+    return NextResponse.json(await listVenues(orgId));
+  } catch (error) {
+    console.error(`Error listing venues for org ${orgId}:`, error);
+    return internalError();
+  }
+}
+
+export const POST = withGuard<{ orgId: string }>(
+  {
+    permission: "org.manage",
+    forbidden: "You do not have permission to manage venues.",
+  },
+  async (request, { params: { orgId }, uid, email }) => {
+    try {
+      const body = await request.json().catch(() => ({}));
+      const parsed = VenueInputSchema.safeParse(body);
+      if (!parsed.success) {
+        return validationError(parsed.error);
+      }
+
+      const venue = await createVenue(orgId, parsed.data);
+      await recordAudit(
+        request,
+        { uid, email },
+        {
+          orgId,
+          action: "venue.create",
+          target: { type: "venue", id: venue.id },
+          after: venue,
+        },
+      );
+      return NextResponse.json(venue, { status: 201 });
+    } catch (error) {
+      console.error(`Error creating venue for org ${orgId}:`, error);
+      return internalError();
+    }
+  },
+);
@@ -1,47 +1,12 @@
-import { NextRequest, NextResponse } from "next/server";
-import { adminAuth } from "@/lib/firebase.server";
+import { NextResponse } from "next/server";
 import { OrganizationSchema } from "@/lib/types";
 import { createOrganization } from "@/lib/auth-utils";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { apiError, validationError } from "@/lib/api-error";
 
-function getAllowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL;
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
-
-function validateCsrf(req: NextRequest): boolean {
-  const header = req.headers.get("x-csrf-token");
-  const cookie = req.cookies.get("XSRF-TOKEN")?.value;
-  return Boolean(header && cookie && header === cookie);
-}
-
-function allowOrigin(req: NextRequest): boolean {
-  const origin = req.headers.get("origin");
-  if (!origin) return true;
-  return getAllowedOrigins().includes(origin);
-}
-
-export async function POST(req: NextRequest) {
-  if (!allowOrigin(req)) {
-    return new NextResponse("Forbidden origin", { status: 403 });
-  }
-  if (!validateCsrf(req)) {
-    return new NextResponse("CSRF validation failed", { status: 403 });
-  }
-
-  // Verify session
-  const session = req.cookies.get("__session")?.value;
-  if (!session) {
-    return NextResponse.json(
-      { success: false, error: "Authentication required" },
-      { status: 401 },
-    );
-  }
-
+export const POST = withGuard({}, async (req, { uid, email }) => {
   try {
-    const decoded = await adminAuth().verifySessionCookie(session, true);
-    const uid = decoded.uid;
-
     // Parse request body
     const body = await req.json().catch(() => ({}));
 
@@ -50,20 +15,17 @@ export async function POST(req: NextRequest) {
       name: true,
       description: true,
       isPublic: true,
+      timeZone: true,
     }).safeParse(body);
 
     if (!parseResult.success) {
-      return NextResponse.json(
-        {
-          success: false,
-          error:
-            parseResult.error.issues[0]?.message || "Invalid organization data",
-        },
-        { status: 400 },
+      return validationError(
+        parseResult.error,
+        parseResult.error.issues[0]?.message || "Invalid organization data",
       );
     }
 
-    const { name, description, isPublic } = parseResult.data;
+    const { name, description, isPublic, timeZone } = parseResult.data;
 
     // Create organization
     const orgData = {
@@ -71,6 +33,7 @@ export async function POST(req: NextRequest) {
       description: description?.trim() || undefined,
       ownerUid: uid,
       isPublic: Boolean(isPublic),
+      timeZone: timeZone || undefined,
       settings: {
         allowPublicJoinRequests: Boolean(isPublic),
         requireApprovalForJoin: true,
@@ -80,6 +43,17 @@ export async function POST(req: NextRequest) {
 
     const orgId = await createOrganization(orgData, uid);
 
+    await recordAudit(
+      req,
+      { uid, email },
+      {
+        orgId,
+        action: "org.create",
+        target: { type: "org", id: orgId },
+        after: orgData,
+      },
+    );
+
     return NextResponse.json({
       success: true,
       orgId,
@@ -87,9 +61,6 @@ export async function POST(req: NextRequest) {
     });
   } catch (error) {
     console.error("Error creating organization:", error);
-    return NextResponse.json(
-      { success: false, error: "Failed to create organization" },
-      { status: 500 },
-    );
+    return apiError(500, "internal", "Failed to create organization");
   }
-}
+});
@@ -1,5 +1,5 @@
-import { NextRequest, NextResponse } from "next/server";
-import { adminAuth, adminInit } from "@/lib/firebase.server";
+import { NextResponse } from "next/server";
+import { adminInit } from "@/lib/firebase.server";
 import { getFirestore, FieldValue } from "firebase-admin/firestore";
 import {
   JoinOrgRequestSchema,
@@ -8,6 +8,9 @@ import {
   InviteCode,
 } from "@/lib/types";
 import { addUserToOrg } from "@/lib/auth-utils";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit, redactInviteCode } from "@/lib/audit";
+import { apiError, validationError } from "@/lib/api-error";
 
 // Lazy initialize to avoid build-time errors
 function getDb() {
@@ -15,69 +18,26 @@ function getDb() {
   return getFirestore();
 }
 
-function getAllowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL;
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
-
-function validateCsrf(req: NextRequest): boolean {
-  const header = req.headers.get("x-csrf-token");
-  const cookie = req.cookies.get("XSRF-TOKEN")?.value;
-  return Boolean(header && cookie && header === cookie);
-}
-
-function allowOrigin(req: NextRequest): boolean {
-  const origin = req.headers.get("origin");
-  if (!origin) return true;
-  return getAllowedOrigins().includes(origin);
-}
-
-export async function POST(req: NextRequest) {
-  if (!allowOrigin(req)) {
-    return new NextResponse("Forbidden origin", { status: 403 });
-  }
-  if (!validateCsrf(req)) {
-    return new NextResponse("CSRF validation failed", { status: 403 });
-  }
-
-  // Verify session
-  const session = req.cookies.get("__session")?.value;
-  if (!session) {
-    return NextResponse.json<JoinOrgResponse>(
-      { success: false, error: "Authentication required" },
-      { status: 401 },
-    );
-  }
-
+export const POST = withGuard({}, async (req, { uid, email }) => {
   try {
-    const decoded = await adminAuth().verifySessionCookie(session, true);
-    const uid = decoded.uid;
-
     // Parse request body
     const body = await req.json().catch(() => ({}));
     const parseResult = JoinOrgRequestSchema.safeParse(body);
 
     if (!parseResult.success) {
-      return NextResponse.json<JoinOrgResponse>(
-        { success: false, error: "Invalid request data" },
-        { status: 400 },
-      );
+      return validationError(parseResult.error);
     }
 
     const { inviteCode, orgId: directOrgId } = parseResult.data;
 
     let orgId: string;
-    let role: "admin" | "manager" | "employee" = "employee";
+    let role = "employee";
 
     if (inviteCode) {
       // Join via invite code
       const parsed = validateInviteCode(inviteCode);
       if (!parsed) {
-        return NextResponse.json<JoinOrgResponse>(
-          { success: false, error: "Invalid invite code format" },
-          { status: 400 },
-        );
+        return apiError(400, "bad-request", "Invalid invite code format");
       }
 
       orgId = parsed.orgId;
@@ -117,10 +77,7 @@ export async function POST(req: NextRequest) {
       // Verify organization exists and allows direct joining
       const orgDoc = await getDb().doc(`orgs/${orgId}`).get();
       if (!orgDoc.exists) {
-        return NextResponse.json<JoinOrgResponse>(
-          { success: false, error: "Organization not found" },
-          { status: 404 },
-        );
+        return apiError(404, "not-found", "Organization not found");
       }
 
       // Only allow direct join if no members exist (bootstrap)
@@ -129,27 +86,26 @@ export async function POST(req: NextRequest) {
         .limit(1)
         .get();
       if (!membersSnapshot.empty) {
-        return NextResponse.json<JoinOrgResponse>(
-          { success: false, error: "Organization requires an invite code" },
-          { status: 400 },
+        return apiError(
+          400,
+          "bad-request",
+          "Organization requires an invite code",
         );
       }
 
       role = "admin"; // First user becomes admin
     } else {
-      return NextResponse.json<JoinOrgResponse>(
-        { success: false, error: "Either inviteCode or orgId is required" },
-        { status: 400 },
+      return apiError(
+        400,
+        "bad-request",
+        "Either inviteCode or orgId is required",
       );
     }
 
     // Verify organization exists
     const orgDoc = await getDb().doc(`orgs/${orgId}`).get();
     if (!orgDoc.exists) {
-      return NextResponse.json<JoinOrgResponse>(
-        { success: false, error: "Organization not found" },
-        { status: 404 },
-      );
+      return apiError(404, "not-found", "Organization not found");
     }
 
     const orgData = orgDoc.data();
@@ -157,18 +113,30 @@ export async function POST(req: NextRequest) {
     // Check if user is already a member
     const memberDoc = await getDb().doc(`orgs/${orgId}/members/${uid}`).get();
     if (memberDoc.exists) {
-      return NextResponse.json<JoinOrgResponse>(
-        {
-          success: false,
-          error: "You are already a member of this organization",
-        },
-        { status: 400 },
+      return apiError(
+        400,
+        "bad-request",
+        "You are already a member of this organization",
       );
     }
 
     // Add user to organization
     await addUserToOrg(uid, orgId, role, uid);
 
+    await recordAudit(
+      req,
+      { uid, email },
+      {
+        orgId,
+        action: "member.join",
+        target: { type: "member", id: uid },
+        after: {
+          role,
+          inviteCode: inviteCode ? redactInviteCode(inviteCode) : null,
+        },
+      },
+    );
+
     return NextResponse.json<JoinOrgResponse>({
       success: true,
       orgId,
@@ -177,9 +145,6 @@ export async function POST(req: NextRequest) {
     });
   } catch (error) {
     console.error("Error joining organization:", error);
-    return NextResponse.json<JoinOrgResponse>(
-      { success: false, error: "Failed to join organization" },
-      { status: 500 },
-    );
+    return apiError(500, "internal", "Failed to join organization");
   }
-}
+});
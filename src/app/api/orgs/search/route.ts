@@ -1,8 +1,13 @@
-import { NextRequest, NextResponse } from "next/server";
-import { adminAuth, adminInit } from "@/lib/firebase.server";
+import { NextResponse } from "next/server";
+import { adminInit } from "@/lib/firebase.server";
 import { getFirestore, Firestore } from "firebase-admin/firestore";
 import { ApproveRequestSchema } from "@/lib/types";
-import { addUserToOrg, isUserOrgAdmin } from "@/lib/auth-utils";
+import { addUserToOrg, getOrgAccess } from "@/lib/auth-utils";
+import { canGrant, hasPermission } from "@/lib/permissions";
+import { getRolePermissions } from "@/lib/roles";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
+import { apiError, validationError } from "@/lib/api-error";
 
 // Lazy init Firestore (avoids init at build)
 function db(): Firestore {
@@ -10,107 +15,43 @@ function db(): Firestore {
   return getFirestore();
 }
 
-const ALLOWED_ROLES = ["member", "manager", "admin"] as const;
-
-function allowedOrigins(): string[] {
-  const envOrigin = process.env.NEXT_PUBLIC_APP_URL?.replace(/\/+$/, "");
-  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
-  return envOrigin ? [envOrigin, ...defaults] : defaults;
-}
-
-function isAllowedOrigin(origin: string | null): boolean {
-  if (!origin) return false;
-  return allowedOrigins().includes(origin.replace(/\/+$/, ""));
-}
-
-function validateCsrf(req: NextRequest): boolean {
-  const header = req.headers.get("x-csrf-token");
-  const cookie = req.cookies.get("XSRF-TOKEN")?.value;
-  return Boolean(header && cookie && header === cookie);
-}
-
-function errorResponse(
-  status: number,
-  code: string,
-  message: string,
-  details?: unknown,
-) {
-  return new NextResponse(JSON.stringify({ code, message, details }), {
-    status,
-    headers: {
-      "Content-Type": "application/json",
-      Vary: "Origin",
-    },
-  });
-}
-
-export async function POST(req: NextRequest) {
-  const origin = req.headers.get("origin");
-  if (!isAllowedOrigin(origin)) {
-    return errorResponse(403, "forbidden-origin", "Origin is not allowed.");
-  }
-
-  if (!validateCsrf(req)) {
-    return errorResponse(403, "csrf-failed", "CSRF validation failed.");
-  }
-
-  const session = req.cookies.get("__session")?.value;
-  if (!session) {
-    return errorResponse(401, "unauthenticated", "Authentication required.");
-  }
-
-  let decoded;
-  try {
-    decoded = await adminAuth().verifySessionCookie(session, true);
-  } catch {
-    return errorResponse(
-      401,
-      "invalid-session",
-      "Session is invalid or expired.",
-    );
-  }
-  const actorUid = decoded.uid;
-
+export const POST = withGuard({}, async (req, { uid: actorUid, email }) => {
   let body: unknown;
   try {
     body = await req.json();
   } catch {
-    return errorResponse(
-      400,
-      "invalid-json",
-      "Request body must be valid JSON.",
-    );
+    return apiError(400, "bad-request", "Request body must be valid JSON.");
   }
 
   const parsed = ApproveRequestSchema.safeParse(body);
   if (!parsed.success) {
-    return errorResponse(
-      400,
-      "validation-error",
-      "Invalid request payload.",
-      parsed.error.flatten(),
-    );
+    return validationError(parsed.error, "Invalid request payload.");
   }
 
   const { requestId, approved, role, notes, orgId } = parsed.data;
 
-  if (!ALLOWED_ROLES.includes(role as (typeof ALLOWED_ROLES)[number])) {
-    return errorResponse(400, "invalid-role", "Role not permitted.");
-  }
-
   // Authorization (early)
   if (!orgId) {
-    return errorResponse(400, "missing-org-id", "Organization ID is required.");
+    return apiError(400, "bad-request", "Organization ID is required.");
   }
-  const hasAdminRights = await isUserOrgAdmin(actorUid, orgId);
-  if (!hasAdminRights) {
-    return errorResponse(
+  const access = await getOrgAccess(actorUid, orgId);
+  if (!access || !hasPermission(access, "invites.manage")) {
+    return apiError(
       403,
       "forbidden",
-      "Admin access required for this organization.",
+      "Permission to manage join requests is required for this organization.",
     );
   }
 
+  // Approvers can only grant roles that exist and that they hold themselves
+  const rolePermissions = await getRolePermissions(orgId, role);
+  if (!rolePermissions) {
+    return apiError(400, "bad-request", "Role not permitted.");
+  }
+  if (!canGrant(access, rolePermissions)) {
+    return apiError(403, "forbidden", "You cannot grant this role.");
+  }
+
   const firestore = db();
   const requestRef = firestore.doc(`orgs/${orgId}/joinRequests/${requestId}`);
 
@@ -120,7 +61,7 @@ export async function POST(req: NextRequest) {
       if (!snap.exists) {
         return {
           status: 404 as const,
-          error: errorResponse(404, "not-found", "Join request not found."),
+          error: apiError(404, "not-found", "Join request not found."),
         };
       }
 
@@ -133,9 +74,9 @@ export async function POST(req: NextRequest) {
       if (data.status !== "pending") {
         return {
           status: 409 as const,
-          error: errorResponse(
+          error: apiError(
             409,
-            "already-processed",
+            "conflict",
             "Request has already been processed.",
           ),
         };
@@ -148,15 +89,18 @@ export async function POST(req: NextRequest) {
         await addUserToOrg(data.requestedBy, orgId!, role, actorUid);
       }
 
-      tx.update(requestRef, {
+      const review = {
         status: approved ? "approved" : "rejected",
         reviewedAt,
         reviewedBy: actorUid,
         reviewNotes: notes ?? null,
-      });
+      };
+      tx.update(requestRef, review);
 
       return {
         status: 200 as const,
+        before: data,
+        after: { ...data, ...review, ...(approved && { role }) },
         success: {
           status: approved ? "approved" : "rejected",
           reviewedAt: reviewedAt.toISOString(),
@@ -164,10 +108,22 @@ export async function POST(req: NextRequest) {
       };
     });
 
-    if ("error" in result) {
+    if (result.status !== 200) {
       return result.error;
     }
 
+    await recordAudit(
+      req,
+      { uid: actorUid, email },
+      {
+        orgId,
+        action: approved ? "join-request.approve" : "join-request.reject",
+        target: { type: "join-request", id: requestId },
+        before: result.before,
+        after: result.after,
+      },
+    );
+
     return NextResponse.json(result.success, {
       status: 200,
       headers: {
@@ -186,9 +142,9 @@ export async function POST(req: NextRequest) {
         error: errorMessage,
       }),
     );
-    return errorResponse(500, "internal-error", "Failed to process request.");
+    return apiError(500, "internal", "Failed to process request.");
   }
-}
+});
 
 // (Optional) Explicit method handler: Next automatically rejects others, but can be added if needed.
-// export function GET() { return errorResponse(405, "method-not-allowed", "Use POST."); }
+// export function GET() { return apiError(405, "method-not-allowed", "Use POST."); }
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { recordAudit } from "@/lib/audit";
+import { ContractError, retireContract } from "@/lib/parents";
+import { RetireContractSchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ subOrgId: string }> },
+) {
+  const { subOrgId } = await params;
+  const parsed = RetireContractSchema.safeParse(
+    await req.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId, effectiveFrom } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    const result = await retireContract(
+      parentId,
+      subOrgId,
+      effectiveFrom,
+      access.uid,
+    );
+    await recordAudit(
+      req,
+      { uid: access.uid },
+      {
+        orgId: subOrgId,
+        action: "contract.retire",
+        target: { type: "contract", id: parentId },
+        after: { effectiveFrom, retired: true },
+      },
+    );
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof ContractError) {
+      return statusError(error.status, error.message);
+    }
+    console.error(
+      `Error retiring contract for ${subOrgId} under parent ${parentId}:`,
+      error,
+    );
+    return internalError();
+  }
+}
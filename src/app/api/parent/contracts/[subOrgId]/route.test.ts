@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminAuth: vi.fn(),
+  adminDb: vi.fn(),
+}));
+
+vi.mock("@/lib/parents", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/parents")>()),
+  createContractVersion: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  auditSnapshot: vi.fn(),
+  recordAudit: vi.fn(),
+}));
+
+function callPost(body: unknown, token?: string) {
+  const req = new NextRequest(
+    "http://localhost:3000/api/parent/contracts/org-1",
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+      headers: {
+        "Content-Type": "application/json",
+        ...(token && { Authorization: `Bearer ${token}` }),
+      },
+    },
+  );
+  return POST(req, { params: Promise.resolve({ subOrgId: "org-1" }) });
+}
+
+async function mockToken(claims: Record<string, unknown>) {
+  const { adminAuth } = await import("@/lib/firebase.server");
+  (adminAuth as any).mockReturnValue({
+    verifyIdToken: vi.fn().mockResolvedValue({ uid: "admin-1", ...claims }),
+  });
+}
+
+const body = {
+  parentId: "parent-1",
+  effectiveFrom: "2025-06-10",
+  billRate: 24,
+};
+
+describe("/api/parent/contracts/[subOrgId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should only let admins of the parent version its contracts", async () => {
+    const { createContractVersion } = await import("@/lib/parents");
+    await mockToken({ parentAdmin: true, parentId: "parent-2" });
+
+    const response = await callPost(body, "token");
+
+    expect(response.status).toBe(403);
+    expect(createContractVersion).not.toHaveBeenCalled();
+  });
+
+  it("should reject terms without a positive bill rate", async () => {
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+
+    const response = await callPost({ ...body, billRate: 0 }, "token");
+    expect(response.status).toBe(400);
+  });
+
+  it("should add a version effective from the given date", async () => {
+    const { createContractVersion } = await import("@/lib/parents");
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+    (createContractVersion as any).mockResolvedValue({
+      contract: { parentId: "parent-1", subOrgId: "org-1", version: 2 },
+      version: { version: 2, effectiveFrom: "2025-06-10", billRate: 24 },
+    });
+
+    const response = await callPost(body, "token");
+
+    expect(response.status).toBe(201);
+    expect(createContractVersion).toHaveBeenCalledWith(
+      "parent-1",
+      "org-1",
+      "2025-06-10",
+      { billRate: 24, rounding: "none", period: "biweekly" },
+      "admin-1",
+    );
+  });
+
+  it("should return 404 for an unknown sub-org", async () => {
+    const { createContractVersion, ContractError } = await import(
+      "@/lib/parents"
+    );
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+    (createContractVersion as any).mockRejectedValue(
+      new ContractError("Organization not found", 404),
+    );
+
+    const response = await callPost(body, "token");
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({
+      code: "not-found",
+      message: "Organization not found",
+    });
+  });
+
+  it("should refuse contracts for orgs linked to another parent", async () => {
+    const parents =
+      await vi.importActual<typeof import("@/lib/parents")>("@/lib/parents");
+    const { createContractVersion } = await import("@/lib/parents");
+    const { adminDb } = await import("@/lib/firebase.server");
+    const { recordAudit } = await import("@/lib/audit");
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+    (createContractVersion as any).mockImplementation(
+      parents.createContractVersion,
+    );
+    const set = vi.fn();
+    const ref = (path: string): any => ({
+      path,
+      doc: (id: string) => ref(`${path}/${id}`),
+      collection: (name: string) => ref(`${path}/${name}`),
+    });
+    (adminDb as any).mockReturnValue({
+      collection: ref,
+      runTransaction: (fn: (tx: unknown) => unknown) =>
+        fn({
+          get: async ({ path }: { path: string }) =>
+            path === "orgs/org-1"
+              ? { exists: true, get: () => "parent-2" }
+              : { exists: false, docs: [] },
+          set,
+        }),
+    });
+
+    const response = await callPost(body, "token");
+
+    expect(response.status).toBe(404);
+    expect(set).not.toHaveBeenCalled();
+    expect(recordAudit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { recordAudit } from "@/lib/audit";
+import {
+  ContractError,
+  createContractVersion,
+  getContractHistory,
+} from "@/lib/parents";
+import { CreateContractVersionSchema, ParentQuerySchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: Promise<{ subOrgId: string }> };
+
+export async function GET(req: NextRequest, { params }: Params) {
+  const { subOrgId } = await params;
+  const { searchParams } = new URL(req.url);
+  const parsed = ParentQuerySchema.safeParse({
+    parentId: searchParams.get("parentId"),
+  });
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    return NextResponse.json(await getContractHistory(parentId, subOrgId));
+  } catch (error) {
+    if (error instanceof ContractError) {
+      return statusError(error.status, error.message);
+    }
+    console.error(
+      `Error loading contract for ${subOrgId} under parent ${parentId}:`,
+      error,
+    );
+    return internalError();
+  }
+}
+
+// Adds a version; the first one creates the contract
+export async function POST(req: NextRequest, { params }: Params) {
+  const { subOrgId } = await params;
+  const parsed = CreateContractVersionSchema.safeParse(
+    await req.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId, effectiveFrom, ...terms } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    const result = await createContractVersion(
+      parentId,
+      subOrgId,
+      effectiveFrom,
+      terms,
+      access.uid,
+    );
+    await recordAudit(
+      req,
+      { uid: access.uid },
+      {
+        orgId: subOrgId,
+        action: "contract.update",
+        target: { type: "contract", id: parentId },
+        after: { effectiveFrom, ...terms },
+      },
+    );
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof ContractError) {
+      return statusError(error.status, error.message);
+    }
+    console.error(
+      `Error versioning contract for ${subOrgId} under parent ${parentId}:`,
+      error,
+    );
+    return internalError();
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { POST } from "./route";
+import { NextRequest } from "next/server";
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminAuth: vi.fn(),
+  adminDb: vi.fn(),
+}));
+
+vi.mock("@/lib/ledger", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/ledger")>()),
+  closeLedgerPeriod: vi.fn(),
+}));
+
+vi.mock("@/lib/audit", () => ({
+  recordAudit: vi.fn(),
+}));
+
+function makeRequest(body: unknown, token?: string) {
+  return new NextRequest("http://localhost:3000/api/parent/ledger/close", {
+    method: "POST",
+    body: JSON.stringify(body),
+    headers: {
+      "Content-Type": "application/json",
+      ...(token && { Authorization: `Bearer ${token}` }),
+    },
+  });
+}
+
+async function mockToken(claims: Record<string, unknown>) {
+  const { adminAuth } = await import("@/lib/firebase.server");
+  (adminAuth as any).mockReturnValue({
+    verifyIdToken: vi.fn().mockResolvedValue({ uid: "admin-1", ...claims }),
+  });
+}
+
+const body = { parentId: "parent-1", periodId: "2025-BW05" };
+
+describe("/api/parent/ledger/close", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require a bearer token", async () => {
+    const response = await POST(makeRequest(body));
+    expect(response.status).toBe(401);
+  });
+
+  it("should only let admins of the parent close its periods", async () => {
+    const { closeLedgerPeriod } = await import("@/lib/ledger");
+    await mockToken({ parentAdmin: true, parentId: "parent-2" });
+
+    const response = await POST(makeRequest(body, "token"));
+
+    expect(response.status).toBe(403);
+    expect(closeLedgerPeriod).not.toHaveBeenCalled();
+  });
+
+  it("should reject a malformed period id", async () => {
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+
+    const response = await POST(
+      makeRequest({ ...body, periodId: "last-week" }, "token"),
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it("should close the period as the token's user", async () => {
+    const { closeLedgerPeriod } = await import("@/lib/ledger");
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+    (closeLedgerPeriod as any).mockResolvedValue({
+      ...body,
+      status: "closed",
+    });
+
+    const response = await POST(makeRequest(body, "token"));
+
+    expect(response.status).toBe(200);
+    expect(closeLedgerPeriod).toHaveBeenCalledWith(
+      "parent-1",
+      "2025-BW05",
+      "admin-1",
+    );
+    expect((await response.json()).status).toBe("closed");
+  });
+
+  it("should log the close to each sub-org in the period", async () => {
+    const { closeLedgerPeriod } = await import("@/lib/ledger");
+    const { recordAudit } = await import("@/lib/audit");
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+    const totals = { hours: 8, amount: 160, lines: 1 };
+    (closeLedgerPeriod as any).mockResolvedValue({
+      ...body,
+      status: "closed",
+      summary: { bySubOrg: { "org-1": totals, "org-2": totals } },
+    });
+
+    await POST(makeRequest(body, "token"));
+
+    const [, actor, events] = (recordAudit as any).mock.calls[0];
+    expect(actor).toEqual({ uid: "admin-1" });
+    expect(events.map((e: { orgId: string }) => e.orgId)).toEqual([
+      "org-1",
+      "org-2",
+    ]);
+    expect(events[0]).toMatchObject({
+      action: "ledger.close",
+      target: { type: "ledger-period", id: "2025-BW05" },
+      after: { parentId: "parent-1", status: "closed", totals },
+    });
+  });
+
+  it("should return 409 when the period is already closed", async () => {
+    const { closeLedgerPeriod, LedgerPeriodError } = await import(
+      "@/lib/ledger"
+    );
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+    (closeLedgerPeriod as any).mockRejectedValue(
+      new LedgerPeriodError("Period is already closed", 409),
+    );
+
+    const response = await POST(makeRequest(body, "token"));
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      code: "conflict",
+      message: "Period is already closed",
+    });
+  });
+});
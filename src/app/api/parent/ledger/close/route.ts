@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { recordAudit } from "@/lib/audit";
+import { LedgerPeriodError, closeLedgerPeriod } from "@/lib/ledger";
+import { LedgerPeriodRefSchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest) {
+  const parsed = LedgerPeriodRefSchema.safeParse(
+    await req.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId, periodId } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    const period = await closeLedgerPeriod(parentId, periodId, access.uid);
+    // Logged to every sub-org with lines in the period
+    await recordAudit(
+      req,
+      { uid: access.uid },
+      Object.entries(period.summary?.bySubOrg ?? {}).map(
+        ([subOrgId, totals]) => ({
+          orgId: subOrgId,
+          action: "ledger.close" as const,
+          target: { type: "ledger-period", id: periodId },
+          before: { status: "open" },
+          after: { parentId, status: "closed", totals },
+        }),
+      ),
+    );
+    return NextResponse.json(period, { status: 200 });
+  } catch (error) {
+    if (error instanceof LedgerPeriodError) {
+      return statusError(error.status, error.message);
+    }
+    console.error(
+      `Error closing ledger period ${periodId} for parent ${parentId}:`,
+      error,
+    );
+    return internalError();
+  }
+}
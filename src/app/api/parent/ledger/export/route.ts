@@ -1,92 +1,33 @@
 import { NextRequest, NextResponse } from "next/server";
-import { adminAuth, adminDb } from "@/lib/firebase.server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { exportLedger } from "@/lib/ledger-export";
+import { LedgerExportQuerySchema } from "@/lib/types";
+import { statusError, validationError } from "@/lib/api-error";
 
 export const dynamic = "force-dynamic";
 
-function bad(status: number, msg: string) {
-  return new NextResponse(msg, { status });
-}
-
 export async function GET(req: NextRequest) {
   const { searchParams } = new URL(req.url);
-  const parentId = searchParams.get("parentId");
-  const periodId = searchParams.get("periodId");
-
-  if (!parentId || !periodId)
-    return bad(400, "parentId and periodId are required");
-
-  // Expect an ID token (Authorization: Bearer <token>) from client
-  const authz = req.headers.get("authorization") || "";
-  const m = authz.match(/^Bearer\s+(.+)$/i);
-  if (!m) return bad(401, "Missing Bearer token");
-
-  let token;
-  try {
-    token = await adminAuth().verifyIdToken(m[1], true);
-  } catch (err) {
-    console.error("Token verification failed:", err);
-    return bad(401, "Invalid token");
+  const parsed = LedgerExportQuerySchema.safeParse(
+    Object.fromEntries(searchParams),
+  );
+  if (!parsed.success) {
+    return validationError(parsed.error);
   }
+  const { parentId, from, to, format } = parsed.data;
 
-  if (!(token.parentAdmin === true && token.parentId === parentId)) {
-    return bad(403, "Not a parent admin for this parentId");
-  }
-
-  const db = adminDb();
-  const snap = await db
-    .collection("parents")
-    .doc(parentId)
-    .collection("ledgers")
-    .doc(periodId)
-    .collection("lines")
-    .get();
-
-  const rows = [
-    [
-      "parentId",
-      "subOrgId",
-      "staffRef",
-      "venueId",
-      "periodId",
-      "hours",
-      "billRate",
-      "amount",
-      "sourceAttendanceId",
-      "createdAt",
-    ],
-  ];
-  snap.forEach((d) => {
-    const x = d.data();
-    rows.push([
-      x.parentId,
-      x.subOrgId,
-      x.staffRef,
-      x.venueId,
-      x.periodId,
-      String(x.hours ?? ""),
-      String(x.billRate ?? ""),
-      String(x.amount ?? ""),
-      x.sourceAttendanceId ?? "",
-      String(x.createdAt ?? ""),
-    ]);
-  });
-
-  const csv = rows
-    .map((r) =>
-      r
-        .map((v) => {
-          const s = String(v ?? "");
-          return /[,"\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
-        })
-        .join(","),
-    )
-    .join("\n");
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
 
-  return new NextResponse(csv, {
+  const { body, contentType, filename } = exportLedger(
+    { parentId, from, to },
+    format,
+  );
+  return new NextResponse(body, {
     status: 200,
     headers: {
-      "content-type": "text/csv; charset=utf-8",
-      "content-disposition": `attachment; filename="ledger_${parentId}_${periodId}.csv"`,
+      "content-type": contentType,
+      "content-disposition": `attachment; filename="${filename}"`,
     },
   });
 }
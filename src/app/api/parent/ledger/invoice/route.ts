@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { recordAudit } from "@/lib/audit";
+import { LedgerPeriodError, invoiceLedgerPeriod } from "@/lib/ledger";
+import { LedgerPeriodRefSchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(req: NextRequest) {
+  const parsed = LedgerPeriodRefSchema.safeParse(
+    await req.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId, periodId } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    const invoice = await invoiceLedgerPeriod(parentId, periodId, access.uid);
+    // Logged to every sub-org billed on the invoice
+    await recordAudit(
+      req,
+      { uid: access.uid },
+      Object.entries(invoice.summary.bySubOrg).map(([subOrgId, totals]) => ({
+        orgId: subOrgId,
+        action: "ledger.invoice" as const,
+        target: { type: "ledger-period", id: periodId },
+        before: { status: "closed" },
+        after: {
+          parentId,
+          status: "invoiced",
+          invoiceNumber: invoice.invoiceNumber,
+          totals,
+        },
+      })),
+    );
+    return NextResponse.json(invoice, { status: 201 });
+  } catch (error) {
+    if (error instanceof LedgerPeriodError) {
+      return statusError(error.status, error.message);
+    }
+    console.error(
+      `Error invoicing ledger period ${periodId} for parent ${parentId}:`,
+      error,
+    );
+    return internalError();
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { GET } from "./route";
+import { NextRequest } from "next/server";
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminAuth: vi.fn(),
+  adminDb: vi.fn(),
+}));
+
+vi.mock("@/lib/ledger", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/ledger")>()),
+  getLedgerPeriodDetail: vi.fn(),
+}));
+
+function callGet(periodId: string, parentId: string, token?: string) {
+  const req = new NextRequest(
+    `http://localhost:3000/api/parent/ledger/periods/${periodId}?parentId=${parentId}`,
+    {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    },
+  );
+  return GET(req, { params: Promise.resolve({ periodId }) });
+}
+
+async function mockToken(claims: Record<string, unknown>) {
+  const { adminAuth } = await import("@/lib/firebase.server");
+  (adminAuth as any).mockReturnValue({
+    verifyIdToken: vi.fn().mockResolvedValue({ uid: "admin-1", ...claims }),
+  });
+}
+
+describe("/api/parent/ledger/periods/[periodId]", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should require a bearer token", async () => {
+    const response = await callGet("2025-BW05", "parent-1");
+    expect(response.status).toBe(401);
+  });
+
+  it("should not show another parent's period", async () => {
+    const { getLedgerPeriodDetail } = await import("@/lib/ledger");
+    await mockToken({ parentAdmin: true, parentId: "parent-2" });
+
+    const response = await callGet("2025-BW05", "parent-1", "token");
+
+    expect(response.status).toBe(403);
+    expect(getLedgerPeriodDetail).not.toHaveBeenCalled();
+  });
+
+  it("should return the period detail", async () => {
+    const { getLedgerPeriodDetail } = await import("@/lib/ledger");
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+    (getLedgerPeriodDetail as any).mockResolvedValue({
+      period: { parentId: "parent-1", periodId: "2025-BW05", status: "open" },
+      lines: [],
+      totalLines: 0,
+    });
+
+    const response = await callGet("2025-BW05", "parent-1", "token");
+
+    expect(response.status).toBe(200);
+    expect(getLedgerPeriodDetail).toHaveBeenCalledWith("parent-1", "2025-BW05");
+    expect((await response.json()).period.status).toBe("open");
+  });
+
+  it("should return 404 for a period with no ledger", async () => {
+    const { getLedgerPeriodDetail, LedgerPeriodError } = await import(
+      "@/lib/ledger"
+    );
+    await mockToken({ parentAdmin: true, parentId: "parent-1" });
+    (getLedgerPeriodDetail as any).mockRejectedValue(
+      new LedgerPeriodError("Ledger period not found", 404),
+    );
+
+    const response = await callGet("2025-BW05", "parent-1", "token");
+
+    expect(response.status).toBe(404);
+  });
+});
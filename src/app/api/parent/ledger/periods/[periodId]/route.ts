@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { LedgerPeriodError, getLedgerPeriodDetail } from "@/lib/ledger";
+import { LedgerPeriodRefSchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ periodId: string }> },
+) {
+  const { searchParams } = new URL(req.url);
+  const parsed = LedgerPeriodRefSchema.safeParse({
+    parentId: searchParams.get("parentId"),
+    periodId: (await params).periodId,
+  });
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId, periodId } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    return NextResponse.json(await getLedgerPeriodDetail(parentId, periodId));
+  } catch (error) {
+    if (error instanceof LedgerPeriodError) {
+      return statusError(error.status, error.message);
+    }
+    console.error(
+      `Error loading ledger period ${periodId} for parent ${parentId}:`,
+      error,
+    );
+    return internalError();
+  }
+}
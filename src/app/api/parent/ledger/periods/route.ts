@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { listLedgerPeriods } from "@/lib/ledger";
+import { ParentQuerySchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const parsed = ParentQuerySchema.safeParse({
+    parentId: searchParams.get("parentId"),
+  });
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    return NextResponse.json(await listLedgerPeriods(parentId));
+  } catch (error) {
+    console.error(
+      `Error listing ledger periods for parent ${parentId}:`,
+      error,
+    );
+    return internalError();
+  }
+}
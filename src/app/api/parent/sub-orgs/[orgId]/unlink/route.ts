@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { recordAudit } from "@/lib/audit";
+import { SubOrgLinkError, unlinkSubOrg } from "@/lib/parents";
+import { ParentQuerySchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> },
+) {
+  const { orgId } = await params;
+  const parsed = ParentQuerySchema.safeParse(
+    await req.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    await unlinkSubOrg(orgId, access.uid, parentId);
+    // Logged to the sub-org, whose admins lose the parent's oversight
+    await recordAudit(
+      req,
+      { uid: access.uid },
+      {
+        orgId,
+        action: "parent.unlink",
+        target: { type: "org", id: orgId },
+        before: { parentId },
+        after: { parentId: null },
+      },
+    );
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof SubOrgLinkError) {
+      return statusError(error.status, error.message);
+    }
+    console.error(
+      `Error unlinking org ${orgId} from parent ${parentId}:`,
+      error,
+    );
+    return internalError();
+  }
+}
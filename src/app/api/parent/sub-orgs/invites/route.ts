@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { recordAudit } from "@/lib/audit";
+import { SubOrgLinkError, inviteSubOrg, listLinkInvites } from "@/lib/parents";
+import { InviteSubOrgSchema, ParentQuerySchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const parsed = ParentQuerySchema.safeParse({
+    parentId: searchParams.get("parentId"),
+  });
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    return NextResponse.json(await listLinkInvites(parentId));
+  } catch (error) {
+    console.error(`Error listing link invites for parent ${parentId}:`, error);
+    return internalError();
+  }
+}
+
+// Invites an existing org; its admins accept from the org side
+export async function POST(req: NextRequest) {
+  const parsed = InviteSubOrgSchema.safeParse(
+    await req.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId, orgId, effectiveFrom, ...terms } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    const invite = await inviteSubOrg(
+      parentId,
+      orgId,
+      effectiveFrom,
+      terms,
+      access.uid,
+    );
+    // Logged to the invited org, whose admins decide on it
+    await recordAudit(
+      req,
+      { uid: access.uid },
+      {
+        orgId,
+        action: "parent.invite",
+        target: { type: "org", id: orgId },
+        after: { parentId, effectiveFrom, ...terms },
+      },
+    );
+    return NextResponse.json(invite, { status: 201 });
+  } catch (error) {
+    if (error instanceof SubOrgLinkError) {
+      return statusError(error.status, error.message);
+    }
+    console.error(`Error inviting org ${orgId} to parent ${parentId}:`, error);
+    return internalError();
+  }
+}
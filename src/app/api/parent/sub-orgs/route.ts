@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyParentAdmin } from "@/lib/auth-utils";
+import { recordAudit } from "@/lib/audit";
+import { createSubOrg, listSubOrgs } from "@/lib/parents";
+import { CreateSubOrgSchema, ParentQuerySchema } from "@/lib/types";
+import { internalError, statusError, validationError } from "@/lib/api-error";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const parsed = ParentQuerySchema.safeParse({
+    parentId: searchParams.get("parentId"),
+  });
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    return NextResponse.json(await listSubOrgs(parentId));
+  } catch (error) {
+    console.error(`Error listing sub-orgs for parent ${parentId}:`, error);
+    return internalError();
+  }
+}
+
+// Creates an org linked to the parent from the start
+export async function POST(req: NextRequest) {
+  const parsed = CreateSubOrgSchema.safeParse(
+    await req.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return validationError(parsed.error);
+  }
+  const { parentId, name, timeZone, effectiveFrom, ...terms } = parsed.data;
+
+  const access = await verifyParentAdmin(req, parentId);
+  if ("status" in access) return statusError(access.status, access.message);
+
+  try {
+    const created = await createSubOrg(
+      parentId,
+      { name, timeZone, effectiveFrom, terms },
+      access.uid,
+    );
+    await recordAudit(
+      req,
+      { uid: access.uid },
+      {
+        orgId: created.orgId,
+        action: "org.create",
+        target: { type: "org", id: created.orgId },
+        after: { name, timeZone, parentId },
+      },
+    );
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error(`Error creating sub-org for parent ${parentId}:`, error);
+    return internalError();
+  }
+}
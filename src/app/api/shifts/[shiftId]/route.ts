@@ -1,38 +1,66 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { adminDb } from "@/lib/firebase.server";
-import { getSession } from "@/lib/session";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
 import { Shift } from "@/lib/types";
 import { verifyOrgAccess } from "@/lib/auth-utils";
+import { findLockedPeriod } from "@/lib/schedule-periods";
+import { toIsoString } from "@/lib/shifts";
+import { apiError, internalError } from "@/lib/api-error";
 
-export async function DELETE(req: NextRequest) {
-  // Expect shiftId as part of the pathname
-  const url = new URL(req.url);
-  const parts = url.pathname.split("/").filter(Boolean);
-  const shiftId = parts[parts.indexOf("shifts") + 1];
-  if (!shiftId) return new NextResponse("Missing shiftId", { status: 400 });
+export const DELETE = withGuard<{ shiftId: string }>(
+  {},
+  async (req, { params: { shiftId }, uid, email }) => {
+    try {
+      // Find shift by id using collectionGroup
+      const shiftQuery = adminDb()
+        .collectionGroup("shifts")
+        .where("id", "==", shiftId);
+      const shiftSnapshot = await shiftQuery.get();
+      if (shiftSnapshot.empty)
+        return apiError(404, "not-found", "Shift not found");
 
-  // Get session
-  const session = await getSession(req);
-  if (!session) return new NextResponse("Unauthorized", { status: 401 });
+      const shiftDoc = shiftSnapshot.docs[0];
+      const shiftData = shiftDoc.data() as Shift;
 
-  // Find shift by id using collectionGroup
-  const shiftQuery = adminDb()
-    .collectionGroup("shifts")
-    .where("id", "==", shiftId);
-  const shiftSnapshot = await shiftQuery.get();
-  if (shiftSnapshot.empty)
-    return new NextResponse("Shift not found", { status: 404 });
+      // Verify org access
+      const allowed = await verifyOrgAccess(
+        uid,
+        shiftData.orgId,
+        "schedule.edit",
+        shiftData.venueId ?? null,
+      );
+      if (!allowed) {
+        return apiError(403, "forbidden", "You cannot delete this shift.");
+      }
 
-  const shiftDoc = shiftSnapshot.docs[0];
-  const shiftData = shiftDoc.data() as Shift;
+      const lockedPeriod = await findLockedPeriod(
+        shiftData.orgId,
+        new Date(toIsoString(shiftData.start)),
+      );
+      if (lockedPeriod) {
+        return apiError(
+          409,
+          "conflict",
+          `Schedule period ${lockedPeriod} is locked`,
+        );
+      }
 
-  // Verify org access
-  const allowed = await verifyOrgAccess(session.uid, shiftData.orgId, [
-    "admin",
-    "manager",
-  ]);
-  if (!allowed) return new NextResponse("Forbidden", { status: 403 });
-
-  await shiftDoc.ref.delete();
-  return new NextResponse(null, { status: 204 });
-}
+      await shiftDoc.ref.delete();
+      await recordAudit(
+        req,
+        { uid, email },
+        {
+          orgId: shiftData.orgId,
+          action: "shift.delete",
+          target: { type: "shift", id: shiftId },
+          before: shiftData,
+        },
+      );
+      return new NextResponse(null, { status: 204 });
+    } catch (error) {
+      console.error(`Error deleting shift ${shiftId}:`, error);
+      return internalError();
+    }
+  },
+);
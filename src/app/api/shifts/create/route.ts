@@ -3,9 +3,11 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { adminDb } from "@/lib/firebase.server";
-import { getSession } from "@/lib/session";
+import { withGuard } from "@/lib/api-guard";
+import { recordAudit } from "@/lib/audit";
 import { ShiftSchema } from "@/lib/types";
 import { verifyOrgAccess } from "@/lib/auth-utils";
+import { apiError, internalError, validationError } from "@/lib/api-error";
 
 const CreateShiftRequestSchema = ShiftSchema.omit({
   id: true,
@@ -13,25 +15,23 @@ const CreateShiftRequestSchema = ShiftSchema.omit({
   updatedAt: true,
 });
 
-export async function POST(request: Request) {
+export const POST = withGuard({}, async (request, { uid, email }) => {
   try {
-    const session = await getSession(request);
-    if (!session?.uid) {
-      return new NextResponse("Unauthorized", { status: 401 });
-    }
-
     const json = await request.json();
     const parsedData = CreateShiftRequestSchema.parse(json);
 
     // Verify user has permission to create shifts in this org
-    const isAllowed = await verifyOrgAccess(session.uid, parsedData.orgId, [
-      "admin",
-      "manager",
-    ]);
+    const isAllowed = await verifyOrgAccess(
+      uid,
+      parsedData.orgId,
+      "schedule.edit",
+      parsedData.venueId ?? null,
+    );
     if (!isAllowed) {
-      return new NextResponse(
-        "Forbidden: You do not have permission to create shifts.",
-        { status: 403 },
+      return apiError(
+        403,
+        "forbidden",
+        "You do not have permission to create shifts.",
       );
     }
 
@@ -47,13 +47,23 @@ export async function POST(request: Request) {
     };
 
     await shiftRef.set(newShift);
+    await recordAudit(
+      request,
+      { uid, email },
+      {
+        orgId: parsedData.orgId,
+        action: "shift.create",
+        target: { type: "shift", id: shiftRef.id },
+        after: newShift,
+      },
+    );
 
     return NextResponse.json(newShift, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
-      return new NextResponse(JSON.stringify(error.issues), { status: 400 });
+      return validationError(error);
     }
     console.error("Error creating shift:", error);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    return internalError();
   }
-}
+});
@@ -1,34 +1,44 @@
-import { NextResponse } from "next/server";
-import { adminDb } from "@/lib/firebase.server";
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasPermission } from "@/lib/permissions";
+import { ShiftListQuerySchema } from "@/lib/types";
+import { InvalidCursorError, listShifts } from "@/lib/shifts";
+import { apiError, internalError, validationError } from "@/lib/api-error";
 
-export async function GET(req: Request) {
+/**
+ * Legacy listing endpoint kept for older clients; returns a bare array.
+ * New callers should use /api/orgs/{orgId}/shifts, which also paginates.
+ */
+export async function GET(req: NextRequest) {
   try {
-    const url = new URL(req.url);
-    const orgId = url.searchParams.get("orgId");
-    if (!orgId) return new NextResponse("Missing orgId", { status: 400 });
+    const orgId = req.nextUrl.searchParams.get("orgId");
+    if (!orgId) return apiError(400, "bad-request", "Missing orgId");
 
-    const snapshot = await adminDb().collection(`orgs/${orgId}/shifts`).get();
-    const shifts = snapshot.docs.map((d) => {
-      const data = d.data();
-      return {
-        ...data,
-        start:
-          data.start instanceof Date ? data.start.toISOString() : data.start,
-        end: data.end instanceof Date ? data.end.toISOString() : data.end,
-        createdAt:
-          data.createdAt instanceof Date
-            ? data.createdAt.toISOString()
-            : data.createdAt,
-        updatedAt:
-          data.updatedAt instanceof Date
-            ? data.updatedAt.toISOString()
-            : data.updatedAt,
-      };
-    });
+    const session = await getSession(req);
+    if (!session?.uid)
+      return apiError(401, "unauthenticated", "Authentication required.");
+
+    const access = await getOrgAccess(session.uid, orgId);
+    if (!access) return apiError(403, "forbidden", "Forbidden");
 
+    const { orgId: _orgId, ...filters } = Object.fromEntries(
+      req.nextUrl.searchParams,
+    );
+    const parsed = ShiftListQuerySchema.safeParse(filters);
+    if (!parsed.success) {
+      return validationError(parsed.error);
+    }
+
+    const { shifts } = await listShifts(orgId, parsed.data, {
+      published: !hasPermission(access, "schedule.edit"),
+    });
     return NextResponse.json(shifts);
   } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      return apiError(400, "bad-request", err.message);
+    }
     console.error("Error fetching shifts:", err);
-    return new NextResponse("Internal Server Error", { status: 500 });
+    return internalError();
   }
 }
@@ -24,6 +24,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ApiError, api } from "@/lib/api.client";
 
 interface Organization {
   id: string;
@@ -50,20 +51,15 @@ export default function DiscoverPage() {
     setError("");
 
     try {
-      const params = new URLSearchParams();
-      if (query) params.append("q", query);
-
-      const response = await fetch(`/api/orgs/search?${params}`);
-      const data = await response.json();
-
-      if (data.success) {
-        setOrganizations(data.organizations || []);
+      const data = await api.orgs.search(query);
+      setOrganizations(data.organizations || []);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
       } else {
-        setError(data.error || "Failed to search organizations");
+        console.error("Search error:", err);
+        setError("An unexpected error occurred. Please try again.");
       }
-    } catch (err) {
-      console.error("Search error:", err);
-      setError("An unexpected error occurred. Please try again.");
     } finally {
       setIsLoading(false);
     }
@@ -78,44 +74,18 @@ export default function DiscoverPage() {
     setRequestingAccess(orgId);
 
     try {
-      // Get CSRF token first
-      const csrfResponse = await fetch("/api/auth/csrf");
-      if (!csrfResponse.ok) {
-        throw new Error("Failed to get CSRF token");
-      }
-
-      const csrfToken = document.cookie
-        .split("; ")
-        .find((row) => row.startsWith("XSRF-TOKEN="))
-        ?.split("=")[1];
-
-      if (!csrfToken) {
-        throw new Error("CSRF token not found");
-      }
-
-      const response = await fetch("/api/orgs/request-access", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-csrf-token": csrfToken,
-        },
-        body: JSON.stringify({
-          orgId,
-          message: "I would like to join this organization.",
-        }),
+      await api.orgs.requestAccess({
+        orgId,
+        message: "I would like to join this organization.",
       });
-
-      const data = await response.json();
-
-      if (data.success) {
-        // Show success message and update UI
-        alert("Access request sent! You'll be notified when it's reviewed.");
+      alert("Access request sent! You'll be notified when it's reviewed.");
+    } catch (err) {
+      if (err instanceof ApiError) {
+        alert(err.message);
       } else {
-        alert(data.error || "Failed to request access");
+        console.error("Request access error:", err);
+        alert("An unexpected error occurred. Please try again.");
       }
-    } catch (err) {
-      console.error("Request access error:", err);
-      alert("An unexpected error occurred. Please try again.");
     } finally {
       setRequestingAccess(null);
     }
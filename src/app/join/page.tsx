@@ -17,6 +17,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ApiError, api } from "@/lib/api.client";
 
 function JoinPageContent() {
   const searchParams = useSearchParams();
@@ -63,44 +64,18 @@ function JoinPageContent() {
     setSuccess("");
 
     try {
-      // Get CSRF token first
-      const csrfResponse = await fetch("/api/auth/csrf");
-      if (!csrfResponse.ok) {
-        throw new Error("Failed to get CSRF token");
-      }
-
-      const csrfToken = document.cookie
-        .split("; ")
-        .find((row) => row.startsWith("XSRF-TOKEN="))
-        ?.split("=")[1];
-
-      if (!csrfToken) {
-        throw new Error("CSRF token not found");
-      }
-
-      // Join organization
-      const response = await fetch("/api/orgs/join", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-csrf-token": csrfToken,
-        },
-        body: JSON.stringify({ inviteCode }),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        setSuccess(`Successfully joined ${data.orgName || "organization"}!`);
-        setTimeout(() => {
-          router.push("/dashboard");
-        }, 2000);
+      const data = await api.orgs.join({ inviteCode });
+      setSuccess(`Successfully joined ${data.orgName || "organization"}!`);
+      setTimeout(() => {
+        router.push("/dashboard");
+      }, 2000);
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
       } else {
-        setError(data.error || "Failed to join organization");
+        console.error("Join error:", err);
+        setError("An unexpected error occurred. Please try again.");
       }
-    } catch (err) {
-      console.error("Join error:", err);
-      setError("An unexpected error occurred. Please try again.");
     } finally {
       setIsLoading(false);
     }
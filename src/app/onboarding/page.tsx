@@ -27,6 +27,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { ApiError, apiFetch } from "@/lib/api.client";
 
 interface StepProps {
   onNext?: () => void;
@@ -371,42 +372,24 @@ export default function OnboardingPage() {
     setError("");
 
     try {
-      // Get CSRF token first
-      const csrfResponse = await fetch("/api/auth/csrf");
-      if (!csrfResponse.ok) {
-        throw new Error("Failed to get CSRF token");
-      }
-
-      const csrfToken = document.cookie
-        .split("; ")
-        .find((row) => row.startsWith("XSRF-TOKEN="))
-        ?.split("=")[1];
-
-      if (!csrfToken) {
-        throw new Error("CSRF token not found");
-      }
-
-      // Create organization
-      const response = await fetch("/api/orgs/create", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-csrf-token": csrfToken,
+      const data = await apiFetch<{ orgId: string; orgName: string }>(
+        "/api/orgs/create",
+        {
+          json: {
+            ...formData,
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          },
         },
-        body: JSON.stringify(formData),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        setOrgName(data.orgName);
-        setStep(3); // Go to success step
+      );
+      setOrgName(data.orgName);
+      setStep(3); // Go to success step
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
       } else {
-        setError(data.error || "Failed to create organization");
+        console.error("Create organization error:", err);
+        setError("An unexpected error occurred. Please try again.");
       }
-    } catch (err) {
-      console.error("Create organization error:", err);
-      setError("An unexpected error occurred. Please try again.");
     } finally {
       setIsLoading(false);
     }
@@ -0,0 +1,261 @@
+// src/components/admin/audit-log.tsx
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Download } from "lucide-react";
+import { api } from "@/lib/api.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AuditActionSchema,
+  type OrgMember,
+  type SerializedAuditEntry,
+} from "@/lib/types";
+
+// The Select cannot hold an empty value, so "all" stands for no filter
+const ALL = "all";
+
+interface Filters {
+  action: string;
+  actorUid: string;
+  from: string; // yyyy-MM-dd, inclusive
+  to: string; // yyyy-MM-dd, inclusive
+}
+
+const NO_FILTERS: Filters = { action: ALL, actorUid: ALL, from: "", to: "" };
+
+// The filters as the audit routes take them; the `to` day is included by
+// bounding the range at the start of the next day
+function toQuery(filters: Filters): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (filters.action !== ALL) query.action = filters.action;
+  if (filters.actorUid !== ALL) query.actorUid = filters.actorUid;
+  if (filters.from)
+    query.from = new Date(`${filters.from}T00:00`).toISOString();
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00`);
+    end.setDate(end.getDate() + 1);
+    query.to = end.toISOString();
+  }
+  return query;
+}
+
+function describeChanges(entry: SerializedAuditEntry) {
+  return Object.entries(entry.changes).map(([field, change]) => (
+    <div key={field} className="font-mono text-xs">
+      <span className="font-semibold">{field}</span>:{" "}
+      <span className="text-muted-foreground">
+        {JSON.stringify(change.before)}
+      </span>{" "}
+      → {JSON.stringify(change.after)}
+    </div>
+  ));
+}
+
+/**
+ * The org's audit log, newest first, with filters by action, actor and
+ * day, and downloads of everything the filters match.
+ */
+export function AuditLog() {
+  const { orgId, permissions } = useActiveOrg();
+  const canView = permissions.includes("audit.view");
+  const [filters, setFilters] = useState<Filters>(NO_FILTERS);
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const [entries, setEntries] = useState<SerializedAuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const query = useMemo(() => toQuery(filters), [filters]);
+
+  useEffect(() => {
+    if (!orgId || !canView) return;
+    api.members
+      .list(orgId)
+      .then(setMembers)
+      .catch((error) => console.error("Failed to load members:", error));
+  }, [orgId, canView]);
+
+  const load = useCallback(
+    async (cursor?: string) => {
+      if (!orgId || !canView) return;
+      setLoading(true);
+      try {
+        const page = await api.audit.list(orgId, {
+          ...query,
+          ...(cursor && { cursor }),
+        });
+        setEntries((current) =>
+          cursor ? [...current, ...page.entries] : page.entries,
+        );
+        setNextCursor(page.nextCursor);
+      } catch (error) {
+        console.error("Failed to load the audit log:", error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [orgId, canView, query],
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (!canView) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You do not have permission to view the audit log.
+      </p>
+    );
+  }
+
+  const setFilter = (field: keyof Filters) => (value: string) =>
+    setFilters((current) => ({ ...current, [field]: value }));
+
+  const actorName = (entry: SerializedAuditEntry) => {
+    const member = members.find((m) => m.uid === entry.actorUid);
+    return member?.displayName ?? entry.actorEmail ?? entry.actorUid;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="audit-action">Action</Label>
+          <Select value={filters.action} onValueChange={setFilter("action")}>
+            <SelectTrigger id="audit-action" className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {AuditActionSchema.options.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {action}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-actor">Actor</Label>
+          <Select
+            value={filters.actorUid}
+            onValueChange={setFilter("actorUid")}
+          >
+            <SelectTrigger id="audit-actor" className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Everyone</SelectItem>
+              {members.map((member) => (
+                <SelectItem key={member.uid} value={member.uid}>
+                  {member.displayName ?? member.email ?? member.uid}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-from">From</Label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilter("from")(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-to">To</Label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilter("to")(e.target.value)}
+          />
+        </div>
+        <Button variant="ghost" onClick={() => setFilters(NO_FILTERS)}>
+          Clear
+        </Button>
+        <div className="ml-auto flex gap-2">
+          {(["csv", "json"] as const).map((type) => (
+            <Button key={type} variant="outline" asChild>
+              <a href={orgId ? api.audit.exportUrl(orgId, query, type) : "#"}>
+                <Download className="mr-2 h-4 w-4" />
+                Export {type.toUpperCase()}
+              </a>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {loading ? "Loading the audit log…" : "No entries match."}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>When</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Actor</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Changes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap">
+                  {format(parseISO(entry.at), "PP p")}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary">{entry.action}</Badge>
+                </TableCell>
+                <TableCell>
+                  <div>{actorName(entry)}</div>
+                  {entry.ip && (
+                    <p className="text-xs text-muted-foreground">{entry.ip}</p>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-xs">
+                  {entry.target.type}/{entry.target.id}
+                </TableCell>
+                <TableCell>{describeChanges(entry)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {nextCursor && (
+        <Button
+          variant="outline"
+          disabled={loading}
+          onClick={() => load(nextCursor)}
+        >
+          {loading ? "Loading…" : "Load more"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Upload } from "lucide-react";
+import { ApiError, apiFetch } from "@/lib/api.client";
 
 interface BulkInviteFormProps {
   orgId: string;
@@ -88,26 +89,20 @@ export default function BulkInviteForm({
         users,
       };
 
-      const response = await fetch("/api/invites/bulk-create", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
-
-      const data = await response.json();
-
-      if (data.success) {
-        onInvitesCreated(data.createdCount);
-        setShowDialog(false);
-        setCsvData("");
+      const data = await apiFetch<{ success: boolean; createdCount: number }>(
+        "/api/invites/bulk-create",
+        { json: payload },
+      );
+      onInvitesCreated(data.createdCount);
+      setShowDialog(false);
+      setCsvData("");
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError(err.message);
       } else {
-        setError(data.error || "Failed to create invites");
+        console.error("Bulk invite error:", err);
+        setError("An unexpected error occurred. Please try again.");
       }
-    } catch (err) {
-      console.error("Bulk invite error:", err);
-      setError("An unexpected error occurred. Please try again.");
     } finally {
       setIsLoading(false);
     }
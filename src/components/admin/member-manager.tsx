@@ -0,0 +1,370 @@
+// src/components/admin/member-manager.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { MoreHorizontal } from "lucide-react";
+import { api, apiFetch } from "@/lib/api.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { useVenues } from "@/hooks/use-venues";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { OrgMember, OrgRole, UpdateOrgMember } from "@/lib/types";
+
+// A change waiting for the user to confirm it
+type Pending = { kind: "remove" | "transfer"; member: OrgMember };
+
+const nameOf = (member: OrgMember) =>
+  member.displayName ?? member.email ?? member.uid;
+
+/**
+ * The org's members with their roles and venues. Member managers change
+ * roles and venue scopes, suspend and remove members; the owner can hand
+ * the org to another member.
+ */
+export function MemberManager() {
+  const { uid, orgId, permissions, ownerUid } = useActiveOrg();
+  const canManage = permissions.includes("members.manage");
+  const { venues } = useVenues(orgId, canManage);
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const [roles, setRoles] = useState<OrgRole[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [pending, setPending] = useState<Pending | null>(null);
+  const [owner, setOwner] = useState<string | null>(null);
+
+  useEffect(() => setOwner(ownerUid), [ownerUid]);
+
+  const load = useCallback(async () => {
+    if (!orgId || !canManage) return;
+    setLoading(true);
+    try {
+      const [members, roles] = await Promise.all([
+        api.members.list(orgId),
+        apiFetch<OrgRole[]>(`/api/orgs/${encodeURIComponent(orgId)}/roles`),
+      ]);
+      setMembers(members.sort((a, b) => nameOf(a).localeCompare(nameOf(b))));
+      setRoles(roles);
+    } catch (error) {
+      console.error("Failed to load members:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [orgId, canManage]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast({ title: "Success", description: success });
+      await load();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const update = (
+    member: OrgMember,
+    patch: UpdateOrgMember,
+    success: string,
+  ) => {
+    if (orgId) run(() => api.members.update(orgId, member.uid, patch), success);
+  };
+
+  // Unticking the last venue lifts the limit rather than leaving none
+  const toggleVenue = (member: OrgMember, venueId: string) => {
+    const current = member.venueIds ?? [];
+    const next = current.includes(venueId)
+      ? current.filter((id) => id !== venueId)
+      : [...current, venueId];
+    update(
+      member,
+      { venueIds: next.length > 0 ? next : null },
+      `Updated venues for ${nameOf(member)}`,
+    );
+  };
+
+  const confirm = () => {
+    if (!orgId || !pending) return;
+    const { kind, member } = pending;
+    setPending(null);
+    if (kind === "remove") {
+      run(
+        () => api.members.remove(orgId, member.uid),
+        `Removed ${nameOf(member)}`,
+      );
+    } else {
+      run(
+        async () => {
+          await api.orgs.transferOwnership(orgId, member.uid);
+          setOwner(member.uid);
+        },
+        `${nameOf(member)} now owns the organization`,
+      );
+    }
+  };
+
+  if (!canManage) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You do not have permission to manage members.
+      </p>
+    );
+  }
+
+  const roleName = (roleId: string) =>
+    roles.find((role) => role.id === roleId)?.name ?? roleId;
+  const venueName = (venueId: string) =>
+    venues.find((venue) => venue.id === venueId)?.name ?? venueId;
+
+  return (
+    <>
+      {members.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {loading ? "Loading members…" : "No members yet."}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Member</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Venues</TableHead>
+              <TableHead className="w-12">
+                <span className="sr-only">Actions</span>
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {members.map((member) => {
+              const isOwner = member.uid === owner;
+              const isSelf = member.uid === uid;
+              return (
+                <TableRow
+                  key={member.uid}
+                  className={member.suspended ? "opacity-60" : undefined}
+                >
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{nameOf(member)}</span>
+                      {isOwner && <Badge variant="secondary">Owner</Badge>}
+                      {member.suspended && (
+                        <Badge variant="destructive">Suspended</Badge>
+                      )}
+                    </div>
+                    {member.displayName && member.email && (
+                      <p className="text-sm text-muted-foreground">
+                        {member.email}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={member.role}
+                      disabled={busy}
+                      onValueChange={(role) =>
+                        update(
+                          member,
+                          { role },
+                          `${nameOf(member)} is now ${roleName(role)}`,
+                        )
+                      }
+                    >
+                      <SelectTrigger
+                        className="w-40"
+                        aria-label={`Role for ${nameOf(member)}`}
+                      >
+                        <SelectValue>{roleName(member.role)}</SelectValue>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.map((role) => (
+                          <SelectItem key={role.id} value={role.id}>
+                            {role.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busy || venues.length === 0}
+                        >
+                          {member.venueIds
+                            ? member.venueIds.map(venueName).join(", ")
+                            : "All venues"}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        <DropdownMenuCheckboxItem
+                          checked={!member.venueIds}
+                          onCheckedChange={() =>
+                            update(
+                              member,
+                              { venueIds: null },
+                              `${nameOf(member)} can work at every venue`,
+                            )
+                          }
+                        >
+                          All venues
+                        </DropdownMenuCheckboxItem>
+                        <DropdownMenuSeparator />
+                        {venues.map((venue) => (
+                          <DropdownMenuCheckboxItem
+                            key={venue.id}
+                            checked={member.venueIds?.includes(venue.id)}
+                            onCheckedChange={() =>
+                              toggleVenue(member, venue.id)
+                            }
+                          >
+                            {venue.name}
+                          </DropdownMenuCheckboxItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={`Actions for ${nameOf(member)}`}
+                          disabled={busy}
+                        >
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {member.suspended ? (
+                          <DropdownMenuItem
+                            onSelect={() =>
+                              update(
+                                member,
+                                { suspended: false },
+                                `Reinstated ${nameOf(member)}`,
+                              )
+                            }
+                          >
+                            Reinstate
+                          </DropdownMenuItem>
+                        ) : (
+                          <DropdownMenuItem
+                            disabled={isSelf || isOwner}
+                            onSelect={() =>
+                              update(
+                                member,
+                                { suspended: true },
+                                `Suspended ${nameOf(member)}`,
+                              )
+                            }
+                          >
+                            Suspend
+                          </DropdownMenuItem>
+                        )}
+                        {uid === owner && !isOwner && (
+                          <DropdownMenuItem
+                            disabled={member.suspended}
+                            onSelect={() =>
+                              setPending({ kind: "transfer", member })
+                            }
+                          >
+                            Make owner
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          className="text-destructive"
+                          disabled={isOwner}
+                          onSelect={() =>
+                            setPending({ kind: "remove", member })
+                          }
+                        >
+                          Remove
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <AlertDialog
+        open={pending !== null}
+        onOpenChange={(open) => !open && setPending(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pending?.kind === "remove"
+                ? `Remove ${pending && nameOf(pending.member)}?`
+                : `Make ${pending && nameOf(pending.member)} the owner?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending?.kind === "remove"
+                ? "They lose access right away and are signed out everywhere. Suspend them instead to keep them on the books."
+                : "They become an admin if they are not one. You stay an admin, but only the new owner can transfer ownership again."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirm}>
+              {pending?.kind === "remove" ? "Remove" : "Transfer ownership"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
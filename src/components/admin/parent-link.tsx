@@ -0,0 +1,146 @@
+// src/components/admin/parent-link.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { OrgParentLink, SubOrgLinkInvite } from "@/lib/types";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ApiError } from "@/lib/api.client";
+
+function describeInvite({ terms, effectiveFrom }: SubOrgLinkInvite) {
+  return `${terms.billRate.toFixed(2)}/h, ${terms.period} periods, from ${effectiveFrom}`;
+}
+
+/**
+ * The org's parent organization for admins: invites to accept or decline
+ * while unlinked, and unlinking once linked.
+ */
+export function ParentLink() {
+  const { orgId, permissions } = useActiveOrg();
+  const canManage = permissions.includes("org.manage");
+  const [link, setLink] = useState<OrgParentLink | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const base = orgId ? `/api/orgs/${encodeURIComponent(orgId)}` : null;
+
+  const load = useCallback(async () => {
+    if (!base) return;
+    try {
+      const res = await fetch(`${base}/parent-invites`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw await ApiError.fromResponse(res);
+      setLink(await res.json());
+    } catch (error) {
+      console.error("Failed to load parent invites:", error);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    if (canManage) load();
+  }, [load, canManage]);
+
+  const send = async (path: string, init: RequestInit, success: string) => {
+    setBusy(true);
+    try {
+      const res = await fetch(`${base}${path}`, {
+        ...init,
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": await getCsrfToken(),
+        },
+      });
+      if (!res.ok) throw await ApiError.fromResponse(res);
+      toast({ title: "Success", description: success });
+      load();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const respond = (parentId: string, action: "accept" | "decline") =>
+    send(
+      `/parent-invites/${encodeURIComponent(parentId)}`,
+      { method: "POST", body: JSON.stringify({ action }) },
+      action === "accept" ? `Linked to ${parentId}` : "Invite declined",
+    );
+
+  if (!canManage || !link) return null;
+  if (!link.parentId && link.invites.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Parent Organization</CardTitle>
+        <CardDescription>
+          A parent is billed for the hours this organization approves.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {link.parentId ? (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm">
+              Linked to <span className="font-medium">{link.parentId}</span>
+            </p>
+            <Button
+              variant="outline"
+              disabled={busy}
+              onClick={() =>
+                send("/parent", { method: "DELETE" }, "Unlinked from parent")
+              }
+            >
+              Unlink
+            </Button>
+          </div>
+        ) : (
+          link.invites.map((invite) => (
+            <div
+              key={invite.parentId}
+              className="flex items-center justify-between gap-4"
+            >
+              <div className="text-sm">
+                <p className="font-medium">{invite.parentId}</p>
+                <p className="text-muted-foreground">
+                  {describeInvite(invite)}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  disabled={busy}
+                  onClick={() => respond(invite.parentId, "decline")}
+                >
+                  Decline
+                </Button>
+                <Button
+                  disabled={busy}
+                  onClick={() => respond(invite.parentId, "accept")}
+                >
+                  Accept
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
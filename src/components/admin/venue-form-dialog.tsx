@@ -0,0 +1,109 @@
+// src/components/admin/venue-form-dialog.tsx
+
+"use client";
+
+import { useEffect, useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+export type VenueFormValues = {
+  name: string;
+  description?: string;
+  address?: string;
+};
+
+/**
+ * Add or edit a venue or one of its stands. Stands have no address.
+ */
+export function VenueFormDialog({
+  kind,
+  title,
+  trigger,
+  initial,
+  onSave,
+}: {
+  kind: "venue" | "stand";
+  title: string;
+  trigger: ReactNode;
+  initial?: VenueFormValues;
+  onSave: (values: VenueFormValues) => Promise<boolean>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [address, setAddress] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(initial?.name ?? "");
+    setDescription(initial?.description ?? "");
+    setAddress(initial?.address ?? "");
+  }, [open, initial]);
+
+  const submit = async () => {
+    setSaving(true);
+    const saved = await onSave({
+      name: name.trim(),
+      ...(description.trim() && { description: description.trim() }),
+      ...(kind === "venue" && address.trim() && { address: address.trim() }),
+    });
+    setSaving(false);
+    if (saved) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label htmlFor={`${kind}-name`}>Name</Label>
+            <Input
+              id={`${kind}-name`}
+              placeholder={kind === "venue" ? "e.g., Arena" : "e.g., Booth 12"}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          {kind === "venue" && (
+            <div className="grid gap-2">
+              <Label htmlFor="venue-address">Address</Label>
+              <Input
+                id="venue-address"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label htmlFor={`${kind}-description`}>Description</Label>
+            <Textarea
+              id={`${kind}-description`}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button disabled={saving || !name.trim()} onClick={submit}>
+            {saving ? "Saving…" : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
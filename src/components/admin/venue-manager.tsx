@@ -0,0 +1,227 @@
+// src/components/admin/venue-manager.tsx
+
+"use client";
+
+import { useState } from "react";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { useVenues } from "@/hooks/use-venues";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  VenueFormDialog,
+  type VenueFormValues,
+} from "@/components/admin/venue-form-dialog";
+import { ApiError } from "@/lib/api.client";
+
+/**
+ * Venues and the stands within them, which shifts are scheduled at.
+ * Shown to members who can manage the org.
+ */
+export function VenueManager() {
+  const { orgId, permissions } = useActiveOrg();
+  const canManage = permissions.includes("org.manage");
+  const { venues, loading, reload } = useVenues(orgId, canManage);
+  const [busy, setBusy] = useState(false);
+
+  const base = orgId ? `/api/orgs/${encodeURIComponent(orgId)}/venues` : "";
+
+  const send = async (
+    path: string,
+    init: RequestInit,
+    success: string,
+  ): Promise<boolean> => {
+    setBusy(true);
+    try {
+      const res = await fetch(`${base}${path}`, {
+        ...init,
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": await getCsrfToken(),
+        },
+      });
+      if (!res.ok) throw await ApiError.fromResponse(res);
+      toast({ title: "Success", description: success });
+      reload();
+      return true;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = (path: string, values: VenueFormValues, isNew: boolean) =>
+    send(
+      path,
+      { method: isNew ? "POST" : "PATCH", body: JSON.stringify(values) },
+      isNew ? `Added ${values.name}` : `Saved ${values.name}`,
+    );
+
+  if (!canManage) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Venues</CardTitle>
+          <CardDescription>
+            Where shifts take place, and the stands, booths or zones within each
+            venue.
+          </CardDescription>
+        </div>
+        <VenueFormDialog
+          kind="venue"
+          title="Add venue"
+          trigger={
+            <Button size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              Add venue
+            </Button>
+          }
+          onSave={(values) => save("", values, true)}
+        />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {venues.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            {loading ? "Loading venues…" : "No venues yet."}
+          </p>
+        )}
+        {venues.map((venue) => {
+          const venuePath = `/${encodeURIComponent(venue.id)}`;
+          return (
+            <div key={venue.id} className="rounded-md border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium">{venue.name}</p>
+                  {venue.address && (
+                    <p className="text-sm text-muted-foreground">
+                      {venue.address}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <VenueFormDialog
+                    kind="stand"
+                    title={`Add stand at ${venue.name}`}
+                    trigger={
+                      <Button variant="outline" size="sm" disabled={busy}>
+                        <Plus className="mr-2 h-4 w-4" />
+                        Stand
+                      </Button>
+                    }
+                    onSave={(values) =>
+                      save(`${venuePath}/stands`, values, true)
+                    }
+                  />
+                  <VenueFormDialog
+                    kind="venue"
+                    title="Edit venue"
+                    initial={venue}
+                    trigger={
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Edit ${venue.name}`}
+                        disabled={busy}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    }
+                    onSave={(values) => save(venuePath, values, false)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Delete ${venue.name}`}
+                    disabled={busy}
+                    onClick={() =>
+                      send(
+                        venuePath,
+                        { method: "DELETE" },
+                        `Deleted ${venue.name}`,
+                      )
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {venue.stands.length > 0 && (
+                <ul className="mt-3 divide-y border-t">
+                  {venue.stands.map((stand) => {
+                    const standPath = `${venuePath}/stands/${encodeURIComponent(stand.id)}`;
+                    return (
+                      <li
+                        key={stand.id}
+                        className="flex items-center justify-between gap-4 py-2 text-sm"
+                      >
+                        <span>
+                          {stand.name}
+                          {stand.description && (
+                            <span className="ml-2 text-muted-foreground">
+                              {stand.description}
+                            </span>
+                          )}
+                        </span>
+                        <div className="flex gap-1">
+                          <VenueFormDialog
+                            kind="stand"
+                            title="Edit stand"
+                            initial={stand}
+                            trigger={
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                aria-label={`Edit ${stand.name}`}
+                                disabled={busy}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            }
+                            onSave={(values) => save(standPath, values, false)}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label={`Delete ${stand.name}`}
+                            disabled={busy}
+                            onClick={() =>
+                              send(
+                                standPath,
+                                { method: "DELETE" },
+                                `Deleted ${stand.name}`,
+                              )
+                            }
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,259 @@
+// src/components/availability/availability-editor.tsx
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Trash2 } from "lucide-react";
+import type {
+  AvailabilityException,
+  SerializedAvailability,
+  Weekday,
+} from "@/lib/types";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ApiError } from "@/lib/api.client";
+
+const DAYS: { id: Weekday; label: string }[] = [
+  { id: "MO", label: "Monday" },
+  { id: "TU", label: "Tuesday" },
+  { id: "WE", label: "Wednesday" },
+  { id: "TH", label: "Thursday" },
+  { id: "FR", label: "Friday" },
+  { id: "SA", label: "Saturday" },
+  { id: "SU", label: "Sunday" },
+];
+
+interface DayState {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+type WeekState = Record<Weekday, DayState>;
+
+// The editor handles one window per day; the API accepts several.
+function weekFrom(availability?: SerializedAvailability): WeekState {
+  return Object.fromEntries(
+    DAYS.map(({ id }) => {
+      const window = availability?.weekly.find((w) => w.day === id);
+      return [
+        id,
+        {
+          enabled: !!window,
+          start: window?.start ?? "09:00",
+          end: window?.end ?? "17:00",
+        },
+      ];
+    }),
+  ) as WeekState;
+}
+
+/**
+ * Lets the signed-in member edit their weekly hours, weekly hour limit and
+ * time off for the active org.
+ */
+export function AvailabilityEditor() {
+  const { uid, orgId, loading: orgLoading } = useActiveOrg();
+  const [week, setWeek] = useState<WeekState>(() => weekFrom());
+  const [maxHours, setMaxHours] = useState("");
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [newDate, setNewDate] = useState("");
+  const [newReason, setNewReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const endpoint =
+    orgId && uid
+      ? `/api/orgs/${encodeURIComponent(orgId)}/members/${encodeURIComponent(uid)}/availability`
+      : null;
+
+  useEffect(() => {
+    if (!endpoint) return;
+    fetch(endpoint, { credentials: "include" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: SerializedAvailability | null) => {
+        if (!data) return;
+        setWeek(weekFrom(data));
+        setMaxHours(data.maxHoursPerWeek?.toString() ?? "");
+        setExceptions(data.exceptions);
+      })
+      .catch(console.error);
+  }, [endpoint]);
+
+  const updateDay = (day: Weekday, patch: Partial<DayState>) =>
+    setWeek((current) => ({
+      ...current,
+      [day]: { ...current[day], ...patch },
+    }));
+
+  const addTimeOff = () => {
+    if (!newDate || exceptions.some((e) => e.date === newDate)) return;
+    setExceptions(
+      [
+        ...exceptions,
+        {
+          date: newDate,
+          available: false,
+          ...(newReason && { reason: newReason }),
+        },
+      ].sort((a, b) => a.date.localeCompare(b.date)),
+    );
+    setNewDate("");
+    setNewReason("");
+  };
+
+  const handleSave = async () => {
+    if (!endpoint) return;
+    setSaving(true);
+    try {
+      const res = await fetch(endpoint, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": await getCsrfToken(),
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          weekly: DAYS.filter(({ id }) => week[id].enabled).map(({ id }) => ({
+            day: id,
+            start: week[id].start,
+            end: week[id].end,
+          })),
+          exceptions,
+          ...(maxHours && { maxHoursPerWeek: Number(maxHours) }),
+        }),
+      });
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      toast({ title: "Success", description: "Availability saved" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to save availability",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (orgLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+  if (!endpoint) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Join an organization to set your availability.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Turn on the days you can work. Leave every day off to be available at
+          any time.
+        </p>
+        {DAYS.map(({ id, label }) => (
+          <div key={id} className="flex items-center gap-3">
+            <Switch
+              id={`day-${id}`}
+              checked={week[id].enabled}
+              onCheckedChange={(enabled) => updateDay(id, { enabled })}
+            />
+            <Label htmlFor={`day-${id}`} className="w-24">
+              {label}
+            </Label>
+            <Input
+              type="time"
+              className="w-32"
+              aria-label={`${label} start`}
+              disabled={!week[id].enabled}
+              value={week[id].start}
+              onChange={(e) => updateDay(id, { start: e.target.value })}
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="time"
+              className="w-32"
+              aria-label={`${label} end`}
+              disabled={!week[id].enabled}
+              value={week[id].end}
+              onChange={(e) => updateDay(id, { end: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="max-w-xs space-y-2">
+        <Label htmlFor="maxHours">Preferred max hours per week</Label>
+        <Input
+          id="maxHours"
+          type="number"
+          min={0}
+          max={168}
+          placeholder="No limit"
+          value={maxHours}
+          onChange={(e) => setMaxHours(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <Label>Time off</Label>
+        {exceptions
+          .filter((e) => !e.available)
+          .map((exception) => (
+            <div key={exception.date} className="flex items-center gap-3">
+              <span className="w-28 text-sm">{exception.date}</span>
+              <span className="flex-1 text-sm text-muted-foreground">
+                {exception.reason}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove time off on ${exception.date}`}
+                onClick={() =>
+                  setExceptions(
+                    exceptions.filter((e) => e.date !== exception.date),
+                  )
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        <div className="flex items-center gap-3">
+          <Input
+            type="date"
+            className="w-44"
+            aria-label="Time off date"
+            value={newDate}
+            onChange={(e) => setNewDate(e.target.value)}
+          />
+          <Input
+            placeholder="Reason (optional)"
+            value={newReason}
+            onChange={(e) => setNewReason(e.target.value)}
+          />
+          <Button variant="outline" onClick={addTimeOff} disabled={!newDate}>
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <Button onClick={handleSave} disabled={saving}>
+        {saving ? "Saving..." : "Save availability"}
+      </Button>
+    </div>
+  );
+}
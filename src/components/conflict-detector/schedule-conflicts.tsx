@@ -0,0 +1,168 @@
+// src/components/conflict-detector/schedule-conflicts.tsx
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { addDays, format } from "date-fns";
+import { BotMessageSquare, ChevronLeft, ChevronRight } from "lucide-react";
+import type { ConflictReportResponse, ConflictType } from "@/lib/types";
+import { getVisibleDays } from "@/lib/schedule";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ApiError } from "@/lib/api.client";
+
+const TYPE_LABELS: Record<ConflictType, string> = {
+  overlap: "Double-booked",
+  time_off: "Time off",
+  outside_availability: "Unavailable",
+  rest_period: "Short rest",
+  overtime: "Overtime",
+  unfilled: "Unfilled",
+};
+
+/**
+ * Rule-based conflicts for the draft schedule of one week, with an optional
+ * AI-written summary on request.
+ */
+export function ScheduleConflicts() {
+  const { orgId, loading: orgLoading } = useActiveOrg();
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [report, setReport] = useState<ConflictReportResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = useMemo(() => {
+    const week = getVisibleDays(anchor, "week");
+    return { start: week[0], end: addDays(week[6], 1) };
+  }, [anchor]);
+
+  const load = useCallback(
+    async (explain = false) => {
+      if (!orgId) return;
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({
+          from: range.start.toISOString(),
+          to: range.end.toISOString(),
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        });
+        if (explain) params.set("explain", "true");
+        const res = await fetch(
+          `/api/orgs/${encodeURIComponent(orgId)}/conflicts?${params}`,
+          { credentials: "include" },
+        );
+        if (!res.ok) {
+          throw await ApiError.fromResponse(res);
+        }
+        setReport(await res.json());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setLoading(false);
+      }
+    },
+    [orgId, range],
+  );
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (orgLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+  if (!orgId) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Join an organization to check its schedule.
+      </p>
+    );
+  }
+
+  const conflicts = report?.conflicts ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setAnchor(addDays(anchor, -7))}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">
+          {format(range.start, "MMM d")} -{" "}
+          {format(addDays(range.end, -1), "MMM d, yyyy")}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setAnchor(addDays(anchor, 7))}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button
+          className="ml-auto"
+          variant="secondary"
+          disabled={loading || conflicts.length === 0}
+          onClick={() => load(true)}
+        >
+          <BotMessageSquare className="mr-2 h-4 w-4" />
+          Explain with AI
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report?.explanation && (
+        <Alert>
+          <BotMessageSquare className="h-4 w-4" />
+          <AlertTitle>AI Summary</AlertTitle>
+          <AlertDescription>
+            <p>{report.explanation.summary}</p>
+            <ul className="mt-2 list-disc space-y-1 pl-5">
+              {report.explanation.details.map((detail, index) => (
+                <li key={index}>{detail}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {loading && !report ? (
+        <p className="text-sm text-muted-foreground">Checking schedule...</p>
+      ) : conflicts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No conflicts found for this week.
+        </p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {conflicts.map((conflict, index) => (
+            <li
+              key={`${conflict.type}-${conflict.shiftIds.join("-")}-${index}`}
+              className="flex items-start gap-2"
+            >
+              <Badge
+                variant={
+                  conflict.severity === "error" ? "destructive" : "secondary"
+                }
+              >
+                {TYPE_LABELS[conflict.type]}
+              </Badge>
+              <span>{conflict.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+"use client";
+
 import Link from "next/link";
 import {
   Bell,
@@ -6,23 +8,48 @@ import {
   BotMessageSquare,
   Settings,
   GitPullRequest,
+  CalendarPlus,
+  ClipboardCheck,
+  Building2,
+  Users,
+  ScrollText,
 } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { useParentAdmin } from "@/hooks/use-parent-admin";
+import { usePendingRequestCount } from "@/hooks/use-pending-request-count";
 
 const navItems = [
   { href: "/dashboard", icon: CalendarDays, label: "Dashboard" },
-  { href: "/requests", icon: GitPullRequest, label: "Requests", badge: "6" },
+  { href: "/requests", icon: GitPullRequest, label: "Requests" },
+  { href: "/open-shifts", icon: CalendarPlus, label: "Open Shifts" },
+  { href: "/timesheets", icon: ClipboardCheck, label: "Timesheets" },
+  { href: "/members", icon: Users, label: "Members" },
+  { href: "/audit", icon: ScrollText, label: "Audit Log" },
   {
     href: "/conflict-detector",
     icon: BotMessageSquare,
     label: "AI Conflict Detector",
   },
+  { href: "/parent", icon: Building2, label: "Parent Portal" },
   { href: "/settings", icon: Settings, label: "Settings" },
 ];
 
 export default function AppSidebar() {
+  const pendingRequests = usePendingRequestCount();
+  const { parentId } = useParentAdmin();
+  const { permissions } = useActiveOrg();
+  // Only parent admins have a parent to oversee, only member managers
+  // manage members and only auditors read the audit log
+  const items = navItems.filter(
+    (item) =>
+      (item.href !== "/parent" || parentId) &&
+      (item.href !== "/members" || permissions.includes("members.manage")) &&
+      (item.href !== "/audit" || permissions.includes("audit.view")),
+  );
+
   return (
     <div className="hidden border-r bg-background md:block">
       <div className="flex h-full max-h-screen flex-col gap-2">
@@ -41,7 +68,7 @@ export default function AppSidebar() {
         </div>
         <div className="flex-1">
           <nav className="grid items-start px-2 text-sm font-medium lg:px-4">
-            {navItems.map((item) => (
+            {items.map((item) => (
               <Link
                 key={item.label}
                 href={item.href}
@@ -49,9 +76,9 @@ export default function AppSidebar() {
               >
                 <item.icon className="h-4 w-4" />
                 {item.label}
-                {item.badge && (
+                {item.href === "/requests" && pendingRequests > 0 && (
                   <Badge className="ml-auto flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-accent text-accent-foreground">
-                    {item.badge}
+                    {pendingRequests}
                   </Badge>
                 )}
               </Link>
@@ -1,3 +1,5 @@
+"use client";
+
 import Link from "next/link";
 import {
   CalendarDays,
@@ -5,22 +7,47 @@ import {
   BotMessageSquare,
   Settings,
   GitPullRequest,
+  CalendarPlus,
+  ClipboardCheck,
+  Building2,
+  Users,
+  ScrollText,
 } from "lucide-react";
 
 import { Badge } from "@/components/ui/badge";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { useParentAdmin } from "@/hooks/use-parent-admin";
+import { usePendingRequestCount } from "@/hooks/use-pending-request-count";
 
 const navItems = [
   { href: "/dashboard", icon: CalendarDays, label: "Dashboard" },
-  { href: "/requests", icon: GitPullRequest, label: "Requests", badge: "6" },
+  { href: "/requests", icon: GitPullRequest, label: "Requests" },
+  { href: "/open-shifts", icon: CalendarPlus, label: "Open Shifts" },
+  { href: "/timesheets", icon: ClipboardCheck, label: "Timesheets" },
+  { href: "/members", icon: Users, label: "Members" },
+  { href: "/audit", icon: ScrollText, label: "Audit Log" },
   {
     href: "/conflict-detector",
     icon: BotMessageSquare,
     label: "AI Conflict Detector",
   },
+  { href: "/parent", icon: Building2, label: "Parent Portal" },
   { href: "/settings", icon: Settings, label: "Settings" },
 ];
 
 export default function MobileNav() {
+  const pendingRequests = usePendingRequestCount();
+  const { parentId } = useParentAdmin();
+  const { permissions } = useActiveOrg();
+  // Only parent admins have a parent to oversee, only member managers
+  // manage members and only auditors read the audit log
+  const items = navItems.filter(
+    (item) =>
+      (item.href !== "/parent" || parentId) &&
+      (item.href !== "/members" || permissions.includes("members.manage")) &&
+      (item.href !== "/audit" || permissions.includes("audit.view")),
+  );
+
   return (
     <nav className="grid gap-2 text-lg font-medium">
       <Link
@@ -30,7 +57,7 @@ export default function MobileNav() {
         <CalendarCheck className="h-6 w-6 text-primary" />
         <span>Fresh Schedules</span>
       </Link>
-      {navItems.map((item) => (
+      {items.map((item) => (
         <Link
           key={item.label}
           href={item.href}
@@ -38,9 +65,9 @@ export default function MobileNav() {
         >
           <item.icon className="h-5 w-5" />
           {item.label}
-          {item.badge && (
+          {item.href === "/requests" && pendingRequests > 0 && (
             <Badge className="ml-auto flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-accent text-accent-foreground">
-              {item.badge}
+              {pendingRequests}
             </Badge>
           )}
         </Link>
@@ -0,0 +1,229 @@
+// src/components/open-shifts/open-shifts-board.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import type {
+  OpenShift,
+  OrgMember,
+  SerializedShiftClaim,
+  ShiftClaimStatus,
+} from "@/lib/types";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ApiError } from "@/lib/api.client";
+
+const CLAIM_LABELS: Record<ShiftClaimStatus, string> = {
+  pending: "Awaiting approval",
+  approved: "Claimed",
+  rejected: "Not approved",
+};
+
+/**
+ * Marketplace of open shifts. Members claim slots they are eligible for;
+ * managers approve or reject claims on shifts that require it.
+ */
+export function OpenShiftsBoard() {
+  const { orgId, permissions, loading: orgLoading } = useActiveOrg();
+  const isManager = permissions.includes("requests.review");
+  const [shifts, setShifts] = useState<OpenShift[]>([]);
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const base = orgId ? `/api/orgs/${encodeURIComponent(orgId)}` : null;
+
+  const load = useCallback(async () => {
+    if (!base) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`${base}/open-shifts`, {
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      setShifts(await res.json());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to load open shifts",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!base || !isManager) return;
+    fetch(`${base}/members`, { credentials: "include" })
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setMembers)
+      .catch(console.error);
+  }, [base, isManager]);
+
+  const nameOf = (memberUid: string) => {
+    const member = members.find((m) => m.uid === memberUid);
+    return member?.displayName ?? member?.email ?? memberUid;
+  };
+
+  const post = async (id: string, url: string, body: unknown = {}) => {
+    setBusyId(id);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": await getCsrfToken(),
+        },
+        credentials: "include",
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      const claim: SerializedShiftClaim = await res.json();
+      toast({
+        title: "Success",
+        description:
+          claim.status === "pending"
+            ? "Claim sent for approval"
+            : `Claim ${claim.status}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Request failed",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+      // Slots may have changed either way
+      load();
+    }
+  };
+
+  if (orgLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+  if (!base) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Join an organization to see open shifts.
+      </p>
+    );
+  }
+  if (shifts.length === 0) {
+    return (
+      <div className="text-center text-muted-foreground py-12">
+        <p>
+          {loading ? "Loading open shifts..." : "No open shifts right now."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {shifts.map((shift) => (
+        <li key={shift.id} className="rounded-lg border p-4 space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <div className="font-semibold">{shift.title || "Shift"}</div>
+              <div className="text-sm text-muted-foreground">
+                {format(new Date(shift.start), "EEE MMM d, HH:mm")}-
+                {format(new Date(shift.end), "HH:mm")}
+                {shift.role && ` · ${shift.role}`}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary">
+                {shift.openSlots} open{" "}
+                {shift.openSlots === 1 ? "slot" : "slots"}
+              </Badge>
+              {shift.claimRequiresApproval && (
+                <Badge variant="outline">Approval required</Badge>
+              )}
+              {!isManager &&
+                (shift.myClaim ? (
+                  <Badge>{CLAIM_LABELS[shift.myClaim]}</Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    disabled={!!shift.ineligibleReason || busyId === shift.id}
+                    title={shift.ineligibleReason}
+                    onClick={() =>
+                      post(
+                        shift.id,
+                        `${base}/open-shifts/${encodeURIComponent(shift.id)}/claim`,
+                      )
+                    }
+                  >
+                    Claim
+                  </Button>
+                ))}
+            </div>
+          </div>
+          {!isManager && !shift.myClaim && shift.ineligibleReason && (
+            <p className="text-xs text-muted-foreground">
+              {shift.ineligibleReason}
+            </p>
+          )}
+          {isManager &&
+            shift.pendingClaims &&
+            shift.pendingClaims.length > 0 && (
+              <div className="space-y-2 border-t pt-2">
+                {shift.pendingClaims.map((claim) => (
+                  <div
+                    key={claim.id}
+                    className="flex items-center justify-between gap-3"
+                  >
+                    <span className="text-sm">{nameOf(claim.uid)}</span>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        disabled={busyId === claim.id}
+                        onClick={() =>
+                          post(
+                            claim.id,
+                            `${base}/shift-claims/${encodeURIComponent(claim.id)}/review`,
+                            { approved: true },
+                          )
+                        }
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === claim.id}
+                        onClick={() =>
+                          post(
+                            claim.id,
+                            `${base}/shift-claims/${encodeURIComponent(claim.id)}/review`,
+                            { approved: false },
+                          )
+                        }
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,231 @@
+// src/components/parent/add-sub-org-dialog.tsx
+
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Plus } from "lucide-react";
+import type { ContractTerms } from "@/lib/types";
+import { parentFetch } from "@/lib/parent.client";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type Mode = "invite" | "create";
+
+/**
+ * Invite an existing org to become a sub-org, or create one linked from the
+ * start, with the first contract's base terms.
+ */
+export function AddSubOrgDialog({
+  parentId,
+  onAdded,
+}: {
+  parentId: string;
+  onAdded: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<Mode>("invite");
+  const [orgId, setOrgId] = useState("");
+  const [name, setName] = useState("");
+  const [billRate, setBillRate] = useState("");
+  const [period, setPeriod] = useState<ContractTerms["period"]>("biweekly");
+  const [rounding, setRounding] = useState<ContractTerms["rounding"]>("none");
+  const [effectiveFrom, setEffectiveFrom] = useState(() =>
+    format(new Date(), "yyyy-MM-dd"),
+  );
+  const [saving, setSaving] = useState(false);
+
+  const submit = async () => {
+    setSaving(true);
+    try {
+      const terms = {
+        parentId,
+        billRate: Number(billRate),
+        period,
+        rounding,
+        effectiveFrom,
+      };
+      await parentFetch(
+        mode === "invite"
+          ? "/api/parent/sub-orgs/invites"
+          : "/api/parent/sub-orgs",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            mode === "invite"
+              ? { ...terms, orgId: orgId.trim() }
+              : {
+                  ...terms,
+                  name: name.trim(),
+                  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+                },
+          ),
+        },
+      );
+      toast({
+        title: "Success",
+        description:
+          mode === "invite"
+            ? "Invite sent; the org's admins can accept it in Settings"
+            : `Created ${name.trim()}`,
+      });
+      setOpen(false);
+      setOrgId("");
+      setName("");
+      onAdded();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to add sub-org",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const ready =
+    Number(billRate) > 0 &&
+    Boolean(effectiveFrom) &&
+    (mode === "invite" ? Boolean(orgId.trim()) : Boolean(name.trim()));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="mr-2 h-4 w-4" />
+          Add sub-org
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add sub-org</DialogTitle>
+          <DialogDescription>
+            Billing starts under these terms once the org is linked.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label>Organization</Label>
+            <Select value={mode} onValueChange={(v) => setMode(v as Mode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="invite">Invite an existing org</SelectItem>
+                <SelectItem value="create">Create a new org</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === "invite" ? (
+            <div className="grid gap-2">
+              <Label htmlFor="orgId">Organization ID</Label>
+              <Input
+                id="orgId"
+                value={orgId}
+                onChange={(e) => setOrgId(e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              <Label htmlFor="orgName">Name</Label>
+              <Input
+                id="orgName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="billRate">Bill rate</Label>
+              <Input
+                id="billRate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={billRate}
+                onChange={(e) => setBillRate(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="effectiveFrom">Effective from</Label>
+              <Input
+                id="effectiveFrom"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>Period</Label>
+              <Select
+                value={period}
+                onValueChange={(v) => setPeriod(v as ContractTerms["period"])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="biweekly">Biweekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Rounding</Label>
+              <Select
+                value={rounding}
+                onValueChange={(v) =>
+                  setRounding(v as ContractTerms["rounding"])
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="nearest-5">Nearest 5 minutes</SelectItem>
+                  <SelectItem value="nearest-15">Nearest 15 minutes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button disabled={!ready || saving} onClick={submit}>
+            {saving
+              ? "Saving..."
+              : mode === "invite"
+                ? "Send invite"
+                : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
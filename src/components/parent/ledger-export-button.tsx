@@ -0,0 +1,85 @@
+// src/components/parent/ledger-export-button.tsx
+
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import type { LedgerExportFormat } from "@/lib/types";
+import { downloadLedgerExport } from "@/lib/parent.client";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const FORMAT_OPTIONS: { value: LedgerExportFormat; label: string }[] = [
+  { value: "csv", label: "Lines (CSV)" },
+  { value: "xlsx", label: "Lines (Excel)" },
+  { value: "json", label: "Lines (JSON)" },
+  { value: "summary", label: "Sub-org summary (CSV)" },
+  { value: "iif", label: "QuickBooks bills (IIF)" },
+];
+
+/**
+ * Format picker and download button for the periods from `from` to `to`.
+ */
+export function LedgerExportButton({
+  parentId,
+  from,
+  to,
+}: {
+  parentId: string;
+  from: string;
+  to: string;
+}) {
+  const [format, setFormat] = useState<LedgerExportFormat>("csv");
+  const [downloading, setDownloading] = useState(false);
+
+  const download = async () => {
+    setDownloading(true);
+    try {
+      await downloadLedgerExport({ parentId, from, to, format });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to export ledger",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={format}
+        onValueChange={(value) => setFormat(value as LedgerExportFormat)}
+      >
+        <SelectTrigger className="w-[200px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FORMAT_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        disabled={downloading || !from || !to}
+        onClick={download}
+      >
+        <Download className="mr-2 h-4 w-4" />
+        {downloading ? "Exporting..." : "Export"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+// src/components/parent/ledger-period-detail.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import type {
+  LedgerLine,
+  LedgerPeriodDetail,
+  LedgerPeriodStatus,
+  LedgerTotals,
+} from "@/lib/types";
+import { parentFetch } from "@/lib/parent.client";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LedgerExportButton } from "@/components/parent/ledger-export-button";
+
+const STATUS_VARIANTS: Record<
+  LedgerPeriodStatus,
+  "default" | "secondary" | "outline"
+> = {
+  open: "outline",
+  closed: "secondary",
+  invoiced: "default",
+};
+
+const COMPONENT_LABELS = { regular: "reg", overtime: "OT", premium: "prem" };
+
+export function LedgerStatusBadge({ status }: { status: LedgerPeriodStatus }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]} className="capitalize">
+      {status}
+    </Badge>
+  );
+}
+
+function TotalsTable({
+  title,
+  totals,
+}: {
+  title: string;
+  totals: Record<string, LedgerTotals>;
+}) {
+  const rows = Object.entries(totals).sort(
+    ([, a], [, b]) => b.amount - a.amount,
+  );
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <Table>
+        <TableBody>
+          {rows.map(([key, t]) => (
+            <TableRow key={key}>
+              <TableCell className="truncate">{key}</TableCell>
+              <TableCell className="text-right">{t.hours}h</TableCell>
+              <TableCell className="text-right">
+                {t.amount.toFixed(2)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function describeComponents(line: LedgerLine) {
+  return (
+    line.components
+      ?.map((c) => `${c.hours}h ${COMPONENT_LABELS[c.kind]}`)
+      .join(" · ") ?? "-"
+  );
+}
+
+/**
+ * One ledger period: totals by sub-org, venue and staff, its lines, and the
+ * close and invoice actions for the period's current status.
+ */
+export function LedgerPeriodDetailView({
+  parentId,
+  periodId,
+  onChanged,
+}: {
+  parentId: string;
+  periodId: string;
+  onChanged: () => void;
+}) {
+  const [detail, setDetail] = useState<LedgerPeriodDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [confirming, setConfirming] = useState<"close" | "invoice" | null>(
+    null,
+  );
+  const [acting, setActing] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await parentFetch(
+        `/api/parent/ledger/periods/${encodeURIComponent(periodId)}?${new URLSearchParams({ parentId })}`,
+      );
+      setDetail(await res.json());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to load period",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [parentId, periodId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const act = async (action: "close" | "invoice") => {
+    setActing(true);
+    try {
+      await parentFetch(`/api/parent/ledger/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ parentId, periodId }),
+      });
+      toast({
+        title: "Success",
+        description:
+          action === "close"
+            ? `Closed ${periodId}`
+            : `Invoice issued for ${periodId}`,
+      });
+      setConfirming(null);
+      load();
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : `Failed to ${action} period`,
+        variant: "destructive",
+      });
+    } finally {
+      setActing(false);
+    }
+  };
+
+  if (!detail) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {loading ? "Loading period..." : "Period not available."}
+      </p>
+    );
+  }
+
+  const { period, summary, lines, totalLines } = detail;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-lg font-semibold">{period.periodId}</h2>
+        <LedgerStatusBadge status={period.status} />
+        <span className="text-sm text-muted-foreground">
+          {summary.totals.hours}h · {summary.totals.amount.toFixed(2)}
+          {period.status === "open" && " so far"}
+        </span>
+        {period.invoiceNumber && (
+          <span className="text-sm text-muted-foreground">
+            {period.invoiceNumber}
+            {period.invoicedAt &&
+              ` on ${format(new Date(period.invoicedAt), "MMM d, yyyy")}`}
+          </span>
+        )}
+        <div className="ml-auto flex flex-wrap gap-2">
+          <LedgerExportButton
+            parentId={parentId}
+            from={periodId}
+            to={periodId}
+          />
+          {period.status === "open" && (
+            <Button onClick={() => setConfirming("close")}>Close period</Button>
+          )}
+          {period.status === "closed" && (
+            <Button onClick={() => setConfirming("invoice")}>
+              Issue invoice
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <TotalsTable title="By sub-org" totals={summary.bySubOrg} />
+        <TotalsTable title="By venue" totals={summary.byVenue} />
+        <TotalsTable title="By staff" totals={summary.byStaff} />
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Lines</h3>
+        {totalLines > lines.length && (
+          <p className="text-sm text-muted-foreground">
+            Showing {lines.length} of {totalLines} lines. Export the period to
+            see them all.
+          </p>
+        )}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Sub-org</TableHead>
+              <TableHead>Staff</TableHead>
+              <TableHead>Venue</TableHead>
+              <TableHead>Kind</TableHead>
+              <TableHead>Breakdown</TableHead>
+              <TableHead className="text-right">Hours</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line) => (
+              <TableRow
+                key={`${line.sourceAttendanceId}_${line.revision}_${line.kind}`}
+              >
+                <TableCell>{line.subOrgId}</TableCell>
+                <TableCell>{line.staffRef}</TableCell>
+                <TableCell>{line.venueId ?? "-"}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="capitalize">
+                    {line.kind}
+                  </Badge>
+                  {line.originalPeriodId && (
+                    <div className="text-xs text-muted-foreground">
+                      from {line.originalPeriodId}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {describeComponents(line)}
+                </TableCell>
+                <TableCell className="text-right">{line.hours}</TableCell>
+                <TableCell className="text-right">
+                  {line.amount.toFixed(2)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog
+        open={!!confirming}
+        onOpenChange={(open) => {
+          if (!open) setConfirming(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {confirming === "close"
+                ? `Close ${periodId}?`
+                : `Issue invoice for ${periodId}?`}
+            </DialogTitle>
+            <DialogDescription>
+              {confirming === "close"
+                ? "Totals are frozen and attendance approved later is booked to the next open period."
+                : "The invoice is issued from the totals frozen at close and cannot be changed."}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirming(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={acting}
+              onClick={() => confirming && act(confirming)}
+            >
+              {acting ? "Working..." : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
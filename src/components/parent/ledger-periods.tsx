@@ -0,0 +1,173 @@
+// src/components/parent/ledger-periods.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { LedgerPeriod } from "@/lib/types";
+import { parentFetch } from "@/lib/parent.client";
+import { toast } from "@/hooks/use-toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LedgerExportButton } from "@/components/parent/ledger-export-button";
+import {
+  LedgerPeriodDetailView,
+  LedgerStatusBadge,
+} from "@/components/parent/ledger-period-detail";
+
+// "M", "W" or "BW"; an export range must stay within one kind
+const periodKind = (periodId: string) => periodId.replace(/\d/g, "");
+
+/**
+ * The parent's ledger periods with their closing totals, a range export,
+ * and the selected period's detail below.
+ */
+export function LedgerPeriods({ parentId }: { parentId: string }) {
+  const [periods, setPeriods] = useState<LedgerPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await parentFetch(
+        `/api/parent/ledger/periods?${new URLSearchParams({ parentId })}`,
+      );
+      const data: LedgerPeriod[] = await res.json();
+      setPeriods(data);
+      if (data.length > 0) {
+        setSelected((current) => current ?? data[0].periodId);
+        setFrom((current) => current || data[0].periodId);
+        setTo((current) => current || data[0].periodId);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to load periods",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [parentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading periods...</p>;
+  }
+
+  if (periods.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No ledger periods yet. Periods open as sub-orgs approve attendance.
+      </p>
+    );
+  }
+
+  // Listed newest first; the range runs oldest to newest
+  const toOptions = periods.filter(
+    (p) => periodKind(p.periodId) === periodKind(from) && p.periodId >= from,
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">Export</span>
+        <Select
+          value={from}
+          onValueChange={(value) => {
+            setFrom(value);
+            if (periodKind(value) !== periodKind(to) || value > to) {
+              setTo(value);
+            }
+          }}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="From" />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map((p) => (
+              <SelectItem key={p.periodId} value={p.periodId}>
+                {p.periodId}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">to</span>
+        <Select value={to} onValueChange={setTo}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="To" />
+          </SelectTrigger>
+          <SelectContent>
+            {toOptions.map((p) => (
+              <SelectItem key={p.periodId} value={p.periodId}>
+                {p.periodId}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <LedgerExportButton parentId={parentId} from={from} to={to} />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Period</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Invoice</TableHead>
+            <TableHead className="text-right">Hours</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {periods.map((p) => (
+            <TableRow
+              key={p.periodId}
+              className="cursor-pointer"
+              data-state={p.periodId === selected ? "selected" : undefined}
+              onClick={() => setSelected(p.periodId)}
+            >
+              <TableCell className="font-medium">{p.periodId}</TableCell>
+              <TableCell>
+                <LedgerStatusBadge status={p.status} />
+              </TableCell>
+              <TableCell>{p.invoiceNumber ?? "-"}</TableCell>
+              <TableCell className="text-right">
+                {p.summary ? p.summary.totals.hours : "-"}
+              </TableCell>
+              <TableCell className="text-right">
+                {p.summary ? p.summary.totals.amount.toFixed(2) : "-"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {selected && (
+        <LedgerPeriodDetailView
+          key={selected}
+          parentId={parentId}
+          periodId={selected}
+          onChanged={load}
+        />
+      )}
+    </div>
+  );
+}
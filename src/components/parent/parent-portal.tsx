@@ -0,0 +1,39 @@
+// src/components/parent/parent-portal.tsx
+
+"use client";
+
+import { useParentAdmin } from "@/hooks/use-parent-admin";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LedgerPeriods } from "@/components/parent/ledger-periods";
+import { SubOrgContracts } from "@/components/parent/sub-org-contracts";
+
+export function ParentPortal() {
+  const { parentId, loading } = useParentAdmin();
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+
+  if (!parentId) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The parent portal is only available to parent organization admins.
+      </p>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="ledger">
+      <TabsList>
+        <TabsTrigger value="ledger">Ledger</TabsTrigger>
+        <TabsTrigger value="sub-orgs">Sub-orgs</TabsTrigger>
+      </TabsList>
+      <TabsContent value="ledger" className="pt-4">
+        <LedgerPeriods parentId={parentId} />
+      </TabsContent>
+      <TabsContent value="sub-orgs" className="pt-4">
+        <SubOrgContracts parentId={parentId} />
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,220 @@
+// src/components/parent/sub-org-contracts.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type {
+  ParentContract,
+  ParentSubOrg,
+  SubOrgLinkInvite,
+} from "@/lib/types";
+import { parentFetch } from "@/lib/parent.client";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AddSubOrgDialog } from "@/components/parent/add-sub-org-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+function describeTerms(contract: ParentContract): string {
+  const terms: string[] = [];
+  if (contract.version) {
+    terms.push(`v${contract.version} from ${contract.effectiveFrom}`);
+  }
+  if (contract.overtime) {
+    terms.push(
+      `OT ${contract.overtime.multiplier}x after ${contract.overtime.weeklyThresholdHours}h/wk`,
+    );
+  }
+  if (contract.holidayPremium) {
+    terms.push(
+      `${contract.holidayPremium.dates.length} holidays at ${contract.holidayPremium.multiplier}x`,
+    );
+  }
+  if (contract.minimumShiftHours) {
+    terms.push(`${contract.minimumShiftHours}h minimum`);
+  }
+  if (contract.rateOverrides?.length) {
+    terms.push(`${contract.rateOverrides.length} rate overrides`);
+  }
+  return terms.join(" · ") || "-";
+}
+
+function showError(error: unknown, fallback: string) {
+  toast({
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback,
+    variant: "destructive",
+  });
+}
+
+/**
+ * Sub-orgs billing the parent and the contract terms each is billed under,
+ * with invites still awaiting an answer.
+ */
+export function SubOrgContracts({ parentId }: { parentId: string }) {
+  const [subOrgs, setSubOrgs] = useState<ParentSubOrg[]>([]);
+  const [invites, setInvites] = useState<SubOrgLinkInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unlinking, setUnlinking] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const query = new URLSearchParams({ parentId });
+    try {
+      const [orgsRes, invitesRes] = await Promise.all([
+        parentFetch(`/api/parent/sub-orgs?${query}`),
+        parentFetch(`/api/parent/sub-orgs/invites?${query}`),
+      ]);
+      setSubOrgs(await orgsRes.json());
+      setInvites(
+        ((await invitesRes.json()) as SubOrgLinkInvite[]).filter(
+          (invite) => invite.status === "pending",
+        ),
+      );
+    } catch (error) {
+      showError(error, "Failed to load sub-orgs");
+    } finally {
+      setLoading(false);
+    }
+  }, [parentId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const unlink = async (orgId: string) => {
+    setUnlinking(orgId);
+    try {
+      await parentFetch(
+        `/api/parent/sub-orgs/${encodeURIComponent(orgId)}/unlink`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ parentId }),
+        },
+      );
+      toast({ title: "Success", description: "Sub-org unlinked" });
+      load();
+    } catch (error) {
+      showError(error, "Failed to unlink sub-org");
+    } finally {
+      setUnlinking(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading sub-orgs...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <AddSubOrgDialog parentId={parentId} onAdded={load} />
+      </div>
+
+      {invites.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Pending invites</h3>
+          <Table>
+            <TableBody>
+              {invites.map((invite) => (
+                <TableRow key={invite.orgId}>
+                  <TableCell>{invite.orgName ?? invite.orgId}</TableCell>
+                  <TableCell>{invite.terms.billRate.toFixed(2)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    From {invite.effectiveFrom}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {subOrgs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No sub-orgs are linked yet.
+        </p>
+      ) : (
+        <SubOrgTable
+          subOrgs={subOrgs}
+          unlinking={unlinking}
+          onUnlink={unlink}
+        />
+      )}
+    </div>
+  );
+}
+
+function SubOrgTable({
+  subOrgs,
+  unlinking,
+  onUnlink,
+}: {
+  subOrgs: ParentSubOrg[];
+  unlinking: string | null;
+  onUnlink: (orgId: string) => void;
+}) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Organization</TableHead>
+          <TableHead>Bill rate</TableHead>
+          <TableHead>Period</TableHead>
+          <TableHead>Rounding</TableHead>
+          <TableHead>Time zone</TableHead>
+          <TableHead>Terms</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {subOrgs.map(({ orgId, name, linked, contract }) => (
+          <TableRow key={orgId}>
+            <TableCell>
+              <div className="font-medium">{name ?? orgId}</div>
+              <div className="flex gap-1">
+                {!contract && <Badge variant="destructive">No contract</Badge>}
+                {contract?.retiredFrom && (
+                  <Badge variant="secondary">
+                    Retired from {contract.retiredFrom}
+                  </Badge>
+                )}
+                {!linked && <Badge variant="outline">Not linked</Badge>}
+              </div>
+            </TableCell>
+            <TableCell>
+              {contract ? contract.billRate.toFixed(2) : "-"}
+            </TableCell>
+            <TableCell className="capitalize">
+              {contract?.period ?? "-"}
+            </TableCell>
+            <TableCell>{contract?.rounding ?? "-"}</TableCell>
+            <TableCell>{contract?.timeZone ?? "-"}</TableCell>
+            <TableCell className="text-sm text-muted-foreground">
+              {contract ? describeTerms(contract) : "-"}
+            </TableCell>
+            <TableCell className="text-right">
+              {linked && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={unlinking === orgId}
+                  onClick={() => onUnlink(orgId)}
+                >
+                  Unlink
+                </Button>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,316 @@
+// src/components/requests/new-request-dialog.tsx
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import type {
+  OrgMember,
+  SerializedShift,
+  ShiftListResponse,
+  ShiftRequestType,
+} from "@/lib/types";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { ApiError } from "@/lib/api.client";
+
+// How far ahead shifts are offered for swaps, drops and pickups
+const LOOKAHEAD_DAYS = 28;
+
+const TYPE_OPTIONS: { value: ShiftRequestType; label: string }[] = [
+  { value: "swap", label: "Swap a shift" },
+  { value: "drop", label: "Drop a shift" },
+  { value: "pickup", label: "Pick up an open shift" },
+  { value: "time_off", label: "Request time off" },
+];
+
+interface NewRequestDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  orgId: string;
+  uid: string;
+  members: OrgMember[];
+  onCreated: () => void;
+}
+
+export function describeShift(shift: SerializedShift) {
+  const start = new Date(shift.start);
+  return `${shift.title || "Shift"} · ${format(start, "EEE MMM d, HH:mm")}-${format(new Date(shift.end), "HH:mm")}`;
+}
+
+async function fetchUpcomingShifts(orgId: string, assignee?: string) {
+  const now = new Date();
+  const params = new URLSearchParams({
+    from: now.toISOString(),
+    to: addDays(now, LOOKAHEAD_DAYS).toISOString(),
+    limit: "500",
+  });
+  if (assignee) params.set("assignee", assignee);
+  const res = await fetch(
+    `/api/orgs/${encodeURIComponent(orgId)}/shifts?${params}`,
+    { credentials: "include" },
+  );
+  if (!res.ok) throw await ApiError.fromResponse(res);
+  const page: ShiftListResponse = await res.json();
+  return page.shifts;
+}
+
+export function NewRequestDialog({
+  isOpen,
+  onOpenChange,
+  orgId,
+  uid,
+  members,
+  onCreated,
+}: NewRequestDialogProps) {
+  const [type, setType] = useState<ShiftRequestType>("swap");
+  const [shiftId, setShiftId] = useState("");
+  const [targetUid, setTargetUid] = useState("");
+  const [targetShiftId, setTargetShiftId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [message, setMessage] = useState("");
+  const [shiftOptions, setShiftOptions] = useState<SerializedShift[]>([]);
+  const [targetShifts, setTargetShifts] = useState<SerializedShift[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setShiftId("");
+    setTargetUid("");
+    setTargetShiftId("");
+    setStartDate("");
+    setEndDate("");
+    setMessage("");
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || type === "time_off") return;
+    setShiftId("");
+    const load =
+      type === "pickup"
+        ? fetchUpcomingShifts(orgId).then((shifts) =>
+            shifts.filter(
+              (s) =>
+                !s.assignedTo?.includes(uid) &&
+                (s.assignedTo?.length ?? 0) < (s.requiredHeadcount ?? 1),
+            ),
+          )
+        : fetchUpcomingShifts(orgId, uid);
+    load.then(setShiftOptions).catch((error) => {
+      console.error("Failed to load shifts", error);
+      setShiftOptions([]);
+    });
+  }, [isOpen, type, orgId, uid]);
+
+  useEffect(() => {
+    setTargetShiftId("");
+    if (!targetUid) {
+      setTargetShifts([]);
+      return;
+    }
+    fetchUpcomingShifts(orgId, targetUid)
+      .then(setTargetShifts)
+      .catch(() => setTargetShifts([]));
+  }, [orgId, targetUid]);
+
+  const canSubmit =
+    type === "time_off"
+      ? !!startDate && !!endDate
+      : !!shiftId && (type !== "swap" || !!targetUid);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const body =
+        type === "time_off"
+          ? { type, startDate, endDate }
+          : {
+              type,
+              shiftId,
+              ...(type === "swap" && { targetUid }),
+              ...(type === "swap" && targetShiftId && { targetShiftId }),
+            };
+      const res = await fetch(
+        `/api/orgs/${encodeURIComponent(orgId)}/shift-requests`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-csrf-token": await getCsrfToken(),
+          },
+          credentials: "include",
+          body: JSON.stringify({ ...body, ...(message && { message }) }),
+        },
+      );
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      toast({ title: "Success", description: "Request submitted" });
+      onCreated();
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to create request",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Request</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Request type</Label>
+            <Select
+              value={type}
+              onValueChange={(value) => setType(value as ShiftRequestType)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TYPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {type === "time_off" ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="startDate">From</Label>
+                <Input
+                  id="startDate"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="endDate">To</Label>
+                <Input
+                  id="endDate"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            </div>
+          ) : (
+            <div>
+              <Label>{type === "pickup" ? "Open shift" : "Your shift"}</Label>
+              <Select value={shiftId} onValueChange={setShiftId}>
+                <SelectTrigger>
+                  <SelectValue
+                    placeholder={
+                      shiftOptions.length ? "Select a shift" : "No shifts found"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {shiftOptions.map((shift) => (
+                    <SelectItem key={shift.id} value={shift.id}>
+                      {describeShift(shift)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {type === "swap" && (
+            <>
+              <div>
+                <Label>Swap with</Label>
+                <Select value={targetUid} onValueChange={setTargetUid}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a teammate" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {members
+                      .filter((m) => m.uid !== uid && !m.suspended)
+                      .map((member) => (
+                        <SelectItem key={member.uid} value={member.uid}>
+                          {member.displayName ?? member.email ?? member.uid}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {targetShifts.length > 0 && (
+                <div>
+                  <Label>Their shift (optional)</Label>
+                  <Select
+                    value={targetShiftId}
+                    onValueChange={setTargetShiftId}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Just hand my shift over" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {targetShifts.map((shift) => (
+                        <SelectItem key={shift.id} value={shift.id}>
+                          {describeShift(shift)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </>
+          )}
+
+          <div>
+            <Label htmlFor="message">Message (optional)</Label>
+            <Textarea
+              id="message"
+              maxLength={500}
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+            {submitting ? "Submitting..." : "Submit"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,437 @@
+// src/components/requests/shift-requests.tsx
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Plus } from "lucide-react";
+import type {
+  OrgMember,
+  SerializedShift,
+  SerializedShiftRequest,
+  ShiftRequestStatus,
+  ShiftRequestType,
+} from "@/lib/types";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { describeShift, NewRequestDialog } from "./new-request-dialog";
+import { ApiError } from "@/lib/api.client";
+
+const TYPE_LABELS: Record<ShiftRequestType, string> = {
+  swap: "Swap",
+  drop: "Drop",
+  pickup: "Pickup",
+  time_off: "Time off",
+};
+
+const STATUS_LABELS: Record<ShiftRequestStatus, string> = {
+  awaiting_peer: "Awaiting teammate",
+  pending: "Pending",
+  approved: "Approved",
+  denied: "Denied",
+  declined: "Declined",
+  cancelled: "Cancelled",
+};
+
+const STATUS_VARIANTS: Record<
+  ShiftRequestStatus,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  awaiting_peer: "outline",
+  pending: "secondary",
+  approved: "default",
+  denied: "destructive",
+  declined: "destructive",
+  cancelled: "outline",
+};
+
+const isOpen = (request: SerializedShiftRequest) =>
+  request.status === "awaiting_peer" || request.status === "pending";
+
+/**
+ * Swap, drop, pickup and time-off requests for the active org. Members file
+ * and follow their own requests and answer swaps offered to them; managers
+ * approve or deny pending ones.
+ */
+export function ShiftRequests() {
+  const { uid, orgId, permissions, loading: orgLoading } = useActiveOrg();
+  const isManager = permissions.includes("requests.review");
+  const [requests, setRequests] = useState<SerializedShiftRequest[]>([]);
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const [shifts, setShifts] = useState<Record<string, SerializedShift | null>>(
+    {},
+  );
+  const [showClosed, setShowClosed] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [reviewing, setReviewing] = useState<{
+    request: SerializedShiftRequest;
+    approved: boolean;
+  } | null>(null);
+  const [notes, setNotes] = useState("");
+
+  const base = orgId
+    ? `/api/orgs/${encodeURIComponent(orgId)}/shift-requests`
+    : null;
+
+  const load = useCallback(async () => {
+    if (!base) return;
+    setLoading(true);
+    try {
+      const res = await fetch(base, { credentials: "include" });
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      setRequests(await res.json());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to load requests",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!orgId) return;
+    fetch(`/api/orgs/${encodeURIComponent(orgId)}/members`, {
+      credentials: "include",
+    })
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setMembers)
+      .catch(console.error);
+  }, [orgId]);
+
+  // Fetch the shifts referenced by requests that are not loaded yet
+  useEffect(() => {
+    if (!orgId) return;
+    const missing = [
+      ...new Set(
+        requests
+          .flatMap((r) => [r.shiftId, r.targetShiftId])
+          .filter((id): id is string => !!id && !(id in shifts)),
+      ),
+    ];
+    if (!missing.length) return;
+    Promise.all(
+      missing.map((id) =>
+        fetch(
+          `/api/orgs/${encodeURIComponent(orgId)}/shifts/${encodeURIComponent(id)}`,
+          { credentials: "include" },
+        ).then((res) => (res.ok ? res.json() : null)),
+      ),
+    )
+      .then((loaded: (SerializedShift | null)[]) =>
+        setShifts((current) => ({
+          ...current,
+          ...Object.fromEntries(missing.map((id, i) => [id, loaded[i]])),
+        })),
+      )
+      .catch(console.error);
+  }, [orgId, requests, shifts]);
+
+  const nameOf = useCallback(
+    (memberUid?: string) => {
+      if (!memberUid) return "";
+      const member = members.find((m) => m.uid === memberUid);
+      return member?.displayName ?? member?.email ?? memberUid;
+    },
+    [members],
+  );
+
+  const visible = useMemo(
+    () => (showClosed ? requests : requests.filter(isOpen)),
+    [requests, showClosed],
+  );
+
+  const act = async (
+    request: SerializedShiftRequest,
+    action: "respond" | "cancel" | "review",
+    body?: unknown,
+  ) => {
+    if (!base) return;
+    setBusyId(request.id);
+    try {
+      const res = await fetch(
+        `${base}/${encodeURIComponent(request.id)}/${action}`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-csrf-token": await getCsrfToken(),
+          },
+          credentials: "include",
+          body: JSON.stringify(body ?? {}),
+        },
+      );
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      const updated: SerializedShiftRequest = await res.json();
+      setRequests((current) =>
+        current.map((r) => (r.id === updated.id ? updated : r)),
+      );
+      toast({
+        title: "Success",
+        description: `Request ${STATUS_LABELS[updated.status].toLowerCase()}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update request",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const describe = (request: SerializedShiftRequest) => {
+    if (request.type === "time_off") {
+      return request.startDate === request.endDate
+        ? request.startDate
+        : `${request.startDate} to ${request.endDate}`;
+    }
+    const label = (id?: string) => {
+      if (!id) return "";
+      const shift = shifts[id];
+      if (shift === undefined) return "Loading shift...";
+      return shift ? describeShift(shift) : "Shift no longer available";
+    };
+    if (request.type === "swap") {
+      const partner = nameOf(request.targetUid);
+      return request.targetShiftId
+        ? `${label(request.shiftId)} for ${partner}'s ${label(request.targetShiftId)}`
+        : `${label(request.shiftId)} to ${partner}`;
+    }
+    return label(request.shiftId);
+  };
+
+  const submitReview = async () => {
+    if (!reviewing) return;
+    await act(reviewing.request, "review", {
+      approved: reviewing.approved,
+      ...(notes && { notes }),
+    });
+    setReviewing(null);
+    setNotes("");
+  };
+
+  if (orgLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+  if (!orgId || !uid) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Join an organization to make requests.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="showClosed"
+            checked={showClosed}
+            onCheckedChange={setShowClosed}
+          />
+          <Label htmlFor="showClosed">Show closed requests</Label>
+        </div>
+        <Button onClick={() => setCreating(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New request
+        </Button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="text-center text-muted-foreground py-12">
+          <p>{loading ? "Loading requests..." : "No requests to show."}</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Type</TableHead>
+              <TableHead>Requested by</TableHead>
+              <TableHead>Details</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map((request) => {
+              const busy = busyId === request.id;
+              return (
+                <TableRow key={request.id}>
+                  <TableCell>{TYPE_LABELS[request.type]}</TableCell>
+                  <TableCell>
+                    <div>{nameOf(request.requestedBy)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(request.createdAt), "MMM d, HH:mm")}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{describe(request)}</div>
+                    {request.message && (
+                      <div className="text-xs text-muted-foreground">
+                        {request.message}
+                      </div>
+                    )}
+                    {request.reviewNotes && (
+                      <div className="text-xs text-muted-foreground">
+                        Manager: {request.reviewNotes}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[request.status]}>
+                      {STATUS_LABELS[request.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      {request.status === "awaiting_peer" &&
+                        request.targetUid === uid && (
+                          <>
+                            <Button
+                              size="sm"
+                              disabled={busy}
+                              onClick={() =>
+                                act(request, "respond", { accept: true })
+                              }
+                            >
+                              Accept
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busy}
+                              onClick={() =>
+                                act(request, "respond", { accept: false })
+                              }
+                            >
+                              Decline
+                            </Button>
+                          </>
+                        )}
+                      {request.status === "pending" && isManager && (
+                        <>
+                          <Button
+                            size="sm"
+                            disabled={busy}
+                            onClick={() =>
+                              setReviewing({ request, approved: true })
+                            }
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busy}
+                            onClick={() =>
+                              setReviewing({ request, approved: false })
+                            }
+                          >
+                            Deny
+                          </Button>
+                        </>
+                      )}
+                      {isOpen(request) && request.requestedBy === uid && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={busy}
+                          onClick={() => act(request, "cancel")}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <NewRequestDialog
+        isOpen={creating}
+        onOpenChange={setCreating}
+        orgId={orgId}
+        uid={uid}
+        members={members}
+        onCreated={load}
+      />
+
+      <Dialog
+        open={!!reviewing}
+        onOpenChange={(open) => {
+          if (!open) setReviewing(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.approved ? "Approve request" : "Deny request"}
+            </DialogTitle>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="reviewNotes">Notes (optional)</Label>
+            <Textarea
+              id="reviewNotes"
+              maxLength={500}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.approved ? "default" : "destructive"}
+              disabled={!!busyId}
+              onClick={submitReview}
+            >
+              {reviewing?.approved ? "Approve" : "Deny"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
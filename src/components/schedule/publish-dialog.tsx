@@ -0,0 +1,145 @@
+// src/components/schedule/publish-dialog.tsx
+
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import type {
+  ScheduleDiff,
+  SerializedSchedulePeriod,
+  SerializedShift,
+} from "@/lib/types";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ApiError } from "@/lib/api.client";
+
+interface PublishDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  orgId: string;
+  periodId: string;
+  range: { start: Date; end: Date };
+  diff?: ScheduleDiff;
+  onPublished: (period: SerializedSchedulePeriod) => void;
+}
+
+function describeShift(shift: SerializedShift) {
+  const start = new Date(shift.start);
+  return `${shift.title || "Shift"} · ${format(start, "EEE d, HH:mm")}-${format(new Date(shift.end), "HH:mm")}`;
+}
+
+export function PublishDialog({
+  isOpen,
+  onOpenChange,
+  orgId,
+  periodId,
+  range,
+  diff,
+  onPublished,
+}: PublishDialogProps) {
+  const [publishing, setPublishing] = useState(false);
+  const total =
+    (diff?.added.length ?? 0) +
+    (diff?.changed.length ?? 0) +
+    (diff?.removed.length ?? 0);
+
+  const handlePublish = async () => {
+    setPublishing(true);
+    try {
+      const res = await fetch(
+        `/api/orgs/${encodeURIComponent(orgId)}/schedule-periods/${periodId}/publish`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-csrf-token": await getCsrfToken(),
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            start: range.start.toISOString(),
+            end: range.end.toISOString(),
+          }),
+        },
+      );
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      onPublished(await res.json());
+      toast({ title: "Success", description: "Schedule published" });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to publish schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Publish schedule</DialogTitle>
+          <DialogDescription>
+            Employees will see this week exactly as it is now.
+          </DialogDescription>
+        </DialogHeader>
+
+        {total === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No changes since the last publish.
+          </p>
+        ) : (
+          <div className="max-h-72 space-y-2 overflow-y-auto text-sm">
+            {diff?.added.map((shift) => (
+              <div key={`added-${shift.id}`} className="flex gap-2">
+                <Badge variant="default">Added</Badge>
+                <span>{describeShift(shift)}</span>
+              </div>
+            ))}
+            {diff?.changed.map(({ after, fields }) => (
+              <div key={`changed-${after.id}`} className="flex gap-2">
+                <Badge variant="secondary">Changed</Badge>
+                <span>
+                  {describeShift(after)}
+                  <span className="text-muted-foreground">
+                    {` (${fields.join(", ")})`}
+                  </span>
+                </span>
+              </div>
+            ))}
+            {diff?.removed.map((shift) => (
+              <div key={`removed-${shift.id}`} className="flex gap-2">
+                <Badge variant="destructive">Removed</Badge>
+                <span>{describeShift(shift)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handlePublish} disabled={publishing}>
+            {publishing ? "Publishing..." : "Publish"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
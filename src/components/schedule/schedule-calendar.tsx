@@ -2,11 +2,36 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
-import { Shift } from "@/lib/types";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { CSSProperties, DragEvent } from "react";
+import { addDays, format, isSameDay } from "date-fns";
+import { ChevronLeft, ChevronRight, PlusCircle } from "lucide-react";
+import {
+  OrgMember,
+  SchedulePeriodResponse,
+  SerializedSchedulePeriod,
+  Shift,
+  ShiftListResponse,
+} from "@/lib/types";
+import {
+  CalendarView,
+  UNASSIGNED_ROW,
+  ShiftMove,
+  applyShiftMove,
+  deserializeShift,
+  getVisibleDays,
+  shiftsForCell,
+  timelinePosition,
+} from "@/lib/schedule";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
 import { ShiftEditorDialog } from "./shift-editor-dialog";
+import { PublishDialog } from "./publish-dialog";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { PlusCircle, Edit2, Trash2 } from "lucide-react";
+import { ApiError } from "@/lib/api.client";
 
 // Deterministic color generator for staff id -> color
 function colorForId(id: string) {
@@ -18,88 +43,236 @@ function colorForId(id: string) {
   return `hsl(${hue} 70% 50%)`;
 }
 
+const DRAG_MIME = "application/x-shift-id";
+const SNAP_MINUTES = 15;
+
+interface Row {
+  id: string;
+  label: string;
+}
+
+function ShiftBlock({
+  shift,
+  rowId,
+  onEdit,
+  draggable,
+  style,
+}: {
+  shift: Shift;
+  rowId: string;
+  onEdit: (shift: Shift) => void;
+  draggable: boolean;
+  style?: CSSProperties;
+}) {
+  const handleDragStart = (e: DragEvent<HTMLDivElement>) => {
+    e.dataTransfer.setData(DRAG_MIME, JSON.stringify({ id: shift.id, rowId }));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  return (
+    <div
+      draggable={draggable}
+      onDragStart={handleDragStart}
+      onClick={() => onEdit(shift)}
+      className={cn(
+        "rounded-md border border-l-4 bg-background px-2 py-1 text-xs shadow-sm hover:shadow-md transition-shadow overflow-hidden",
+        draggable && "cursor-grab active:cursor-grabbing",
+      )}
+      style={{ borderLeftColor: colorForId(rowId), ...style }}
+      title={shift.title}
+    >
+      <div className="font-semibold truncate">{shift.title || "Shift"}</div>
+      <div className="text-muted-foreground truncate">
+        {`${format(shift.start, "HH:mm")} - ${format(shift.end, "HH:mm")}`}
+      </div>
+    </div>
+  );
+}
+
 export default function ScheduleCalendar({
-  orgId = "demo",
+  orgId: orgIdProp,
 }: {
   orgId?: string;
 }) {
+  const activeOrg = useActiveOrg();
+  const orgId = orgIdProp ?? activeOrg.orgId ?? "";
+  const isManager = activeOrg.permissions.includes("schedule.edit");
+
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(() => new Date());
   const [shifts, setShifts] = useState<Shift[]>([]);
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedShift, setSelectedShift] = useState<Shift | undefined>(
     undefined,
   );
+  const [periodInfo, setPeriodInfo] = useState<SchedulePeriodResponse | null>(
+    null,
+  );
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+
+  const days = useMemo(() => getVisibleDays(anchor, view), [anchor, view]);
+
+  // Publishing always works on the whole week containing the anchor date
+  const periodRange = useMemo(() => {
+    const week = getVisibleDays(anchor, "week");
+    return { start: week[0], end: addDays(week[6], 1) };
+  }, [anchor]);
+  const periodId = format(periodRange.start, "yyyy-MM-dd");
+  const isLocked = periodInfo?.period.status === "locked";
+  const canEdit = isManager && !isLocked;
+
+  const loadPeriod = useCallback(async () => {
+    if (!orgId) return;
+    try {
+      const params = new URLSearchParams({
+        start: periodRange.start.toISOString(),
+        end: periodRange.end.toISOString(),
+      });
+      const res = await fetch(
+        `/api/orgs/${encodeURIComponent(orgId)}/schedule-periods/${periodId}?${params}`,
+        { credentials: "include" },
+      );
+      if (!res.ok) throw await ApiError.fromResponse(res);
+      setPeriodInfo(await res.json());
+    } catch (e) {
+      console.error("Failed to fetch schedule period", e);
+    }
+  }, [orgId, periodId, periodRange]);
+
+  const loadShifts = useCallback(async () => {
+    if (!orgId) return;
+    setLoading(true);
+    try {
+      const from = days[0].toISOString();
+      const to = addDays(days[days.length - 1], 1).toISOString();
+      const loaded: Shift[] = [];
+      let cursor: string | null = null;
+      do {
+        const params = new URLSearchParams({ from, to, limit: "500" });
+        if (cursor) params.set("cursor", cursor);
+        const res = await fetch(
+          `/api/orgs/${encodeURIComponent(orgId)}/shifts?${params}`,
+          { credentials: "include" },
+        );
+        if (!res.ok) throw await ApiError.fromResponse(res);
+        const page: ShiftListResponse = await res.json();
+        loaded.push(...page.shifts.map(deserializeShift));
+        cursor = page.nextCursor;
+      } while (cursor);
+      setShifts(loaded);
+    } catch (e) {
+      console.error("Failed to fetch shifts", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [orgId, days]);
+
+  useEffect(() => {
+    loadShifts();
+  }, [loadShifts]);
+
+  useEffect(() => {
+    loadPeriod();
+  }, [loadPeriod]);
 
-  // TODO: Fetch shifts from the API in a useEffect hook
   useEffect(() => {
     if (!orgId) return;
-    fetch(`/api/shifts?orgId=${encodeURIComponent(orgId)}`)
-      .then((res) => res.json())
-      .then((data) => {
-        // parse ISO strings to Date objects for UI usage
-        type RawShift = {
-          start?: string | null;
-          end?: string | null;
-          createdAt?: string | null;
-          updatedAt?: string | null;
-          [k: string]: unknown;
-        };
-        const parsed = (data as RawShift[])
-          .map((s) => {
-            const rec = s as RawShift & Record<string, unknown>;
-            return {
-              id:
-                typeof rec.id === "string"
-                  ? rec.id
-                  : String(Math.random()).slice(2, 8),
-              orgId: typeof rec.orgId === "string" ? rec.orgId : orgId,
-              venueId:
-                typeof rec.venueId === "string" ? rec.venueId : undefined,
-              standId:
-                typeof rec.standId === "string" ? rec.standId : undefined,
-              title: typeof rec.title === "string" ? rec.title : undefined,
-              assignedTo: Array.isArray(rec.assignedTo)
-                ? (rec.assignedTo as string[])
-                : undefined,
-              notes: typeof rec.notes === "string" ? rec.notes : undefined,
-              start: s.start ? new Date(s.start) : new Date(),
-              end: s.end ? new Date(s.end) : new Date(),
-              createdAt: s.createdAt ? new Date(s.createdAt) : new Date(),
-              updatedAt: s.updatedAt ? new Date(s.updatedAt) : new Date(),
-            };
-          })
-          .filter((s) => Boolean(s.id && s.orgId && s.start && s.end));
-
-        setShifts(parsed as Shift[]);
-      })
-      .catch((e) => console.error("Failed to fetch shifts", e));
+    fetch(`/api/orgs/${encodeURIComponent(orgId)}/members`, {
+      credentials: "include",
+    })
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: OrgMember[]) => setMembers(data))
+      .catch((e) => console.error("Failed to fetch members", e));
   }, [orgId]);
 
-  // Demo/helper: populate a few sample shifts to speed up initial setup
-  const populateSample = () => {
-    const now = Date.now();
-    const sample: Shift[] = [
-      {
-        id: "s1",
-        orgId: "demo",
-        title: "Morning Shift - Alice",
-        start: new Date(now + 1000 * 60 * 60 * 9),
-        end: new Date(now + 1000 * 60 * 60 * 13),
-        assignedTo: ["alice"],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-      {
-        id: "s2",
-        orgId: "demo",
-        title: "Lunch Shift - Bob",
-        start: new Date(now + 1000 * 60 * 60 * 12),
-        end: new Date(now + 1000 * 60 * 60 * 16),
-        assignedTo: ["bob"],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-    ];
-    setShifts(sample);
+  const rows: Row[] = useMemo(
+    () => [
+      ...members.map((m) => ({
+        id: m.uid,
+        label: m.displayName ?? m.email ?? m.uid,
+      })),
+      { id: UNASSIGNED_ROW, label: "Unassigned" },
+    ],
+    [members],
+  );
+
+  const moveShift = async (shiftId: string, move: ShiftMove) => {
+    const original = shifts.find((s) => s.id === shiftId);
+    if (!original) return;
+    const patch = applyShiftMove(original, move);
+    if (!patch) return;
+
+    // Optimistic update; rolled back if the API rejects the change
+    setShifts((prev) =>
+      prev.map((s) => (s.id === shiftId ? { ...s, ...patch } : s)),
+    );
+
+    try {
+      const res = await fetch(
+        `/api/orgs/${encodeURIComponent(orgId)}/shifts/${shiftId}`,
+        {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            "x-csrf-token": await getCsrfToken(),
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            assignedTo: patch.assignedTo,
+            start: patch.start.toISOString(),
+            end: patch.end.toISOString(),
+          }),
+        },
+      );
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      const saved = deserializeShift(await res.json());
+      setShifts((prev) => prev.map((s) => (s.id === shiftId ? saved : s)));
+      loadPeriod();
+    } catch (error) {
+      setShifts((prev) => prev.map((s) => (s.id === shiftId ? original : s)));
+      toast({
+        title: "Could not move shift",
+        description:
+          error instanceof Error ? error.message : "Failed to move shift",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>, key: string) => {
+    if (!e.dataTransfer.types.includes(DRAG_MIME)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    if (dropTarget !== key) setDropTarget(key);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, row: Row, day: Date) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const raw = e.dataTransfer.getData(DRAG_MIME);
+    if (!raw) return;
+    const { id, rowId } = JSON.parse(raw) as { id: string; rowId: string };
+
+    let startMinutes: number | undefined;
+    if (view === "day") {
+      // Day view drops also pick the start time from the pointer position
+      const rect = e.currentTarget.getBoundingClientRect();
+      const ratio = Math.min(
+        Math.max((e.clientX - rect.left) / rect.width, 0),
+        1,
+      );
+      startMinutes = Math.min(
+        Math.round((ratio * 24 * 60) / SNAP_MINUTES) * SNAP_MINUTES,
+        24 * 60 - SNAP_MINUTES,
+      );
+    }
+
+    moveShift(id, { fromRow: rowId, toRow: row.id, toDay: day, startMinutes });
   };
 
   const handleAddShift = () => {
@@ -108,50 +281,246 @@ export default function ScheduleCalendar({
   };
 
   const handleEditShift = (shift: Shift) => {
+    if (!canEdit) return;
     setSelectedShift(shift);
     setIsDialogOpen(true);
   };
 
+  const handleSaved = (saved: Shift) => {
+    setShifts((prev) => [...prev.filter((s) => s.id !== saved.id), saved]);
+    loadPeriod();
+  };
+
+  const handlePublished = (period: SerializedSchedulePeriod) => {
+    setPeriodInfo({
+      period,
+      diff: { added: [], changed: [], removed: [] },
+    });
+  };
+
+  const handleLock = async () => {
+    try {
+      const res = await fetch(
+        `/api/orgs/${encodeURIComponent(orgId)}/schedule-periods/${periodId}/lock`,
+        {
+          method: "POST",
+          headers: { "x-csrf-token": await getCsrfToken() },
+          credentials: "include",
+        },
+      );
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      loadPeriod();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to lock schedule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const pendingChanges = periodInfo?.diff
+    ? periodInfo.diff.added.length +
+      periodInfo.diff.changed.length +
+      periodInfo.diff.removed.length
+    : 0;
+  const statusLabel =
+    periodInfo?.period.status === "published"
+      ? pendingChanges > 0
+        ? `Published v${periodInfo.period.version} · ${pendingChanges} unpublished`
+        : `Published v${periodInfo.period.version}`
+      : periodInfo?.period.status === "locked"
+        ? "Locked"
+        : "Draft";
+
+  const step = view === "week" ? 7 : 1;
+  const title =
+    view === "week"
+      ? `${format(days[0], "MMM d")} - ${format(days[6], "MMM d, yyyy")}`
+      : format(days[0], "EEEE, MMM d, yyyy");
+  const gridTemplateColumns =
+    view === "week" ? "160px repeat(7, minmax(0, 1fr))" : "160px 1fr";
+
   return (
     <div>
-      <div className="flex justify-between mb-4">
-        <div className="flex gap-2">
-          <Button onClick={handleAddShift}>
-            <PlusCircle className="mr-2 h-4 w-4" /> Add Shift
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setAnchor((a) => addDays(a, -step))}
+          >
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous</span>
           </Button>
-          <Button variant="ghost" onClick={populateSample}>
-            Populate sample week
+          <h2 className="text-xl font-semibold font-headline text-center min-w-56">
+            {title}
+          </h2>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setAnchor((a) => addDays(a, step))}
+          >
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setAnchor(new Date())}
+          >
+            Today
           </Button>
         </div>
-        <div>
+        <div className="flex gap-2">
           <Button
-            variant="outline"
-            onClick={() => console.log("Export schedule (TODO)")}
+            variant={view === "week" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("week")}
           >
-            Export
+            Week
           </Button>
+          <Button
+            variant={view === "day" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setView("day")}
+          >
+            Day
+          </Button>
+          {isManager && (
+            <>
+              <Badge variant="outline" className="self-center">
+                {statusLabel}
+              </Badge>
+              {periodInfo?.period.status === "published" && (
+                <Button variant="outline" size="sm" onClick={handleLock}>
+                  Lock
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => setIsPublishOpen(true)}
+                disabled={!orgId || isLocked}
+              >
+                Publish
+              </Button>
+              <Button onClick={handleAddShift} disabled={!orgId || isLocked}>
+                <PlusCircle className="mr-2 h-4 w-4" /> Add Shift
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
-      {/* This is where you will build your calendar grid.
-        Map over the `shifts` state to display them.
-        Each shift should have an `onClick` that calls `handleEditShift(shift)`.
-      */}
-      <div className="grid grid-cols-7 border rounded-lg h-96 p-2">
-        <p className="text-muted-foreground">Calendar grid goes here...</p>
-        {/* Example of displaying a shift */}
-        {shifts.map((shift) => (
-          <div key={shift.id} onClick={() => handleEditShift(shift)}>
-            {shift.title}
+      <div
+        className={cn(
+          "border rounded-lg overflow-x-auto",
+          loading && "opacity-60",
+        )}
+      >
+        <div className="grid min-w-[720px]" style={{ gridTemplateColumns }}>
+          <div className="border-b p-2 text-xs font-medium text-muted-foreground">
+            Staff
           </div>
-        ))}
+          {view === "week" ? (
+            days.map((day) => (
+              <div
+                key={day.toISOString()}
+                className={cn(
+                  "border-b border-l p-2 text-xs font-medium text-center",
+                  isSameDay(day, new Date()) && "text-primary",
+                )}
+              >
+                {format(day, "EEE d")}
+              </div>
+            ))
+          ) : (
+            <div className="border-b border-l p-2 text-xs text-muted-foreground flex justify-between">
+              {[0, 3, 6, 9, 12, 15, 18, 21].map((h) => (
+                <span key={h}>{`${String(h).padStart(2, "0")}:00`}</span>
+              ))}
+            </div>
+          )}
+
+          {rows.map((row) => (
+            <div key={row.id} className="contents">
+              <div className="border-b p-2 text-sm font-medium truncate">
+                {row.label}
+              </div>
+              {days.map((day, dayIndex) => {
+                const key = `${row.id}|${dayIndex}`;
+                const cellShifts = shiftsForCell(shifts, row.id, day);
+                return (
+                  <div
+                    key={key}
+                    onDragOver={(e) => canEdit && handleDragOver(e, key)}
+                    onDragLeave={() => setDropTarget(null)}
+                    onDrop={(e) => canEdit && handleDrop(e, row, day)}
+                    className={cn(
+                      "border-b border-l p-1 min-h-16",
+                      view === "day" ? "relative" : "space-y-1",
+                      dropTarget === key && "bg-secondary",
+                    )}
+                  >
+                    {cellShifts.map((shift) => {
+                      if (view === "week") {
+                        return (
+                          <ShiftBlock
+                            key={shift.id}
+                            shift={shift}
+                            rowId={row.id}
+                            onEdit={handleEditShift}
+                            draggable={canEdit}
+                          />
+                        );
+                      }
+                      const { left, width } = timelinePosition(shift, day);
+                      return (
+                        <ShiftBlock
+                          key={shift.id}
+                          shift={shift}
+                          rowId={row.id}
+                          onEdit={handleEditShift}
+                          draggable={canEdit}
+                          style={{
+                            position: "absolute",
+                            top: 4,
+                            bottom: 4,
+                            left: `${left}%`,
+                            width: `${Math.max(width, 2)}%`,
+                          }}
+                        />
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
       </div>
 
       <ShiftEditorDialog
         isOpen={isDialogOpen}
         onOpenChange={setIsDialogOpen}
         shift={selectedShift}
-        orgId={""} // TODO: Pass orgId from parent component
+        orgId={orgId}
+        onSaved={handleSaved}
+      />
+
+      <PublishDialog
+        isOpen={isPublishOpen}
+        onOpenChange={setIsPublishOpen}
+        orgId={orgId}
+        periodId={periodId}
+        range={periodRange}
+        diff={periodInfo?.diff}
+        onPublished={handlePublished}
       />
     </div>
   );
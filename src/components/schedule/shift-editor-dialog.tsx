@@ -4,8 +4,13 @@
 
 import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
-// ... other imports
-import { OrgMember, Shift } from "@/lib/types";
+import { format } from "date-fns";
+import { OrgMember, SerializedAvailability, Shift } from "@/lib/types";
+import { deserializeShift } from "@/lib/schedule";
+import { checkAvailability } from "@/lib/conflicts";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { toast } from "@/hooks/use-toast";
+import { useVenues } from "@/hooks/use-venues";
 import {
   Select,
   SelectContent,
@@ -24,16 +29,20 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { ApiError } from "@/lib/api.client";
 
 // Create a Zod schema for the form
 const formSchema = z.object({
   title: z.string().min(1, "Title is required"),
-  start: z.string(), // Use string for input, convert to Date on submit
-  end: z.string(),
+  start: z.string().min(1, "Start is required"), // datetime-local value
+  end: z.string().min(1, "End is required"),
   assignedTo: z.array(z.string()).optional(),
   venueId: z.string().optional(),
   standId: z.string().optional(),
+  openSlots: z.string().optional(), // number input value; empty means closed
+  claimRequiresApproval: z.boolean().optional(),
 });
 
 interface ShiftEditorDialogProps {
@@ -41,6 +50,27 @@ interface ShiftEditorDialogProps {
   onOpenChange: (open: boolean) => void;
   shift?: Shift;
   orgId: string;
+  onSaved?: (shift: Shift) => void;
+}
+
+// Select items cannot have an empty value, so "no venue/stand" uses this
+const NONE = "none";
+
+// datetime-local inputs work in local time without a zone suffix
+const toInputValue = (date?: Date) =>
+  date ? format(date, "yyyy-MM-dd'T'HH:mm") : "";
+
+function defaultValuesFor(shift?: Shift) {
+  return {
+    title: shift?.title || "",
+    start: toInputValue(shift?.start),
+    end: toInputValue(shift?.end),
+    assignedTo: shift?.assignedTo || [],
+    venueId: shift?.venueId || "",
+    standId: shift?.standId || "",
+    openSlots: shift?.openSlots ? String(shift.openSlots) : "",
+    claimRequiresApproval: shift?.claimRequiresApproval ?? false,
+  };
 }
 
 export function ShiftEditorDialog({
@@ -48,44 +78,97 @@ export function ShiftEditorDialog({
   onOpenChange,
   shift,
   orgId,
+  onSaved,
 }: ShiftEditorDialogProps) {
   const [members, setMembers] = useState<OrgMember[]>([]);
+  const [availability, setAvailability] = useState<SerializedAvailability[]>(
+    [],
+  );
   const [submitting, setSubmitting] = useState(false);
+  const { venues } = useVenues(orgId, isOpen);
   // resolver typing mismatch between @hookform/resolvers and this project's zod version;
   // it's safe to cast here.
   const form = useForm({
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     resolver: zodResolver(formSchema as any),
-    defaultValues: {
-      title: shift?.title || "",
-      start: shift?.start?.toISOString().substring(0, 16) || "",
-      end: shift?.end?.toISOString().substring(0, 16) || "",
-      assignedTo: shift?.assignedTo || [],
-      venueId: shift?.venueId || "",
-      standId: shift?.standId || "",
-    },
+    defaultValues: defaultValuesFor(shift),
   });
 
+  useEffect(() => {
+    if (isOpen) form.reset(defaultValuesFor(shift));
+  }, [isOpen, shift, form]);
+
   useEffect(() => {
     if (isOpen && orgId) {
       fetch(`/api/orgs/${orgId}/members`)
         .then((res) => res.json())
         .then((data) => setMembers(data))
         .catch(console.error);
+      fetch(`/api/orgs/${encodeURIComponent(orgId)}/availability`, {
+        credentials: "include",
+      })
+        .then((res) => (res.ok ? res.json() : []))
+        .then((data) => setAvailability(data))
+        .catch(console.error);
     }
   }, [isOpen, orgId]);
 
-  const onSubmit = async (_values: z.infer<typeof formSchema>) => {
+  const venueId = form.watch("venueId") || "";
+  const standId = form.watch("standId") || "";
+  const venue = venues.find((v) => v.id === venueId);
+
+  // Why each member cannot work the shift as currently entered, if they can't
+  const start = form.watch("start");
+  const end = form.watch("end");
+  const unavailableReason = (uid: string) => {
+    const record = availability.find((a) => a.uid === uid);
+    if (!record || !start || !end) return null;
+    const conflict = checkAvailability(
+      { id: shift?.id ?? "new", start: new Date(start), end: new Date(end) },
+      record,
+    );
+    if (!conflict) return null;
+    return conflict.type === "time_off" ? "time off" : "unavailable";
+  };
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
     setSubmitting(true);
     try {
-      // Keep existing submit logic; this is intentionally minimal here.
-      // If the consumer wants full behavior, replace the below with the real call.
-      await new Promise((r) => setTimeout(r, 500));
+      const payload = {
+        title: values.title,
+        start: new Date(values.start).toISOString(),
+        end: new Date(values.end).toISOString(),
+        assignedTo: values.assignedTo ?? [],
+        ...(values.venueId && { venueId: values.venueId }),
+        ...(values.standId && { standId: values.standId }),
+        openSlots: Number(values.openSlots) || 0,
+        claimRequiresApproval: !!values.claimRequiresApproval,
+      };
+      const base = `/api/orgs/${encodeURIComponent(orgId)}/shifts`;
+      const res = await fetch(shift ? `${base}/${shift.id}` : base, {
+        method: shift ? "PATCH" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": await getCsrfToken(),
+        },
+        credentials: "include",
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      onSaved?.(deserializeShift(await res.json()));
+      onOpenChange(false);
     } catch (err) {
       console.error("Failed saving shift", err);
+      toast({
+        title: "Error",
+        description:
+          err instanceof Error ? err.message : "Failed to save shift",
+        variant: "destructive",
+      });
     } finally {
       setSubmitting(false);
-      onOpenChange(false);
     }
   };
 
@@ -101,6 +184,21 @@ export function ShiftEditorDialog({
             <Input id="title" {...form.register("title")} />
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="start">Start</Label>
+              <Input
+                id="start"
+                type="datetime-local"
+                {...form.register("start")}
+              />
+            </div>
+            <div>
+              <Label htmlFor="end">End</Label>
+              <Input id="end" type="datetime-local" {...form.register("end")} />
+            </div>
+          </div>
+
           <div>
             <Label>Assign To</Label>
             {/* This is a simplified single-select; for multi-select,
@@ -108,37 +206,115 @@ export function ShiftEditorDialog({
             <Select
               aria-label="Assign employee"
               onValueChange={(value) => form.setValue("assignedTo", [value])}
-              defaultValue={shift?.assignedTo?.[0]}
+              value={form.watch("assignedTo")?.[0]}
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select an employee" />
               </SelectTrigger>
               <SelectContent>
-                {members.map((member) => (
-                  <SelectItem key={member.uid} value={member.uid}>
-                    {member.displayName ?? member.email ?? member.uid}
-                  </SelectItem>
-                ))}
+                {members
+                  // Suspended members keep shifts they already have
+                  .filter(
+                    (member) =>
+                      !member.suspended ||
+                      form.watch("assignedTo")?.includes(member.uid),
+                  )
+                  .map((member) => {
+                    const reason = unavailableReason(member.uid);
+                    return (
+                      <SelectItem key={member.uid} value={member.uid}>
+                        {member.displayName ?? member.email ?? member.uid}
+                        {reason && (
+                          <span className="ml-2 text-xs text-destructive">
+                            ({reason})
+                          </span>
+                        )}
+                      </SelectItem>
+                    );
+                  })}
               </SelectContent>
             </Select>
           </div>
 
-          <div>
-            <Label htmlFor="venueId">Venue ID (Optional)</Label>
-            <Input
-              id="venueId"
-              placeholder="e.g., venue-123"
-              {...form.register("venueId")}
-            />
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Venue</Label>
+              <Select
+                aria-label="Venue"
+                value={venueId || NONE}
+                onValueChange={(value) => {
+                  form.setValue("venueId", value === NONE ? "" : value);
+                  form.setValue("standId", "");
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="No venue" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No venue</SelectItem>
+                  {venues.map((v) => (
+                    <SelectItem key={v.id} value={v.id}>
+                      {v.name}
+                    </SelectItem>
+                  ))}
+                  {/* Keep a venue deleted since the shift was saved */}
+                  {venueId && !venue && (
+                    <SelectItem value={venueId}>{venueId}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Stand/Booth/Zone</Label>
+              <Select
+                aria-label="Stand"
+                value={standId || NONE}
+                onValueChange={(value) =>
+                  form.setValue("standId", value === NONE ? "" : value)
+                }
+                disabled={!venue?.stands.length && !standId}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="No stand" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No stand</SelectItem>
+                  {venue?.stands.map((stand) => (
+                    <SelectItem key={stand.id} value={stand.id}>
+                      {stand.name}
+                    </SelectItem>
+                  ))}
+                  {standId &&
+                    !venue?.stands.some((stand) => stand.id === standId) && (
+                      <SelectItem value={standId}>{standId}</SelectItem>
+                    )}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
-          <div>
-            <Label htmlFor="standId">Stand/Booth/Zone ID (Optional)</Label>
-            <Input
-              id="standId"
-              placeholder="e.g., booth-12, zone-a"
-              {...form.register("standId")}
-            />
+          <div className="grid grid-cols-2 items-end gap-3">
+            <div>
+              <Label htmlFor="openSlots">Open slots</Label>
+              <Input
+                id="openSlots"
+                type="number"
+                min={0}
+                max={50}
+                placeholder="0"
+                {...form.register("openSlots")}
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="claimRequiresApproval"
+                checked={!!form.watch("claimRequiresApproval")}
+                onCheckedChange={(checked) =>
+                  form.setValue("claimRequiresApproval", checked)
+                }
+              />
+              <Label htmlFor="claimRequiresApproval">Approve claims</Label>
+            </div>
           </div>
 
           <DialogFooter>
@@ -0,0 +1,135 @@
+// src/components/time-clock/time-clock.tsx
+
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Clock } from "lucide-react";
+import type { SerializedShift, TimeClockState } from "@/lib/types";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ApiError } from "@/lib/api.client";
+
+function shiftLabel(shift: SerializedShift) {
+  const where = [shift.venueId, shift.standId].filter(Boolean).join(" / ");
+  return `${shift.title || "Shift"} · ${format(new Date(shift.start), "HH:mm")}-${format(new Date(shift.end), "HH:mm")}${where ? ` · ${where}` : ""}`;
+}
+
+/**
+ * Clock in to the member's current shift and back out. Punches are left
+ * pending until a manager approves them.
+ */
+export function TimeClock() {
+  const { orgId, loading: orgLoading } = useActiveOrg();
+  const [state, setState] = useState<TimeClockState | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const base = orgId
+    ? `/api/orgs/${encodeURIComponent(orgId)}/attendance`
+    : null;
+
+  const load = useCallback(async () => {
+    if (!base) return;
+    try {
+      const res = await fetch(`${base}/me`, { credentials: "include" });
+      if (!res.ok) throw await ApiError.fromResponse(res);
+      setState(await res.json());
+    } catch (error) {
+      console.error("Failed to load time clock", error);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const punch = async (action: "clock-in" | "clock-out") => {
+    if (!base) return;
+    setSubmitting(true);
+    try {
+      const res = await fetch(`${base}/${action}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": await getCsrfToken(),
+        },
+        credentials: "include",
+        body: JSON.stringify(
+          action === "clock-in" && state?.shift
+            ? { shiftId: state.shift.id }
+            : {},
+        ),
+      });
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      toast({
+        title: "Success",
+        description: action === "clock-in" ? "Clocked in" : "Clocked out",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to record punch",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+      load();
+    }
+  };
+
+  if (orgLoading || (base && !state)) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+  if (!base) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Join an organization to use the time clock.
+      </p>
+    );
+  }
+
+  if (state?.openPunch) {
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Clock className="h-4 w-4 text-primary" />
+          <span>
+            Clocked in since{" "}
+            {format(new Date(state.openPunch.clockIn), "EEE HH:mm")}
+          </span>
+          <Badge variant="secondary">Pending approval</Badge>
+        </div>
+        <Button
+          variant="destructive"
+          disabled={submitting}
+          onClick={() => punch("clock-out")}
+        >
+          Clock out
+        </Button>
+      </div>
+    );
+  }
+
+  if (state?.shift) {
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span>{shiftLabel(state.shift)}</span>
+        <Button disabled={submitting} onClick={() => punch("clock-in")}>
+          Clock in
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      No shift to clock in to right now.
+    </p>
+  );
+}
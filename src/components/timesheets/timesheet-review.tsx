@@ -0,0 +1,422 @@
+// src/components/timesheets/timesheet-review.tsx
+
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { addDays, format } from "date-fns";
+import { ChevronLeft, ChevronRight, Pencil } from "lucide-react";
+import type {
+  ApproveAttendanceResponse,
+  OrgMember,
+  TimesheetRow,
+} from "@/lib/types";
+import { getVisibleDays } from "@/lib/schedule";
+import { getCsrfToken } from "@/lib/csrf.client";
+import { useActiveOrg } from "@/hooks/use-active-org";
+import { toast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { ApiError } from "@/lib/api.client";
+
+// Variances within this many minutes are not highlighted
+const VARIANCE_TOLERANCE_MINUTES = 5;
+
+const toInputValue = (iso: string | null) =>
+  iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "";
+
+function VarianceBadge({ minutes }: { minutes: number | null }) {
+  if (minutes === null) return <span className="text-muted-foreground">-</span>;
+  const flagged = Math.abs(minutes) > VARIANCE_TOLERANCE_MINUTES;
+  return (
+    <Badge variant={flagged ? "destructive" : "secondary"}>
+      {minutes > 0 ? "+" : ""}
+      {minutes}m
+    </Badge>
+  );
+}
+
+/**
+ * Pending punches for one week with their variance against the schedule.
+ * Managers correct clock times with a reason and approve rows in bulk.
+ */
+export function TimesheetReview() {
+  const { orgId, loading: orgLoading } = useActiveOrg();
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [rows, setRows] = useState<TimesheetRow[]>([]);
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [editing, setEditing] = useState<TimesheetRow | null>(null);
+  const [clockIn, setClockIn] = useState("");
+  const [clockOut, setClockOut] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const range = useMemo(() => {
+    const week = getVisibleDays(anchor, "week");
+    return { start: week[0], end: addDays(week[6], 1) };
+  }, [anchor]);
+
+  const base = orgId
+    ? `/api/orgs/${encodeURIComponent(orgId)}/attendance`
+    : null;
+
+  const load = useCallback(async () => {
+    if (!base) return;
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        from: range.start.toISOString(),
+        to: range.end.toISOString(),
+      });
+      const res = await fetch(`${base}?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      setRows(await res.json());
+      setSelected(new Set());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to load attendance",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [base, range]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!orgId) return;
+    fetch(`/api/orgs/${encodeURIComponent(orgId)}/members`, {
+      credentials: "include",
+    })
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setMembers)
+      .catch(console.error);
+  }, [orgId]);
+
+  const nameOf = (uid: string) => {
+    const member = members.find((m) => m.uid === uid);
+    return member?.displayName ?? member?.email ?? uid;
+  };
+
+  // Open punches cannot be approved until someone closes them
+  const approvable = rows.filter((row) => row.clockOut !== null);
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const openEditor = (row: TimesheetRow) => {
+    setEditing(row);
+    setClockIn(toInputValue(row.clockIn));
+    setClockOut(toInputValue(row.clockOut));
+    setReason("");
+  };
+
+  const saveCorrection = async () => {
+    if (!base || !editing) return;
+    setSaving(true);
+    try {
+      const res = await fetch(`${base}/${encodeURIComponent(editing.id)}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": await getCsrfToken(),
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          ...(clockIn && { clockIn: new Date(clockIn).toISOString() }),
+          ...(clockOut && { clockOut: new Date(clockOut).toISOString() }),
+          reason,
+        }),
+      });
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      toast({ title: "Success", description: "Clock times corrected" });
+      setEditing(null);
+      load();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to save correction",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const approveSelected = async () => {
+    if (!base || selected.size === 0) return;
+    setApproving(true);
+    try {
+      const res = await fetch(`${base}/approve`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": await getCsrfToken(),
+        },
+        credentials: "include",
+        body: JSON.stringify({ ids: [...selected] }),
+      });
+      if (!res.ok) {
+        throw await ApiError.fromResponse(res);
+      }
+      const result: ApproveAttendanceResponse = await res.json();
+      toast({
+        title: "Success",
+        description:
+          `${result.approved.length} approved` +
+          (result.skipped.length ? `, ${result.skipped.length} skipped` : ""),
+      });
+      load();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to approve attendance",
+        variant: "destructive",
+      });
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  if (orgLoading) {
+    return <p className="text-sm text-muted-foreground">Loading...</p>;
+  }
+  if (!orgId) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Join an organization to review timesheets.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setAnchor(addDays(anchor, -7))}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">
+          {format(range.start, "MMM d")} -{" "}
+          {format(addDays(range.end, -1), "MMM d, yyyy")}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => setAnchor(addDays(anchor, 7))}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button
+          className="ml-auto"
+          disabled={approving || selected.size === 0}
+          onClick={approveSelected}
+        >
+          Approve selected ({selected.size})
+        </Button>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {loading
+            ? "Loading attendance..."
+            : "No pending attendance for this week."}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8">
+                <Checkbox
+                  aria-label="Select all"
+                  checked={
+                    approvable.length > 0 &&
+                    approvable.every((row) => selected.has(row.id))
+                  }
+                  onCheckedChange={(checked) =>
+                    setSelected(
+                      checked
+                        ? new Set(approvable.map((r) => r.id))
+                        : new Set(),
+                    )
+                  }
+                />
+              </TableHead>
+              <TableHead>Member</TableHead>
+              <TableHead>Scheduled</TableHead>
+              <TableHead>Actual</TableHead>
+              <TableHead>In</TableHead>
+              <TableHead>Out</TableHead>
+              <TableHead>Worked</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.id}>
+                <TableCell>
+                  <Checkbox
+                    aria-label={`Select ${nameOf(row.staffId)}`}
+                    disabled={row.clockOut === null}
+                    checked={selected.has(row.id)}
+                    onCheckedChange={(checked) => toggle(row.id, !!checked)}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div>{nameOf(row.staffId)}</div>
+                  {row.corrections?.length ? (
+                    <div
+                      className="text-xs text-muted-foreground"
+                      title={row.corrections.map((c) => c.reason).join("\n")}
+                    >
+                      Corrected
+                    </div>
+                  ) : null}
+                </TableCell>
+                <TableCell>
+                  {row.shift
+                    ? `${format(new Date(row.shift.start), "EEE HH:mm")}-${format(new Date(row.shift.end), "HH:mm")}`
+                    : "Shift removed"}
+                </TableCell>
+                <TableCell>
+                  {format(new Date(row.clockIn), "EEE HH:mm")}-
+                  {row.clockOut
+                    ? format(new Date(row.clockOut), "HH:mm")
+                    : "open"}
+                </TableCell>
+                <TableCell>
+                  <VarianceBadge
+                    minutes={row.variance?.clockInMinutes ?? null}
+                  />
+                </TableCell>
+                <TableCell>
+                  <VarianceBadge
+                    minutes={row.variance?.clockOutMinutes ?? null}
+                  />
+                </TableCell>
+                <TableCell>
+                  <VarianceBadge
+                    minutes={
+                      row.variance?.workedMinutes == null
+                        ? null
+                        : row.variance.workedMinutes -
+                          row.variance.scheduledMinutes
+                    }
+                  />
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Correct clock times"
+                    onClick={() => openEditor(row)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog
+        open={!!editing}
+        onOpenChange={(open) => {
+          if (!open) setEditing(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Correct clock times</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="clockIn">Clock in</Label>
+                <Input
+                  id="clockIn"
+                  type="datetime-local"
+                  value={clockIn}
+                  onChange={(e) => setClockIn(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="clockOut">Clock out</Label>
+                <Input
+                  id="clockOut"
+                  type="datetime-local"
+                  value={clockOut}
+                  onChange={(e) => setClockOut(e.target.value)}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="reason">Reason</Label>
+              <Textarea
+                id="reason"
+                maxLength={500}
+                placeholder="e.g. Forgot to clock out"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={saving || reason.trim().length < 3}
+              onClick={saveCorrection}
+            >
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
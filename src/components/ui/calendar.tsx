@@ -53,6 +53,7 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { ApiError, api } from "@/lib/api.client";
 
 interface Invite {
   code: string;
@@ -110,22 +111,7 @@ export default function InviteManager({
     setError("");
 
     try {
-      // Get CSRF token first
-      const csrfResponse = await fetch("/api/auth/csrf");
-      if (!csrfResponse.ok) {
-        throw new Error("Failed to get CSRF token");
-      }
-
-      const csrfToken = document.cookie
-        .split("; ")
-        .find((row) => row.startsWith("XSRF-TOKEN="))
-        ?.split("=")[1];
-
-      if (!csrfToken) {
-        throw new Error("CSRF token not found");
-      }
-
-      const payload = {
+      const { invite } = await api.invites.create({
         orgId,
         role: createForm.role,
         ...(createForm.expiresIn && {
@@ -133,27 +119,16 @@ export default function InviteManager({
         }),
         ...(createForm.maxUses && { maxUses: parseInt(createForm.maxUses) }),
         ...(createForm.notes && { notes: createForm.notes }),
-      };
-
-      const response = await fetch("/api/invites/create", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-csrf-token": csrfToken,
-        },
-        body: JSON.stringify(payload),
       });
 
-      const data = await response.json();
-
-      if (data.success && data.invite) {
+      if (invite) {
         const newInvite: Invite = {
-          code: data.invite.code,
-          shortCode: data.invite.shortCode,
-          qrCodeUrl: data.invite.qrCodeUrl,
+          code: invite.code,
+          shortCode: invite.shortCode,
+          qrCodeUrl: invite.qrCodeUrl,
           role: createForm.role,
-          expiresAt: data.invite.expiresAt,
-          maxUses: data.invite.maxUses,
+          expiresAt: invite.expiresAt,
+          maxUses: invite.maxUses,
           currentUses: 0,
           isActive: true,
           createdAt: new Date().toISOString(),
@@ -168,12 +143,14 @@ export default function InviteManager({
           maxUses: "",
           notes: "",
         });
-      } else {
-        setError(data.error || "Failed to create invite");
       }
     } catch (err) {
-      console.error("Create invite error:", err);
-      setError("An unexpected error occurred. Please try again.");
+      if (err instanceof ApiError) {
+        setError(err.message);
+      } else {
+        console.error("Create invite error:", err);
+        setError("An unexpected error occurred. Please try again.");
+      }
     } finally {
       setIsLoading(false);
     }
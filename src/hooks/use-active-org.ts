@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { CustomClaims, Organization, Permission } from "@/lib/types";
+
+interface ActiveOrgState {
+  uid: string | null;
+  orgId: string | null;
+  role: string | null;
+  permissions: Permission[]; // What the role grants in the active org
+  ownerUid: string | null;
+  loading: boolean;
+}
+
+/**
+ * Resolves the signed-in user's active (primary) org from /api/auth/me.
+ */
+export function useActiveOrg(): ActiveOrgState {
+  const [state, setState] = useState<ActiveOrgState>({
+    uid: null,
+    orgId: null,
+    role: null,
+    permissions: [],
+    ownerUid: null,
+    loading: true,
+  });
+
+  useEffect(() => {
+    let mounted = true;
+
+    fetch("/api/auth/me", { credentials: "include" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!mounted) return;
+        const claims: CustomClaims = data?.claims ?? data?.customClaims ?? {};
+        const orgId = claims.orgId ?? claims.orgIds?.[0] ?? null;
+        const organizations: Organization[] = data?.organizations ?? [];
+        setState({
+          uid: data?.uid ?? null,
+          orgId,
+          role: (orgId && claims.orgRoles?.[orgId]) || claims.orgRole || null,
+          permissions: data?.access?.permissions ?? [],
+          ownerUid:
+            organizations.find((org) => org.id === orgId)?.ownerUid ?? null,
+          loading: false,
+        });
+      })
+      .catch((error) => {
+        console.error("Failed to resolve active org:", error);
+        if (mounted) setState((s) => ({ ...s, loading: false }));
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return state;
+}
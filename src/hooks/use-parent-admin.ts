@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { onIdTokenChanged } from "firebase/auth";
+import { auth } from "@/lib/firebase";
+
+interface ParentAdminState {
+  parentId: string | null; // Set only for parent admins
+  loading: boolean;
+}
+
+/**
+ * The parent the signed-in user administers, read from the ID token claims
+ * the parent API and rules check.
+ */
+export function useParentAdmin(): ParentAdminState {
+  const [state, setState] = useState<ParentAdminState>({
+    parentId: null,
+    loading: true,
+  });
+
+  useEffect(() => {
+    if (!auth) {
+      setState({ parentId: null, loading: false });
+      return;
+    }
+    return onIdTokenChanged(auth, async (user) => {
+      try {
+        const claims = user ? (await user.getIdTokenResult()).claims : {};
+        setState({
+          parentId:
+            claims.parentAdmin === true && typeof claims.parentId === "string"
+              ? claims.parentId
+              : null,
+          loading: false,
+        });
+      } catch (error) {
+        console.error("Failed to read parent claims:", error);
+        setState({ parentId: null, loading: false });
+      }
+    });
+  }, []);
+
+  return state;
+}
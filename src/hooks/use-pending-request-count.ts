@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useActiveOrg } from "@/hooks/use-active-org";
+
+/**
+ * Live count of shift requests waiting on the signed-in user in the active
+ * org: pending approvals for reviewers, swap offers for everyone else.
+ */
+export function usePendingRequestCount(): number {
+  const { uid, orgId, permissions } = useActiveOrg();
+  const isManager = permissions.includes("requests.review");
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    if (!db || !uid || !orgId) return;
+
+    const requests = collection(db, `orgs/${orgId}/shiftRequests`);
+    const q = isManager
+      ? query(requests, where("status", "==", "pending"))
+      : query(
+          requests,
+          where("targetUid", "==", uid),
+          where("status", "==", "awaiting_peer"),
+        );
+
+    return onSnapshot(
+      q,
+      (snapshot) => setCount(snapshot.size),
+      (error) => {
+        console.error("Failed to watch shift requests:", error);
+        setCount(0);
+      },
+    );
+  }, [uid, orgId, isManager]);
+
+  return count;
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { SerializedVenue } from "@/lib/types";
+import { ApiError } from "@/lib/api.client";
+
+/**
+ * The org's venues with their stands. Pass `enabled: false` to hold off
+ * fetching, e.g. while a dialog is closed.
+ */
+export function useVenues(orgId: string | null, enabled = true) {
+  const [venues, setVenues] = useState<SerializedVenue[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!orgId) return;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/orgs/${encodeURIComponent(orgId)}/venues`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw await ApiError.fromResponse(res);
+      setVenues(await res.json());
+    } catch (error) {
+      console.error("Failed to load venues:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [orgId]);
+
+  useEffect(() => {
+    if (enabled) reload();
+  }, [enabled, reload]);
+
+  return { venues, loading, reload };
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import type { ApiErrorBody, ApiErrorCode } from "@/lib/types";
+
+export type { ApiErrorBody, ApiErrorCode } from "@/lib/types";
+
+/**
+ * The response for any failed API request: an ApiErrorBody with the
+ * given status.
+ */
+export function apiError(
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: unknown,
+) {
+  const body: ApiErrorBody = { code, message };
+  if (details !== undefined) body.details = details;
+  return NextResponse.json(body, {
+    status,
+    headers: { Vary: "Origin" },
+  });
+}
+
+const CODE_FOR_STATUS: Record<number, ApiErrorCode> = {
+  400: "bad-request",
+  401: "unauthenticated",
+  403: "forbidden",
+  404: "not-found",
+  409: "conflict",
+};
+
+/**
+ * The error response for a domain error that only carries an HTTP status,
+ * like VenueError or RoleError, with the code that status implies.
+ */
+export function statusError(status: number, message: string) {
+  const code =
+    CODE_FOR_STATUS[status] ?? (status >= 500 ? "internal" : "bad-request");
+  return apiError(status, code, message);
+}
+
+/** A 400 carrying the zod issues that failed validation as `details`. */
+export function validationError(
+  error: z.ZodError | { path: PropertyKey[]; message: string }[],
+  message = "Invalid request data",
+) {
+  const issues = Array.isArray(error) ? error : error.issues;
+  return apiError(400, "validation-error", message, issues);
+}
+
+export function internalError() {
+  return apiError(500, "internal", "Internal Server Error");
+}
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+import { allowsReadOrigin, withGuard } from "./api-guard";
+import { accessAs, signedInHeaders } from "@/test/api";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  getOrgAccess: vi.fn(),
+}));
+
+const params = Promise.resolve({ orgId: "org-1" });
+
+function makeRequest(headers: Record<string, string>) {
+  return new NextRequest("http://localhost:3000/api/orgs/org-1/thing", {
+    method: "POST",
+    headers,
+  });
+}
+
+const handler = vi.fn(async () => NextResponse.json({ ok: true }));
+
+async function expectRefused(response: Response, status: number, code: string) {
+  expect(response.status).toBe(status);
+  expect((await response.json()).code).toBe(code);
+  expect(handler).not.toHaveBeenCalled();
+}
+
+describe("withGuard", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    delete process.env.NEXT_PUBLIC_APP_URL;
+    const { getSession } = await import("@/lib/session");
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getSession as any).mockResolvedValue({ uid: "alice", email: null });
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager"));
+  });
+
+  const guarded = withGuard({ permission: "schedule.edit" }, handler);
+
+  it("should refuse other origins", async () => {
+    const response = await guarded(
+      makeRequest(signedInHeaders({ origin: "https://evil.example" })),
+      { params },
+    );
+    await expectRefused(response, 403, "forbidden-origin");
+  });
+
+  it("should refuse mutations without an Origin", async () => {
+    const { origin: _origin, ...headers } = signedInHeaders();
+    const response = await guarded(makeRequest(headers), { params });
+    await expectRefused(response, 403, "forbidden-origin");
+  });
+
+  it("should accept the configured app origin", async () => {
+    process.env.NEXT_PUBLIC_APP_URL = "https://app.example/";
+    const response = await guarded(
+      makeRequest(signedInHeaders({ origin: "https://app.example" })),
+      { params },
+    );
+    expect(response.status).toBe(200);
+  });
+
+  it("should refuse a missing CSRF header", async () => {
+    const { "x-csrf-token": _token, ...headers } = signedInHeaders();
+    const response = await guarded(makeRequest(headers), { params });
+    await expectRefused(response, 403, "csrf-failed");
+  });
+
+  it("should refuse a CSRF header that does not match the cookie", async () => {
+    const response = await guarded(
+      makeRequest(signedInHeaders({ "x-csrf-token": "forged" })),
+      { params },
+    );
+    await expectRefused(response, 403, "csrf-failed");
+  });
+
+  it("should refuse requests without a session cookie", async () => {
+    const response = await guarded(
+      makeRequest(signedInHeaders({ cookie: "XSRF-TOKEN=csrf-token" })),
+      { params },
+    );
+    await expectRefused(response, 401, "unauthenticated");
+  });
+
+  it("should refuse a session cookie that does not verify", async () => {
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue(null);
+
+    const response = await guarded(makeRequest(signedInHeaders()), {
+      params,
+    });
+    await expectRefused(response, 401, "invalid-session");
+  });
+
+  it("should refuse unverified emails when asked to", async () => {
+    const { getSession } = await import("@/lib/session");
+    (getSession as any).mockResolvedValue({
+      uid: "alice",
+      email: "alice@example.com",
+      emailVerified: false,
+    });
+
+    const response = await withGuard(
+      { verifiedEmail: true },
+      handler,
+    )(makeRequest(signedInHeaders()));
+    await expectRefused(response, 403, "email-unverified");
+  });
+
+  it("should refuse callers without the permission", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getOrgAccess as any).mockResolvedValue(accessAs("employee"));
+
+    const response = await guarded(makeRequest(signedInHeaders()), {
+      params,
+    });
+    await expectRefused(response, 403, "forbidden");
+    expect(getOrgAccess).toHaveBeenCalledWith("alice", "org-1");
+  });
+
+  it("should refuse venue-scoped callers when every venue is needed", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getOrgAccess as any).mockResolvedValue(accessAs("manager", ["venue-1"]));
+
+    const response = await withGuard(
+      { permission: "schedule.edit", allVenues: true },
+      handler,
+    )(makeRequest(signedInHeaders()), { params });
+    await expectRefused(response, 403, "forbidden");
+  });
+
+  it("should refuse non-members of the route's org", async () => {
+    const { getOrgAccess } = await import("@/lib/auth-utils");
+    (getOrgAccess as any).mockResolvedValue(null);
+
+    const response = await withGuard({ permission: "member" }, handler)(
+      makeRequest(signedInHeaders()),
+      { params },
+    );
+    await expectRefused(response, 403, "forbidden");
+  });
+
+  it("should pass the caller and their access to the handler", async () => {
+    const response = await guarded(makeRequest(signedInHeaders()), {
+      params,
+    });
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(
+      expect.any(NextRequest),
+      expect.objectContaining({
+        params: { orgId: "org-1" },
+        uid: "alice",
+        access: accessAs("manager"),
+      }),
+    );
+  });
+});
+
+describe("allowsReadOrigin", () => {
+  it("should allow same-origin reads without an Origin", () => {
+    const request = new NextRequest("http://localhost:3000/api/auth/csrf");
+    expect(allowsReadOrigin(request)).toBe(true);
+  });
+
+  it("should refuse reads from other origins", () => {
+    const request = new NextRequest("http://localhost:3000/api/auth/csrf", {
+      headers: { origin: "https://evil.example" },
+    });
+    expect(allowsReadOrigin(request)).toBe(false);
+  });
+});
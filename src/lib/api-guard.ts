@@ -0,0 +1,165 @@
+import type { NextRequest } from "next/server";
+import { apiError, internalError } from "@/lib/api-error";
+import { getOrgAccess } from "@/lib/auth-utils";
+import { hasValidCsrfToken } from "@/lib/csrf";
+import { hasPermission, type OrgAccess } from "@/lib/permissions";
+import { getSession } from "@/lib/session";
+import type { Permission } from "@/lib/types";
+
+type Params = Record<string, string>;
+
+export function allowedOrigins(): string[] {
+  const envOrigin = process.env.NEXT_PUBLIC_APP_URL?.replace(/\/+$/, "");
+  const defaults = ["http://localhost:3000", "http://127.0.0.1:3000"];
+  return envOrigin ? [envOrigin, ...defaults] : defaults;
+}
+
+/**
+ * Browsers send Origin with every non-GET request, so a mutation without
+ * one did not come from our pages.
+ */
+export function isAllowedOrigin(origin: string | null): boolean {
+  if (!origin) return false;
+  return allowedOrigins().includes(origin.replace(/\/+$/, ""));
+}
+
+/**
+ * Same-origin GETs may omit Origin; reads that carry one must come from
+ * an allowed origin.
+ */
+export function allowsReadOrigin(request: NextRequest): boolean {
+  const origin = request.headers.get("origin");
+  return !origin || isAllowedOrigin(origin);
+}
+
+/**
+ * The error response for a mutation that fails the origin allow-list or
+ * the CSRF double-submit check, or null when it passes both. For routes
+ * that run before there is a session, such as sign-in.
+ */
+export function rejectCrossSite(request: NextRequest): Response | null {
+  if (!isAllowedOrigin(request.headers.get("origin"))) {
+    return apiError(403, "forbidden-origin", "Origin is not allowed.");
+  }
+  if (!hasValidCsrfToken(request)) {
+    return apiError(403, "csrf-failed", "CSRF validation failed.");
+  }
+  return null;
+}
+
+export interface GuardOptions {
+  /**
+   * What the caller must hold in the org named by the `orgId` route
+   * param: a permission, or just membership.
+   */
+  permission?: Permission | "member";
+  /** Message for the 403 when `permission` is missing. */
+  forbidden?: string;
+  /**
+   * Also refuse members limited to some venues, for changes that reach
+   * every venue in the org.
+   */
+  allVenues?: boolean;
+  /** Refuse sessions whose email address is not verified. */
+  verifiedEmail?: boolean;
+}
+
+export interface GuardContext<P extends Params> {
+  params: P;
+  uid: string;
+  email: string | null;
+  /** The org the session is working in, from its claims. */
+  activeOrgId: string | null;
+  /** The caller's org access; null unless `permission` was checked. */
+  access: OrgAccess | null;
+}
+
+type GuardedHandler<P extends Params> = (
+  request: NextRequest,
+  context?: { params: Promise<P> },
+) => Promise<Response>;
+
+/**
+ * Wrap a mutating route handler in the checks every one of them needs,
+ * in order: origin allow-list, CSRF double-submit, the `__session`
+ * cookie, then `permission` in the route's org. A failed check answers
+ * with an ApiErrorBody and the handler never runs.
+ *
+ * Routes authenticated by a Bearer ID token, like the parent portal's,
+ * are not exposed to CSRF and do not use this.
+ */
+export function withGuard<P extends Params = Params>(
+  options: GuardOptions & { permission: Permission | "member" },
+  handler: (
+    request: NextRequest,
+    ctx: GuardContext<P> & { access: OrgAccess },
+  ) => Promise<Response>,
+): GuardedHandler<P>;
+export function withGuard<P extends Params = Params>(
+  options: GuardOptions,
+  handler: (request: NextRequest, ctx: GuardContext<P>) => Promise<Response>,
+): GuardedHandler<P>;
+export function withGuard<P extends Params = Params>(
+  options: GuardOptions,
+  handler: (
+    request: NextRequest,
+    ctx: GuardContext<P> & { access: OrgAccess },
+  ) => Promise<Response>,
+): GuardedHandler<P> {
+  return async (request, context) => {
+    const rejected = rejectCrossSite(request);
+    if (rejected) return rejected;
+
+    if (!request.cookies.get("__session")?.value) {
+      return apiError(401, "unauthenticated", "Authentication required.");
+    }
+    const session = await getSession(request);
+    if (!session?.uid) {
+      return apiError(401, "invalid-session", "Session is invalid or expired.");
+    }
+    if (options.verifiedEmail && session.emailVerified === false) {
+      return apiError(403, "email-unverified", "Verify your email first.");
+    }
+
+    const params = ((await context?.params) ?? {}) as P;
+    let access: OrgAccess | null = null;
+    if (options.permission) {
+      try {
+        access = await getOrgAccess(session.uid, params.orgId);
+      } catch (error) {
+        console.error(`Error loading access to org ${params.orgId}:`, error);
+        return internalError();
+      }
+      const allowed =
+        options.permission === "member"
+          ? access !== null
+          : hasPermission(access, options.permission);
+      if (!allowed) {
+        return apiError(
+          403,
+          "forbidden",
+          options.forbidden ??
+            (options.permission === "member"
+              ? "You are not a member of this organization."
+              : "You do not have permission to do this."),
+        );
+      }
+      if (options.allVenues && access?.venueIds !== null) {
+        return apiError(
+          403,
+          "forbidden",
+          "This changes every venue, and you only have access to some.",
+        );
+      }
+    }
+
+    return handler(request, {
+      params,
+      uid: session.uid,
+      email: session.email,
+      activeOrgId: session.activeOrgId ?? null,
+      // Only null when no permission was asked for, per the overloads
+      access: access as OrgAccess,
+    });
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ApiError, api, apiFetch } from "./api.client";
+
+vi.mock("@/lib/csrf.client", () => ({
+  getCsrfToken: vi.fn().mockResolvedValue("csrf-token"),
+}));
+
+const fetchMock = vi.fn();
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("apiFetch", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  it("should send reads without a CSRF header", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ ok: true }));
+
+    expect(await apiFetch("/api/thing")).toEqual({ ok: true });
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe("GET");
+    expect(init.credentials).toBe("include");
+    expect(new Headers(init.headers).has("x-csrf-token")).toBe(false);
+  });
+
+  it("should send JSON bodies with the CSRF header", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ ok: true }));
+
+    await apiFetch("/api/thing", { json: { name: "Bar" } });
+    const [, init] = fetchMock.mock.calls[0];
+    const headers = new Headers(init.headers);
+    expect(init.method).toBe("POST");
+    expect(init.body).toBe('{"name":"Bar"}');
+    expect(headers.get("x-csrf-token")).toBe("csrf-token");
+    expect(headers.get("content-type")).toBe("application/json");
+  });
+
+  it("should resolve undefined for a 204", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    expect(await apiFetch("/api/thing", { method: "DELETE" })).toBeUndefined();
+  });
+
+  it("should throw the error envelope as an ApiError", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ code: "conflict", message: "No open slots left" }, 409),
+    );
+
+    const error = await apiFetch("/api/thing").catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      status: 409,
+      code: "conflict",
+      message: "No open slots left",
+    });
+  });
+
+  it("should fall back to a generic error for other bodies", async () => {
+    fetchMock.mockResolvedValue(new Response("Bad Gateway", { status: 502 }));
+
+    const error = await apiFetch("/api/thing").catch((e) => e);
+    expect(error).toMatchObject({
+      status: 502,
+      code: "internal",
+      message: "Request failed (502)",
+    });
+  });
+});
+
+describe("api", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  it("should apply the request schema's defaults", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ success: true }));
+
+    await api.invites.create({ orgId: "org-1" });
+    const [path, init] = fetchMock.mock.calls[0];
+    expect(path).toBe("/api/invites/create");
+    expect(JSON.parse(init.body)).toEqual({ orgId: "org-1", role: "employee" });
+  });
+
+  it("should search the public directory", async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ success: true, organizations: [] }),
+    );
+
+    await api.orgs.search("coffee bar");
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "/api/discovery/search?q=coffee+bar",
+    );
+  });
+});
@@ -0,0 +1,151 @@
+import type { z } from "zod";
+import { getCsrfToken } from "@/lib/csrf.client";
+import {
+  ApiErrorBodySchema,
+  CreateInviteRequestSchema,
+  JoinOrgRequestSchema,
+  RequestAccessSchema,
+  UpdateOrgMemberSchema,
+  type ApiErrorCode,
+  type AuditListResponse,
+  type CreateInviteResponse,
+  type JoinOrgResponse,
+  type ListInvitesResponse,
+  type OrgMember,
+  type OrgSearchResponse,
+} from "@/lib/types";
+
+/**
+ * A failed API request. `code` comes from the error envelope every route
+ * answers with, so callers can branch on it instead of the message.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  /**
+   * Read the error envelope from a failed response. Bodies that are not
+   * one, like a proxy's error page, get a generic message.
+   */
+  static async fromResponse(res: Response): Promise<ApiError> {
+    const body = ApiErrorBodySchema.safeParse(
+      await res.json().catch(() => null),
+    );
+    if (body.success) {
+      const { message, code, details } = body.data;
+      return new ApiError(message, res.status, code, details);
+    }
+    return new ApiError(
+      `Request failed (${res.status})`,
+      res.status,
+      res.status >= 500 ? "internal" : "bad-request",
+    );
+  }
+}
+
+interface ApiFetchInit extends Omit<RequestInit, "body"> {
+  /** Sent as the JSON request body. */
+  json?: unknown;
+}
+
+/**
+ * Fetch an API route with the session cookie, adding the CSRF header to
+ * anything but a GET. Resolves with the JSON body (undefined for a 204)
+ * and throws ApiError for any other non-2xx response.
+ */
+export async function apiFetch<T>(
+  path: string,
+  { json, ...init }: ApiFetchInit = {},
+): Promise<T> {
+  const method = init.method ?? (json === undefined ? "GET" : "POST");
+  const headers = new Headers(init.headers);
+  if (json !== undefined) headers.set("Content-Type", "application/json");
+  if (method !== "GET") headers.set("x-csrf-token", await getCsrfToken());
+
+  const res = await fetch(path, {
+    ...init,
+    method,
+    headers,
+    credentials: "include",
+    body: json === undefined ? undefined : JSON.stringify(json),
+  });
+  if (!res.ok) throw await ApiError.fromResponse(res);
+  if (res.status === 204) return undefined as T;
+  return (await res.json()) as T;
+}
+
+const orgPath = (orgId: string) => `/api/orgs/${encodeURIComponent(orgId)}`;
+
+/**
+ * Typed calls for the org, member, audit and invite routes. Request bodies go through
+ * the same schemas the routes validate with.
+ */
+export const api = {
+  orgs: {
+    search: (query: string) =>
+      apiFetch<OrgSearchResponse>(
+        `/api/discovery/search?${new URLSearchParams({ q: query })}`,
+      ),
+    join: (input: z.input<typeof JoinOrgRequestSchema>) =>
+      apiFetch<JoinOrgResponse>("/api/orgs/join", {
+        json: JoinOrgRequestSchema.parse(input),
+      }),
+    requestAccess: (input: z.input<typeof RequestAccessSchema>) =>
+      apiFetch<{ success: boolean; requestId: string }>(
+        "/api/orgs/request-access",
+        { json: RequestAccessSchema.parse(input) },
+      ),
+    transferOwnership: (orgId: string, uid: string) =>
+      apiFetch<void>(`${orgPath(orgId)}/transfer-ownership`, {
+        json: { uid },
+      }),
+  },
+  members: {
+    list: (orgId: string) => apiFetch<OrgMember[]>(`${orgPath(orgId)}/members`),
+    update: (
+      orgId: string,
+      uid: string,
+      patch: z.input<typeof UpdateOrgMemberSchema>,
+    ) =>
+      apiFetch<OrgMember>(
+        `${orgPath(orgId)}/members/${encodeURIComponent(uid)}`,
+        { method: "PATCH", json: UpdateOrgMemberSchema.parse(patch) },
+      ),
+    remove: (orgId: string, uid: string) =>
+      apiFetch<void>(`${orgPath(orgId)}/members/${encodeURIComponent(uid)}`, {
+        method: "DELETE",
+      }),
+  },
+  audit: {
+    list: (orgId: string, query: Record<string, string>) =>
+      apiFetch<AuditListResponse>(
+        `${orgPath(orgId)}/audit?${new URLSearchParams(query)}`,
+      ),
+    // Downloads are plain GETs, so the browser follows the link itself
+    exportUrl: (
+      orgId: string,
+      query: Record<string, string>,
+      format: "csv" | "json",
+    ) =>
+      `${orgPath(orgId)}/audit/export?${new URLSearchParams({ ...query, format })}`,
+  },
+  invites: {
+    list: () => apiFetch<ListInvitesResponse>("/api/invites/list"),
+    create: (input: z.input<typeof CreateInviteRequestSchema>) =>
+      apiFetch<CreateInviteResponse>("/api/invites/create", {
+        json: CreateInviteRequestSchema.parse(input),
+      }),
+    revoke: (code: string) =>
+      apiFetch<{ success: boolean }>(
+        `/api/invites/${encodeURIComponent(code)}/revoke`,
+        { method: "POST" },
+      ),
+  },
+};
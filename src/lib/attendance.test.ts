@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { attendanceVariance } from "@/lib/attendance";
+
+const shift = {
+  start: new Date("2025-06-02T09:00:00Z"),
+  end: new Date("2025-06-02T17:00:00Z"),
+};
+
+describe("Attendance variance", () => {
+  it("should report late arrival and early departure", () => {
+    expect(
+      attendanceVariance(
+        {
+          clockIn: Date.parse("2025-06-02T09:12:00Z"),
+          clockOut: Date.parse("2025-06-02T16:45:00Z"),
+        },
+        shift,
+      ),
+    ).toEqual({
+      clockInMinutes: 12,
+      clockOutMinutes: -15,
+      workedMinutes: 453,
+      scheduledMinutes: 480,
+    });
+  });
+
+  it("should leave clock-out figures empty while on the clock", () => {
+    const variance = attendanceVariance(
+      { clockIn: Date.parse("2025-06-02T08:50:00Z"), clockOut: null },
+      shift,
+    );
+    expect(variance.clockInMinutes).toBe(-10);
+    expect(variance.clockOutMinutes).toBeNull();
+    expect(variance.workedMinutes).toBeNull();
+  });
+});
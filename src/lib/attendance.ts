@@ -0,0 +1,352 @@
+import type { DocumentData } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import {
+  publishedShiftsCollection,
+  serializeShift,
+  toIsoString,
+} from "@/lib/shifts";
+import type {
+  ApproveAttendanceResponse,
+  Attendance,
+  AttendanceCorrection,
+  AttendanceStatus,
+  AttendanceVariance,
+  SerializedAttendance,
+  SerializedShift,
+  TimeClockState,
+  TimesheetRow,
+} from "@/lib/types";
+
+// Members may clock in this long before their shift starts
+const CLOCK_IN_EARLY_MS = 30 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+// Longest shift considered when looking for the one in progress
+const MAX_SHIFT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thrown when a punch is not allowed. `status` is the HTTP status the API
+ * should answer with.
+ */
+export class AttendanceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 403 | 404 | 409,
+  ) {
+    super(message);
+    this.name = "AttendanceError";
+  }
+}
+
+export function attendanceCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/attendance`);
+}
+
+/** One punch per member and shift, so retries cannot clock in twice. */
+export function attendanceId(shiftId: string, uid: string) {
+  return `${shiftId}_${uid}`;
+}
+
+export function serializeAttendance(data: DocumentData): SerializedAttendance {
+  return {
+    ...(data as SerializedAttendance),
+    clockIn: toIsoString(data.clockIn),
+    clockOut: data.clockOut == null ? null : toIsoString(data.clockOut),
+    approvedAt: data.approvedAt ? toIsoString(data.approvedAt) : undefined,
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  };
+}
+
+function openPunchQuery(orgId: string, uid: string) {
+  return attendanceCollection(orgId)
+    .where("staffId", "==", uid)
+    .where("clockOut", "==", null)
+    .limit(1);
+}
+
+function isClockable(shift: SerializedShift, uid: string, at: number) {
+  return (
+    !!shift.assignedTo?.includes(uid) &&
+    Date.parse(shift.start) - CLOCK_IN_EARLY_MS <= at &&
+    Date.parse(shift.end) > at
+  );
+}
+
+/**
+ * The published shift `uid` can clock in to at `at`, skipping shifts they
+ * already punched for. Prefers the one that started first.
+ */
+export async function findClockableShift(
+  orgId: string,
+  uid: string,
+  at: number,
+): Promise<SerializedShift | null> {
+  const snapshot = await publishedShiftsCollection(orgId)
+    .where("assignedTo", "array-contains", uid)
+    .where("start", ">", new Date(at - MAX_SHIFT_MS))
+    .where("start", "<=", new Date(at + CLOCK_IN_EARLY_MS))
+    .orderBy("start", "asc")
+    .get();
+  const candidates = snapshot.docs
+    .map((d) => serializeShift({ ...d.data(), id: d.id }))
+    .filter((shift) => isClockable(shift, uid, at));
+  if (!candidates.length) return null;
+
+  const punched = await adminDb().getAll(
+    ...candidates.map((s) =>
+      attendanceCollection(orgId).doc(attendanceId(s.id, uid)),
+    ),
+  );
+  return candidates.find((_, i) => !punched[i].exists) ?? null;
+}
+
+/**
+ * What the time clock should offer the member right now.
+ */
+export async function getTimeClockState(
+  orgId: string,
+  uid: string,
+): Promise<TimeClockState> {
+  const [open, shift] = await Promise.all([
+    openPunchQuery(orgId, uid).get(),
+    findClockableShift(orgId, uid, Date.now()),
+  ]);
+  return {
+    openPunch: open.empty ? null : serializeAttendance(open.docs[0].data()),
+    shift,
+  };
+}
+
+/**
+ * Start a pending punch against the member's scheduled shift, copying its
+ * venue, stand and role. Fails while another punch is still open.
+ */
+export async function clockIn(
+  orgId: string,
+  uid: string,
+  shiftId?: string,
+): Promise<SerializedAttendance> {
+  const now = Date.now();
+  let shift: SerializedShift | null;
+  if (shiftId) {
+    const snap = await publishedShiftsCollection(orgId).doc(shiftId).get();
+    if (!snap.exists) throw new AttendanceError("Shift not found", 404);
+    shift = serializeShift({ ...snap.data(), id: snap.id });
+    if (!isClockable(shift, uid, now)) {
+      throw new AttendanceError("You cannot clock in to this shift now", 409);
+    }
+  } else {
+    shift = await findClockableShift(orgId, uid, now);
+    if (!shift) {
+      throw new AttendanceError("No scheduled shift to clock in to", 409);
+    }
+  }
+
+  const ref = attendanceCollection(orgId).doc(attendanceId(shift.id, uid));
+  return adminDb().runTransaction(async (tx) => {
+    const [open, existing] = await Promise.all([
+      tx.get(openPunchQuery(orgId, uid)),
+      tx.get(ref),
+    ]);
+    if (!open.empty) {
+      throw new AttendanceError("You are already clocked in", 409);
+    }
+    if (existing.exists) {
+      throw new AttendanceError("You already clocked in for this shift", 409);
+    }
+
+    const punch: Attendance = {
+      id: ref.id,
+      tenantId: orgId,
+      staffId: uid,
+      shiftId: shift.id,
+      ...(shift.venueId && { venueId: shift.venueId }),
+      ...(shift.standId && { standId: shift.standId }),
+      ...(shift.role && { role: shift.role }),
+      clockIn: now,
+      clockOut: null,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+    };
+    tx.create(ref, punch);
+    return serializeAttendance(punch);
+  });
+}
+
+/**
+ * Close the member's open punch. It stays pending for manager approval.
+ */
+export async function clockOut(
+  orgId: string,
+  uid: string,
+): Promise<SerializedAttendance> {
+  return adminDb().runTransaction(async (tx) => {
+    const open = await tx.get(openPunchQuery(orgId, uid));
+    if (open.empty) throw new AttendanceError("You are not clocked in", 409);
+
+    const now = Date.now();
+    const update = { clockOut: now, updatedAt: now };
+    tx.update(open.docs[0].ref, update);
+    return serializeAttendance({ ...open.docs[0].data(), ...update });
+  });
+}
+
+/**
+ * Compare a punch with its scheduled shift, in whole minutes.
+ */
+export function attendanceVariance(
+  punch: Pick<Attendance, "clockIn" | "clockOut">,
+  shift: { start: Date; end: Date },
+): AttendanceVariance {
+  const minutes = (ms: number) => Math.round(ms / MINUTE_MS);
+  const start = shift.start.getTime();
+  const end = shift.end.getTime();
+  return {
+    clockInMinutes: minutes(punch.clockIn - start),
+    clockOutMinutes:
+      punch.clockOut === null ? null : minutes(punch.clockOut - end),
+    workedMinutes:
+      punch.clockOut === null ? null : minutes(punch.clockOut - punch.clockIn),
+    scheduledMinutes: minutes(end - start),
+  };
+}
+
+/**
+ * Punches clocked in during [from, to) with the given status, each with its
+ * scheduled shift and variance. Oldest first.
+ */
+export async function listTimesheet(
+  orgId: string,
+  query: { from: Date; to: Date; status: AttendanceStatus },
+): Promise<TimesheetRow[]> {
+  const snapshot = await attendanceCollection(orgId)
+    .where("status", "==", query.status)
+    .where("clockIn", ">=", query.from.getTime())
+    .where("clockIn", "<", query.to.getTime())
+    .orderBy("clockIn", "asc")
+    .get();
+  if (snapshot.empty) return [];
+
+  const punches = snapshot.docs.map((d) => d.data() as Attendance);
+  const shiftSnaps = await adminDb().getAll(
+    ...punches.map((p) => publishedShiftsCollection(orgId).doc(p.shiftId)),
+  );
+
+  return punches.map((punch, i) => {
+    const snap = shiftSnaps[i];
+    const shift = snap.exists
+      ? serializeShift({ ...snap.data(), id: snap.id })
+      : null;
+    return {
+      ...serializeAttendance(punch),
+      shift,
+      variance: shift
+        ? attendanceVariance(punch, {
+            start: new Date(shift.start),
+            end: new Date(shift.end),
+          })
+        : null,
+    };
+  });
+}
+
+// Whether a punch is at one of `venueIds`; null means every venue
+function inVenues(punch: Attendance, venueIds: string[] | null) {
+  return venueIds === null || venueIds.includes(punch.venueId ?? "");
+}
+
+/**
+ * Replace the clock times of a pending punch, recording the previous times
+ * and the reason. Approved punches are final because they feed the ledger.
+ * Venue-scoped managers pass their `venueIds` and only reach those punches.
+ */
+export async function correctAttendance(
+  orgId: string,
+  id: string,
+  correctedBy: string,
+  correction: { clockIn?: Date; clockOut?: Date; reason: string },
+  venueIds: string[] | null = null,
+): Promise<SerializedAttendance> {
+  const ref = attendanceCollection(orgId).doc(id);
+  return adminDb().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new AttendanceError("Attendance not found", 404);
+    const punch = snap.data() as Attendance;
+    if (!inVenues(punch, venueIds)) {
+      throw new AttendanceError("Attendance is outside your venues", 403);
+    }
+    if (punch.status !== "pending") {
+      throw new AttendanceError(`Attendance is already ${punch.status}`, 409);
+    }
+
+    const clockIn = correction.clockIn?.getTime() ?? punch.clockIn;
+    const clockOut = correction.clockOut?.getTime() ?? punch.clockOut;
+    if (clockOut !== null && clockOut <= clockIn) {
+      throw new AttendanceError("Clock-out must be after clock-in", 409);
+    }
+
+    const now = Date.now();
+    const entry: AttendanceCorrection = {
+      previousClockIn: punch.clockIn,
+      previousClockOut: punch.clockOut,
+      reason: correction.reason,
+      correctedBy,
+      correctedAt: now,
+    };
+    const update = {
+      clockIn,
+      clockOut,
+      corrections: [...(punch.corrections ?? []), entry],
+      updatedAt: now,
+    };
+    tx.update(ref, update);
+    return serializeAttendance({ ...punch, ...update });
+  });
+}
+
+/**
+ * Approve closed, pending punches in one transaction. Anything else, or a
+ * punch outside `venueIds`, is skipped with a reason rather than failing
+ * the whole batch.
+ */
+export async function approveAttendance(
+  orgId: string,
+  ids: string[],
+  approvedBy: string,
+  venueIds: string[] | null = null,
+): Promise<ApproveAttendanceResponse> {
+  const unique = [...new Set(ids)];
+  return adminDb().runTransaction(async (tx) => {
+    const snaps = await tx.getAll(
+      ...unique.map((id) => attendanceCollection(orgId).doc(id)),
+    );
+    const result: ApproveAttendanceResponse = { approved: [], skipped: [] };
+    const now = Date.now();
+
+    snaps.forEach((snap, i) => {
+      const id = unique[i];
+      const punch = snap.data() as Attendance | undefined;
+      if (!punch) {
+        result.skipped.push({ id, reason: "Not found" });
+      } else if (!inVenues(punch, venueIds)) {
+        result.skipped.push({ id, reason: "Outside your venues" });
+      } else if (punch.status !== "pending") {
+        result.skipped.push({ id, reason: `Already ${punch.status}` });
+      } else if (punch.clockOut === null) {
+        result.skipped.push({ id, reason: "Still clocked in" });
+      } else {
+        tx.update(snap.ref, {
+          status: "approved",
+          approvedAt: now,
+          approvedBy,
+          updatedAt: now,
+        });
+        result.approved.push(id);
+      }
+    });
+    return result;
+  });
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { Timestamp } from "firebase-admin/firestore";
+import {
+  auditChanges,
+  auditInvite,
+  auditToCsv,
+  auditValue,
+  redactInviteCode,
+} from "@/lib/audit";
+import type { SerializedAuditEntry } from "@/lib/types";
+
+async function* from(entries: SerializedAuditEntry[]) {
+  yield* entries;
+}
+
+async function collect(chunks: AsyncIterable<string>) {
+  let out = "";
+  for await (const chunk of chunks) out += chunk;
+  return out;
+}
+
+describe("Audit log", () => {
+  it("should store dates as ISO strings and undefined as null", () => {
+    const at = new Date("2025-06-02T09:00:00.000Z");
+    expect(
+      auditValue({
+        at,
+        stamps: [Timestamp.fromDate(at)],
+        note: undefined,
+      }),
+    ).toEqual({
+      at: "2025-06-02T09:00:00.000Z",
+      stamps: ["2025-06-02T09:00:00.000Z"],
+      note: null,
+    });
+  });
+
+  it("should list only the fields that changed", () => {
+    expect(
+      auditChanges(
+        { role: "member", venueIds: ["venue-1"], uid: "bob" },
+        { role: "manager", venueIds: ["venue-1"], uid: "bob", suspended: true },
+      ),
+    ).toEqual({
+      role: { before: "member", after: "manager" },
+      suspended: { before: null, after: true },
+    });
+  });
+
+  it("should list every field of a creation or deletion", () => {
+    expect(auditChanges(null, { name: "Arena" })).toEqual({
+      name: { before: null, after: "Arena" },
+    });
+    expect(auditChanges({ name: "Arena" }, undefined)).toEqual({
+      name: { before: "Arena", after: null },
+    });
+  });
+
+  it("should keep invite codes out of the log", () => {
+    expect(redactInviteCode("a1b2c3d4e5f6")).toBe("…e5f6");
+    expect(
+      auditInvite({
+        code: "a1b2c3d4e5f6",
+        shortCode: "org-1:a1b2c3d4e5f6",
+        qrCodeUrl: "https://example.com/join/a1b2c3d4e5f6",
+        role: "employee",
+        isActive: true,
+      }),
+    ).toEqual({ role: "employee", isActive: true });
+  });
+
+  it("should write one CSV row per entry with the changes as JSON", async () => {
+    const csv = await collect(
+      auditToCsv(
+        from([
+          {
+            id: "entry-1",
+            orgId: "org-1",
+            action: "member.role-change",
+            actorUid: "alice",
+            actorEmail: null,
+            target: { type: "member", id: "bob" },
+            changes: { role: { before: "member", after: "admin" } },
+            ip: "203.0.113.7",
+            userAgent: "Mozilla/5.0",
+            at: "2025-06-02T09:00:00.000Z",
+          },
+        ]),
+      ),
+    );
+    expect(csv.trim().split("\n")).toEqual([
+      "at,action,actorUid,actorEmail,targetType,targetId,changes,ip,userAgent",
+      '2025-06-02T09:00:00.000Z,member.role-change,alice,,member,bob,"{""role"":{""before"":""member"",""after"":""admin""}}",203.0.113.7,Mozilla/5.0',
+    ]);
+  });
+});
@@ -0,0 +1,287 @@
+import type {
+  DocumentData,
+  Query,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import { csvRow, textStream } from "@/lib/ledger-export";
+import { toIsoString } from "@/lib/shifts";
+import type {
+  AuditAction,
+  AuditChange,
+  AuditEntry,
+  AuditListResponse,
+  AuditQuery,
+  SerializedAuditEntry,
+} from "@/lib/types";
+
+// Firestore batches hold at most 500 writes
+const BATCH_SIZE = 500;
+
+export class InvalidAuditCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Unknown cursor: ${cursor}`);
+    this.name = "InvalidAuditCursorError";
+  }
+}
+
+export function auditCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/audit`);
+}
+
+export interface AuditActor {
+  uid: string;
+  email?: string | null;
+}
+
+export interface AuditEvent {
+  orgId: string;
+  action: AuditAction;
+  target: { type: string; id: string };
+  before?: object | null; // Omitted for creations
+  after?: object | null; // Omitted for deletions
+}
+
+/**
+ * A stored value as the log keeps it: dates and Timestamps as ISO strings
+ * and undefined as null, so an entry reads the same however the value was
+ * written.
+ */
+export function auditValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (
+    value instanceof Date ||
+    (typeof value === "object" &&
+      "toDate" in value &&
+      typeof value.toDate === "function")
+  ) {
+    return toIsoString(value);
+  }
+  if (Array.isArray(value)) return value.map(auditValue);
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, auditValue(v)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * The top-level fields that differ between `before` and `after`. A creation
+ * lists every field of `after`, a deletion every field of `before`.
+ */
+export function auditChanges(
+  before: object | null | undefined,
+  after: object | null | undefined,
+): Record<string, AuditChange> {
+  const was = (before ?? {}) as Record<string, unknown>;
+  const now = (after ?? {}) as Record<string, unknown>;
+  const changes: Record<string, AuditChange> = {};
+  for (const field of new Set([...Object.keys(was), ...Object.keys(now)])) {
+    const change = {
+      before: auditValue(was[field]),
+      after: auditValue(now[field]),
+    };
+    if (JSON.stringify(change.before) !== JSON.stringify(change.after)) {
+      changes[field] = change;
+    }
+  }
+  return changes;
+}
+
+// Fields that redeem an invite, which the log must not hand to auditors
+const INVITE_SECRETS = ["code", "shortCode", "qrCodeUrl"];
+
+/**
+ * An invite's code as the log keeps it: enough to tell invites apart, not
+ * enough to join with.
+ */
+export function redactInviteCode(code: string): string {
+  return `…${code.slice(-4)}`;
+}
+
+/**
+ * An invite as the log records it, without its code, short code or QR
+ * link.
+ */
+export function auditInvite(
+  invite: object | null | undefined,
+): Record<string, unknown> | null {
+  if (!invite) return null;
+  return Object.fromEntries(
+    Object.entries(invite).filter(([field]) => !INVITE_SECRETS.includes(field)),
+  );
+}
+
+// The client's address as the proxy in front of the app saw it
+function clientIp(request: Request): string | null {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0];
+  return forwarded?.trim() || request.headers.get("x-real-ip") || null;
+}
+
+/**
+ * Append entries to their orgs' audit logs. This runs once the action has
+ * happened, so a failed write is logged instead of failing the request.
+ */
+export async function recordAudit(
+  request: Request,
+  actor: AuditActor,
+  events: AuditEvent | AuditEvent[],
+): Promise<void> {
+  try {
+    const at = new Date();
+    const entries = [events].flat().map((event) => {
+      const ref = auditCollection(event.orgId).doc();
+      const entry: AuditEntry = {
+        id: ref.id,
+        orgId: event.orgId,
+        action: event.action,
+        actorUid: actor.uid,
+        actorEmail: actor.email ?? null,
+        target: event.target,
+        changes: auditChanges(event.before, event.after),
+        ip: clientIp(request),
+        userAgent: request.headers.get("user-agent"),
+        at,
+      };
+      return { ref, entry };
+    });
+
+    for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+      const batch = adminDb().batch();
+      for (const { ref, entry } of entries.slice(i, i + BATCH_SIZE)) {
+        batch.create(ref, entry);
+      }
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error("Failed to write audit entries:", error);
+  }
+}
+
+/**
+ * A document's data to record as `before`, or null when it is missing or
+ * cannot be read.
+ */
+export async function auditSnapshot(
+  path: string,
+): Promise<DocumentData | null> {
+  try {
+    const snap = await adminDb().doc(path).get();
+    return snap.exists ? (snap.data() ?? null) : null;
+  } catch (error) {
+    console.error(`Failed to read ${path} for the audit log:`, error);
+    return null;
+  }
+}
+
+export function serializeAuditEntry(data: DocumentData): SerializedAuditEntry {
+  return { ...(data as SerializedAuditEntry), at: toIsoString(data.at) };
+}
+
+function auditQuery(
+  orgId: string,
+  query: Omit<AuditQuery, "cursor" | "limit">,
+) {
+  let q: Query = auditCollection(orgId);
+  if (query.action) q = q.where("action", "==", query.action);
+  if (query.actorUid) q = q.where("actorUid", "==", query.actorUid);
+  if (query.from) q = q.where("at", ">=", query.from);
+  if (query.to) q = q.where("at", "<", query.to);
+  return q.orderBy("at", "desc");
+}
+
+/**
+ * A page of the org's audit log, newest first.
+ */
+export async function listAudit(
+  orgId: string,
+  query: AuditQuery,
+): Promise<AuditListResponse> {
+  let q = auditQuery(orgId, query);
+  if (query.cursor) {
+    const cursorSnap = await auditCollection(orgId).doc(query.cursor).get();
+    if (!cursorSnap.exists) throw new InvalidAuditCursorError(query.cursor);
+    q = q.startAfter(cursorSnap);
+  }
+
+  // Fetch one extra entry to know whether another page exists
+  const snapshot = await q.limit(query.limit + 1).get();
+  const docs = snapshot.docs.slice(0, query.limit);
+  const hasMore = snapshot.docs.length > query.limit;
+
+  return {
+    entries: docs.map((d) => serializeAuditEntry(d.data())),
+    nextCursor: hasMore ? docs[docs.length - 1].id : null,
+  };
+}
+
+const AUDIT_COLUMNS = [
+  "at",
+  "action",
+  "actorUid",
+  "actorEmail",
+  "targetType",
+  "targetId",
+  "changes",
+  "ip",
+  "userAgent",
+] as const;
+
+export async function* auditToCsv(
+  entries: AsyncIterable<SerializedAuditEntry>,
+) {
+  yield csvRow([...AUDIT_COLUMNS]);
+  for await (const entry of entries) {
+    yield csvRow([
+      entry.at,
+      entry.action,
+      entry.actorUid,
+      entry.actorEmail,
+      entry.target.type,
+      entry.target.id,
+      JSON.stringify(entry.changes),
+      entry.ip,
+      entry.userAgent,
+    ]);
+  }
+}
+
+async function* auditToJson(entries: AsyncIterable<SerializedAuditEntry>) {
+  yield "[";
+  let first = true;
+  for await (const entry of entries) {
+    yield (first ? "" : ",") + JSON.stringify(entry);
+    first = false;
+  }
+  yield "]";
+}
+
+/**
+ * Stream every entry matching `query`, newest first, as CSV or JSON.
+ */
+export function exportAudit(
+  orgId: string,
+  query: Omit<AuditQuery, "cursor" | "limit">,
+  format: "csv" | "json",
+  now = new Date(),
+): { body: ReadableStream<Uint8Array>; contentType: string; filename: string } {
+  async function* entries() {
+    for await (const doc of auditQuery(orgId, query).stream()) {
+      yield serializeAuditEntry(
+        (doc as unknown as QueryDocumentSnapshot).data(),
+      );
+    }
+  }
+
+  return {
+    body: textStream(
+      format === "json" ? auditToJson(entries()) : auditToCsv(entries()),
+    ),
+    contentType:
+      format === "json"
+        ? "application/json; charset=utf-8"
+        : "text/csv; charset=utf-8",
+    filename: `audit_${orgId}_${now.toISOString().slice(0, 10)}.${format}`,
+  };
+}
@@ -1,5 +1,11 @@
 import { adminAuth, adminInit } from "@/lib/firebase.server";
-import { CustomClaims, Organization } from "@/lib/types";
+import {
+  BUILT_IN_ROLES,
+  hasPermission,
+  isBuiltInRole,
+  type OrgAccess,
+} from "@/lib/permissions";
+import { CustomClaims, Organization, Permission } from "@/lib/types";
 import { getFirestore } from "firebase-admin/firestore";
 import { randomBytes } from "crypto";
 
@@ -64,7 +70,7 @@ export async function getUserCustomClaims(uid: string): Promise<CustomClaims> {
 export async function addUserToOrg(
   uid: string,
   orgId: string,
-  role: "admin" | "manager" | "employee",
+  role: string, // Built-in role or custom role id
   addedBy: string,
 ): Promise<void> {
   const firestore = getFirestore_();
@@ -159,12 +165,39 @@ export async function removeUserFromOrg(
   await batch.commit();
   await setUserCustomClaims(uid, newClaims);
 
-  // Update user document
+  // Update user document, which not every user has
   const userRef = firestore.doc(`users/${uid}`);
-  await userRef.update({
-    primaryOrgId: newClaims.orgId || null,
-    updatedAt: new Date(),
-  });
+  await userRef.set(
+    { primaryOrgId: newClaims.orgId || null, updatedAt: new Date() },
+    { merge: true },
+  );
+}
+
+/**
+ * Point the user's claims for `orgId` at `role` after their member doc
+ * changed, including the primary org's role when it is that org
+ */
+export async function setUserOrgRoleClaims(
+  uid: string,
+  orgId: string,
+  role: string,
+): Promise<void> {
+  const currentClaims = await getUserCustomClaims(uid);
+  const newClaims: CustomClaims = {
+    ...currentClaims,
+    orgIds: [...new Set([...(currentClaims.orgIds || []), orgId])],
+    orgRoles: {
+      ...currentClaims.orgRoles,
+      [orgId]: role,
+    },
+  };
+
+  if (currentClaims.orgId === orgId) {
+    newClaims.orgRole = role;
+    newClaims.admin = role === "admin";
+  }
+
+  await setUserCustomClaims(uid, newClaims);
 }
 
 /**
@@ -304,25 +337,84 @@ export async function revokeUserTokens(uid: string): Promise<void> {
   await adminAuth().revokeRefreshTokens(uid);
 }
 
+/**
+ * The member's role, the permissions it grants and any venue scope, or null
+ * when the user is not a member or is suspended. A custom role that has
+ * been deleted grants nothing.
+ */
+export async function getOrgAccess(
+  uid: string,
+  orgId: string,
+): Promise<OrgAccess | null> {
+  const memberDoc = await getFirestore_()
+    .collection(`orgs/${orgId}/members`)
+    .doc(uid)
+    .get();
+  if (!memberDoc.exists || memberDoc.get("suspended") === true) return null;
+
+  const member = memberDoc.data() ?? {};
+  const role = (member.role as string | undefined) ?? "employee";
+  let permissions: Permission[] = [];
+  if (isBuiltInRole(role)) {
+    permissions = BUILT_IN_ROLES[role].permissions;
+  } else {
+    const roleDoc = await getFirestore_()
+      .doc(`orgs/${orgId}/roles/${role}`)
+      .get();
+    permissions =
+      (roleDoc.get("permissions") as Permission[] | undefined) ?? [];
+  }
+  return {
+    role,
+    permissions,
+    venueIds: Array.isArray(member.venueIds) ? member.venueIds : null,
+  };
+}
+
+/**
+ * Whether the user holds `permission` in the org, at `venueId` when given.
+ */
 export async function verifyOrgAccess(
   uid: string,
   orgId: string,
-  allowedRoles: string[],
+  permission: Permission,
+  venueId?: string | null,
 ): Promise<boolean> {
   try {
-    const memberDoc = await getFirestore_()
-      .collection(`orgs/${orgId}/members`)
-      .doc(uid)
-      .get();
-
-    if (!memberDoc.exists) {
-      return false; // User is not a member at all
-    }
-
-    const memberData = memberDoc.data();
-    return allowedRoles.includes(memberData?.role);
+    return hasPermission(await getOrgAccess(uid, orgId), permission, venueId);
   } catch (error) {
     console.error("Error verifying org access:", error);
     return false;
   }
 }
+
+export type ParentAdminCheck =
+  | { uid: string }
+  | { status: 401 | 403; message: string };
+
+/**
+ * Verify the Firebase ID token sent as `Authorization: Bearer <token>` and
+ * that it carries the parent admin claims for `parentId`, the same claims
+ * the rules check on parents/{parentId}.
+ */
+export async function verifyParentAdmin(
+  request: Request,
+  parentId: string,
+): Promise<ParentAdminCheck> {
+  const authz = request.headers.get("authorization") || "";
+  const m = authz.match(/^Bearer\s+(.+)$/i);
+  if (!m) return { status: 401, message: "Missing Bearer token" };
+
+  let token;
+  try {
+    token = await adminAuth().verifyIdToken(m[1], true);
+  } catch (err) {
+    console.error("Token verification failed:", err);
+    return { status: 401, message: "Invalid token" };
+  }
+
+  if (!(token.parentAdmin === true && token.parentId === parentId)) {
+    return { status: 403, message: "Not a parent admin for this parentId" };
+  }
+  return { uid: token.uid };
+}
@@ -6,18 +6,14 @@ import {
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
 } from "firebase/auth";
-
-function getCsrf(): string | undefined {
-  const m = document.cookie.match(/(?:^|;\s*)csrf=([^;]+)/);
-  return m ? decodeURIComponent(m[1]) : undefined;
-}
+import { getCsrfToken } from "./csrf.client";
 
 async function postSession(idToken: string) {
   const res = await fetch("/api/auth/session", {
     method: "POST",
     headers: {
       "content-type": "application/json",
-      "x-csrf-token": getCsrf() || "",
+      "x-csrf-token": await getCsrfToken(),
     },
     body: JSON.stringify({ idToken }),
   });
@@ -47,7 +43,10 @@ export async function signupWithEmail(email: string, password: string) {
 }
 
 export async function logoutClient() {
-  await fetch("/api/auth/session", { method: "DELETE" });
+  await fetch("/api/auth/session", {
+    method: "DELETE",
+    headers: { "x-csrf-token": await getCsrfToken() },
+  });
   await auth().signOut();
 }
 
@@ -0,0 +1,60 @@
+import type { DocumentData } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import { toIsoString } from "@/lib/shifts";
+import type { SerializedAvailability } from "@/lib/types";
+
+// Each member keeps a single availability document in their subcollection
+const AVAILABILITY_DOC_ID = "current";
+
+export function availabilityDoc(orgId: string, uid: string) {
+  return adminDb()
+    .collection(`orgs/${orgId}/members/${uid}/availability`)
+    .doc(AVAILABILITY_DOC_ID);
+}
+
+export function serializeAvailability(
+  data: DocumentData,
+): SerializedAvailability {
+  return {
+    ...(data as SerializedAvailability),
+    timeZone: data.timeZone ?? "UTC",
+    weekly: data.weekly ?? [],
+    exceptions: data.exceptions ?? [],
+    updatedAt: data.updatedAt ? toIsoString(data.updatedAt) : undefined,
+  };
+}
+
+/**
+ * Read a member's availability. Members who never saved any are treated as
+ * available at all times.
+ */
+export async function getAvailability(
+  orgId: string,
+  uid: string,
+): Promise<SerializedAvailability> {
+  const snap = await availabilityDoc(orgId, uid).get();
+  return serializeAvailability({ ...snap.data(), uid, orgId });
+}
+
+/**
+ * Availability for every member of the org that has saved some.
+ */
+export async function listOrgAvailability(
+  orgId: string,
+): Promise<SerializedAvailability[]> {
+  const members = await adminDb().collection(`orgs/${orgId}/members`).get();
+  if (members.empty) return [];
+
+  const snaps = await adminDb().getAll(
+    ...members.docs.map((m) => availabilityDoc(orgId, m.id)),
+  );
+  return snaps
+    .filter((snap) => snap.exists)
+    .map((snap) =>
+      serializeAvailability({
+        ...snap.data(),
+        uid: snap.ref.parent.parent!.id,
+        orgId,
+      }),
+    );
+}
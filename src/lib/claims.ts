@@ -0,0 +1,44 @@
+import { adminDb } from "@/lib/firebase.server";
+import { getUserCustomClaims } from "@/lib/auth-utils";
+import type { MemberClaimsAudit } from "@/lib/types";
+// Drift is judged by the same code the reconciliation job repairs it with
+import { claimsDrift, type Membership } from "../../functions/src/lib/claims";
+
+async function membershipsFor(uid: string): Promise<Membership[]> {
+  const snapshot = await adminDb()
+    .collectionGroup("members")
+    .where("uid", "==", uid)
+    .get();
+  return snapshot.docs.flatMap((d) => {
+    const orgId = d.ref.parent.parent?.id;
+    const role = d.get("role");
+    return orgId && typeof role === "string" ? [{ orgId, role }] : [];
+  });
+}
+
+/**
+ * Compare a user's claims with their member docs, reporting only the
+ * drift that involves `orgId`.
+ */
+export async function auditMemberClaims(
+  orgId: string,
+  uid: string,
+): Promise<MemberClaimsAudit> {
+  const [claims, memberships] = await Promise.all([
+    getUserCustomClaims(uid),
+    membershipsFor(uid),
+  ]);
+  const drift = claimsDrift(claims, memberships).filter((d) =>
+    d.kind === "primary-org"
+      ? d.claimed.orgId === orgId || d.expected.orgId === orgId
+      : d.orgId === orgId,
+  );
+  return {
+    uid,
+    orgId,
+    memberRole: memberships.find((m) => m.orgId === orgId)?.role ?? null,
+    claimedRole: claims.orgRoles?.[orgId] ?? null,
+    primary: claims.orgId === orgId,
+    drift,
+  };
+}
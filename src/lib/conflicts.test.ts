@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectConflicts,
+  type ConflictAvailability,
+  type ConflictShift,
+} from "@/lib/conflicts";
+
+function shift(
+  id: string,
+  start: string,
+  end: string,
+  assignedTo: string[] = ["alice"],
+  overrides: Partial<ConflictShift> = {},
+): ConflictShift {
+  return {
+    id,
+    title: "Bar",
+    start: new Date(start),
+    end: new Date(end),
+    assignedTo,
+    ...overrides,
+  };
+}
+
+function availability(
+  overrides: Partial<ConflictAvailability> = {},
+): ConflictAvailability {
+  return {
+    uid: "alice",
+    timeZone: "UTC",
+    weekly: [],
+    exceptions: [],
+    ...overrides,
+  };
+}
+
+const types = (conflicts: { type: string }[]) => conflicts.map((c) => c.type);
+
+describe("Conflict engine", () => {
+  it("should return nothing for a clean schedule", () => {
+    expect(
+      detectConflicts({
+        shifts: [
+          shift("s1", "2025-06-02T09:00:00Z", "2025-06-02T17:00:00Z"),
+          shift("s2", "2025-06-03T09:00:00Z", "2025-06-03T17:00:00Z"),
+        ],
+      }),
+    ).toEqual([]);
+  });
+
+  it("should flag double-booked members", () => {
+    const conflicts = detectConflicts({
+      shifts: [
+        shift("s1", "2025-06-02T09:00:00Z", "2025-06-02T17:00:00Z"),
+        shift("s2", "2025-06-02T16:00:00Z", "2025-06-02T20:00:00Z"),
+      ],
+      members: [{ uid: "alice", displayName: "Alice" }],
+    });
+    expect(conflicts).toEqual([
+      {
+        type: "overlap",
+        severity: "error",
+        shiftIds: ["s1", "s2"],
+        uid: "alice",
+        message: "Alice is double-booked at 2025-06-02 16:00",
+      },
+    ]);
+  });
+
+  it("should flag short rest between shifts", () => {
+    const conflicts = detectConflicts(
+      {
+        shifts: [
+          shift("s1", "2025-06-02T14:00:00Z", "2025-06-02T23:00:00Z"),
+          shift("s2", "2025-06-03T06:00:00Z", "2025-06-03T12:00:00Z"),
+        ],
+      },
+      { minRestHours: 11 },
+    );
+    expect(types(conflicts)).toEqual(["rest_period"]);
+    expect(conflicts[0].shiftIds).toEqual(["s1", "s2"]);
+  });
+
+  it("should flag weekly hours over the member limit", () => {
+    const shifts = [2, 3, 4].map((day) =>
+      shift(
+        `s${day}`,
+        `2025-06-0${day}T08:00:00Z`,
+        `2025-06-0${day}T18:00:00Z`,
+      ),
+    );
+    expect(detectConflicts({ shifts })).toEqual([]);
+    const conflicts = detectConflicts({
+      shifts,
+      availability: [availability({ maxHoursPerWeek: 24 })],
+    });
+    expect(types(conflicts)).toEqual(["overtime"]);
+    expect(conflicts[0].message).toContain("30h in the week of 2025-06-02");
+  });
+
+  it("should check weekly availability windows", () => {
+    const record = availability({
+      weekly: [
+        { day: "MO", start: "08:00", end: "16:00" },
+        { day: "FR", start: "20:00", end: "04:00" },
+      ],
+    });
+    const conflicts = detectConflicts({
+      shifts: [
+        shift("inside", "2025-06-02T09:00:00Z", "2025-06-02T15:00:00Z"),
+        shift("late", "2025-06-09T12:00:00Z", "2025-06-09T18:00:00Z"),
+        shift("overnight", "2025-06-06T22:00:00Z", "2025-06-07T03:00:00Z"),
+        shift("tuesday", "2025-06-10T09:00:00Z", "2025-06-10T12:00:00Z"),
+      ],
+      availability: [record],
+    });
+    expect(
+      conflicts
+        .filter((c) => c.type === "outside_availability")
+        .map((c) => c.shiftIds[0]),
+    ).toEqual(["late", "tuesday"]);
+  });
+
+  it("should report time off as an error", () => {
+    const conflicts = detectConflicts({
+      shifts: [shift("s1", "2025-06-02T09:00:00Z", "2025-06-02T17:00:00Z")],
+      availability: [
+        availability({
+          exceptions: [
+            { date: "2025-06-02", available: false, reason: "Trip" },
+          ],
+        }),
+      ],
+    });
+    expect(conflicts).toEqual([
+      expect.objectContaining({
+        type: "time_off",
+        severity: "error",
+        message: "alice has time off on 2025-06-02 (Trip)",
+      }),
+    ]);
+  });
+
+  it("should flag shifts below the required headcount", () => {
+    const conflicts = detectConflicts({
+      shifts: [
+        shift("s1", "2025-06-02T09:00:00Z", "2025-06-02T17:00:00Z", ["alice"], {
+          requiredHeadcount: 3,
+        }),
+        shift("s2", "2025-06-03T09:00:00Z", "2025-06-03T17:00:00Z", []),
+      ],
+    });
+    expect(conflicts.map((c) => [c.type, c.shiftIds[0]])).toEqual([
+      ["unfilled", "s1"],
+      ["unfilled", "s2"],
+    ]);
+    expect(conflicts[0].message).toContain("needs 2 more staff");
+  });
+});
@@ -0,0 +1,249 @@
+import { addDaysToKey, weekdayOfKey, zonedDayMinutes } from "@/lib/recurrence";
+import type {
+  Availability,
+  AvailabilityWindow,
+  ConflictRules,
+  OrgMember,
+  ScheduleConflict,
+  Shift,
+  Weekday,
+} from "@/lib/types";
+
+export const DEFAULT_CONFLICT_RULES: ConflictRules = {
+  minRestHours: 10,
+  maxWeeklyHours: 40,
+  timeZone: "UTC",
+};
+
+export type ConflictShift = Pick<
+  Shift,
+  "id" | "start" | "end" | "assignedTo" | "requiredHeadcount" | "title"
+>;
+
+export type ConflictAvailability = Pick<
+  Availability,
+  "uid" | "timeZone" | "weekly" | "exceptions" | "maxHoursPerWeek"
+>;
+
+export interface ConflictEngineInput {
+  shifts: ConflictShift[];
+  members?: Pick<OrgMember, "uid" | "displayName" | "email">[];
+  availability?: ConflictAvailability[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+const MONDAY_FIRST: Weekday[] = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+function toMinutes(time: string): number {
+  const [hh, mm] = time.split(":").map(Number);
+  return hh * 60 + mm;
+}
+
+// Window as [start, end) minutes from the local midnight of its own date
+function windowRange(window: AvailabilityWindow): [number, number] {
+  const start = toMinutes(window.start);
+  let end = toMinutes(window.end);
+  if (end <= start) end += DAY_MINUTES;
+  return [start, end];
+}
+
+function formatLocal(at: Date, timeZone: string): string {
+  const { dateKey, minutes } = zonedDayMinutes(at, timeZone);
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${dateKey} ${hh}:${mm}`;
+}
+
+function hours(ms: number): number {
+  return Math.round((ms / HOUR_MS) * 100) / 100;
+}
+
+/**
+ * Windows a member is available on a date, or null when the date is not
+ * restricted at all. An empty array means unavailable all day.
+ */
+function windowsOn(
+  availability: ConflictAvailability,
+  dateKey: string,
+): AvailabilityWindow[] | null {
+  const exception = availability.exceptions?.find((e) => e.date === dateKey);
+  if (exception) {
+    if (!exception.available) return [];
+    if (exception.windows?.length) return exception.windows;
+  }
+  if (!availability.weekly?.length) return null;
+  const weekday = weekdayOfKey(dateKey);
+  return availability.weekly.filter((w) => w.day === weekday);
+}
+
+/**
+ * Check one shift against a member's availability. Returns a time_off or
+ * outside_availability conflict, or null when the member can work it.
+ */
+export function checkAvailability(
+  shift: Pick<ConflictShift, "id" | "start" | "end">,
+  availability: ConflictAvailability,
+  name: string = availability.uid,
+): ScheduleConflict | null {
+  const uid = availability.uid;
+  const timeZone = availability.timeZone || "UTC";
+  const { dateKey, minutes } = zonedDayMinutes(shift.start, timeZone);
+  const when = formatLocal(shift.start, timeZone);
+
+  const timeOff = availability.exceptions?.find(
+    (e) => e.date === dateKey && !e.available,
+  );
+  if (timeOff) {
+    return {
+      type: "time_off",
+      severity: "error",
+      shiftIds: [shift.id],
+      uid,
+      message: `${name} has time off on ${dateKey}${timeOff.reason ? ` (${timeOff.reason})` : ""}`,
+    };
+  }
+
+  const today = windowsOn(availability, dateKey);
+  if (today === null) return null;
+
+  const shiftStart = minutes;
+  const shiftEnd =
+    minutes + (shift.end.getTime() - shift.start.getTime()) / 60000;
+  // Overnight windows from the previous day can also cover an early shift
+  const yesterday = windowsOn(availability, addDaysToKey(dateKey, -1)) ?? [];
+  const ranges = [
+    ...today.map(windowRange),
+    ...yesterday
+      .map(windowRange)
+      .map(([s, e]): [number, number] => [s - DAY_MINUTES, e - DAY_MINUTES]),
+  ];
+  if (ranges.some(([s, e]) => s <= shiftStart && shiftEnd <= e)) return null;
+
+  return {
+    type: "outside_availability",
+    severity: "warning",
+    shiftIds: [shift.id],
+    uid,
+    message: `${name} is not available for the shift at ${when}`,
+  };
+}
+
+/**
+ * Check a set of shifts for double-booking, availability, rest-period,
+ * overtime and staffing problems. Pure and deterministic: the same input
+ * always yields the same conflicts in the same order.
+ */
+export function detectConflicts(
+  input: ConflictEngineInput,
+  rules: Partial<ConflictRules> = {},
+): ScheduleConflict[] {
+  const { minRestHours, maxWeeklyHours, timeZone } = {
+    ...DEFAULT_CONFLICT_RULES,
+    ...rules,
+  };
+  const names = new Map(
+    (input.members ?? []).map((m) => [
+      m.uid,
+      m.displayName || m.email || m.uid,
+    ]),
+  );
+  const nameOf = (uid: string) => names.get(uid) ?? uid;
+  const availabilityByUid = new Map(
+    (input.availability ?? []).map((a) => [a.uid, a]),
+  );
+
+  const conflicts: ScheduleConflict[] = [];
+  const shifts = [...input.shifts].sort(
+    (a, b) => a.start.getTime() - b.start.getTime() || a.id.localeCompare(b.id),
+  );
+
+  const byMember = new Map<string, ConflictShift[]>();
+  for (const shift of shifts) {
+    for (const uid of new Set(shift.assignedTo ?? [])) {
+      byMember.set(uid, [...(byMember.get(uid) ?? []), shift]);
+    }
+  }
+
+  for (const uid of [...byMember.keys()].sort()) {
+    const memberShifts = byMember.get(uid)!;
+    const name = nameOf(uid);
+    const availability = availabilityByUid.get(uid);
+
+    for (let i = 0; i < memberShifts.length; i++) {
+      const current = memberShifts[i];
+
+      for (let j = i + 1; j < memberShifts.length; j++) {
+        const other = memberShifts[j];
+        if (other.start >= current.end) break;
+        conflicts.push({
+          type: "overlap",
+          severity: "error",
+          shiftIds: [current.id, other.id],
+          uid,
+          message: `${name} is double-booked at ${formatLocal(other.start, timeZone)}`,
+        });
+      }
+
+      const next = memberShifts[i + 1];
+      if (next && next.start >= current.end) {
+        const gap = next.start.getTime() - current.end.getTime();
+        if (gap < minRestHours * HOUR_MS) {
+          conflicts.push({
+            type: "rest_period",
+            severity: "warning",
+            shiftIds: [current.id, next.id],
+            uid,
+            message: `${name} has only ${hours(gap)}h rest before the shift at ${formatLocal(next.start, timeZone)} (minimum ${minRestHours}h)`,
+          });
+        }
+      }
+
+      if (availability) {
+        const conflict = checkAvailability(current, availability, name);
+        if (conflict) conflicts.push(conflict);
+      }
+    }
+
+    // Hours count towards the Monday-start week in which each shift starts
+    const weeks = new Map<string, { ms: number; ids: string[] }>();
+    for (const shift of memberShifts) {
+      const { dateKey } = zonedDayMinutes(shift.start, timeZone);
+      const week = addDaysToKey(
+        dateKey,
+        -MONDAY_FIRST.indexOf(weekdayOfKey(dateKey)),
+      );
+      const entry = weeks.get(week) ?? { ms: 0, ids: [] };
+      entry.ms += shift.end.getTime() - shift.start.getTime();
+      entry.ids.push(shift.id);
+      weeks.set(week, entry);
+    }
+    const limit = availability?.maxHoursPerWeek ?? maxWeeklyHours;
+    for (const [week, { ms, ids }] of weeks) {
+      if (ms > limit * HOUR_MS) {
+        conflicts.push({
+          type: "overtime",
+          severity: "warning",
+          shiftIds: ids,
+          uid,
+          message: `${name} is scheduled ${hours(ms)}h in the week of ${week} (limit ${limit}h)`,
+        });
+      }
+    }
+  }
+
+  for (const shift of shifts) {
+    const required = shift.requiredHeadcount ?? 1;
+    const assigned = new Set(shift.assignedTo ?? []).size;
+    if (assigned < required) {
+      conflicts.push({
+        type: "unfilled",
+        severity: "warning",
+        shiftIds: [shift.id],
+        message: `${shift.title || "Shift"} at ${formatLocal(shift.start, timeZone)} needs ${required - assigned} more staff`,
+      });
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,19 @@
+// Kept in step with CSRF_COOKIE in csrf.ts
+const CSRF_COOKIE = "XSRF-TOKEN";
+
+function readCsrfCookie(): string | null {
+  if (typeof document === "undefined") return null;
+  const m = document.cookie.match(new RegExp(`(?:^|; )${CSRF_COOKIE}=([^;]+)`));
+  return m ? decodeURIComponent(m[1]) : null;
+}
+
+/**
+ * Returns the double-submit CSRF token, seeding the cookie via
+ * /api/auth/csrf when it is missing.
+ */
+export async function getCsrfToken(): Promise<string> {
+  const existing = readCsrfCookie();
+  if (existing) return existing;
+  await fetch("/api/auth/csrf", { method: "GET", credentials: "include" });
+  return readCsrfCookie() || "";
+}
@@ -1,30 +1,32 @@
-import { cookies } from "next/headers";
-import { randomBytes } from "crypto";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import type { NextRequest, NextResponse } from "next/server";
 
-const CSRF_COOKIE = "csrf";
+// Kept in step with csrf.client.ts, which reads the cookie back
+export const CSRF_COOKIE = "XSRF-TOKEN";
 export const CSRF_HEADER = "x-csrf-token";
 
-/** Sets (if missing) and returns the CSRF token stored in a non-HTTPOnly cookie. */
-export async function createCsrfToken() {
-  const jar = await cookies();
-  const current = jar.get(CSRF_COOKIE)?.value;
-  const token = current || randomBytes(32).toString("hex");
-
-  jar.set(CSRF_COOKIE, token, {
+/**
+ * Issue a fresh double-submit token on `res`. The cookie is readable by
+ * scripts so the client can echo it in the CSRF header.
+ */
+export function setCsrfCookie(res: NextResponse): string {
+  const token = randomBytes(32).toString("hex");
+  res.cookies.set(CSRF_COOKIE, token, {
     httpOnly: false,
     secure: process.env.NODE_ENV === "production",
-    sameSite: "strict",
-    maxAge: 60 * 60 * 24, // 24 hours
+    path: "/",
+    sameSite: "lax",
+    maxAge: 60 * 60 * 24 * 7, // 7 days
   });
-
   return token;
 }
 
-/** Validates the CSRF token by comparing header with the cookie value. */
-export async function validateCsrf(
-  headerToken?: string | null,
-): Promise<boolean> {
-  const jar = await cookies();
-  const cookieToken = jar.get(CSRF_COOKIE)?.value;
-  return !!cookieToken && !!headerToken && cookieToken === headerToken;
+/** Whether the CSRF header matches the CSRF cookie. */
+export function hasValidCsrfToken(request: NextRequest): boolean {
+  const header = request.headers.get(CSRF_HEADER);
+  const cookie = request.cookies.get(CSRF_COOKIE)?.value;
+  if (!header || !cookie) return false;
+  const a = Buffer.from(header);
+  const b = Buffer.from(cookie);
+  return a.length === b.length && timingSafeEqual(a, b);
 }
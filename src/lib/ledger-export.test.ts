@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { toCsv, toIif, toJson, toSummaryCsv } from "@/lib/ledger-export";
+import type { LedgerLine } from "@/lib/types";
+
+function line(overrides: Partial<LedgerLine>): LedgerLine {
+  return {
+    parentId: "parent-1",
+    subOrgId: "org-1",
+    staffRef: "alice",
+    venueId: "venue-1",
+    periodId: "2025-BW05",
+    hours: 10,
+    billRate: 20,
+    amount: 230,
+    components: [
+      { kind: "regular", hours: 7, rate: 20, amount: 140 },
+      { kind: "overtime", hours: 3, rate: 30, amount: 90 },
+    ],
+    kind: "original",
+    revision: 1,
+    sourceAttendanceId: "shift-1_alice",
+    createdAt: 1,
+    ...overrides,
+  };
+}
+
+async function* from(lines: LedgerLine[]) {
+  yield* lines;
+}
+
+async function collect(chunks: AsyncIterable<string>) {
+  let out = "";
+  for await (const chunk of chunks) out += chunk;
+  return out;
+}
+
+describe("Ledger export", () => {
+  it("should write one CSV row per line with quoting", async () => {
+    const csv = await collect(
+      toCsv(from([line({ venueId: 'Hall "A", east' })])),
+    );
+    const [header, row] = csv.trim().split("\n");
+
+    expect(header.split(",")).toContain("originalPeriodId");
+    expect(row).toContain('"Hall ""A"", east"');
+  });
+
+  it("should write the lines as a JSON array", async () => {
+    const json = await collect(toJson(from([line({}), line({ revision: 2 })])));
+    expect(JSON.parse(json)).toHaveLength(2);
+    expect(JSON.parse(await collect(toJson(from([]))))).toEqual([]);
+  });
+
+  it("should total by period and sub-org with components broken out", async () => {
+    const csv = await collect(
+      toSummaryCsv(
+        from([
+          line({}),
+          line({ subOrgId: "org-2" }),
+          // Booked before itemizing, so counted as regular time
+          line({ components: undefined, hours: 2, amount: 40 }),
+        ]),
+      ),
+    );
+    const rows = csv.trim().split("\n");
+
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toBe("2025-BW05,org-1,2,12,270,9,180,3,90,0,0");
+    expect(rows[2]).toBe("2025-BW05,org-2,1,10,230,7,140,3,90,0,0");
+  });
+
+  it("should write balanced IIF bills per sub-org", async () => {
+    const iif = await collect(
+      toIif(from([line({})]), new Date("2025-03-07T12:00:00Z")),
+    );
+    const rows = iif
+      .trim()
+      .split("\r\n")
+      .map((r) => r.split("\t"));
+    const bill = rows.filter((r) => ["TRNS", "SPL"].includes(r[0]));
+
+    expect(bill[0]).toEqual([
+      "TRNS",
+      "BILL",
+      "03/07/2025",
+      "Accounts Payable",
+      "org-1",
+      "-230.00",
+      "2025-BW05",
+      "Staffing 2025-BW05",
+    ]);
+    expect(bill.map((r) => r[3])).toEqual([
+      "Accounts Payable",
+      "Contract Labor:Regular",
+      "Contract Labor:Overtime",
+    ]);
+    expect(bill.reduce((sum, r) => sum + Number(r[5]), 0)).toBe(0);
+  });
+});
@@ -0,0 +1,322 @@
+import { PassThrough, Readable } from "node:stream";
+import ExcelJS from "exceljs";
+import type { QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import { ledgerPeriodDoc } from "@/lib/ledger";
+import type {
+  LedgerExportFormat,
+  LedgerLine,
+  LedgerLineComponent,
+} from "@/lib/types";
+
+type ComponentKind = LedgerLineComponent["kind"];
+
+const COMPONENT_KINDS: ComponentKind[] = ["regular", "overtime", "premium"];
+
+// QuickBooks accounts the IIF bills post to
+const PAYABLE_ACCOUNT = "Accounts Payable";
+const LABOR_ACCOUNTS: Record<ComponentKind, string> = {
+  regular: "Contract Labor:Regular",
+  overtime: "Contract Labor:Overtime",
+  premium: "Contract Labor:Premium",
+};
+
+const LINE_COLUMNS = [
+  "parentId",
+  "subOrgId",
+  "staffRef",
+  "venueId",
+  "periodId",
+  "hours",
+  "billRate",
+  "amount",
+  "sourceAttendanceId",
+  "createdAt",
+  "kind",
+  "revision",
+  "originalPeriodId",
+] as const;
+
+const CONTENT_TYPES: Record<LedgerExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  summary: "text/csv; charset=utf-8",
+  iif: "text/plain; charset=utf-8",
+};
+
+const EXTENSIONS: Record<LedgerExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  xlsx: "xlsx",
+  summary: "csv",
+  iif: "iif",
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// "M", "W" or "BW"; ids of different lengths interleave when sorted
+const periodKind = (periodId: string) => periodId.replace(/\d/g, "");
+
+/**
+ * Lines of the periods from `from` to `to` inclusive, read as a stream so
+ * large periods are never held in memory at once.
+ */
+export async function* ledgerLines(
+  parentId: string,
+  from: string,
+  to: string,
+): AsyncGenerator<LedgerLine> {
+  const query =
+    from === to
+      ? ledgerPeriodDoc(parentId, from).collection("lines")
+      : adminDb()
+          .collectionGroup("lines")
+          .where("parentId", "==", parentId)
+          .where("periodId", ">=", from)
+          .where("periodId", "<=", to)
+          .orderBy("periodId", "asc");
+
+  for await (const doc of query.stream()) {
+    const line = (doc as unknown as QueryDocumentSnapshot).data() as LedgerLine;
+    if (periodKind(line.periodId) === periodKind(from)) yield line;
+  }
+}
+
+function csvCell(value: unknown): string {
+  const s = String(value ?? "");
+  return /[,"\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export const csvRow = (values: unknown[]) =>
+  values.map(csvCell).join(",") + "\n";
+
+const lineValues = (line: LedgerLine) =>
+  LINE_COLUMNS.map((column) => line[column] ?? "");
+
+export async function* toCsv(lines: AsyncIterable<LedgerLine>) {
+  yield csvRow([...LINE_COLUMNS]);
+  for await (const line of lines) yield csvRow(lineValues(line));
+}
+
+export async function* toJson(lines: AsyncIterable<LedgerLine>) {
+  yield "[";
+  let first = true;
+  for await (const line of lines) {
+    yield (first ? "" : ",") + JSON.stringify(line);
+    first = false;
+  }
+  yield "]";
+}
+
+type ComponentTotals = Record<ComponentKind, { hours: number; amount: number }>;
+
+export type SubOrgPeriodTotals = {
+  periodId: string;
+  subOrgId: string;
+  lines: number;
+  hours: number;
+  amount: number;
+  components: ComponentTotals;
+};
+
+// Lines booked before itemizing count as regular time
+function componentsOf(line: LedgerLine): LedgerLineComponent[] {
+  return (
+    line.components ?? [
+      {
+        kind: "regular",
+        hours: line.hours,
+        rate: line.billRate,
+        amount: line.amount,
+      },
+    ]
+  );
+}
+
+/**
+ * Totals per period and sub-org with the regular, overtime and premium
+ * parts broken out, sorted by period then sub-org.
+ */
+export async function totalsBySubOrg(
+  lines: AsyncIterable<LedgerLine>,
+): Promise<SubOrgPeriodTotals[]> {
+  const groups = new Map<string, SubOrgPeriodTotals>();
+  for await (const line of lines) {
+    const key = `${line.periodId}/${line.subOrgId}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        periodId: line.periodId,
+        subOrgId: line.subOrgId,
+        lines: 0,
+        hours: 0,
+        amount: 0,
+        components: {
+          regular: { hours: 0, amount: 0 },
+          overtime: { hours: 0, amount: 0 },
+          premium: { hours: 0, amount: 0 },
+        },
+      };
+      groups.set(key, group);
+    }
+    group.lines += 1;
+    group.hours = round2(group.hours + line.hours);
+    group.amount = round2(group.amount + line.amount);
+    for (const component of componentsOf(line)) {
+      const totals = group.components[component.kind];
+      totals.hours = round2(totals.hours + component.hours);
+      totals.amount = round2(totals.amount + component.amount);
+    }
+  }
+  return [...groups.values()].sort(
+    (a, b) =>
+      a.periodId.localeCompare(b.periodId) ||
+      a.subOrgId.localeCompare(b.subOrgId),
+  );
+}
+
+export async function* toSummaryCsv(lines: AsyncIterable<LedgerLine>) {
+  yield csvRow([
+    "periodId",
+    "subOrgId",
+    "lines",
+    "hours",
+    "amount",
+    ...COMPONENT_KINDS.flatMap((kind) => [`${kind}Hours`, `${kind}Amount`]),
+  ]);
+  for (const group of await totalsBySubOrg(lines)) {
+    yield csvRow([
+      group.periodId,
+      group.subOrgId,
+      group.lines,
+      group.hours,
+      group.amount,
+      ...COMPONENT_KINDS.flatMap((kind) => [
+        group.components[kind].hours,
+        group.components[kind].amount,
+      ]),
+    ]);
+  }
+}
+
+const iifRow = (values: unknown[]) =>
+  values.map((v) => String(v ?? "").replace(/[\t\n]/g, " ")).join("\t") +
+  "\r\n";
+
+/**
+ * QuickBooks IIF with one bill per period and sub-org: the total is owed to
+ * the sub-org as vendor and split across regular, overtime and premium
+ * labor accounts.
+ */
+export async function* toIif(lines: AsyncIterable<LedgerLine>, issuedOn: Date) {
+  const date = [
+    String(issuedOn.getUTCMonth() + 1).padStart(2, "0"),
+    String(issuedOn.getUTCDate()).padStart(2, "0"),
+    issuedOn.getUTCFullYear(),
+  ].join("/");
+  const header = ["TRNSTYPE", "DATE", "ACCNT", "NAME", "AMOUNT", "DOCNUM"];
+
+  yield iifRow(["!TRNS", ...header, "MEMO"]);
+  yield iifRow(["!SPL", ...header, "MEMO"]);
+  yield iifRow(["!ENDTRNS"]);
+  for (const group of await totalsBySubOrg(lines)) {
+    // Fully reversed groups owe nothing
+    if (!group.amount) continue;
+    const { periodId, subOrgId } = group;
+    const bill = ["BILL", date];
+    yield iifRow([
+      "TRNS",
+      ...bill,
+      PAYABLE_ACCOUNT,
+      subOrgId,
+      round2(-group.amount).toFixed(2),
+      periodId,
+      `Staffing ${periodId}`,
+    ]);
+    for (const kind of COMPONENT_KINDS) {
+      const { hours, amount } = group.components[kind];
+      if (!amount) continue;
+      yield iifRow([
+        "SPL",
+        ...bill,
+        LABOR_ACCOUNTS[kind],
+        subOrgId,
+        amount.toFixed(2),
+        periodId,
+        `${hours} ${kind} hours`,
+      ]);
+    }
+    yield iifRow(["ENDTRNS"]);
+  }
+}
+
+export function textStream(
+  chunks: AsyncIterable<string>,
+): ReadableStream<Uint8Array> {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) controller.close();
+      else controller.enqueue(encoder.encode(value));
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+function xlsxStream(
+  lines: AsyncIterable<LedgerLine>,
+): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: false,
+    useSharedStrings: false,
+  });
+  const sheet = workbook.addWorksheet("Lines");
+
+  (async () => {
+    sheet.addRow([...LINE_COLUMNS]).commit();
+    for await (const line of lines) sheet.addRow(lineValues(line)).commit();
+    sheet.commit();
+    await workbook.commit();
+  })().catch((error) => output.destroy(error));
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Stream the lines of a period range in the requested format.
+ */
+export function exportLedger(
+  query: { parentId: string; from: string; to: string },
+  format: LedgerExportFormat,
+  now = new Date(),
+): { body: ReadableStream<Uint8Array>; contentType: string; filename: string } {
+  const { parentId, from, to } = query;
+  const lines = ledgerLines(parentId, from, to);
+  const body =
+    format === "xlsx"
+      ? xlsxStream(lines)
+      : textStream(
+          format === "json"
+            ? toJson(lines)
+            : format === "summary"
+              ? toSummaryCsv(lines)
+              : format === "iif"
+                ? toIif(lines, now)
+                : toCsv(lines),
+        );
+
+  const range = from === to ? from : `${from}_${to}`;
+  const prefix = format === "summary" ? "ledger_summary" : "ledger";
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    filename: `${prefix}_${parentId}_${range}.${EXTENSIONS[format]}`,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { summarizeLedgerLines } from "@/lib/ledger";
+import type { LedgerLine } from "@/lib/types";
+
+function line(overrides: Partial<LedgerLine>): LedgerLine {
+  return {
+    parentId: "parent-1",
+    subOrgId: "org-1",
+    staffRef: "alice",
+    venueId: "venue-1",
+    periodId: "2025-BW05",
+    hours: 8,
+    billRate: 20.1,
+    amount: 160.8,
+    kind: "original",
+    revision: 1,
+    sourceAttendanceId: "shift-1_alice",
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe("Ledger summary", () => {
+  it("should total lines by sub-org, venue and staff", () => {
+    const summary = summarizeLedgerLines([
+      line({}),
+      line({ staffRef: "bob", venueId: null, hours: 4, amount: 80.4 }),
+      line({ subOrgId: "org-2", hours: 2.5, amount: 50.25 }),
+    ]);
+
+    expect(summary.totals).toEqual({ hours: 14.5, amount: 291.45, lines: 3 });
+    expect(summary.bySubOrg["org-1"]).toEqual({
+      hours: 12,
+      amount: 241.2,
+      lines: 2,
+    });
+    expect(summary.byVenue.none).toEqual({ hours: 4, amount: 80.4, lines: 1 });
+    expect(summary.byStaff.alice.hours).toBe(10.5);
+  });
+
+  it("should net reversals against what they cancel", () => {
+    const summary = summarizeLedgerLines([
+      line({}),
+      line({ kind: "reversal", hours: -8, amount: -160.8 }),
+      line({ kind: "adjustment", revision: 2, hours: 7.5, amount: 150.75 }),
+    ]);
+
+    expect(summary.totals).toEqual({ hours: 7.5, amount: 150.75, lines: 3 });
+  });
+});
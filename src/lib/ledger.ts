@@ -0,0 +1,215 @@
+import { FieldPath } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import type {
+  LedgerInvoice,
+  LedgerLine,
+  LedgerPeriod,
+  LedgerPeriodDetail,
+  LedgerSummary,
+  LedgerTotals,
+} from "@/lib/types";
+
+// Key used in `byVenue` for lines booked without a venue
+const NO_VENUE = "none";
+
+// About two years of weekly periods; older ones are reached through exports
+const PERIOD_LIST_LIMIT = 104;
+
+// Lines returned when drilling into a period; exports have the rest
+const LINE_LIST_LIMIT = 1000;
+
+/**
+ * Thrown when a ledger period cannot move to the requested status.
+ * `status` is the HTTP status the API should answer with.
+ */
+export class LedgerPeriodError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 404 | 409,
+  ) {
+    super(message);
+    this.name = "LedgerPeriodError";
+  }
+}
+
+export function ledgerPeriodDoc(parentId: string, periodId: string) {
+  return adminDb().doc(`parents/${parentId}/ledgers/${periodId}`);
+}
+
+export function ledgersCollection(parentId: string) {
+  return adminDb().collection(`parents/${parentId}/ledgers`);
+}
+
+export function invoiceDoc(parentId: string, periodId: string) {
+  return adminDb().doc(`parents/${parentId}/invoices/${periodId}`);
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function emptyTotals(): LedgerTotals {
+  return { hours: 0, amount: 0, lines: 0 };
+}
+
+function addLine(totals: LedgerTotals, line: LedgerLine) {
+  totals.hours = round2(totals.hours + line.hours);
+  totals.amount = round2(totals.amount + line.amount);
+  totals.lines += 1;
+}
+
+/**
+ * Totals for a period's lines, overall and by sub-org, venue and staff.
+ * Reversals carry negative amounts, so they net out what they cancel.
+ */
+export function summarizeLedgerLines(lines: LedgerLine[]): LedgerSummary {
+  const summary: LedgerSummary = {
+    totals: emptyTotals(),
+    bySubOrg: {},
+    byVenue: {},
+    byStaff: {},
+  };
+  for (const line of lines) {
+    addLine(summary.totals, line);
+    addLine((summary.bySubOrg[line.subOrgId] ??= emptyTotals()), line);
+    addLine(
+      (summary.byVenue[line.venueId ?? NO_VENUE] ??= emptyTotals()),
+      line,
+    );
+    addLine((summary.byStaff[line.staffRef] ??= emptyTotals()), line);
+  }
+  return summary;
+}
+
+/**
+ * The parent's ledger periods, newest first.
+ */
+export async function listLedgerPeriods(
+  parentId: string,
+): Promise<LedgerPeriod[]> {
+  const snapshot = await ledgersCollection(parentId)
+    .orderBy(FieldPath.documentId(), "desc")
+    .limit(PERIOD_LIST_LIMIT)
+    .get();
+  return snapshot.docs.map((d) => ({
+    ...(d.data() as LedgerPeriod),
+    periodId: d.id,
+  }));
+}
+
+/**
+ * A period with its totals and lines. Open periods are totalled from their
+ * lines as they stand; closed ones report the snapshot taken at close.
+ */
+export async function getLedgerPeriodDetail(
+  parentId: string,
+  periodId: string,
+): Promise<LedgerPeriodDetail> {
+  const ref = ledgerPeriodDoc(parentId, periodId);
+  const [snap, lineSnaps] = await Promise.all([
+    ref.get(),
+    ref.collection("lines").get(),
+  ]);
+  if (!snap.exists && lineSnaps.empty) {
+    throw new LedgerPeriodError("Ledger period not found", 404);
+  }
+
+  const period: LedgerPeriod = snap.exists
+    ? { ...(snap.data() as LedgerPeriod), periodId }
+    : { parentId, periodId, status: "open" };
+  const lines = lineSnaps.docs
+    .map((d) => d.data() as LedgerLine)
+    .sort(
+      (a, b) =>
+        a.subOrgId.localeCompare(b.subOrgId) ||
+        a.staffRef.localeCompare(b.staffRef) ||
+        a.createdAt - b.createdAt,
+    );
+  return {
+    period,
+    summary: period.summary ?? summarizeLedgerLines(lines),
+    lines: lines.slice(0, LINE_LIST_LIMIT),
+    totalLines: lines.length,
+  };
+}
+
+/**
+ * Close an open period and snapshot its totals. Reading the lines inside
+ * the transaction means a line written meanwhile makes the close retry, and
+ * once closed the attendance trigger books to the next period instead.
+ */
+export async function closeLedgerPeriod(
+  parentId: string,
+  periodId: string,
+  closedBy: string,
+): Promise<LedgerPeriod> {
+  const ref = ledgerPeriodDoc(parentId, periodId);
+  return adminDb().runTransaction(async (tx) => {
+    const [snap, lines] = await Promise.all([
+      tx.get(ref),
+      tx.get(ref.collection("lines")),
+    ]);
+    const existing = snap.data() as LedgerPeriod | undefined;
+    if (!existing && lines.empty) {
+      throw new LedgerPeriodError("Ledger period not found", 404);
+    }
+    if (existing && existing.status !== "open") {
+      throw new LedgerPeriodError(`Period is already ${existing.status}`, 409);
+    }
+
+    const period: LedgerPeriod = {
+      ...existing,
+      parentId,
+      periodId,
+      status: "closed",
+      summary: summarizeLedgerLines(
+        lines.docs.map((d) => d.data() as LedgerLine),
+      ),
+      closedAt: Date.now(),
+      closedBy,
+    };
+    tx.set(ref, period);
+    return period;
+  });
+}
+
+/**
+ * Issue the invoice for a closed period from its closing snapshot. The
+ * invoice number derives from the period, so each period is billed once.
+ */
+export async function invoiceLedgerPeriod(
+  parentId: string,
+  periodId: string,
+  issuedBy: string,
+): Promise<LedgerInvoice> {
+  const ref = ledgerPeriodDoc(parentId, periodId);
+  return adminDb().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const period = snap.data() as LedgerPeriod | undefined;
+    if (!period) throw new LedgerPeriodError("Ledger period not found", 404);
+    if (period.status !== "closed" || !period.summary) {
+      throw new LedgerPeriodError(
+        period.status === "open"
+          ? "Close the period before invoicing it"
+          : `Period is already ${period.status}`,
+        409,
+      );
+    }
+
+    const now = Date.now();
+    const invoice: LedgerInvoice = {
+      parentId,
+      periodId,
+      invoiceNumber: `INV-${periodId}`,
+      summary: period.summary,
+      issuedAt: now,
+      issuedBy,
+    };
+    tx.create(invoiceDoc(parentId, periodId), invoice);
+    tx.update(ref, {
+      status: "invoiced",
+      invoiceNumber: invoice.invoiceNumber,
+      invoicedAt: now,
+      invoicedBy: issuedBy,
+    });
+    return invoice;
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from "vitest";
+import { adminChangeRefusal, removeOrgMember } from "@/lib/members";
+import { BUILT_IN_ROLES } from "@/lib/permissions";
+
+const { tx } = vi.hoisted(() => ({
+  tx: { get: vi.fn(), delete: vi.fn() },
+}));
+
+vi.mock("@/lib/firebase.server", () => ({
+  adminDb: () => ({
+    collection: (path: string) => ({
+      doc: (id: string) => ({ path: `${path}/${id}` }),
+    }),
+    runTransaction: (fn: (t: typeof tx) => unknown) => fn(tx),
+  }),
+}));
+
+vi.mock("@/lib/auth-utils", () => ({
+  removeUserFromOrg: vi.fn(),
+  revokeUserTokens: vi.fn(),
+  setUserOrgRoleClaims: vi.fn(),
+}));
+
+vi.mock("@/lib/roles", () => ({
+  getRolePermissions: vi.fn().mockResolvedValue([]),
+}));
+
+const alice = { uid: "alice", role: "admin" };
+const bob = { uid: "bob", role: "admin" };
+
+describe("adminChangeRefusal", () => {
+  it("should let admins go while another active admin remains", () => {
+    expect(
+      adminChangeRefusal(alice, { role: "manager" }, "bob", [alice, bob]),
+    ).toBeNull();
+    expect(adminChangeRefusal(alice, null, "bob", [alice, bob])).toBeNull();
+  });
+
+  it("should keep the last active admin", () => {
+    const suspendedBob = { ...bob, suspended: true };
+    expect(
+      adminChangeRefusal(alice, { role: "employee" }, undefined, [alice]),
+    ).toBe("An organization needs at least one admin");
+    expect(
+      adminChangeRefusal(alice, { role: "admin", suspended: true }, undefined, [
+        alice,
+        suspendedBob,
+      ]),
+    ).toBe("An organization needs at least one admin");
+  });
+
+  it("should keep the owner an admin", () => {
+    expect(adminChangeRefusal(alice, null, "alice", [alice, bob])).toBe(
+      "Transfer ownership to another member first",
+    );
+  });
+
+  it("should ignore changes that keep or never gave admin access", () => {
+    const employee = { uid: "carol", role: "employee" };
+    expect(adminChangeRefusal(employee, null, "alice", [])).toBeNull();
+    expect(
+      adminChangeRefusal(alice, { role: "admin" }, "alice", [alice]),
+    ).toBeNull();
+  });
+});
+
+describe("removeOrgMember", () => {
+  it("should revoke tokens even when rewriting the claims fails", async () => {
+    const { removeUserFromOrg, revokeUserTokens } = await import(
+      "@/lib/auth-utils"
+    );
+    tx.get.mockResolvedValue({
+      exists: true,
+      data: () => ({ uid: "bob", role: "employee" }),
+    });
+    (removeUserFromOrg as any).mockRejectedValue(new Error("NOT_FOUND"));
+
+    await expect(
+      removeOrgMember("org-1", "bob", {
+        role: "admin",
+        permissions: BUILT_IN_ROLES.admin.permissions,
+        venueIds: null,
+      }),
+    ).rejects.toThrow("NOT_FOUND");
+    expect(tx.delete).toHaveBeenCalledWith({ path: "orgs/org-1/members/bob" });
+    expect(revokeUserTokens).toHaveBeenCalledWith("bob");
+  });
+});
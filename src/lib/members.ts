@@ -0,0 +1,254 @@
+import { FieldValue, type Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import {
+  removeUserFromOrg,
+  revokeUserTokens,
+  setUserOrgRoleClaims,
+} from "@/lib/auth-utils";
+import { canGrant, canScope, type OrgAccess } from "@/lib/permissions";
+import { getRolePermissions } from "@/lib/roles";
+import { venuesCollection } from "@/lib/venues";
+import type { OrgMember, UpdateOrgMember } from "@/lib/types";
+
+/**
+ * Thrown when a member cannot be changed. `status` is the HTTP status the
+ * API should answer with.
+ */
+export class MemberError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 403 | 404 | 409,
+  ) {
+    super(message);
+    this.name = "MemberError";
+  }
+}
+
+export function membersCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/members`);
+}
+
+type AdminState = Pick<OrgMember, "role" | "suspended">;
+
+const isActiveAdmin = (member: AdminState) =>
+  member.role === "admin" && member.suspended !== true;
+
+// Whether the change takes `member` out of the org's active admins. `next`
+// is null when the member is being removed.
+const losesAdmin = (member: AdminState, next: AdminState | null) =>
+  isActiveAdmin(member) && !(next && isActiveAdmin(next));
+
+/**
+ * Why the change to `member` must be refused, or null when it may go
+ * ahead: the owner stays an admin and the org always keeps an active one.
+ * `admins` are the org's members holding the admin role.
+ */
+export function adminChangeRefusal(
+  member: Pick<OrgMember, "uid" | "role" | "suspended">,
+  next: AdminState | null,
+  ownerUid: string | undefined,
+  admins: Pick<OrgMember, "uid" | "suspended">[],
+): string | null {
+  if (!losesAdmin(member, next)) return null;
+  if (member.uid === ownerUid) {
+    return "Transfer ownership to another member first";
+  }
+  const others = admins.filter(
+    (admin) => admin.uid !== member.uid && admin.suspended !== true,
+  );
+  return others.length === 0
+    ? "An organization needs at least one admin"
+    : null;
+}
+
+async function assertAdminRemains(
+  tx: Transaction,
+  orgId: string,
+  member: OrgMember,
+  next: AdminState | null,
+) {
+  if (!losesAdmin(member, next)) return;
+
+  const [org, admins] = await Promise.all([
+    tx.get(adminDb().doc(`orgs/${orgId}`)),
+    tx.get(membersCollection(orgId).where("role", "==", "admin")),
+  ]);
+  const refusal = adminChangeRefusal(
+    member,
+    next,
+    org.get("ownerUid"),
+    admins.docs.map((d) => ({ uid: d.id, suspended: d.get("suspended") })),
+  );
+  if (refusal) throw new MemberError(refusal, 409);
+}
+
+/**
+ * Refuse unless `access` holds everything `member` holds: nobody manages a
+ * member with more access than their own.
+ */
+async function assertCanManage(
+  orgId: string,
+  access: OrgAccess,
+  member: OrgMember,
+) {
+  const permissions = (await getRolePermissions(orgId, member.role)) ?? [];
+  if (
+    !canGrant(access, permissions) ||
+    !canScope(access, member.venueIds ?? null)
+  ) {
+    throw new MemberError(
+      "You cannot manage a member with more access than you hold",
+      403,
+    );
+  }
+}
+
+/**
+ * Change a member's role, venue scope or suspension. Suspended members
+ * keep their member doc and history but lose all access to the org. Role
+ * changes are copied to the member's claims once the doc is written.
+ */
+export async function updateOrgMember(
+  orgId: string,
+  uid: string,
+  patch: UpdateOrgMember,
+  actor: { uid: string; access: OrgAccess },
+): Promise<OrgMember> {
+  if (patch.suspended && uid === actor.uid) {
+    throw new MemberError("You cannot suspend yourself", 409);
+  }
+  if (patch.role !== undefined) {
+    const permissions = await getRolePermissions(orgId, patch.role);
+    if (!permissions) throw new MemberError("Role not found", 400);
+    if (!canGrant(actor.access, permissions)) {
+      throw new MemberError(
+        "A role cannot grant permissions you do not hold.",
+        403,
+      );
+    }
+  }
+  if (patch.venueIds !== undefined && !canScope(actor.access, patch.venueIds)) {
+    throw new MemberError("You can only assign venues you work at", 403);
+  }
+
+  const ref = membersCollection(orgId).doc(uid);
+  const { before, after } = await adminDb().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new MemberError("Member not found", 404);
+    const member = snap.data() as OrgMember;
+    await assertCanManage(orgId, actor.access, member);
+
+    if (patch.venueIds) {
+      const venues = patch.venueIds.length
+        ? await tx.getAll(
+            ...patch.venueIds.map((id) => venuesCollection(orgId).doc(id)),
+          )
+        : [];
+      if (venues.some((venue) => !venue.exists)) {
+        throw new MemberError("Venue not found", 400);
+      }
+    }
+
+    const next: AdminState = {
+      role: patch.role ?? member.role,
+      suspended: patch.suspended ?? member.suspended,
+    };
+    await assertAdminRemains(tx, orgId, member, next);
+
+    // Fields to set, or null to clear
+    const changes: Record<string, unknown> = {};
+    if (patch.role !== undefined) changes.role = patch.role;
+    if (patch.venueIds !== undefined) changes.venueIds = patch.venueIds;
+    if (patch.suspended === true && member.suspended !== true) {
+      Object.assign(changes, {
+        suspended: true,
+        suspendedAt: new Date(),
+        suspendedBy: actor.uid,
+      });
+    } else if (patch.suspended === false && member.suspended === true) {
+      Object.assign(changes, {
+        suspended: null,
+        suspendedAt: null,
+        suspendedBy: null,
+      });
+    }
+
+    const update: Record<string, unknown> = {};
+    const after: Record<string, unknown> = { ...member };
+    for (const [field, value] of Object.entries(changes)) {
+      if (value === null) {
+        update[field] = FieldValue.delete();
+        delete after[field];
+      } else {
+        update[field] = after[field] = value;
+      }
+    }
+    if (Object.keys(update).length > 0) tx.update(ref, update);
+    return { before: member, after: after as OrgMember };
+  });
+
+  // A crash here leaves the claims behind the doc until the claims
+  // reconciliation job repairs them
+  if (after.role !== before.role) {
+    await setUserOrgRoleClaims(uid, orgId, after.role);
+  }
+  return after;
+}
+
+/**
+ * Remove a member from the org and revoke their refresh tokens so open
+ * sessions cannot keep using the old claims. Tokens are revoked before the
+ * claims are rewritten so a failure there cannot leave sessions open.
+ */
+export async function removeOrgMember(
+  orgId: string,
+  uid: string,
+  access: OrgAccess,
+): Promise<void> {
+  const ref = membersCollection(orgId).doc(uid);
+  await adminDb().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new MemberError("Member not found", 404);
+    const member = snap.data() as OrgMember;
+    await assertCanManage(orgId, access, member);
+    await assertAdminRemains(tx, orgId, member, null);
+    tx.delete(ref);
+  });
+
+  await revokeUserTokens(uid);
+  // Deleting the doc again is a no-op; this drops the org from the claims
+  // and the user's primary org
+  await removeUserFromOrg(uid, orgId);
+}
+
+/**
+ * Hand the org to another active member, making them an admin if they are
+ * not one. Only the current owner can do this; they stay an admin.
+ */
+export async function transferOrgOwnership(
+  orgId: string,
+  newOwnerUid: string,
+  actorUid: string,
+): Promise<void> {
+  const orgRef = adminDb().doc(`orgs/${orgId}`);
+  const ref = membersCollection(orgId).doc(newOwnerUid);
+  const promoted = await adminDb().runTransaction(async (tx) => {
+    const [org, snap] = await Promise.all([tx.get(orgRef), tx.get(ref)]);
+    if (!org.exists) throw new MemberError("Organization not found", 404);
+    if (org.get("ownerUid") !== actorUid) {
+      throw new MemberError("Only the owner can transfer ownership", 403);
+    }
+    if (!snap.exists) throw new MemberError("Member not found", 404);
+    if (snap.get("suspended") === true) {
+      throw new MemberError("Reinstate this member first", 409);
+    }
+    if (newOwnerUid === actorUid) return false;
+
+    const promote = snap.get("role") !== "admin";
+    if (promote) tx.update(ref, { role: "admin" });
+    tx.update(orgRef, { ownerUid: newOwnerUid, updatedAt: new Date() });
+    return promote;
+  });
+
+  if (promoted) await setUserOrgRoleClaims(newOwnerUid, orgId, "admin");
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import { claimIneligibility, claimStillStands } from "@/lib/open-shifts";
+
+const now = new Date("2025-06-01T12:00:00Z");
+
+function openShift(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "s1",
+    start: new Date("2025-06-02T09:00:00Z"), // Monday
+    end: new Date("2025-06-02T17:00:00Z"),
+    assignedTo: ["bob"],
+    openSlots: 1,
+    ...overrides,
+  };
+}
+
+describe("Open shift eligibility", () => {
+  it("should allow members with no restrictions", () => {
+    expect(
+      claimIneligibility(openShift(), { uid: "alice" }, undefined, now),
+    ).toBeNull();
+  });
+
+  it("should refuse full, started or already-assigned shifts", () => {
+    expect(
+      claimIneligibility(
+        openShift({ openSlots: 0 }),
+        { uid: "alice" },
+        undefined,
+        now,
+      ),
+    ).toBe("No open slots left");
+    expect(
+      claimIneligibility(
+        openShift(),
+        { uid: "alice" },
+        undefined,
+        new Date("2025-06-02T10:00:00Z"),
+      ),
+    ).toBe("Shift has already started");
+    expect(
+      claimIneligibility(openShift(), { uid: "bob" }, undefined, now),
+    ).toBe("You are already on this shift");
+  });
+
+  it("should match the shift role against the member's positions", () => {
+    const shift = openShift({ role: "bartender" });
+    expect(
+      claimIneligibility(
+        shift,
+        { uid: "alice", positions: ["cashier"] },
+        undefined,
+        now,
+      ),
+    ).toBe("Requires the bartender position");
+    expect(
+      claimIneligibility(
+        shift,
+        { uid: "alice", positions: ["bartender"] },
+        undefined,
+        now,
+      ),
+    ).toBeNull();
+    expect(
+      claimIneligibility(
+        shift,
+        { uid: "alice", positions: [] },
+        undefined,
+        now,
+      ),
+    ).toBeNull();
+  });
+
+  it("should respect availability and time off", () => {
+    const base = { uid: "alice", timeZone: "UTC", weekly: [], exceptions: [] };
+    expect(
+      claimIneligibility(
+        openShift(),
+        { uid: "alice" },
+        { ...base, exceptions: [{ date: "2025-06-02", available: false }] },
+        now,
+      ),
+    ).toBe("You have time off that day");
+    expect(
+      claimIneligibility(
+        openShift(),
+        { uid: "alice" },
+        { ...base, weekly: [{ day: "TU", start: "09:00", end: "17:00" }] },
+        now,
+      ),
+    ).toBe("Outside your availability");
+  });
+});
+
+describe("Repeat claims", () => {
+  it("should block a new claim while the earlier one stands", () => {
+    expect(claimStillStands("pending", false)).toBe(true);
+    expect(claimStillStands("approved", true)).toBe(true);
+  });
+
+  it("should allow claiming again after a rejection or removal", () => {
+    expect(claimStillStands("rejected", false)).toBe(false);
+    expect(claimStillStands("approved", false)).toBe(false);
+  });
+});
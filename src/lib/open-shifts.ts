@@ -0,0 +1,385 @@
+import type {
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  Transaction,
+} from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import {
+  publishedShiftsCollection,
+  serializeShift,
+  shiftsCollection,
+  toIsoString,
+} from "@/lib/shifts";
+import { findLockedPeriod } from "@/lib/schedule-periods";
+import { availabilityDoc, serializeAvailability } from "@/lib/availability";
+import { checkAvailability, type ConflictAvailability } from "@/lib/conflicts";
+import { hasPermission, type OrgAccess } from "@/lib/permissions";
+import type {
+  OpenShift,
+  OrgMember,
+  SerializedShiftClaim,
+  Shift,
+  ShiftClaim,
+  ShiftClaimStatus,
+} from "@/lib/types";
+
+/**
+ * Thrown when a claim cannot be made or reviewed. `status` is the HTTP
+ * status the API should answer with.
+ */
+export class OpenShiftError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 403 | 404 | 409,
+  ) {
+    super(message);
+    this.name = "OpenShiftError";
+  }
+}
+
+export function claimsCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/shiftClaims`);
+}
+
+/**
+ * Claims are keyed by shift and member so each member holds one claim per
+ * shift; a new claim replaces one that no longer stands.
+ */
+export function claimId(shiftId: string, uid: string) {
+  return `${shiftId}_${uid}`;
+}
+
+/**
+ * Whether a member's earlier claim still blocks a new one: it is pending,
+ * or approved and they are still on the shift. Rejected claims, and
+ * approvals for members since taken off the shift, can be claimed over.
+ */
+export function claimStillStands(
+  status: ShiftClaimStatus,
+  onShift: boolean,
+): boolean {
+  return status === "pending" || (status === "approved" && onShift);
+}
+
+export function serializeClaim(data: DocumentData): SerializedShiftClaim {
+  return {
+    ...(data as SerializedShiftClaim),
+    reviewedAt: data.reviewedAt ? toIsoString(data.reviewedAt) : undefined,
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  };
+}
+
+type ClaimableShift = Pick<
+  Shift,
+  "id" | "start" | "end" | "role" | "assignedTo" | "openSlots"
+>;
+
+/**
+ * Why a member cannot claim an open shift, or null if they can. Members
+ * without positions on record may claim shifts for any role.
+ */
+export function claimIneligibility(
+  shift: ClaimableShift,
+  member: Pick<OrgMember, "uid" | "positions">,
+  availability?: ConflictAvailability,
+  now: Date = new Date(),
+): string | null {
+  if (!shift.openSlots) return "No open slots left";
+  if (shift.start <= now) return "Shift has already started";
+  if (shift.assignedTo?.includes(member.uid)) {
+    return "You are already on this shift";
+  }
+  if (
+    shift.role &&
+    member.positions?.length &&
+    !member.positions.includes(shift.role)
+  ) {
+    return `Requires the ${shift.role} position`;
+  }
+  const conflict = availability && checkAvailability(shift, availability);
+  if (conflict) {
+    return conflict.type === "time_off"
+      ? "You have time off that day"
+      : "Outside your availability";
+  }
+  return null;
+}
+
+function toClaimableShift(id: string, data: DocumentData): ClaimableShift {
+  return {
+    id,
+    start: new Date(toIsoString(data.start)),
+    end: new Date(toIsoString(data.end)),
+    role: data.role,
+    assignedTo: data.assignedTo ?? [],
+    openSlots: data.openSlots ?? 0,
+  };
+}
+
+/**
+ * Future shifts with open slots, soonest first. Managers see the drafts with
+ * their pending claims; everyone else sees published copies annotated with
+ * whether they can claim them.
+ */
+export async function listOpenShifts(
+  orgId: string,
+  viewer: { uid: string; isManager: boolean },
+): Promise<OpenShift[]> {
+  const collection = viewer.isManager
+    ? shiftsCollection(orgId)
+    : publishedShiftsCollection(orgId);
+  const now = new Date();
+  const snapshot = await collection.where("openSlots", ">", 0).get();
+  const shifts = snapshot.docs
+    .map((d) => serializeShift({ ...d.data(), id: d.id }))
+    .filter((s) => new Date(s.start) > now)
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  if (viewer.isManager) {
+    const pending = await claimsCollection(orgId)
+      .where("status", "==", "pending")
+      .get();
+    const claims = pending.docs.map((d) => serializeClaim(d.data()));
+    return shifts.map((shift) => ({
+      ...shift,
+      pendingClaims: claims.filter((c) => c.shiftId === shift.id),
+    }));
+  }
+
+  const [memberSnap, availabilitySnap, claimsSnap] = await Promise.all([
+    adminDb().doc(`orgs/${orgId}/members/${viewer.uid}`).get(),
+    availabilityDoc(orgId, viewer.uid).get(),
+    claimsCollection(orgId).where("uid", "==", viewer.uid).get(),
+  ]);
+  const member = { uid: viewer.uid, positions: memberSnap.data()?.positions };
+  const availability = availabilitySnap.exists
+    ? serializeAvailability({ ...availabilitySnap.data(), uid: viewer.uid })
+    : undefined;
+  const myClaims = new Map<string, ShiftClaimStatus>(
+    claimsSnap.docs.map((d) => [d.data().shiftId, d.data().status]),
+  );
+
+  return shifts.map((shift) => {
+    const reason = claimIneligibility(
+      toClaimableShift(shift.id, shift),
+      member,
+      availability,
+      now,
+    );
+    // A claim that no longer stands leaves the shift open to claim again
+    const myClaim = myClaims.get(shift.id);
+    const claimed =
+      myClaim &&
+      claimStillStands(myClaim, (shift.assignedTo ?? []).includes(viewer.uid));
+    return {
+      ...shift,
+      ...(reason && { ineligibleReason: reason }),
+      ...(claimed && { myClaim }),
+    };
+  });
+}
+
+async function assertUnlocked(orgId: string, shiftId: string) {
+  const snap = await shiftsCollection(orgId).doc(shiftId).get();
+  if (!snap.exists) return;
+  const locked = await findLockedPeriod(
+    orgId,
+    new Date(toIsoString(snap.data()!.start)),
+  );
+  if (locked) {
+    throw new OpenShiftError(`Schedule period ${locked} is locked`, 409);
+  }
+}
+
+/**
+ * Add `uid` to the draft shift and its published copy, taking one slot.
+ * Once the last slot is taken, other pending claims are rejected.
+ */
+function fillSlot(
+  tx: Transaction,
+  shift: DocumentSnapshot,
+  published: DocumentSnapshot,
+  otherPending: DocumentReference[],
+  uid: string,
+  now: Date,
+) {
+  const data = shift.data()!;
+  const openSlots = (data.openSlots ?? 0) - 1;
+  tx.update(shift.ref, {
+    assignedTo: [...(data.assignedTo ?? []), uid],
+    openSlots,
+    updatedAt: now,
+  });
+  if (published.exists) {
+    tx.update(published.ref, {
+      assignedTo: [...(published.data()!.assignedTo ?? []), uid],
+      openSlots,
+      updatedAt: now,
+    });
+  }
+  if (openSlots === 0) {
+    for (const ref of otherPending) {
+      tx.update(ref, { status: "rejected", updatedAt: now });
+    }
+  }
+}
+
+async function readPendingClaims(
+  tx: Transaction,
+  orgId: string,
+  shiftId: string,
+  exceptId: string,
+) {
+  const snap = await tx.get(
+    claimsCollection(orgId)
+      .where("shiftId", "==", shiftId)
+      .where("status", "==", "pending"),
+  );
+  return snap.docs.filter((d) => d.id !== exceptId).map((d) => d.ref);
+}
+
+/**
+ * Claim a published open shift for `uid`. Without approval the member is
+ * assigned right away; the transaction re-reads the slot count so two
+ * members cannot take the last slot.
+ */
+export async function claimOpenShift(
+  orgId: string,
+  shiftId: string,
+  uid: string,
+): Promise<SerializedShiftClaim> {
+  await assertUnlocked(orgId, shiftId);
+
+  const shiftRef = shiftsCollection(orgId).doc(shiftId);
+  const publishedRef = publishedShiftsCollection(orgId).doc(shiftId);
+  const claimRef = claimsCollection(orgId).doc(claimId(shiftId, uid));
+  const memberRef = adminDb().doc(`orgs/${orgId}/members/${uid}`);
+
+  return adminDb().runTransaction(async (tx) => {
+    const [shift, published, existing, member, availability] =
+      await Promise.all([
+        tx.get(shiftRef),
+        tx.get(publishedRef),
+        tx.get(claimRef),
+        tx.get(memberRef),
+        tx.get(availabilityDoc(orgId, uid)),
+      ]);
+    // Only shifts members can see are up for claiming
+    if (!shift.exists || !published.exists) {
+      throw new OpenShiftError("Shift not found", 404);
+    }
+    if (
+      existing.exists &&
+      claimStillStands(
+        existing.data()!.status,
+        (shift.data()!.assignedTo ?? []).includes(uid),
+      )
+    ) {
+      throw new OpenShiftError(
+        `You already claimed this shift (${existing.data()!.status})`,
+        409,
+      );
+    }
+
+    const reason = claimIneligibility(
+      toClaimableShift(shiftId, shift.data()!),
+      { uid, positions: member.data()?.positions },
+      availability.exists
+        ? serializeAvailability({ ...availability.data(), uid })
+        : undefined,
+    );
+    if (reason) throw new OpenShiftError(reason, 409);
+
+    const approve = !shift.data()!.claimRequiresApproval;
+    const otherPending = approve
+      ? await readPendingClaims(tx, orgId, shiftId, claimRef.id)
+      : [];
+
+    const now = new Date();
+    const claim: ShiftClaim = {
+      id: claimRef.id,
+      orgId,
+      shiftId,
+      uid,
+      status: approve ? "approved" : "pending",
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (approve) {
+      fillSlot(tx, shift, published, otherPending, uid, now);
+    }
+    tx.set(claimRef, claim);
+    return serializeClaim(claim);
+  });
+}
+
+/**
+ * Approve or reject a pending claim. Approval fails once the shift has no
+ * open slots left. Reviewers limited to some venues only review claims on
+ * their shifts.
+ */
+export async function reviewShiftClaim(
+  orgId: string,
+  id: string,
+  reviewer: { uid: string; access: OrgAccess },
+  approved: boolean,
+): Promise<SerializedShiftClaim> {
+  const claimRef = claimsCollection(orgId).doc(id);
+  if (approved) {
+    const pending = (await claimRef.get()).data();
+    if (pending) await assertUnlocked(orgId, pending.shiftId);
+  }
+
+  return adminDb().runTransaction(async (tx) => {
+    const snap = await tx.get(claimRef);
+    if (!snap.exists) throw new OpenShiftError("Claim not found", 404);
+    const claim = snap.data() as ShiftClaim;
+    if (claim.status !== "pending") {
+      throw new OpenShiftError(`Claim is already ${claim.status}`, 409);
+    }
+
+    const now = new Date();
+    const shift = await tx.get(shiftsCollection(orgId).doc(claim.shiftId));
+    if (
+      shift.exists &&
+      !hasPermission(
+        reviewer.access,
+        "requests.review",
+        shift.get("venueId") ?? null,
+      )
+    ) {
+      throw new OpenShiftError(
+        "You can only review claims at your venues",
+        403,
+      );
+    }
+
+    if (approved) {
+      const [published, otherPending] = await Promise.all([
+        tx.get(publishedShiftsCollection(orgId).doc(claim.shiftId)),
+        readPendingClaims(tx, orgId, claim.shiftId, id),
+      ]);
+      if (!shift.exists)
+        throw new OpenShiftError("Shift no longer exists", 409);
+      const data = shift.data()!;
+      if ((data.assignedTo ?? []).includes(claim.uid)) {
+        throw new OpenShiftError("Member is already on this shift", 409);
+      }
+      if (!data.openSlots) {
+        throw new OpenShiftError("No open slots left", 409);
+      }
+      fillSlot(tx, shift, published, otherPending, claim.uid, now);
+    }
+
+    const update = {
+      status: approved ? ("approved" as const) : ("rejected" as const),
+      reviewedBy: reviewer.uid,
+      reviewedAt: now,
+      updatedAt: now,
+    };
+    tx.update(claimRef, update);
+    return serializeClaim({ ...claim, ...update });
+  });
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { auth } from "@/lib/firebase";
+import type { LedgerExportFormat } from "@/lib/types";
+import { ApiError } from "@/lib/api.client";
+
+/**
+ * Fetch a parent API route with the signed-in user's ID token, which is how
+ * those routes check the parent admin claims. Throws ApiError on non-2xx
+ * responses.
+ */
+export async function parentFetch(
+  path: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const token = await auth?.currentUser?.getIdToken();
+  if (!token) throw new Error("Sign in again to use the parent portal");
+
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${token}`);
+  const res = await fetch(path, { ...init, headers });
+  if (!res.ok) throw await ApiError.fromResponse(res);
+  return res;
+}
+
+/**
+ * Download a ledger export for the periods from `from` to `to`. The token
+ * has to go in a header, so the file is fetched and saved from a blob.
+ */
+export async function downloadLedgerExport(query: {
+  parentId: string;
+  from: string;
+  to: string;
+  format: LedgerExportFormat;
+}) {
+  const res = await parentFetch(
+    `/api/parent/ledger/export?${new URLSearchParams(query)}`,
+  );
+  const filename =
+    res.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1] ??
+    `ledger.${query.format}`;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
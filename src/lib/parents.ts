@@ -0,0 +1,528 @@
+import {
+  FieldValue,
+  type DocumentSnapshot,
+  type Transaction,
+} from "firebase-admin/firestore";
+import { addUserToOrg } from "@/lib/auth-utils";
+import { adminDb } from "@/lib/firebase.server";
+import type {
+  ContractTerms,
+  ContractVersion,
+  Organization,
+  OrgParentLink,
+  ParentContract,
+  ParentContractHistory,
+  ParentSubOrg,
+  SubOrgLinkInvite,
+} from "@/lib/types";
+
+// Effective date given to the terms of a contract written before versioning
+const FIRST_EFFECTIVE_DATE = "1970-01-01";
+
+/**
+ * Thrown when a contract change cannot be made. `status` is the HTTP status
+ * the API should answer with.
+ */
+export class ContractError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 404 | 409,
+  ) {
+    super(message);
+    this.name = "ContractError";
+  }
+}
+
+function orgDoc(orgId: string) {
+  return adminDb().collection("orgs").doc(orgId);
+}
+
+/**
+ * Thrown when an org cannot be linked to or unlinked from a parent.
+ * `status` is the HTTP status the API should answer with.
+ */
+export class SubOrgLinkError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 404 | 409,
+  ) {
+    super(message);
+    this.name = "SubOrgLinkError";
+  }
+}
+
+export function contractsCollection(parentId: string) {
+  return adminDb().collection(`parents/${parentId}/contracts`);
+}
+
+export function contractDoc(parentId: string, subOrgId: string) {
+  return contractsCollection(parentId).doc(subOrgId);
+}
+
+// Latest effective date first, later versions first on the same date
+function byEffectiveDesc(a: ContractVersion, b: ContractVersion) {
+  return (
+    b.effectiveFrom.localeCompare(a.effectiveFrom) || b.version - a.version
+  );
+}
+
+/**
+ * Orgs linked to the parent, each with its contract. Orgs that point at the
+ * parent without a contract and contracts whose org no longer points at it
+ * are both listed so either gap shows up.
+ */
+export async function listSubOrgs(parentId: string): Promise<ParentSubOrg[]> {
+  const [orgs, contracts] = await Promise.all([
+    adminDb().collection("orgs").where("parentId", "==", parentId).get(),
+    contractsCollection(parentId).get(),
+  ]);
+
+  const byOrg = new Map<string, ParentSubOrg>();
+  for (const doc of orgs.docs) {
+    byOrg.set(doc.id, {
+      orgId: doc.id,
+      name: (doc.get("name") as string | undefined) ?? null,
+      linked: true,
+      contract: null,
+    });
+  }
+
+  const unlinked = contracts.docs.filter((d) => !byOrg.has(d.id));
+  const unlinkedOrgs = unlinked.length
+    ? await adminDb().getAll(...unlinked.map((d) => orgDoc(d.id)))
+    : [];
+  unlinkedOrgs.forEach((snap) => {
+    byOrg.set(snap.id, {
+      orgId: snap.id,
+      name: (snap.get("name") as string | undefined) ?? null,
+      linked: false,
+      contract: null,
+    });
+  });
+
+  for (const doc of contracts.docs) {
+    byOrg.get(doc.id)!.contract = {
+      ...(doc.data() as ParentContract),
+      parentId,
+      subOrgId: doc.id,
+    };
+  }
+  return [...byOrg.values()].sort((a, b) =>
+    (a.name ?? a.orgId).localeCompare(b.name ?? b.orgId),
+  );
+}
+
+/**
+ * A contract with its versions, newest effective date first. Contracts
+ * written before versioning have no versions.
+ */
+export async function getContractHistory(
+  parentId: string,
+  subOrgId: string,
+): Promise<ParentContractHistory> {
+  const ref = contractDoc(parentId, subOrgId);
+  const [snap, versions] = await Promise.all([
+    ref.get(),
+    ref.collection("versions").get(),
+  ]);
+  if (!snap.exists) throw new ContractError("Contract not found", 404);
+  return {
+    contract: { ...(snap.data() as ParentContract), parentId, subOrgId },
+    versions: versions.docs
+      .map((d) => d.data() as ContractVersion)
+      .sort(byEffectiveDesc),
+  };
+}
+
+/**
+ * The contract document for a set of versions: the terms of the latest one
+ * in effect order, or while that is a retirement, the terms it retired.
+ */
+function contractHead(
+  parentId: string,
+  subOrgId: string,
+  versions: ContractVersion[],
+  updatedBy: string,
+  updatedAt: number,
+): ParentContract {
+  const [latest, ...earlier] = [...versions].sort(byEffectiveDesc);
+  const terms = latest.retired ? earlier.find((v) => !v.retired) : latest;
+  const {
+    version,
+    effectiveFrom,
+    retired: _retired,
+    createdAt: _createdAt,
+    createdBy: _createdBy,
+    ...rest
+  } = terms ?? latest;
+  return {
+    ...rest,
+    parentId,
+    subOrgId,
+    version,
+    effectiveFrom,
+    ...(latest.retired && { retiredFrom: latest.effectiveFrom }),
+    updatedAt,
+    updatedBy,
+  };
+}
+
+type ContractChange = { effectiveFrom: string } & (
+  | { terms: ContractTerms }
+  | { retired: true }
+);
+
+type ContractRead = {
+  snap: DocumentSnapshot;
+  versions: ContractVersion[];
+};
+
+async function readContract(
+  tx: Transaction,
+  parentId: string,
+  subOrgId: string,
+): Promise<ContractRead> {
+  const ref = contractDoc(parentId, subOrgId);
+  const [snap, versions] = await Promise.all([
+    tx.get(ref),
+    tx.get(ref.collection("versions")),
+  ]);
+  return {
+    snap,
+    versions: versions.docs.map((d) => d.data() as ContractVersion),
+  };
+}
+
+/**
+ * Write a contract version read with `readContract` and refresh the
+ * contract document from the versions. A contract written before
+ * versioning first has its terms kept as version 1, in effect from the
+ * start.
+ */
+function stageContractVersion(
+  tx: Transaction,
+  parentId: string,
+  subOrgId: string,
+  { snap, versions: existing }: ContractRead,
+  change: ContractChange,
+  uid: string,
+  now: number,
+): { contract: ParentContract; version: ContractVersion } {
+  const ref = contractDoc(parentId, subOrgId);
+  const versionsRef = ref.collection("versions");
+  const versions = [...existing];
+  if (versions.length === 0 && snap.exists) {
+    const {
+      parentId: _parentId,
+      subOrgId: _subOrgId,
+      ...terms
+    } = snap.data() as ParentContract;
+    const legacy: ContractVersion = {
+      ...terms,
+      version: 1,
+      effectiveFrom: FIRST_EFFECTIVE_DATE,
+      createdAt: now,
+      createdBy: uid,
+    };
+    tx.set(versionsRef.doc("1"), legacy);
+    versions.push(legacy);
+  }
+
+  if ("retired" in change) {
+    if (versions.length === 0) {
+      throw new ContractError("Contract not found", 404);
+    }
+    if (contractHead(parentId, subOrgId, versions, uid, now).retiredFrom) {
+      throw new ContractError("Contract is already retired", 409);
+    }
+  }
+
+  const version: ContractVersion = {
+    ...("terms" in change ? change.terms : { retired: true }),
+    version: Math.max(0, ...versions.map((v) => v.version)) + 1,
+    effectiveFrom: change.effectiveFrom,
+    createdAt: now,
+    createdBy: uid,
+  } as ContractVersion;
+  versions.push(version);
+
+  const contract = contractHead(parentId, subOrgId, versions, uid, now);
+  tx.set(versionsRef.doc(String(version.version)), version);
+  tx.set(ref, contract);
+  return { contract, version };
+}
+
+// Only for orgs already linked to the parent; linking books its own
+// contract version in the same transaction
+async function addContractVersion(
+  parentId: string,
+  subOrgId: string,
+  change: ContractChange,
+  uid: string,
+): Promise<{ contract: ParentContract; version: ContractVersion }> {
+  return adminDb().runTransaction(async (tx) => {
+    const [org, contract] = await Promise.all([
+      tx.get(orgDoc(subOrgId)),
+      readContract(tx, parentId, subOrgId),
+    ]);
+    if (!org.exists) throw new ContractError("Organization not found", 404);
+    if (org.get("parentId") !== parentId) {
+      throw new ContractError("Organization is not a sub-org", 404);
+    }
+    return stageContractVersion(
+      tx,
+      parentId,
+      subOrgId,
+      contract,
+      change,
+      uid,
+      Date.now(),
+    );
+  });
+}
+
+/**
+ * New terms for a sub-org, in effect from a local date. Attendance that
+ * clocks in from then on is billed under them, whenever it is approved.
+ */
+export function createContractVersion(
+  parentId: string,
+  subOrgId: string,
+  effectiveFrom: string,
+  terms: ContractTerms,
+  uid: string,
+) {
+  return addContractVersion(parentId, subOrgId, { effectiveFrom, terms }, uid);
+}
+
+/**
+ * End a sub-org's contract from a local date. Attendance clocking in from
+ * then on is not billed until a later version takes effect.
+ */
+export function retireContract(
+  parentId: string,
+  subOrgId: string,
+  effectiveFrom: string,
+  uid: string,
+) {
+  return addContractVersion(
+    parentId,
+    subOrgId,
+    { effectiveFrom, retired: true },
+    uid,
+  );
+}
+
+function linkInviteDoc(parentId: string, orgId: string) {
+  return adminDb().doc(`parents/${parentId}/linkInvites/${orgId}`);
+}
+
+/**
+ * Invite an existing org to become a sub-org under the proposed terms.
+ * Inviting again while the invite is pending replaces its terms.
+ */
+export async function inviteSubOrg(
+  parentId: string,
+  orgId: string,
+  effectiveFrom: string,
+  terms: ContractTerms,
+  uid: string,
+): Promise<SubOrgLinkInvite> {
+  return adminDb().runTransaction(async (tx) => {
+    const org = await tx.get(orgDoc(orgId));
+    if (!org.exists) throw new SubOrgLinkError("Organization not found", 404);
+    const linkedTo = org.get("parentId") as string | undefined;
+    if (linkedTo) {
+      throw new SubOrgLinkError(
+        linkedTo === parentId
+          ? "Organization is already a sub-org"
+          : "Organization belongs to another parent",
+        409,
+      );
+    }
+
+    const invite: SubOrgLinkInvite = {
+      parentId,
+      orgId,
+      orgName: (org.get("name") as string | undefined) ?? null,
+      status: "pending",
+      terms,
+      effectiveFrom,
+      invitedBy: uid,
+      createdAt: Date.now(),
+    };
+    tx.set(linkInviteDoc(parentId, orgId), invite);
+    return invite;
+  });
+}
+
+/**
+ * The parent's link invites, newest first, whatever their status.
+ */
+export async function listLinkInvites(
+  parentId: string,
+): Promise<SubOrgLinkInvite[]> {
+  const snapshot = await adminDb()
+    .collection(`parents/${parentId}/linkInvites`)
+    .orderBy("createdAt", "desc")
+    .get();
+  return snapshot.docs.map((d) => d.data() as SubOrgLinkInvite);
+}
+
+/**
+ * The parent an org is linked to and the invites awaiting its answer.
+ */
+export async function getOrgParentLink(orgId: string): Promise<OrgParentLink> {
+  const [org, invites] = await Promise.all([
+    orgDoc(orgId).get(),
+    adminDb()
+      .collectionGroup("linkInvites")
+      .where("orgId", "==", orgId)
+      .where("status", "==", "pending")
+      .get(),
+  ]);
+  return {
+    parentId: (org.get("parentId") as string | undefined) ?? null,
+    invites: invites.docs.map((d) => d.data() as SubOrgLinkInvite),
+  };
+}
+
+/**
+ * Accept or decline a parent's invite on behalf of the org. Accepting sets
+ * the org's `parentId` and books the invite's terms as a contract version
+ * in the same transaction, so the ledger trigger never sees one without
+ * the other.
+ */
+export async function respondToLinkInvite(
+  orgId: string,
+  parentId: string,
+  accept: boolean,
+  uid: string,
+): Promise<SubOrgLinkInvite> {
+  const inviteRef = linkInviteDoc(parentId, orgId);
+  return adminDb().runTransaction(async (tx) => {
+    const [inviteSnap, org, contract] = await Promise.all([
+      tx.get(inviteRef),
+      tx.get(orgDoc(orgId)),
+      readContract(tx, parentId, orgId),
+    ]);
+    const invite = inviteSnap.data() as SubOrgLinkInvite | undefined;
+    if (!invite) throw new SubOrgLinkError("Invite not found", 404);
+    if (invite.status !== "pending") {
+      throw new SubOrgLinkError(`Invite is already ${invite.status}`, 409);
+    }
+
+    const now = Date.now();
+    if (accept) {
+      if (!org.exists) {
+        throw new SubOrgLinkError("Organization not found", 404);
+      }
+      if (org.get("parentId")) {
+        throw new SubOrgLinkError("Organization already has a parent", 409);
+      }
+      stageContractVersion(
+        tx,
+        parentId,
+        orgId,
+        contract,
+        { effectiveFrom: invite.effectiveFrom, terms: invite.terms },
+        uid,
+        now,
+      );
+      tx.update(orgDoc(orgId), { parentId, updatedAt: new Date(now) });
+    }
+
+    const answered: SubOrgLinkInvite = {
+      ...invite,
+      status: accept ? "accepted" : "declined",
+      respondedBy: uid,
+      respondedAt: now,
+    };
+    tx.set(inviteRef, answered);
+    return answered;
+  });
+}
+
+/**
+ * Create an org already linked to the parent, with its first contract and
+ * the parent admin as its admin.
+ */
+export async function createSubOrg(
+  parentId: string,
+  input: {
+    name: string;
+    timeZone?: string;
+    effectiveFrom: string;
+    terms: ContractTerms;
+  },
+  uid: string,
+): Promise<{ orgId: string; contract: ParentContract }> {
+  const ref = adminDb().collection("orgs").doc();
+  const orgId = ref.id;
+  const contract = await adminDb().runTransaction(async (tx) => {
+    const existing = await readContract(tx, parentId, orgId);
+    const now = new Date();
+    const organization: Organization = {
+      id: orgId,
+      name: input.name,
+      ownerUid: uid,
+      isPublic: false,
+      ...(input.timeZone && { timeZone: input.timeZone }),
+      parentId,
+      settings: {
+        allowPublicJoinRequests: false,
+        requireApprovalForJoin: true,
+      },
+      createdAt: now,
+      updatedAt: now,
+      createdBy: uid,
+    };
+    tx.create(ref, organization);
+    return stageContractVersion(
+      tx,
+      parentId,
+      orgId,
+      existing,
+      { effectiveFrom: input.effectiveFrom, terms: input.terms },
+      uid,
+      now.getTime(),
+    ).contract;
+  });
+
+  await addUserToOrg(uid, orgId, "admin", uid);
+  return { orgId, contract };
+}
+
+/**
+ * Detach a sub-org from its parent, or from `parentId` only when given.
+ * The ledger trigger stops replicating the org's attendance; what is
+ * already booked stays, as does the contract history.
+ */
+export async function unlinkSubOrg(
+  orgId: string,
+  uid: string,
+  parentId?: string,
+): Promise<void> {
+  await adminDb().runTransaction(async (tx) => {
+    const org = await tx.get(orgDoc(orgId));
+    const linkedTo = org.get("parentId") as string | undefined;
+    if (!linkedTo || (parentId && linkedTo !== parentId)) {
+      throw new SubOrgLinkError("Organization is not a sub-org", 404);
+    }
+    const inviteRef = linkInviteDoc(linkedTo, orgId);
+    const invite = await tx.get(inviteRef);
+
+    const now = Date.now();
+    tx.update(orgDoc(orgId), {
+      parentId: FieldValue.delete(),
+      updatedAt: new Date(now),
+    });
+    if (invite.exists) {
+      tx.update(inviteRef, {
+        status: "unlinked",
+        unlinkedBy: uid,
+        unlinkedAt: now,
+      });
+    }
+  });
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  BUILT_IN_ROLES,
+  canGrant,
+  canScope,
+  hasPermission,
+  type OrgAccess,
+} from "@/lib/permissions";
+
+const manager: OrgAccess = {
+  role: "manager",
+  permissions: BUILT_IN_ROLES.manager.permissions,
+  venueIds: null,
+};
+
+const venueLead: OrgAccess = {
+  role: "venue-lead",
+  permissions: ["schedule.edit", "attendance.approve"],
+  venueIds: ["venue-1"],
+};
+
+describe("hasPermission", () => {
+  it("should grant what the role lists and nothing else", () => {
+    expect(hasPermission(manager, "schedule.edit")).toBe(true);
+    expect(hasPermission(manager, "invites.manage")).toBe(false);
+    expect(hasPermission(null, "schedule.edit")).toBe(false);
+  });
+
+  it("should give admins every permission", () => {
+    const admin: OrgAccess = {
+      role: "admin",
+      permissions: BUILT_IN_ROLES.admin.permissions,
+      venueIds: null,
+    };
+    expect(hasPermission(admin, "roles.manage")).toBe(true);
+    expect(hasPermission(admin, "org.manage")).toBe(true);
+  });
+
+  it("should limit venue-scoped members to their venues", () => {
+    expect(hasPermission(venueLead, "schedule.edit")).toBe(true);
+    expect(hasPermission(venueLead, "schedule.edit", "venue-1")).toBe(true);
+    expect(hasPermission(venueLead, "schedule.edit", "venue-2")).toBe(false);
+    expect(hasPermission(venueLead, "schedule.edit", null)).toBe(false);
+    expect(hasPermission(manager, "schedule.edit", null)).toBe(true);
+  });
+});
+
+describe("canGrant", () => {
+  it("should not let members hand out more than they hold", () => {
+    expect(canGrant(manager, BUILT_IN_ROLES.employee.permissions)).toBe(true);
+    expect(canGrant(manager, ["schedule.edit"])).toBe(true);
+    expect(canGrant(manager, BUILT_IN_ROLES.admin.permissions)).toBe(false);
+  });
+});
+
+describe("canScope", () => {
+  it("should keep venue-scoped members to their own venues", () => {
+    expect(canScope(manager, null)).toBe(true);
+    expect(canScope(manager, ["venue-2"])).toBe(true);
+    expect(canScope(venueLead, ["venue-1"])).toBe(true);
+    expect(canScope(venueLead, ["venue-1", "venue-2"])).toBe(false);
+    expect(canScope(venueLead, null)).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  BuiltInRoleSchema,
+  PermissionSchema,
+  type BuiltInRole,
+  type OrgRole,
+  type Permission,
+} from "@/lib/types";
+
+// Kept in step with managerPermissions() in firestore.rules
+const MANAGER_PERMISSIONS: Permission[] = [
+  "schedule.edit",
+  "attendance.approve",
+  "requests.review",
+  "availability.view",
+];
+
+export const BUILT_IN_ROLES: Record<BuiltInRole, OrgRole> = {
+  admin: {
+    id: "admin",
+    name: "Admin",
+    permissions: [...PermissionSchema.options],
+    builtIn: true,
+  },
+  manager: {
+    id: "manager",
+    name: "Manager",
+    permissions: MANAGER_PERMISSIONS,
+    builtIn: true,
+  },
+  employee: {
+    id: "employee",
+    name: "Employee",
+    permissions: [],
+    builtIn: true,
+  },
+};
+
+export function isBuiltInRole(role: string): role is BuiltInRole {
+  return BuiltInRoleSchema.safeParse(role).success;
+}
+
+// A member's effective access in one org
+export interface OrgAccess {
+  role: string;
+  permissions: Permission[];
+  venueIds: string[] | null; // null when not limited to venues
+}
+
+/**
+ * Whether `access` grants `permission`. Pass `venueId` when acting on
+ * something at a venue: venue-scoped members only hold their permissions
+ * at their venues, and nothing for records without one.
+ */
+export function hasPermission(
+  access: OrgAccess | null,
+  permission: Permission,
+  venueId?: string | null,
+): boolean {
+  if (!access?.permissions.includes(permission)) return false;
+  if (venueId === undefined || access.venueIds === null) return true;
+  return venueId !== null && access.venueIds.includes(venueId);
+}
+
+/**
+ * Whether `access` may hand out a role granting `permissions`: nobody can
+ * give away more than they hold themselves.
+ */
+export function canGrant(access: OrgAccess, permissions: Permission[]) {
+  return permissions.every((p) => access.permissions.includes(p));
+}
+
+/**
+ * Whether `access` may limit a member to `venueIds`, null meaning every
+ * venue: venue-scoped members can only hand out their own venues.
+ */
+export function canScope(access: OrgAccess, venueIds: string[] | null) {
+  const own = access.venueIds;
+  if (own === null) return true;
+  return venueIds !== null && venueIds.every((id) => own.includes(id));
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  dateKeyInZone,
+  expandOccurrences,
+  occurrenceWindow,
+  zonedDateTimeToUtc,
+} from "@/lib/recurrence";
+
+describe("Recurrence", () => {
+  describe("expandOccurrences", () => {
+    it("should expand a daily rule with an interval", () => {
+      expect(
+        expandOccurrences(
+          { freq: "DAILY", interval: 2, dtstart: "2025-06-01" },
+          "2025-06-02",
+          "2025-06-08",
+        ),
+      ).toEqual(["2025-06-03", "2025-06-05", "2025-06-07"]);
+    });
+
+    it("should expand weekly rules on the given weekdays", () => {
+      expect(
+        expandOccurrences(
+          {
+            freq: "WEEKLY",
+            interval: 1,
+            byDay: ["MO", "FR"],
+            dtstart: "2025-06-02",
+          },
+          "2025-06-01",
+          "2025-06-15",
+        ),
+      ).toEqual(["2025-06-02", "2025-06-06", "2025-06-09", "2025-06-13"]);
+    });
+
+    it("should default to the start weekday and honour biweekly intervals", () => {
+      expect(
+        expandOccurrences(
+          { freq: "WEEKLY", interval: 2, dtstart: "2025-06-04" },
+          "2025-06-01",
+          "2025-07-06",
+        ),
+      ).toEqual(["2025-06-04", "2025-06-18", "2025-07-02"]);
+    });
+
+    it("should stop at until and count", () => {
+      const rule = {
+        freq: "DAILY" as const,
+        interval: 1,
+        dtstart: "2025-06-01",
+      };
+      expect(
+        expandOccurrences(
+          { ...rule, until: "2025-06-03" },
+          "2025-06-01",
+          "2025-06-30",
+        ),
+      ).toEqual(["2025-06-01", "2025-06-02", "2025-06-03"]);
+      // Occurrences before the range still count towards COUNT
+      expect(
+        expandOccurrences({ ...rule, count: 3 }, "2025-06-02", "2025-06-30"),
+      ).toEqual(["2025-06-02", "2025-06-03"]);
+    });
+
+    it("should return nothing before dtstart", () => {
+      expect(
+        expandOccurrences(
+          { freq: "DAILY", interval: 1, dtstart: "2025-06-10" },
+          "2025-06-01",
+          "2025-06-09",
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe("time zones", () => {
+    it("should convert wall-clock times across DST changes", () => {
+      expect(
+        zonedDateTimeToUtc("2025-01-15", "09:00", "America/New_York"),
+      ).toEqual(new Date("2025-01-15T14:00:00Z"));
+      expect(
+        zonedDateTimeToUtc("2025-07-15", "09:00", "America/New_York"),
+      ).toEqual(new Date("2025-07-15T13:00:00Z"));
+    });
+
+    it("should roll overnight shifts into the next day", () => {
+      const { start, end } = occurrenceWindow(
+        { startTime: "22:00", endTime: "06:00", timeZone: "Europe/Berlin" },
+        "2025-06-06",
+      );
+      expect(start).toEqual(new Date("2025-06-06T20:00:00Z"));
+      expect(end).toEqual(new Date("2025-06-07T04:00:00Z"));
+    });
+
+    it("should format the local date in a zone", () => {
+      const at = new Date("2025-06-06T23:30:00Z");
+      expect(dateKeyInZone(at, "UTC")).toBe("2025-06-06");
+      expect(dateKeyInZone(at, "Asia/Tokyo")).toBe("2025-06-07");
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import type { RecurrenceRule, ShiftTemplate, Weekday } from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Calendar dates are handled as whole days since the Unix epoch so that
+// recurrence math never depends on the server's time zone.
+function toDayNumber(dateKey: string): number {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / DAY_MS;
+}
+
+function toDateKey(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(day: number): Weekday {
+  return WEEKDAYS[new Date(day * DAY_MS).getUTCDay()];
+}
+
+// Monday-based week number (day 0, 1970-01-01, was a Thursday)
+function weekOf(day: number): number {
+  return Math.floor((day + 3) / 7);
+}
+
+export function weekdayOfKey(dateKey: string): Weekday {
+  return weekdayOf(toDayNumber(dateKey));
+}
+
+export function addDaysToKey(dateKey: string, days: number): string {
+  return toDateKey(toDayNumber(dateKey) + days);
+}
+
+/**
+ * Expand a recurrence rule into the occurrence dates that fall inside
+ * [from, to] (both inclusive, "yyyy-MM-dd"). COUNT is applied from DTSTART,
+ * so occurrences before `from` still use up the count.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  from: string,
+  to: string,
+): string[] {
+  const start = toDayNumber(rule.dtstart);
+  const first = toDayNumber(from);
+  const last = Math.min(
+    toDayNumber(to),
+    rule.until ? toDayNumber(rule.until) : Infinity,
+  );
+  const interval = rule.interval ?? 1;
+  const byDay =
+    rule.freq === "WEEKLY"
+      ? rule.byDay?.length
+        ? rule.byDay
+        : [weekdayOf(start)]
+      : null;
+
+  const result: string[] = [];
+  let produced = 0;
+  for (let day = start; day <= last; day++) {
+    const matches = byDay
+      ? byDay.includes(weekdayOf(day)) &&
+        (weekOf(day) - weekOf(start)) % interval === 0
+      : (day - start) % interval === 0;
+    if (!matches) continue;
+
+    produced++;
+    if (rule.count && produced > rule.count) break;
+    if (day >= first) result.push(toDateKey(day));
+  }
+  return result;
+}
+
+// Offset of the zone from UTC at the given instant, in minutes
+function zoneOffsetMinutes(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(at);
+  const get = (type: string) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  );
+  return Math.round((asUtc - at.getTime()) / 60000);
+}
+
+/**
+ * Convert a wall-clock date and time in `timeZone` to the matching instant.
+ */
+export function zonedDateTimeToUtc(
+  dateKey: string,
+  time: string,
+  timeZone: string,
+): Date {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const wallClock = Date.UTC(y, m - 1, d, hh, mm);
+  // Re-check the offset at the first guess to settle DST transitions
+  const offset = zoneOffsetMinutes(new Date(wallClock), timeZone);
+  const guess = wallClock - offset * 60000;
+  const settled = zoneOffsetMinutes(new Date(guess), timeZone);
+  return new Date(wallClock - settled * 60000);
+}
+
+/**
+ * Start and end instants of a template occurrence. An end time at or before
+ * the start time rolls over to the next day.
+ */
+export function occurrenceWindow(
+  template: Pick<ShiftTemplate, "startTime" | "endTime" | "timeZone">,
+  dateKey: string,
+): { start: Date; end: Date } {
+  const timeZone = template.timeZone || "UTC";
+  const endDate =
+    template.endTime <= template.startTime ? addDaysToKey(dateKey, 1) : dateKey;
+  return {
+    start: zonedDateTimeToUtc(dateKey, template.startTime, timeZone),
+    end: zonedDateTimeToUtc(endDate, template.endTime, timeZone),
+  };
+}
+
+/**
+ * The calendar date ("yyyy-MM-dd") of the given instant in `timeZone`.
+ */
+export function dateKeyInZone(at: Date, timeZone: string): string {
+  // en-CA formats dates as yyyy-MM-dd
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(at);
+}
+
+/**
+ * Local calendar date and minutes since local midnight of an instant.
+ */
+export function zonedDayMinutes(
+  at: Date,
+  timeZone: string,
+): { dateKey: string; minutes: number } {
+  const local = at.getTime() + zoneOffsetMinutes(at, timeZone) * 60000;
+  const minutes = Math.floor(local / 60000);
+  return {
+    dateKey: toDateKey(Math.floor(minutes / 1440)),
+    minutes: ((minutes % 1440) + 1440) % 1440,
+  };
+}
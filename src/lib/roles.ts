@@ -0,0 +1,115 @@
+import { adminDb } from "@/lib/firebase.server";
+import { BUILT_IN_ROLES, isBuiltInRole } from "@/lib/permissions";
+import type { OrgRole, Permission } from "@/lib/types";
+
+/**
+ * Thrown when a role cannot be changed. `status` is the HTTP status the API
+ * should answer with.
+ */
+export class RoleError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 404 | 409,
+  ) {
+    super(message);
+    this.name = "RoleError";
+  }
+}
+
+export function rolesCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/roles`);
+}
+
+/**
+ * Built-in roles followed by the org's custom roles by name.
+ */
+export async function listOrgRoles(orgId: string): Promise<OrgRole[]> {
+  const snapshot = await rolesCollection(orgId).get();
+  const custom = snapshot.docs
+    .map((d) => ({ ...(d.data() as OrgRole), id: d.id, builtIn: false }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [...Object.values(BUILT_IN_ROLES), ...custom];
+}
+
+/**
+ * What `roleId` grants in the org, or null when there is no such role.
+ */
+export async function getRolePermissions(
+  orgId: string,
+  roleId: string,
+): Promise<Permission[] | null> {
+  if (isBuiltInRole(roleId)) return BUILT_IN_ROLES[roleId].permissions;
+  const snap = await rolesCollection(orgId).doc(roleId).get();
+  return snap.exists ? ((snap.get("permissions") as Permission[]) ?? []) : null;
+}
+
+export async function createOrgRole(
+  orgId: string,
+  input: Pick<OrgRole, "id" | "name" | "description" | "permissions">,
+  createdBy: string,
+): Promise<OrgRole> {
+  const ref = rolesCollection(orgId).doc(input.id);
+  return adminDb().runTransaction(async (tx) => {
+    if ((await tx.get(ref)).exists) {
+      throw new RoleError("A role with this id already exists", 409);
+    }
+    const now = Date.now();
+    const role: OrgRole = {
+      ...input,
+      builtIn: false,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    tx.create(ref, role);
+    return role;
+  });
+}
+
+/**
+ * Change a custom role. Members holding it get the new permissions on
+ * their next request; built-in roles cannot be changed.
+ */
+export async function updateOrgRole(
+  orgId: string,
+  roleId: string,
+  patch: Partial<Pick<OrgRole, "name" | "description" | "permissions">>,
+): Promise<OrgRole> {
+  if (isBuiltInRole(roleId)) {
+    throw new RoleError("Built-in roles cannot be changed", 409);
+  }
+  const ref = rolesCollection(orgId).doc(roleId);
+  return adminDb().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new RoleError("Role not found", 404);
+    const role: OrgRole = {
+      ...(snap.data() as OrgRole),
+      ...patch,
+      updatedAt: Date.now(),
+    };
+    tx.set(ref, role);
+    return role;
+  });
+}
+
+/**
+ * Delete a custom role nobody holds.
+ */
+export async function deleteOrgRole(orgId: string, roleId: string) {
+  if (isBuiltInRole(roleId)) {
+    throw new RoleError("Built-in roles cannot be deleted", 409);
+  }
+  const ref = rolesCollection(orgId).doc(roleId);
+  const holders = adminDb()
+    .collection(`orgs/${orgId}/members`)
+    .where("role", "==", roleId)
+    .limit(1);
+  await adminDb().runTransaction(async (tx) => {
+    const [snap, held] = await Promise.all([tx.get(ref), tx.get(holders)]);
+    if (!snap.exists) throw new RoleError("Role not found", 404);
+    if (!held.empty) {
+      throw new RoleError("Reassign the members holding this role first", 409);
+    }
+    tx.delete(ref);
+  });
+}
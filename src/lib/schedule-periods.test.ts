@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { periodRangeRefusal } from "@/lib/schedule-periods";
+
+// The week of 2025-06-02 as a browser in New York (UTC-4) sends it
+const week = {
+  start: new Date("2025-06-02T04:00:00.000Z"),
+  end: new Date("2025-06-09T04:00:00.000Z"),
+};
+
+describe("periodRangeRefusal", () => {
+  it("should accept the week the period id names", () => {
+    expect(periodRangeRefusal("2025-06-02", week)).toBeNull();
+    expect(
+      periodRangeRefusal("2025-06-02", {
+        start: new Date("2025-06-01T14:00:00.000Z"), // Sydney, UTC+10
+        end: new Date("2025-06-08T14:00:00.000Z"),
+      }),
+    ).toBeNull();
+  });
+
+  it("should allow a DST hour in the week's length", () => {
+    expect(
+      periodRangeRefusal("2025-03-03", {
+        start: new Date("2025-03-03T05:00:00.000Z"),
+        end: new Date("2025-03-10T04:00:00.000Z"),
+      }),
+    ).toBeNull();
+  });
+
+  it("should refuse ranges outside the period's week", () => {
+    expect(periodRangeRefusal("2025-06-09", week)).toBe(
+      "The range is not the week of 2025-06-09",
+    );
+    expect(
+      periodRangeRefusal("2025-06-02", {
+        start: week.start,
+        end: new Date("2025-06-23T04:00:00.000Z"),
+      }),
+    ).toBe("The range is not the week of 2025-06-02");
+    expect(periodRangeRefusal("next-week", week)).toBe(
+      "Unknown schedule period next-week",
+    );
+  });
+
+  it("should keep a saved period's range", () => {
+    expect(periodRangeRefusal("2025-06-02", week, week)).toBeNull();
+    expect(
+      periodRangeRefusal("2025-06-02", week, {
+        start: new Date("2025-06-02T00:00:00.000Z"),
+        end: new Date("2025-06-09T00:00:00.000Z"),
+      }),
+    ).toBe("Schedule period 2025-06-02 already covers another range");
+  });
+});
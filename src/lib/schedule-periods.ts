@@ -0,0 +1,282 @@
+import type { DocumentData } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import { diffSchedules } from "@/lib/schedule";
+import {
+  publishedShiftsCollection,
+  serializeShift,
+  shiftsCollection,
+  toIsoString,
+} from "@/lib/shifts";
+import type {
+  ScheduleDiff,
+  SchedulePeriod,
+  SerializedSchedulePeriod,
+} from "@/lib/types";
+
+/**
+ * Thrown when a write targets a schedule period that has been locked.
+ */
+export class SchedulePeriodLockedError extends Error {
+  constructor(periodId: string) {
+    super(`Schedule period ${periodId} is locked`);
+    this.name = "SchedulePeriodLockedError";
+  }
+}
+
+/**
+ * Thrown when a publish is refused. `status` is the HTTP status the API
+ * should answer with.
+ */
+export class SchedulePeriodError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 400 | 409,
+  ) {
+    super(message);
+    this.name = "SchedulePeriodError";
+  }
+}
+
+// Firestore transactions hold at most 500 writes
+const MAX_WRITES = 500;
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Why `range` cannot be published as `periodId`, or null when it can. A
+ * period is the week starting on the local date its id names, so the range
+ * must start at a midnight on that date in some time zone (UTC-12 to
+ * UTC+14) and last a week, give or take a DST hour. A saved period keeps
+ * the range it was first published with.
+ */
+export function periodRangeRefusal(
+  periodId: string,
+  range: { start: Date; end: Date },
+  existing?: { start: unknown; end: unknown },
+): string | null {
+  const day = Date.parse(`${periodId}T00:00:00Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(periodId) || Number.isNaN(day)) {
+    return `Unknown schedule period ${periodId}`;
+  }
+  const start = range.start.getTime();
+  const length = range.end.getTime() - start;
+  if (
+    start < day - 14 * HOUR ||
+    start > day + 12 * HOUR ||
+    length < 7 * 24 * HOUR - HOUR ||
+    length > 7 * 24 * HOUR + HOUR
+  ) {
+    return `The range is not the week of ${periodId}`;
+  }
+  if (
+    existing &&
+    (toIsoString(existing.start) !== range.start.toISOString() ||
+      toIsoString(existing.end) !== range.end.toISOString())
+  ) {
+    return `Schedule period ${periodId} already covers another range`;
+  }
+  return null;
+}
+
+export function periodsCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/schedulePeriods`);
+}
+
+export function serializePeriod(data: DocumentData): SerializedSchedulePeriod {
+  return {
+    ...(data as SerializedSchedulePeriod),
+    start: toIsoString(data.start),
+    end: toIsoString(data.end),
+    publishedAt: data.publishedAt ? toIsoString(data.publishedAt) : undefined,
+    lockedAt: data.lockedAt ? toIsoString(data.lockedAt) : undefined,
+    updatedAt: data.updatedAt ? toIsoString(data.updatedAt) : undefined,
+  };
+}
+
+/**
+ * Read a period, falling back to an unsaved draft for weeks never published.
+ */
+export async function getSchedulePeriod(
+  orgId: string,
+  periodId: string,
+  range: { start: Date; end: Date },
+): Promise<SerializedSchedulePeriod> {
+  const snap = await periodsCollection(orgId).doc(periodId).get();
+  if (snap.exists) return serializePeriod(snap.data()!);
+  return serializePeriod({
+    id: periodId,
+    orgId,
+    start: range.start,
+    end: range.end,
+    status: "draft",
+    version: 0,
+  });
+}
+
+/**
+ * Diff the draft shifts starting inside the range against the copies made
+ * by the period's last publish.
+ */
+export async function getSchedulePeriodDiff(
+  orgId: string,
+  periodId: string,
+  range: { start: Date; end: Date },
+): Promise<ScheduleDiff> {
+  const [current, published] = await Promise.all([
+    shiftsCollection(orgId)
+      .where("start", ">=", range.start)
+      .where("start", "<", range.end)
+      .get(),
+    publishedShiftsCollection(orgId).where("periodId", "==", periodId).get(),
+  ]);
+  return diffSchedules(
+    current.docs.map((d) => serializeShift({ ...d.data(), id: d.id })),
+    published.docs.map((d) => serializeShift({ ...d.data(), id: d.id })),
+  );
+}
+
+/**
+ * Publish every draft shift in the period atomically: published copies are
+ * replaced, copies of deleted shifts are removed, and the version is bumped.
+ * Ranges that are not the period's week or that reach into a locked period
+ * are refused, so a publish cannot take over another period's shifts.
+ */
+export async function publishSchedulePeriod(
+  orgId: string,
+  periodId: string,
+  range: { start: Date; end: Date },
+  publishedBy: string,
+): Promise<SerializedSchedulePeriod> {
+  const periodRef = periodsCollection(orgId).doc(periodId);
+
+  return adminDb().runTransaction(async (tx) => {
+    const periodSnap = await tx.get(periodRef);
+    const existing = periodSnap.data() as SchedulePeriod | undefined;
+    if (existing?.status === "locked") {
+      throw new SchedulePeriodLockedError(periodId);
+    }
+    const refusal = periodRangeRefusal(periodId, range, existing);
+    if (refusal) throw new SchedulePeriodError(refusal, 400);
+
+    const [locked, current, published] = await Promise.all([
+      tx.get(
+        periodsCollection(orgId)
+          .where("status", "==", "locked")
+          .where("start", "<", range.end),
+      ),
+      tx.get(
+        shiftsCollection(orgId)
+          .where("start", ">=", range.start)
+          .where("start", "<", range.end),
+      ),
+      tx.get(
+        publishedShiftsCollection(orgId).where("periodId", "==", periodId),
+      ),
+    ]);
+
+    const overlapping = locked.docs.find(
+      (d) => new Date(toIsoString(d.get("end"))) > range.start,
+    );
+    if (overlapping) throw new SchedulePeriodLockedError(overlapping.id);
+
+    const liveIds = new Set(current.docs.map((d) => d.id));
+    const removed = published.docs.filter((d) => !liveIds.has(d.id));
+    // Every shift copy, every removal and the period doc itself
+    const writes = current.size + removed.length + 1;
+    if (writes > MAX_WRITES) {
+      throw new SchedulePeriodError(
+        `Schedule period ${periodId} has too many shifts to publish at once`,
+        409,
+      );
+    }
+
+    const now = new Date();
+    for (const doc of removed) tx.delete(doc.ref);
+    for (const doc of current.docs) {
+      tx.set(publishedShiftsCollection(orgId).doc(doc.id), {
+        ...doc.data(),
+        id: doc.id,
+        periodId,
+        publishedAt: now,
+      });
+    }
+
+    const period: SchedulePeriod = {
+      id: periodId,
+      orgId,
+      start: range.start,
+      end: range.end,
+      status: "published",
+      version: (existing?.version ?? 0) + 1,
+      publishedAt: now,
+      publishedBy,
+      updatedAt: now,
+    };
+    tx.set(periodRef, period);
+    return serializePeriod(period);
+  });
+}
+
+/**
+ * Lock a published period so its shifts can no longer be edited.
+ */
+export async function lockSchedulePeriod(
+  orgId: string,
+  periodId: string,
+  lockedBy: string,
+): Promise<SerializedSchedulePeriod | null> {
+  const periodRef = periodsCollection(orgId).doc(periodId);
+
+  return adminDb().runTransaction(async (tx) => {
+    const snap = await tx.get(periodRef);
+    if (!snap.exists || snap.data()?.status !== "published") return null;
+
+    const now = new Date();
+    const update = {
+      status: "locked" as const,
+      lockedAt: now,
+      lockedBy,
+      updatedAt: now,
+    };
+    tx.update(periodRef, update);
+    return serializePeriod({ ...snap.data(), ...update });
+  });
+}
+
+/**
+ * Find a locked period covering the given instant, if any.
+ */
+export async function findLockedPeriod(
+  orgId: string,
+  at: Date,
+): Promise<string | null> {
+  const snapshot = await periodsCollection(orgId)
+    .where("status", "==", "locked")
+    .where("start", "<=", at)
+    .get();
+  const match = snapshot.docs.find(
+    (d) => new Date(toIsoString(d.data().end)) > at,
+  );
+  return match?.id ?? null;
+}
+
+/**
+ * List the locked periods overlapping [from, to) as instant ranges.
+ */
+export async function listLockedRanges(
+  orgId: string,
+  from: Date,
+  to: Date,
+): Promise<{ id: string; start: Date; end: Date }[]> {
+  const snapshot = await periodsCollection(orgId)
+    .where("status", "==", "locked")
+    .where("start", "<", to)
+    .get();
+  return snapshot.docs
+    .map((d) => ({
+      id: d.id,
+      start: new Date(toIsoString(d.data().start)),
+      end: new Date(toIsoString(d.data().end)),
+    }))
+    .filter((range) => range.end > from);
+}
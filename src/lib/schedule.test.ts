@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+  UNASSIGNED_ROW,
+  applyShiftMove,
+  diffSchedules,
+  getVisibleDays,
+  shiftsForCell,
+  timelinePosition,
+} from "@/lib/schedule";
+import type { SerializedShift, Shift } from "@/lib/types";
+
+function makeShift(overrides: Partial<Shift> = {}): Shift {
+  return {
+    id: "s1",
+    orgId: "org-1",
+    title: "Bar",
+    start: new Date(2025, 5, 2, 9, 0),
+    end: new Date(2025, 5, 2, 13, 30),
+    assignedTo: ["alice"],
+    createdAt: new Date(2025, 5, 1),
+    updatedAt: new Date(2025, 5, 1),
+    ...overrides,
+  };
+}
+
+describe("Schedule grid helpers", () => {
+  it("should return Monday-first weeks and single days", () => {
+    const wednesday = new Date(2025, 5, 4, 15, 0);
+    const week = getVisibleDays(wednesday, "week");
+    expect(week).toHaveLength(7);
+    expect(week[0]).toEqual(new Date(2025, 5, 2));
+    expect(getVisibleDays(wednesday, "day")).toEqual([new Date(2025, 5, 4)]);
+  });
+
+  it("should place shifts in the assignee row and unassigned row", () => {
+    const day = new Date(2025, 5, 2);
+    const open = makeShift({ id: "s2", assignedTo: [] });
+    const shifts = [makeShift(), open];
+    expect(shiftsForCell(shifts, "alice", day).map((s) => s.id)).toEqual([
+      "s1",
+    ]);
+    expect(shiftsForCell(shifts, UNASSIGNED_ROW, day)).toEqual([open]);
+  });
+
+  it("should position shifts on the day timeline", () => {
+    const { left, width } = timelinePosition(
+      makeShift({
+        start: new Date(2025, 5, 2, 6, 0),
+        end: new Date(2025, 5, 2, 12, 0),
+      }),
+      new Date(2025, 5, 2),
+    );
+    expect(left).toBe(25);
+    expect(width).toBe(25);
+  });
+
+  describe("applyShiftMove", () => {
+    it("should reassign and move to another day keeping the time", () => {
+      const result = applyShiftMove(makeShift(), {
+        fromRow: "alice",
+        toRow: "bob",
+        toDay: new Date(2025, 5, 4),
+      });
+      expect(result).toEqual({
+        assignedTo: ["bob"],
+        start: new Date(2025, 5, 4, 9, 0),
+        end: new Date(2025, 5, 4, 13, 30),
+      });
+    });
+
+    it("should use an explicit start time and keep the duration", () => {
+      const result = applyShiftMove(makeShift(), {
+        fromRow: "alice",
+        toRow: "alice",
+        toDay: new Date(2025, 5, 2),
+        startMinutes: 11 * 60,
+      });
+      expect(result?.start).toEqual(new Date(2025, 5, 2, 11, 0));
+      expect(result?.end).toEqual(new Date(2025, 5, 2, 15, 30));
+    });
+
+    it("should unassign when dropped on the unassigned row", () => {
+      const result = applyShiftMove(makeShift(), {
+        fromRow: "alice",
+        toRow: UNASSIGNED_ROW,
+        toDay: new Date(2025, 5, 2),
+      });
+      expect(result?.assignedTo).toEqual([]);
+    });
+
+    it("should return null when nothing changes", () => {
+      expect(
+        applyShiftMove(makeShift(), {
+          fromRow: "alice",
+          toRow: "alice",
+          toDay: new Date(2025, 5, 2),
+        }),
+      ).toBeNull();
+    });
+  });
+
+  describe("diffSchedules", () => {
+    const published: SerializedShift = {
+      id: "s1",
+      orgId: "org-1",
+      title: "Bar",
+      start: "2025-06-02T09:00:00.000Z",
+      end: "2025-06-02T13:00:00.000Z",
+      assignedTo: ["alice", "bob"],
+      createdAt: "2025-06-01T00:00:00.000Z",
+      updatedAt: "2025-06-01T00:00:00.000Z",
+    };
+
+    it("should report added, changed and removed shifts", () => {
+      const moved = { ...published, end: "2025-06-02T14:00:00.000Z" };
+      const added = { ...published, id: "s2" };
+      const removed = { ...published, id: "s3" };
+
+      const diff = diffSchedules([moved, added], [published, removed]);
+
+      expect(diff.added).toEqual([added]);
+      expect(diff.removed).toEqual([removed]);
+      expect(diff.changed).toEqual([
+        { before: published, after: moved, fields: ["end"] },
+      ]);
+    });
+
+    it("should ignore assignee order and bookkeeping fields", () => {
+      const current = {
+        ...published,
+        assignedTo: ["bob", "alice"],
+        updatedAt: "2025-06-03T00:00:00.000Z",
+      };
+      expect(diffSchedules([current], [published])).toEqual({
+        added: [],
+        removed: [],
+        changed: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  addDays,
+  addMinutes,
+  differenceInCalendarDays,
+  differenceInMinutes,
+  isSameDay,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import type { ScheduleDiff, SerializedShift, Shift } from "@/lib/types";
+
+export type CalendarView = "week" | "day";
+
+/** Row key used for shifts with nobody assigned. */
+export const UNASSIGNED_ROW = "__unassigned__";
+
+/**
+ * Days shown for a view. Weeks start on Monday to match the mock schedule.
+ */
+export function getVisibleDays(anchor: Date, view: CalendarView): Date[] {
+  if (view === "day") return [startOfDay(anchor)];
+  const monday = startOfWeek(anchor, { weekStartsOn: 1 });
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i));
+}
+
+/** Parse an API shift into the Date-based model used by the UI. */
+export function deserializeShift(raw: SerializedShift): Shift {
+  return {
+    ...raw,
+    start: new Date(raw.start),
+    end: new Date(raw.end),
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  };
+}
+
+/** Shifts that belong in a grid cell (row = member uid, column = day). */
+export function shiftsForCell(
+  shifts: Shift[],
+  rowId: string,
+  day: Date,
+): Shift[] {
+  return shifts
+    .filter((s) => isSameDay(s.start, day))
+    .filter((s) =>
+      rowId === UNASSIGNED_ROW
+        ? !s.assignedTo || s.assignedTo.length === 0
+        : (s.assignedTo ?? []).includes(rowId),
+    )
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Horizontal placement of a shift on a single-day timeline, as percentages.
+ * Shifts running past midnight are clipped to the end of the day.
+ */
+export function timelinePosition(
+  shift: Pick<Shift, "start" | "end">,
+  day: Date,
+): { left: number; width: number } {
+  const dayStart = startOfDay(day);
+  const startMin = Math.max(0, differenceInMinutes(shift.start, dayStart));
+  const endMin = Math.min(24 * 60, differenceInMinutes(shift.end, dayStart));
+  return {
+    left: (startMin / (24 * 60)) * 100,
+    width: (Math.max(endMin - startMin, 0) / (24 * 60)) * 100,
+  };
+}
+
+export interface ShiftMove {
+  fromRow: string;
+  toRow: string;
+  toDay: Date;
+  /** Minutes after midnight for the new start; keeps the time when omitted. */
+  startMinutes?: number;
+}
+
+/**
+ * Apply a drag-and-drop move: swap the source assignee for the target one and
+ * shift the times to the target day, preserving the duration.
+ * Returns null when the move does not change anything.
+ */
+export function applyShiftMove(
+  shift: Shift,
+  move: ShiftMove,
+): Pick<Shift, "assignedTo" | "start" | "end"> | null {
+  const durationMin = differenceInMinutes(shift.end, shift.start);
+  const start =
+    move.startMinutes === undefined
+      ? addDays(shift.start, differenceInCalendarDays(move.toDay, shift.start))
+      : addMinutes(startOfDay(move.toDay), move.startMinutes);
+  const end = addMinutes(start, durationMin);
+
+  const current = shift.assignedTo ?? [];
+  let assignedTo = current;
+  if (move.fromRow !== move.toRow) {
+    const withoutSource = current.filter((uid) => uid !== move.fromRow);
+    assignedTo =
+      move.toRow === UNASSIGNED_ROW
+        ? withoutSource
+        : [...new Set([...withoutSource, move.toRow])];
+  }
+
+  const unchanged =
+    start.getTime() === shift.start.getTime() &&
+    assignedTo.length === current.length &&
+    assignedTo.every((uid) => current.includes(uid));
+  if (unchanged) return null;
+
+  return { assignedTo, start, end };
+}
+
+/** Fields compared when diffing the draft schedule against the published one. */
+const DIFF_FIELDS = [
+  "title",
+  "start",
+  "end",
+  "assignedTo",
+  "venueId",
+  "standId",
+  "notes",
+] as const;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    const left = [...((a as string[]) ?? [])].sort();
+    const right = [...((b as string[]) ?? [])].sort();
+    return left.length === right.length && left.every((v, i) => v === right[i]);
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+/**
+ * Compare the current (draft) shifts of a period with its last published
+ * copies, keyed by shift id.
+ */
+export function diffSchedules(
+  current: SerializedShift[],
+  published: SerializedShift[],
+): ScheduleDiff {
+  const publishedById = new Map(published.map((s) => [s.id, s]));
+  const currentIds = new Set(current.map((s) => s.id));
+  const diff: ScheduleDiff = { added: [], removed: [], changed: [] };
+
+  for (const after of current) {
+    const before = publishedById.get(after.id);
+    if (!before) {
+      diff.added.push(after);
+      continue;
+    }
+    const fields = DIFF_FIELDS.filter(
+      (field) => !sameValue(before[field], after[field]),
+    );
+    if (fields.length > 0) diff.changed.push({ before, after, fields });
+  }
+
+  diff.removed = published.filter((s) => !currentIds.has(s.id));
+  return diff;
+}
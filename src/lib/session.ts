@@ -1,14 +1,26 @@
 "use server";
 import { cookies } from "next/headers";
+import type { DecodedIdToken } from "firebase-admin/auth";
 import { adminAuth } from "@/lib/firebase.server";
 
+// The org the user is working in, from the session's claims. Older
+// sessions carry it as `org_id`.
+function activeOrgId(decoded: DecodedIdToken): string | null {
+  return decoded.orgId ?? decoded.org_id ?? null;
+}
+
 export async function getServerUser() {
   const cookieStore = await cookies();
   const session = cookieStore.get("__session")?.value;
   if (!session) return null;
   try {
     const decoded = await adminAuth().verifySessionCookie(session, true);
-    return { uid: decoded.uid, email: decoded.email ?? null };
+    return {
+      uid: decoded.uid,
+      email: decoded.email ?? null,
+      emailVerified: decoded.email_verified !== false,
+      activeOrgId: activeOrgId(decoded),
+    };
   } catch {
     return null;
   }
@@ -32,7 +44,12 @@ export async function getSession(request?: Request) {
   if (!session) return null;
   try {
     const decoded = await adminAuth().verifySessionCookie(session, true);
-    return { uid: decoded.uid, email: decoded.email ?? null };
+    return {
+      uid: decoded.uid,
+      email: decoded.email ?? null,
+      emailVerified: decoded.email_verified !== false,
+      activeOrgId: activeOrgId(decoded),
+    };
   } catch {
     return null;
   }
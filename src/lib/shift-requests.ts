@@ -0,0 +1,406 @@
+import type { DocumentData, Transaction } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import { shiftsCollection, toIsoString } from "@/lib/shifts";
+import { findLockedPeriod } from "@/lib/schedule-periods";
+import { availabilityDoc } from "@/lib/availability";
+import { addDaysToKey } from "@/lib/recurrence";
+import { hasPermission, type OrgAccess } from "@/lib/permissions";
+import type {
+  AvailabilityException,
+  CreateShiftRequest,
+  SerializedShiftRequest,
+  ShiftRequest,
+  ShiftRequestStatus,
+} from "@/lib/types";
+
+// Requests that can still change
+const OPEN_STATUSES: ShiftRequestStatus[] = ["awaiting_peer", "pending"];
+
+// Managers see the most recent requests; older ones stay in Firestore
+const LIST_LIMIT = 200;
+
+/**
+ * Thrown when a request cannot be created or moved to a new status.
+ * `status` is the HTTP status the API should answer with.
+ */
+export class ShiftRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 403 | 404 | 409,
+  ) {
+    super(message);
+    this.name = "ShiftRequestError";
+  }
+}
+
+export function requestsCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/shiftRequests`);
+}
+
+export function serializeShiftRequest(
+  data: DocumentData,
+): SerializedShiftRequest {
+  return {
+    ...(data as SerializedShiftRequest),
+    respondedAt: data.respondedAt ? toIsoString(data.respondedAt) : undefined,
+    reviewedAt: data.reviewedAt ? toIsoString(data.reviewedAt) : undefined,
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  };
+}
+
+async function getShiftData(orgId: string, shiftId: string) {
+  const snap = await shiftsCollection(orgId).doc(shiftId).get();
+  if (!snap.exists) throw new ShiftRequestError("Shift not found", 404);
+  const data = snap.data()!;
+  return {
+    assignedTo: (data.assignedTo ?? []) as string[],
+    requiredHeadcount: (data.requiredHeadcount ?? 1) as number,
+    start: new Date(toIsoString(data.start)),
+  };
+}
+
+/**
+ * Validate and store a new request for `uid`. Swaps start out waiting for
+ * the partner; everything else goes straight to managers.
+ */
+export async function createShiftRequest(
+  orgId: string,
+  uid: string,
+  input: CreateShiftRequest,
+): Promise<SerializedShiftRequest> {
+  if (input.type !== "time_off") {
+    const shift = await getShiftData(orgId, input.shiftId);
+    const assigned = shift.assignedTo.includes(uid);
+    if (shift.start <= new Date()) {
+      throw new ShiftRequestError("Shift has already started", 409);
+    }
+
+    if (input.type === "pickup") {
+      if (assigned) {
+        throw new ShiftRequestError("You are already on this shift", 409);
+      }
+      if (shift.assignedTo.length >= shift.requiredHeadcount) {
+        throw new ShiftRequestError("Shift is already fully staffed", 409);
+      }
+    } else if (!assigned) {
+      throw new ShiftRequestError("You are not assigned to this shift", 409);
+    }
+
+    if (input.type === "swap") {
+      const member = await adminDb()
+        .doc(`orgs/${orgId}/members/${input.targetUid}`)
+        .get();
+      if (!member.exists || input.targetUid === uid) {
+        throw new ShiftRequestError("Invalid swap partner", 409);
+      }
+      if (shift.assignedTo.includes(input.targetUid)) {
+        throw new ShiftRequestError(
+          "Swap partner is already on this shift",
+          409,
+        );
+      }
+      if (input.targetShiftId) {
+        const target = await getShiftData(orgId, input.targetShiftId);
+        if (
+          !target.assignedTo.includes(input.targetUid) ||
+          target.assignedTo.includes(uid)
+        ) {
+          throw new ShiftRequestError("Shifts cannot be swapped", 409);
+        }
+      }
+    }
+
+    const open = await requestsCollection(orgId)
+      .where("requestedBy", "==", uid)
+      .where("shiftId", "==", input.shiftId)
+      .where("status", "in", OPEN_STATUSES)
+      .get();
+    if (!open.empty) {
+      throw new ShiftRequestError(
+        "You already have an open request for this shift",
+        409,
+      );
+    }
+  }
+
+  const ref = requestsCollection(orgId).doc();
+  const now = new Date();
+  const request = {
+    ...input,
+    id: ref.id,
+    orgId,
+    status: input.type === "swap" ? "awaiting_peer" : "pending",
+    requestedBy: uid,
+    createdAt: now,
+    updatedAt: now,
+  } satisfies ShiftRequest;
+  await ref.set(request);
+  return serializeShiftRequest(request);
+}
+
+/**
+ * Requests visible to a member: everything for managers, otherwise the
+ * member's own requests and swaps offered to them. Newest first.
+ */
+export async function listShiftRequests(
+  orgId: string,
+  viewer: { uid: string; isManager: boolean },
+  status?: ShiftRequestStatus,
+): Promise<SerializedShiftRequest[]> {
+  let docs: DocumentData[];
+  if (viewer.isManager) {
+    let q = requestsCollection(orgId).orderBy("createdAt", "desc");
+    if (status) q = q.where("status", "==", status);
+    docs = (await q.limit(LIST_LIMIT).get()).docs.map((d) => d.data());
+  } else {
+    const [own, offered] = await Promise.all([
+      requestsCollection(orgId).where("requestedBy", "==", viewer.uid).get(),
+      requestsCollection(orgId).where("targetUid", "==", viewer.uid).get(),
+    ]);
+    docs = [...own.docs, ...offered.docs]
+      .map((d) => d.data())
+      .filter((d) => !status || d.status === status);
+  }
+
+  return docs
+    .map(serializeShiftRequest)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function readOpenRequest(
+  tx: Transaction,
+  orgId: string,
+  requestId: string,
+  expected: ShiftRequestStatus[],
+): Promise<ShiftRequest> {
+  const snap = await tx.get(requestsCollection(orgId).doc(requestId));
+  if (!snap.exists) throw new ShiftRequestError("Request not found", 404);
+  const request = snap.data() as ShiftRequest;
+  if (!expected.includes(request.status)) {
+    throw new ShiftRequestError(`Request is already ${request.status}`, 409);
+  }
+  return request;
+}
+
+/**
+ * Swap partner accepts (request moves to managers) or declines.
+ */
+export async function respondToSwap(
+  orgId: string,
+  requestId: string,
+  uid: string,
+  accept: boolean,
+): Promise<SerializedShiftRequest> {
+  return adminDb().runTransaction(async (tx) => {
+    const request = await readOpenRequest(tx, orgId, requestId, [
+      "awaiting_peer",
+    ]);
+    if (request.targetUid !== uid) {
+      throw new ShiftRequestError("This swap was not offered to you", 403);
+    }
+
+    const now = new Date();
+    const update = {
+      status: accept ? ("pending" as const) : ("declined" as const),
+      respondedAt: now,
+      updatedAt: now,
+    };
+    tx.update(requestsCollection(orgId).doc(requestId), update);
+    return serializeShiftRequest({ ...request, ...update });
+  });
+}
+
+/**
+ * Requester withdraws a request that has not been decided yet.
+ */
+export async function cancelShiftRequest(
+  orgId: string,
+  requestId: string,
+  uid: string,
+): Promise<SerializedShiftRequest> {
+  return adminDb().runTransaction(async (tx) => {
+    const request = await readOpenRequest(tx, orgId, requestId, OPEN_STATUSES);
+    if (request.requestedBy !== uid) {
+      throw new ShiftRequestError("Only the requester can cancel", 403);
+    }
+
+    const update = { status: "cancelled" as const, updatedAt: new Date() };
+    tx.update(requestsCollection(orgId).doc(requestId), update);
+    return serializeShiftRequest({ ...request, ...update });
+  });
+}
+
+function replaceAssignee(assignedTo: string[], from: string, to: string) {
+  return assignedTo.map((uid) => (uid === from ? to : uid));
+}
+
+/**
+ * Approve or deny a pending request. Approval applies the change to the
+ * draft shifts (or the member's availability for time off) in the same
+ * transaction, re-checking that the shifts still look as they did.
+ * Reviewers limited to some venues only review requests on their shifts.
+ */
+export async function reviewShiftRequest(
+  orgId: string,
+  requestId: string,
+  reviewer: { uid: string; access: OrgAccess },
+  decision: { approved: boolean; notes?: string },
+): Promise<SerializedShiftRequest> {
+  const requestRef = requestsCollection(orgId).doc(requestId);
+
+  // Locked periods are checked up front; the transaction re-reads the shifts
+  if (decision.approved) {
+    const snap = await requestRef.get();
+    const pending = snap.data() as ShiftRequest | undefined;
+    for (const shiftId of [pending?.shiftId, pending?.targetShiftId]) {
+      if (!shiftId) continue;
+      const shift = await shiftsCollection(orgId).doc(shiftId).get();
+      if (!shift.exists) continue;
+      const locked = await findLockedPeriod(
+        orgId,
+        new Date(toIsoString(shift.data()!.start)),
+      );
+      if (locked) {
+        throw new ShiftRequestError(`Schedule period ${locked} is locked`, 409);
+      }
+    }
+  }
+
+  return adminDb().runTransaction(async (tx) => {
+    const request = await readOpenRequest(tx, orgId, requestId, ["pending"]);
+    const now = new Date();
+
+    const shiftRef = request.shiftId
+      ? shiftsCollection(orgId).doc(request.shiftId)
+      : null;
+    const targetRef = request.targetShiftId
+      ? shiftsCollection(orgId).doc(request.targetShiftId)
+      : null;
+    const [shiftSnap, targetSnap] = await Promise.all([
+      shiftRef ? tx.get(shiftRef) : null,
+      targetRef ? tx.get(targetRef) : null,
+    ]);
+    for (const snap of [shiftSnap, targetSnap]) {
+      if (
+        snap?.exists &&
+        !hasPermission(
+          reviewer.access,
+          "requests.review",
+          snap.get("venueId") ?? null,
+        )
+      ) {
+        throw new ShiftRequestError(
+          "You can only review requests at your venues",
+          403,
+        );
+      }
+    }
+
+    if (decision.approved) {
+      if (
+        (shiftRef && !shiftSnap?.exists) ||
+        (targetRef && !targetSnap?.exists)
+      ) {
+        throw new ShiftRequestError("Shift no longer exists", 409);
+      }
+      const assignedTo: string[] = shiftSnap?.data()?.assignedTo ?? [];
+      const uid = request.requestedBy;
+
+      switch (request.type) {
+        case "drop":
+          if (!assignedTo.includes(uid)) {
+            throw new ShiftRequestError(
+              "Requester is no longer on the shift",
+              409,
+            );
+          }
+          tx.update(shiftRef!, {
+            assignedTo: assignedTo.filter((a) => a !== uid),
+            updatedAt: now,
+          });
+          break;
+        case "pickup": {
+          const headcount = shiftSnap!.data()?.requiredHeadcount ?? 1;
+          if (assignedTo.includes(uid) || assignedTo.length >= headcount) {
+            throw new ShiftRequestError("Shift is already fully staffed", 409);
+          }
+          tx.update(shiftRef!, {
+            assignedTo: [...assignedTo, uid],
+            updatedAt: now,
+          });
+          break;
+        }
+        case "swap": {
+          const partner = request.targetUid!;
+          const partnerShift: string[] = targetSnap?.data()?.assignedTo ?? [];
+          if (
+            !assignedTo.includes(uid) ||
+            assignedTo.includes(partner) ||
+            (targetRef &&
+              (!partnerShift.includes(partner) || partnerShift.includes(uid)))
+          ) {
+            throw new ShiftRequestError(
+              "Shifts have changed since the request",
+              409,
+            );
+          }
+          tx.update(shiftRef!, {
+            assignedTo: replaceAssignee(assignedTo, uid, partner),
+            updatedAt: now,
+          });
+          if (targetRef) {
+            tx.update(targetRef, {
+              assignedTo: replaceAssignee(partnerShift, partner, uid),
+              updatedAt: now,
+            });
+          }
+          break;
+        }
+        case "time_off": {
+          const ref = availabilityDoc(orgId, uid);
+          const current = (await tx.get(ref)).data();
+          const exceptions = new Map<string, AvailabilityException>(
+            (current?.exceptions ?? []).map((e: AvailabilityException) => [
+              e.date,
+              e,
+            ]),
+          );
+          for (
+            let date = request.startDate!;
+            date <= request.endDate!;
+            date = addDaysToKey(date, 1)
+          ) {
+            exceptions.set(date, {
+              date,
+              available: false,
+              ...(request.message && { reason: request.message }),
+            });
+          }
+          tx.set(ref, {
+            timeZone: "UTC",
+            weekly: [],
+            ...current,
+            uid,
+            orgId,
+            exceptions: [...exceptions.values()].sort((a, b) =>
+              a.date.localeCompare(b.date),
+            ),
+            updatedAt: now,
+          });
+          break;
+        }
+      }
+    }
+
+    const update = {
+      status: decision.approved ? ("approved" as const) : ("denied" as const),
+      reviewedBy: reviewer.uid,
+      reviewedAt: now,
+      ...(decision.notes && { reviewNotes: decision.notes }),
+      updatedAt: now,
+    };
+    tx.update(requestRef, update);
+    return serializeShiftRequest({ ...request, ...update });
+  });
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { overriddenFields } from "@/lib/shift-templates";
+
+const occurrence = {
+  templateId: "bar-open",
+  start: "2025-06-02T16:00:00.000Z",
+  end: "2025-06-02T22:00:00.000Z",
+  title: "Bar",
+};
+
+describe("overriddenFields", () => {
+  it("should mark the template fields an edit changes", () => {
+    expect(
+      overriddenFields(occurrence, {
+        start: new Date("2025-06-02T17:00:00.000Z"),
+        end: new Date(occurrence.end),
+        title: "Bar",
+        assignedTo: ["alice"],
+      }),
+    ).toEqual(["start"]);
+  });
+
+  it("should keep earlier overrides", () => {
+    expect(
+      overriddenFields(
+        { ...occurrence, overridden: ["notes"] },
+        { title: "Back bar" },
+      ),
+    ).toEqual(["notes", "title"]);
+  });
+
+  it("should ignore shifts not generated from a template", () => {
+    expect(
+      overriddenFields({ ...occurrence, templateId: undefined }, {}),
+    ).toBeUndefined();
+  });
+});
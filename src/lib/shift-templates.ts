@@ -0,0 +1,285 @@
+import {
+  FieldValue,
+  type DocumentData,
+  type DocumentReference,
+} from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import { shiftsCollection, toIsoString } from "@/lib/shifts";
+import { listLockedRanges } from "@/lib/schedule-periods";
+import { hasPermission, type OrgAccess } from "@/lib/permissions";
+import {
+  addDaysToKey,
+  dateKeyInZone,
+  expandOccurrences,
+  occurrenceWindow,
+} from "@/lib/recurrence";
+import type { GenerateShiftsResponse, ShiftTemplate } from "@/lib/types";
+
+// Firestore caps a write batch at 500 operations
+const BATCH_LIMIT = 500;
+
+/**
+ * Thrown when shifts cannot be generated from a template. `status` is the
+ * HTTP status the API should answer with.
+ */
+export class ShiftTemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 403,
+  ) {
+    super(message);
+    this.name = "ShiftTemplateError";
+  }
+}
+
+// Template fields copied onto every generated shift
+const PROPAGATED_FIELDS = [
+  "title",
+  "venueId",
+  "standId",
+  "role",
+  "requiredHeadcount",
+  "notes",
+] as const;
+
+// What an edit to a generated shift can take over from its template; start
+// and end are the occurrence's window
+const OVERRIDABLE_FIELDS: readonly string[] = [
+  ...PROPAGATED_FIELDS,
+  "start",
+  "end",
+];
+
+// A field's value for comparing edits: dates as ISO strings, unset as null
+function comparable(value: unknown) {
+  if (value === undefined || value === null) return null;
+  return JSON.stringify(value instanceof Date ? toIsoString(value) : value);
+}
+
+/**
+ * The template fields a generated shift keeps as edited once `patch` is
+ * applied, or undefined for shifts not generated from a template. Only
+ * fields the patch changes count. Propagation leaves these fields alone.
+ */
+export function overriddenFields(
+  shift: { templateId?: string; overridden?: string[] } & Record<
+    string,
+    unknown
+  >,
+  patch: Record<string, unknown>,
+): string[] | undefined {
+  if (!shift.templateId) return undefined;
+  const edited = Object.keys(patch).filter(
+    (key) =>
+      OVERRIDABLE_FIELDS.includes(key) &&
+      comparable(patch[key]) !== comparable(shift[key]),
+  );
+  return [...new Set([...(shift.overridden ?? []), ...edited])];
+}
+
+export type SerializedShiftTemplate = Omit<
+  ShiftTemplate,
+  "createdAt" | "updatedAt"
+> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function templatesCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/shiftTemplates`);
+}
+
+export function serializeTemplate(data: DocumentData): SerializedShiftTemplate {
+  return {
+    ...(data as SerializedShiftTemplate),
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  };
+}
+
+/**
+ * Generated shifts get a deterministic id so regenerating a range never
+ * duplicates an occurrence, even if the shift was moved to another day.
+ */
+export function generatedShiftId(templateId: string, dateKey: string) {
+  return `${templateId}_${dateKey.replace(/-/g, "")}`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function isLocked(
+  start: Date,
+  lockedRanges: { start: Date; end: Date }[],
+): boolean {
+  return lockedRanges.some(
+    (range) => start >= range.start && start < range.end,
+  );
+}
+
+function templateFields(template: ShiftTemplate) {
+  const fields: Record<string, unknown> = {};
+  for (const key of PROPAGATED_FIELDS) {
+    if (template[key] !== undefined) fields[key] = template[key];
+  }
+  return fields;
+}
+
+/**
+ * Materialize template occurrences between `from` and `to` (inclusive date
+ * keys) as draft shifts. Occurrences that already have a shift or start
+ * inside a locked period are skipped. Callers limited to some venues only
+ * generate their venues' templates, and naming another one is refused.
+ */
+export async function generateShiftsFromTemplates(
+  orgId: string,
+  options: { from: string; to: string; templateIds?: string[] },
+  access: OrgAccess,
+): Promise<GenerateShiftsResponse> {
+  const templateSnaps = options.templateIds?.length
+    ? await adminDb().getAll(
+        ...options.templateIds.map((id) => templatesCollection(orgId).doc(id)),
+      )
+    : (await templatesCollection(orgId).where("active", "==", true).get()).docs;
+  const selected = templateSnaps
+    .filter((snap) => snap.exists && snap.data()?.active !== false)
+    .map((snap) => ({ ...snap.data(), id: snap.id }) as ShiftTemplate);
+  const templates = selected.filter((template) =>
+    hasPermission(access, "schedule.edit", template.venueId ?? null),
+  );
+  if (options.templateIds?.length && templates.length < selected.length) {
+    throw new ShiftTemplateError(
+      "You can only generate shifts at your venues",
+      403,
+    );
+  }
+
+  const candidates: { ref: DocumentReference; data: DocumentData }[] = [];
+  const now = new Date();
+  for (const template of templates) {
+    for (const dateKey of expandOccurrences(
+      template.recurrence,
+      options.from,
+      options.to,
+    )) {
+      const { start, end } = occurrenceWindow(template, dateKey);
+      const id = generatedShiftId(template.id, dateKey);
+      candidates.push({
+        ref: shiftsCollection(orgId).doc(id),
+        data: {
+          ...templateFields(template),
+          id,
+          orgId,
+          start,
+          end,
+          assignedTo: [],
+          templateId: template.id,
+          occurrenceDate: dateKey,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+    }
+  }
+  if (candidates.length === 0) return { created: [], skipped: 0 };
+
+  // Pad the range by a day each side to cover time zone offsets
+  const lockedRanges = await listLockedRanges(
+    orgId,
+    new Date(`${addDaysToKey(options.from, -1)}T00:00:00Z`),
+    new Date(`${addDaysToKey(options.to, 2)}T00:00:00Z`),
+  );
+
+  const created: string[] = [];
+  let skipped = 0;
+  for (const group of chunk(candidates, BATCH_LIMIT)) {
+    const existing = await adminDb().getAll(...group.map((c) => c.ref));
+    const batch = adminDb().batch();
+    group.forEach((candidate, i) => {
+      if (existing[i].exists || isLocked(candidate.data.start, lockedRanges)) {
+        skipped++;
+        return;
+      }
+      batch.create(candidate.ref, candidate.data);
+      created.push(candidate.ref.id);
+    });
+    await batch.commit();
+  }
+
+  return { created, skipped };
+}
+
+/**
+ * Push template changes onto its upcoming generated shifts, except fields a
+ * manager edited on a single occurrence. Shifts on dates
+ * that no longer match the recurrence are removed when nobody is assigned;
+ * assigned ones are left for a manager to resolve. Shifts in locked periods
+ * are never touched. Pass `template: null` to clear out a deleted series.
+ */
+export async function propagateTemplate(
+  orgId: string,
+  templateId: string,
+  template: ShiftTemplate | null,
+): Promise<{ updated: number; removed: number }> {
+  const today = dateKeyInZone(new Date(), template?.timeZone || "UTC");
+  const snapshot = await shiftsCollection(orgId)
+    .where("templateId", "==", templateId)
+    .where("occurrenceDate", ">=", today)
+    .get();
+  if (snapshot.empty) return { updated: 0, removed: 0 };
+
+  const lastDate = snapshot.docs
+    .map((d) => d.data().occurrenceDate as string)
+    .reduce((a, b) => (a > b ? a : b));
+  const lockedRanges = await listLockedRanges(
+    orgId,
+    new Date(`${addDaysToKey(today, -1)}T00:00:00Z`),
+    new Date(`${addDaysToKey(lastDate, 2)}T00:00:00Z`),
+  );
+
+  const now = new Date();
+  let updated = 0;
+  let removed = 0;
+  for (const group of chunk(snapshot.docs, BATCH_LIMIT)) {
+    const batch = adminDb().batch();
+    for (const doc of group) {
+      const shift = doc.data();
+      if (isLocked(new Date(toIsoString(shift.start)), lockedRanges)) continue;
+
+      const dateKey: string = shift.occurrenceDate;
+      const stillScheduled =
+        !!template &&
+        template.active !== false &&
+        expandOccurrences(template.recurrence, dateKey, dateKey).length > 0;
+
+      if (!template || !stillScheduled) {
+        if (!shift.assignedTo?.length) {
+          batch.delete(doc.ref);
+          removed++;
+        }
+        continue;
+      }
+
+      const overridden: string[] = shift.overridden ?? [];
+      const moved = overridden.includes("start") || overridden.includes("end");
+      const patch: Record<string, unknown> = {
+        ...(!moved && occurrenceWindow(template, dateKey)),
+        updatedAt: now,
+      };
+      for (const key of PROPAGATED_FIELDS) {
+        if (overridden.includes(key)) continue;
+        patch[key] = template[key] ?? FieldValue.delete();
+      }
+      batch.update(doc.ref, patch);
+      updated++;
+    }
+    await batch.commit();
+  }
+
+  return { updated, removed };
+}
@@ -0,0 +1,101 @@
+import type { DocumentData, Query } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import type {
+  SerializedShift,
+  ShiftListQuery,
+  ShiftListResponse,
+} from "@/lib/types";
+
+/**
+ * Thrown when a list cursor does not reference an existing shift.
+ */
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid cursor: ${cursor}`);
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * Convert a Firestore Timestamp, Date or string into an ISO string.
+ */
+export function toIsoString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (
+    value &&
+    typeof value === "object" &&
+    "toDate" in value &&
+    typeof (value as { toDate: unknown }).toDate === "function"
+  ) {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  if (typeof value === "string" || typeof value === "number") {
+    return new Date(value).toISOString();
+  }
+  return new Date(0).toISOString();
+}
+
+/**
+ * Shape a shift document for JSON responses.
+ */
+export function serializeShift(data: DocumentData): SerializedShift {
+  // Published copies carry bookkeeping fields that are not part of a shift
+  const { periodId: _periodId, publishedAt: _publishedAt, ...shift } = data;
+  return {
+    ...(shift as Omit<SerializedShift, "start" | "end">),
+    start: toIsoString(data.start),
+    end: toIsoString(data.end),
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  };
+}
+
+export function shiftsCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/shifts`);
+}
+
+/** Copies of shifts as of their period's last publish (employee-visible). */
+export function publishedShiftsCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/publishedShifts`);
+}
+
+/**
+ * List shifts for an org ordered by start time. Range filters apply to the
+ * shift start; pagination resumes after the shift id given as cursor.
+ * With `published` set, reads the published copies instead of the drafts.
+ */
+export async function listShifts(
+  orgId: string,
+  query: ShiftListQuery,
+  options: { published?: boolean } = {},
+): Promise<ShiftListResponse> {
+  const collection = options.published
+    ? publishedShiftsCollection(orgId)
+    : shiftsCollection(orgId);
+  let q: Query = collection;
+
+  if (query.venueId) q = q.where("venueId", "==", query.venueId);
+  if (query.assignee) {
+    q = q.where("assignedTo", "array-contains", query.assignee);
+  }
+  if (query.from) q = q.where("start", ">=", query.from);
+  if (query.to) q = q.where("start", "<", query.to);
+
+  q = q.orderBy("start", "asc");
+
+  if (query.cursor) {
+    const cursorSnap = await collection.doc(query.cursor).get();
+    if (!cursorSnap.exists) throw new InvalidCursorError(query.cursor);
+    q = q.startAfter(cursorSnap);
+  }
+
+  // Fetch one extra document to know whether another page exists
+  const snapshot = await q.limit(query.limit + 1).get();
+  const docs = snapshot.docs.slice(0, query.limit);
+  const hasMore = snapshot.docs.length > query.limit;
+
+  return {
+    shifts: docs.map((d) => serializeShift({ ...d.data(), id: d.id })),
+    nextCursor: hasMore ? docs[docs.length - 1].id : null,
+  };
+}
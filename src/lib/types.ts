@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { ClaimsDrift } from "../../functions/src/lib/claims";
 
 // User data model
 export const UserSchema = z.object({
@@ -20,6 +21,11 @@ export const OrganizationSchema = z.object({
   description: z.string().optional(),
   ownerUid: z.string(),
   isPublic: z.boolean().default(false), // For org directory
+  parentId: z.string().optional(), // Set when the org accepts a parent's link invite
+  timeZone: z // Local calendar for ledger periods unless a contract sets one
+    .string()
+    .refine(isValidTimeZone, { message: "Unknown time zone" })
+    .optional(),
   settings: z
     .object({
       allowPublicJoinRequests: z.boolean().default(true),
@@ -33,19 +39,96 @@ export const OrganizationSchema = z.object({
 
 export type Organization = z.infer<typeof OrganizationSchema>;
 
+// What a member may do in an org. Built-in roles grant fixed sets (see
+// src/lib/permissions.ts); custom roles under orgs/{orgId}/roles list theirs.
+// Every member can clock in, request changes and edit their own availability.
+export const PermissionSchema = z.enum([
+  "schedule.edit", // Draft shifts, templates, publishing and locking periods
+  "attendance.approve", // Timesheets: correct and approve punches
+  "requests.review", // Swap/drop requests and open shift claims
+  "availability.view", // Other members' availability
+  "invites.manage", // Invite codes and join requests
+  "members.manage", // Member roles, positions and venue scopes
+  "roles.manage", // Custom roles
+  "org.manage", // Org settings and the parent link
+  "audit.view", // The org's audit log and its export
+]);
+
+export type Permission = z.infer<typeof PermissionSchema>;
+
+export const BuiltInRoleSchema = z.enum(["admin", "manager", "employee"]);
+
+export type BuiltInRole = z.infer<typeof BuiltInRoleSchema>;
+
+// A built-in role name or a custom role's id
+export const RoleIdSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9-]{0,39}$/, "Invalid role id");
+
+export const OrgRoleSchema = z.object({
+  id: RoleIdSchema,
+  name: z.string().trim().min(1, "Role name is required").max(60),
+  description: z.string().max(500).optional(),
+  permissions: z.array(PermissionSchema),
+  builtIn: z.boolean().default(false),
+  createdBy: z.string().optional(),
+  createdAt: z.number().optional(),
+  updatedAt: z.number().optional(),
+});
+
+export type OrgRole = z.infer<typeof OrgRoleSchema>;
+
+export const CreateOrgRoleSchema = OrgRoleSchema.pick({
+  id: true,
+  name: true,
+  description: true,
+  permissions: true,
+}).refine((role) => !BuiltInRoleSchema.safeParse(role.id).success, {
+  message: "Built-in roles cannot be redefined",
+  path: ["id"],
+});
+
+export const UpdateOrgRoleSchema = OrgRoleSchema.pick({
+  name: true,
+  description: true,
+  permissions: true,
+}).partial();
+
 // Organization member data model
 export const OrgMemberSchema = z.object({
   uid: z.string(),
   orgId: z.string(),
-  role: z.enum(["admin", "manager", "employee"]),
+  role: RoleIdSchema,
+  venueIds: z.array(z.string()).optional(), // Limits the role to these venues; unset means all
   joinedAt: z.date(),
   addedBy: z.string(),
   displayName: z.string().optional(),
   email: z.string().email().optional(),
+  positions: z.array(z.string()).optional(), // Shift roles they can staff; unset means any
+  suspended: z.boolean().optional(), // Kept with their history but no access
+  suspendedAt: z.date().optional(),
+  suspendedBy: z.string().optional(),
 });
 
 export type OrgMember = z.infer<typeof OrgMemberSchema>;
 
+export const UpdateOrgMemberSchema = z
+  .object({
+    role: RoleIdSchema,
+    venueIds: z.array(z.string().min(1)).nullable(), // null lifts the venue limit
+    suspended: z.boolean(),
+  })
+  .partial()
+  .refine((patch) => Object.keys(patch).length > 0, {
+    message: "Nothing to update",
+  });
+
+export type UpdateOrgMember = z.infer<typeof UpdateOrgMemberSchema>;
+
+export const TransferOwnershipSchema = z.object({
+  uid: z.string().min(1, "Choose the new owner"),
+});
+
 // Invite code data model
 export const InviteCodeSchema = z.object({
   code: z.string(),
@@ -56,7 +139,7 @@ export const InviteCodeSchema = z.object({
   maxUses: z.number().optional(), // null for unlimited
   currentUses: z.number().default(0),
   isActive: z.boolean().default(true),
-  role: z.enum(["admin", "manager", "employee"]).default("employee"),
+  role: RoleIdSchema.default("employee"),
   notes: z.string().optional(),
 });
 
@@ -86,14 +169,31 @@ export const CustomClaimsSchema = z.object({
   admin: z.boolean().optional(), // Global admin flag
   orgRole: z.string().optional(), // Role in primary org
   orgRoles: z.record(z.string(), z.string()).optional(), // Role per org { orgId: role }
+  parentAdmin: z.boolean().optional(), // Administers the parent below
+  parentId: z.string().optional(), // Parent org whose ledgers the user can see
 });
 
 export type CustomClaims = z.infer<typeof CustomClaimsSchema>;
 
+// Where a user's claims disagree with their member docs, which win. The
+// claims reconciliation job in functions/ repairs these.
+export type { ClaimsDrift };
+
+// A member's claims as seen from one org. Drift in the user's other orgs
+// is left out.
+export interface MemberClaimsAudit {
+  uid: string;
+  orgId: string;
+  memberRole: string | null; // null when there is no member doc
+  claimedRole: string | null; // orgRoles[orgId]
+  primary: boolean; // The claims' primary org is this one
+  drift: ClaimsDrift[];
+}
+
 // API request/response schemas
 export const CreateInviteRequestSchema = z.object({
   orgId: z.string(),
-  role: z.enum(["admin", "manager", "employee"]).default("employee"),
+  role: RoleIdSchema.default("employee"),
   expiresIn: z.number().optional(), // Days from now
   maxUses: z.number().optional(),
   notes: z.string().optional(),
@@ -112,7 +212,7 @@ export const RequestAccessSchema = z.object({
 export const ApproveRequestSchema = z.object({
   requestId: z.string(),
   approved: z.boolean(),
-  role: z.enum(["admin", "manager", "employee"]).default("employee"),
+  role: RoleIdSchema.default("employee"),
   notes: z.string().optional(),
   orgId: z.string().optional(),
 });
@@ -121,6 +221,33 @@ export const SwitchOrgRequestSchema = z.object({
   orgId: z.string(),
 });
 
+// Every API error answers with this envelope. `code` is stable for clients
+// to branch on; `message` is for people; `details` carries zod issues for
+// validation errors.
+export const ApiErrorCodeSchema = z.enum([
+  "bad-request",
+  "validation-error",
+  "unauthenticated",
+  "invalid-session",
+  "email-unverified",
+  "forbidden",
+  "forbidden-origin",
+  "csrf-failed",
+  "not-found",
+  "conflict",
+  "internal",
+]);
+
+export type ApiErrorCode = z.infer<typeof ApiErrorCodeSchema>;
+
+export const ApiErrorBodySchema = z.object({
+  code: ApiErrorCodeSchema,
+  message: z.string(),
+  details: z.unknown().optional(),
+});
+
+export type ApiErrorBody = z.infer<typeof ApiErrorBodySchema>;
+
 // API response types
 export interface CreateInviteResponse {
   success: boolean;
@@ -131,7 +258,25 @@ export interface CreateInviteResponse {
     expiresAt?: string;
     maxUses?: number;
   };
-  error?: string;
+}
+
+// Active invite as listed by /api/invites/list
+export interface SerializedInvite {
+  code: string;
+  shortCode: string;
+  role: string;
+  expiresAt: string | undefined;
+  maxUses: number;
+  currentUses: number;
+  createdAt: string | undefined;
+  isActive: boolean;
+  notes?: string;
+  qrCodeUrl?: string;
+}
+
+export interface ListInvitesResponse {
+  success: boolean;
+  invites?: SerializedInvite[];
 }
 
 export interface AuthMeResponse {
@@ -151,7 +296,6 @@ export interface JoinOrgResponse {
   orgId?: string;
   orgName?: string;
   role?: string;
-  error?: string;
 }
 
 export interface OrgSearchResponse {
@@ -163,7 +307,6 @@ export interface OrgSearchResponse {
     memberCount: number;
     allowsRequests: boolean;
   }>;
-  error?: string;
 }
 
 // Utility functions for validation
@@ -204,6 +347,13 @@ export const ShiftSchema = z.object({
   title: z.string().optional(),
   assignedTo: z.array(z.string()).optional(), // Array of user UIDs
   notes: z.string().optional(),
+  role: z.string().optional(), // Role/position the shift is staffed for
+  requiredHeadcount: z.number().int().min(1).optional(),
+  openSlots: z.number().int().min(0).max(50).optional(), // Slots members can claim
+  claimRequiresApproval: z.boolean().optional(), // Claims wait for a manager
+  templateId: z.string().optional(), // Set on shifts generated from a template
+  occurrenceDate: z.string().optional(), // Template occurrence, "yyyy-MM-dd"
+  overridden: z.array(z.string()).optional(), // Template fields edited on this occurrence
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -235,3 +385,967 @@ export const StandSchema = z.object({
 });
 
 export type Stand = z.infer<typeof StandSchema>;
+
+// Venue and stand API schemas
+export const VenueInputSchema = VenueSchema.pick({
+  name: true,
+  description: true,
+  address: true,
+}).extend({ name: z.string().trim().min(1, "Venue name is required") });
+
+export const UpdateVenueSchema = VenueInputSchema.partial().refine(
+  (patch) => Object.keys(patch).length > 0,
+  { message: "No fields to update" },
+);
+
+export const StandInputSchema = StandSchema.pick({
+  name: true,
+  description: true,
+}).extend({ name: z.string().trim().min(1, "Stand name is required") });
+
+export const UpdateStandSchema = StandInputSchema.partial().refine(
+  (patch) => Object.keys(patch).length > 0,
+  { message: "No fields to update" },
+);
+
+export type SerializedStand = Omit<Stand, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Venues are listed with their stands so pickers need a single request
+export type SerializedVenue = Omit<Venue, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+  stands: SerializedStand[];
+};
+
+// Shift API schemas. JSON bodies and query strings carry dates as strings,
+// so the API variants coerce them before validation.
+export const ShiftInputSchema = ShiftSchema.omit({
+  id: true,
+  orgId: true,
+  templateId: true,
+  occurrenceDate: true,
+  overridden: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  start: z.coerce.date(),
+  end: z.coerce.date(),
+});
+
+export const CreateShiftSchema = ShiftInputSchema.refine(
+  (shift) => shift.end > shift.start,
+  { message: "Shift end must be after start", path: ["end"] },
+);
+
+export const UpdateShiftSchema = ShiftInputSchema.partial().refine(
+  (patch) => Object.keys(patch).length > 0,
+  { message: "No fields to update" },
+);
+
+export const ShiftListQuerySchema = z.object({
+  from: z.coerce.date().optional(), // Inclusive lower bound on shift start
+  to: z.coerce.date().optional(), // Exclusive upper bound on shift start
+  venueId: z.string().min(1).optional(),
+  assignee: z.string().min(1).optional(), // UID in assignedTo
+  cursor: z.string().min(1).optional(), // Shift id to resume after
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type ShiftListQuery = z.infer<typeof ShiftListQuerySchema>;
+
+// Shift as returned by the API (dates serialized as ISO strings)
+export type SerializedShift = Omit<
+  Shift,
+  "start" | "end" | "createdAt" | "updatedAt"
+> & {
+  start: string;
+  end: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface ShiftListResponse {
+  shifts: SerializedShift[];
+  nextCursor: string | null;
+}
+
+// Schedule period (one week of shifts) and its publish lifecycle:
+// draft -> published -> locked. Employees only see published copies.
+export const SchedulePeriodStatusSchema = z.enum([
+  "draft",
+  "published",
+  "locked",
+]);
+
+export type SchedulePeriodStatus = z.infer<typeof SchedulePeriodStatusSchema>;
+
+export const SchedulePeriodSchema = z.object({
+  id: z.string(), // Week key: local date of the first day, e.g. "2025-06-02"
+  orgId: z.string(),
+  start: z.date(),
+  end: z.date(),
+  status: SchedulePeriodStatusSchema.default("draft"),
+  version: z.number().default(0), // Incremented on every publish
+  publishedAt: z.date().optional(),
+  publishedBy: z.string().optional(),
+  lockedAt: z.date().optional(),
+  lockedBy: z.string().optional(),
+  updatedAt: z.date(),
+});
+
+export type SchedulePeriod = z.infer<typeof SchedulePeriodSchema>;
+
+export const SchedulePeriodRangeSchema = z
+  .object({
+    start: z.coerce.date(),
+    end: z.coerce.date(),
+  })
+  .refine((range) => range.end > range.start, {
+    message: "Period end must be after start",
+    path: ["end"],
+  });
+
+export type SerializedSchedulePeriod = Omit<
+  SchedulePeriod,
+  "start" | "end" | "publishedAt" | "lockedAt" | "updatedAt"
+> & {
+  start: string;
+  end: string;
+  publishedAt?: string;
+  lockedAt?: string;
+  updatedAt?: string;
+};
+
+export interface ScheduleDiff {
+  added: SerializedShift[];
+  removed: SerializedShift[];
+  changed: Array<{
+    before: SerializedShift;
+    after: SerializedShift;
+    fields: string[];
+  }>;
+}
+
+export interface SchedulePeriodResponse {
+  period: SerializedSchedulePeriod;
+  diff?: ScheduleDiff; // Only returned to admins and managers
+}
+
+// Recurring shift templates. Recurrence mirrors the RRULE fields we support
+// (FREQ, INTERVAL, BYDAY, DTSTART, UNTIL, COUNT) with dates as "yyyy-MM-dd"
+// in the template's time zone.
+export const DateKeySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a yyyy-MM-dd date");
+
+export const TimeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a HH:mm time");
+
+export const WeekdaySchema = z.enum(["MO", "TU", "WE", "TH", "FR", "SA", "SU"]);
+
+export type Weekday = z.infer<typeof WeekdaySchema>;
+
+export const RecurrenceRuleSchema = z.object({
+  freq: z.enum(["DAILY", "WEEKLY"]),
+  interval: z.number().int().min(1).default(1),
+  byDay: z.array(WeekdaySchema).optional(), // WEEKLY only; defaults to dtstart's weekday
+  dtstart: DateKeySchema,
+  until: DateKeySchema.optional(), // Inclusive
+  count: z.number().int().min(1).optional(),
+});
+
+export type RecurrenceRule = z.infer<typeof RecurrenceRuleSchema>;
+
+export const ShiftTemplateSchema = z.object({
+  id: z.string(),
+  orgId: z.string(),
+  title: z.string().min(1, "Template title is required"),
+  venueId: z.string().optional(),
+  standId: z.string().optional(),
+  role: z.string().optional(),
+  requiredHeadcount: z.number().int().min(1).default(1),
+  startTime: TimeOfDaySchema,
+  endTime: TimeOfDaySchema, // At or before startTime means the shift ends next day
+  timeZone: z
+    .string()
+    .default("UTC")
+    .refine(isValidTimeZone, { message: "Unknown time zone" }),
+  recurrence: RecurrenceRuleSchema,
+  notes: z.string().optional(),
+  active: z.boolean().default(true),
+  createdBy: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ShiftTemplate = z.infer<typeof ShiftTemplateSchema>;
+
+export const ShiftTemplateInputSchema = ShiftTemplateSchema.omit({
+  id: true,
+  orgId: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Defaults are dropped so a partial update never resets omitted fields
+export const UpdateShiftTemplateSchema = ShiftTemplateInputSchema.extend({
+  requiredHeadcount: z.number().int().min(1),
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Unknown time zone" }),
+  active: z.boolean(),
+}).partial();
+
+export const GenerateShiftsRequestSchema = z
+  .object({
+    from: DateKeySchema,
+    to: DateKeySchema, // Inclusive
+    templateIds: z.array(z.string()).optional(), // Defaults to all active templates
+  })
+  .refine((range) => range.from <= range.to, {
+    message: "Range end must not be before start",
+    path: ["to"],
+  });
+
+export interface GenerateShiftsResponse {
+  created: string[]; // Shift ids
+  skipped: number; // Occurrences that already had a shift or fall in a locked period
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Member availability. Weekly windows repeat every week in the member's time
+// zone; exceptions override a single date (unavailable = time off).
+export const AvailabilityWindowSchema = z.object({
+  start: TimeOfDaySchema,
+  end: TimeOfDaySchema, // At or before start means the window ends next day
+});
+
+export const WeeklyAvailabilityWindowSchema = AvailabilityWindowSchema.extend({
+  day: WeekdaySchema,
+});
+
+export const AvailabilityExceptionSchema = z.object({
+  date: DateKeySchema,
+  available: z.boolean(),
+  windows: z.array(AvailabilityWindowSchema).optional(), // Replaces weekly windows when available
+  reason: z.string().optional(),
+});
+
+export const AvailabilitySchema = z.object({
+  uid: z.string(),
+  orgId: z.string(),
+  timeZone: z
+    .string()
+    .default("UTC")
+    .refine(isValidTimeZone, { message: "Unknown time zone" }),
+  weekly: z.array(WeeklyAvailabilityWindowSchema).default([]), // Empty means no weekly restriction
+  exceptions: z.array(AvailabilityExceptionSchema).default([]),
+  maxHoursPerWeek: z.number().min(0).max(168).optional(),
+  updatedAt: z.date(),
+});
+
+export type AvailabilityWindow = z.infer<typeof AvailabilityWindowSchema>;
+export type AvailabilityException = z.infer<typeof AvailabilityExceptionSchema>;
+export type Availability = z.infer<typeof AvailabilitySchema>;
+
+export const AvailabilityInputSchema = AvailabilitySchema.omit({
+  uid: true,
+  orgId: true,
+  updatedAt: true,
+}).refine(
+  (value) =>
+    new Set(value.exceptions.map((e) => e.date)).size ===
+    value.exceptions.length,
+  { message: "Only one exception per date is allowed", path: ["exceptions"] },
+);
+
+export type SerializedAvailability = Omit<Availability, "updatedAt"> & {
+  updatedAt?: string; // Missing until the member first saves availability
+};
+
+// Structured schedule conflicts produced by src/lib/conflicts.ts
+export type ConflictType =
+  | "overlap"
+  | "outside_availability"
+  | "time_off"
+  | "rest_period"
+  | "overtime"
+  | "unfilled";
+
+export interface ScheduleConflict {
+  type: ConflictType;
+  severity: "error" | "warning";
+  shiftIds: string[];
+  uid?: string; // Member the conflict applies to, if any
+  message: string;
+}
+
+export interface ConflictRules {
+  minRestHours: number; // Minimum gap between two shifts of the same member
+  maxWeeklyHours: number; // Default when a member has no maxHoursPerWeek
+  timeZone: string; // Used to bucket hours into Monday-start weeks
+}
+
+export interface ConflictReportResponse {
+  conflicts: ScheduleConflict[];
+  explanation?: { summary: string; details: string[] }; // Optional AI summary
+}
+
+export const ConflictReportQuerySchema = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    timeZone: z
+      .string()
+      .refine(isValidTimeZone, { message: "Unknown time zone" })
+      .optional(),
+    explain: z
+      .enum(["true", "false"])
+      .optional()
+      .transform((v) => v === "true"),
+  })
+  .refine((range) => range.to > range.from, {
+    message: "Range end must be after start",
+    path: ["to"],
+  });
+
+// Shift change requests. Swaps wait for the other member to accept
+// ("awaiting_peer") before they reach managers as "pending".
+export const ShiftRequestTypeSchema = z.enum([
+  "swap",
+  "drop",
+  "pickup",
+  "time_off",
+]);
+
+export const ShiftRequestStatusSchema = z.enum([
+  "awaiting_peer",
+  "pending",
+  "approved",
+  "denied",
+  "declined", // Swap partner said no
+  "cancelled",
+]);
+
+export type ShiftRequestType = z.infer<typeof ShiftRequestTypeSchema>;
+export type ShiftRequestStatus = z.infer<typeof ShiftRequestStatusSchema>;
+
+export const ShiftRequestSchema = z.object({
+  id: z.string(),
+  orgId: z.string(),
+  type: ShiftRequestTypeSchema,
+  status: ShiftRequestStatusSchema,
+  requestedBy: z.string(),
+  shiftId: z.string().optional(), // swap, drop and pickup
+  targetUid: z.string().optional(), // swap partner
+  targetShiftId: z.string().optional(), // Partner's shift for a two-way swap
+  startDate: z.string().optional(), // time_off, "yyyy-MM-dd" inclusive
+  endDate: z.string().optional(),
+  message: z.string().optional(),
+  respondedAt: z.date().optional(), // Swap partner's answer
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.date().optional(),
+  reviewNotes: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ShiftRequest = z.infer<typeof ShiftRequestSchema>;
+
+const MAX_TIME_OFF_DAYS = 60;
+
+export const CreateShiftRequestSchema = z
+  .discriminatedUnion("type", [
+    z.object({
+      type: z.literal("swap"),
+      shiftId: z.string().min(1),
+      targetUid: z.string().min(1),
+      targetShiftId: z.string().min(1).optional(), // Omit to just hand the shift over
+      message: z.string().max(500).optional(),
+    }),
+    z.object({
+      type: z.literal("drop"),
+      shiftId: z.string().min(1),
+      message: z.string().max(500).optional(),
+    }),
+    z.object({
+      type: z.literal("pickup"),
+      shiftId: z.string().min(1),
+      message: z.string().max(500).optional(),
+    }),
+    z.object({
+      type: z.literal("time_off"),
+      startDate: DateKeySchema,
+      endDate: DateKeySchema,
+      message: z.string().max(500).optional(),
+    }),
+  ])
+  .superRefine((value, ctx) => {
+    if (value.type !== "time_off") return;
+    const days =
+      (Date.parse(value.endDate) - Date.parse(value.startDate)) / 86400000;
+    if (days < 0) {
+      ctx.addIssue({
+        code: "custom",
+        message: "End date must not be before start date",
+        path: ["endDate"],
+      });
+    } else if (days >= MAX_TIME_OFF_DAYS) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Time off cannot exceed ${MAX_TIME_OFF_DAYS} days`,
+        path: ["endDate"],
+      });
+    }
+  });
+
+export type CreateShiftRequest = z.infer<typeof CreateShiftRequestSchema>;
+
+export const ShiftRequestListQuerySchema = z.object({
+  status: ShiftRequestStatusSchema.optional(),
+});
+
+export const RespondToSwapSchema = z.object({
+  accept: z.boolean(),
+});
+
+export const ReviewShiftRequestSchema = z.object({
+  approved: z.boolean(),
+  notes: z.string().max(500).optional(),
+});
+
+export type SerializedShiftRequest = Omit<
+  ShiftRequest,
+  "respondedAt" | "reviewedAt" | "createdAt" | "updatedAt"
+> & {
+  respondedAt?: string;
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Claims on open shifts. One claim per member and shift, keyed
+// "{shiftId}_{uid}"; approval moves the member into assignedTo.
+export const ShiftClaimStatusSchema = z.enum([
+  "pending",
+  "approved",
+  "rejected",
+]);
+
+export type ShiftClaimStatus = z.infer<typeof ShiftClaimStatusSchema>;
+
+export const ShiftClaimSchema = z.object({
+  id: z.string(),
+  orgId: z.string(),
+  shiftId: z.string(),
+  uid: z.string(),
+  status: ShiftClaimStatusSchema,
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ShiftClaim = z.infer<typeof ShiftClaimSchema>;
+
+export const ReviewShiftClaimSchema = z.object({
+  approved: z.boolean(),
+});
+
+export type SerializedShiftClaim = Omit<
+  ShiftClaim,
+  "reviewedAt" | "createdAt" | "updatedAt"
+> & {
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Open shift as listed in the marketplace for the viewing member
+export type OpenShift = SerializedShift & {
+  ineligibleReason?: string; // Why the viewer cannot claim it, if they can't
+  myClaim?: ShiftClaimStatus;
+  pendingClaims?: SerializedShiftClaim[]; // Managers only
+};
+
+// Time clock punches. Timestamps are epoch milliseconds because the
+// attendance trigger in functions/ reads them as numbers; `clockOut` is null
+// while the member is on the clock.
+export const AttendanceStatusSchema = z.enum([
+  "pending",
+  "approved",
+  "rejected",
+]);
+
+export type AttendanceStatus = z.infer<typeof AttendanceStatusSchema>;
+
+// A manager's edit of the clock times, keeping what was there before
+export const AttendanceCorrectionSchema = z.object({
+  previousClockIn: z.number(),
+  previousClockOut: z.number().nullable(),
+  reason: z.string(),
+  correctedBy: z.string(),
+  correctedAt: z.number(),
+});
+
+export type AttendanceCorrection = z.infer<typeof AttendanceCorrectionSchema>;
+
+export const AttendanceSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(), // Org the punch belongs to
+  staffId: z.string(), // Member UID
+  shiftId: z.string(),
+  venueId: z.string().optional(),
+  standId: z.string().optional(),
+  role: z.string().optional(), // Copied from the shift for contract rates
+  clockIn: z.number(),
+  clockOut: z.number().nullable(),
+  status: AttendanceStatusSchema,
+  corrections: z.array(AttendanceCorrectionSchema).optional(),
+  approvedAt: z.number().optional(),
+  approvedBy: z.string().optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export type Attendance = z.infer<typeof AttendanceSchema>;
+
+export const ClockInSchema = z.object({
+  shiftId: z.string().min(1).optional(), // Defaults to the current shift
+});
+
+export type SerializedAttendance = Omit<
+  Attendance,
+  "clockIn" | "clockOut" | "approvedAt" | "createdAt" | "updatedAt"
+> & {
+  clockIn: string;
+  clockOut: string | null;
+  approvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface TimeClockState {
+  openPunch: SerializedAttendance | null; // Punch still on the clock
+  shift: SerializedShift | null; // Shift the member can clock in to now
+}
+
+export const AttendanceListQuerySchema = z
+  .object({
+    from: z.coerce.date(), // Inclusive lower bound on clock-in
+    to: z.coerce.date(), // Exclusive upper bound on clock-in
+    status: AttendanceStatusSchema.default("pending"),
+  })
+  .refine((q) => q.to > q.from, {
+    message: "Range end must be after start",
+    path: ["to"],
+  });
+
+export const CorrectAttendanceSchema = z
+  .object({
+    clockIn: z.coerce.date().optional(),
+    clockOut: z.coerce.date().optional(),
+    reason: z.string().trim().min(3).max(500),
+  })
+  .refine((c) => c.clockIn || c.clockOut, {
+    message: "Nothing to correct",
+  });
+
+export const ApproveAttendanceSchema = z.object({
+  ids: z.array(z.string().min(1)).min(1).max(200),
+});
+
+// Minutes between actual and scheduled times; positive means later/longer
+export interface AttendanceVariance {
+  clockInMinutes: number;
+  clockOutMinutes: number | null; // null while still on the clock
+  workedMinutes: number | null;
+  scheduledMinutes: number;
+}
+
+export type TimesheetRow = SerializedAttendance & {
+  shift: SerializedShift | null; // Scheduled (published) shift, if it still exists
+  variance: AttendanceVariance | null;
+};
+
+export interface ApproveAttendanceResponse {
+  approved: string[];
+  skipped: { id: string; reason: string }[];
+}
+
+// Parent ledgers, one per billing period, written by the attendance trigger
+// in functions/. Closing a period freezes its lines and snapshots totals;
+// lines for it that arrive later are booked to the next open period.
+export const LedgerPeriodStatusSchema = z.enum(["open", "closed", "invoiced"]);
+
+export type LedgerPeriodStatus = z.infer<typeof LedgerPeriodStatusSchema>;
+
+// Priced part of a ledger line; the line amount is the sum of its components
+export interface LedgerLineComponent {
+  kind: "regular" | "overtime" | "premium";
+  hours: number;
+  rate: number;
+  amount: number;
+}
+
+export interface LedgerLine {
+  parentId: string;
+  subOrgId: string;
+  staffRef: string;
+  venueId: string | null;
+  periodId: string;
+  hours: number;
+  billRate: number;
+  amount: number;
+  components?: LedgerLineComponent[]; // Missing on lines booked before itemizing
+  kind: "original" | "reversal" | "adjustment";
+  revision: number;
+  sourceAttendanceId: string;
+  originalPeriodId?: string; // Set on lines carried over from a closed period
+  createdAt: number;
+}
+
+export interface LedgerTotals {
+  hours: number;
+  amount: number;
+  lines: number;
+}
+
+export interface LedgerSummary {
+  totals: LedgerTotals;
+  bySubOrg: Record<string, LedgerTotals>;
+  byVenue: Record<string, LedgerTotals>; // Lines without a venue under "none"
+  byStaff: Record<string, LedgerTotals>;
+}
+
+export interface LedgerPeriod {
+  parentId: string;
+  periodId: string;
+  status: LedgerPeriodStatus;
+  summary?: LedgerSummary; // Snapshot taken when the period closed
+  closedAt?: number;
+  closedBy?: string;
+  invoiceNumber?: string;
+  invoicedAt?: number;
+  invoicedBy?: string;
+  createdAt?: number;
+}
+
+// What the parent is billed for a period; never changes once issued
+export interface LedgerInvoice {
+  parentId: string;
+  periodId: string;
+  invoiceNumber: string;
+  summary: LedgerSummary;
+  issuedAt: number;
+  issuedBy: string;
+}
+
+const PeriodIdSchema = z
+  .string()
+  .regex(/^\d{4}-(M|W|BW)\d{2}$/, "Invalid period id");
+
+export const ParentQuerySchema = z.object({
+  parentId: z.string().min(1),
+});
+
+export const LedgerPeriodRefSchema = z.object({
+  parentId: z.string().min(1),
+  periodId: PeriodIdSchema,
+});
+
+export const LedgerExportFormatSchema = z.enum([
+  "csv", // Raw lines
+  "json",
+  "xlsx",
+  "summary", // Totals per period and sub-org
+  "iif", // QuickBooks bills, one per period and sub-org
+]);
+
+export type LedgerExportFormat = z.infer<typeof LedgerExportFormatSchema>;
+
+// One period, or an inclusive range of periods of the same length
+export const LedgerExportQuerySchema = z
+  .object({
+    parentId: z.string().min(1),
+    periodId: PeriodIdSchema.optional(),
+    from: PeriodIdSchema.optional(),
+    to: PeriodIdSchema.optional(),
+    format: LedgerExportFormatSchema.default("csv"),
+  })
+  .transform(({ periodId, from, to, ...rest }) => ({
+    ...rest,
+    from: from ?? periodId ?? "",
+    to: to ?? periodId ?? "",
+  }))
+  .refine((q) => q.from && q.to, {
+    message: "periodId or from and to are required",
+  })
+  .refine(
+    (q) =>
+      q.from.replace(/\d/g, "") === q.to.replace(/\d/g, "") && q.from <= q.to,
+    {
+      message: "Range must cover periods of one length in order",
+      path: ["to"],
+    },
+  );
+
+export type LedgerExportQuery = z.infer<typeof LedgerExportQuerySchema>;
+
+// Billing terms between a parent and one sub-org. Each change is a new
+// version under parents/{parentId}/contracts/{subOrgId}/versions that takes
+// effect from a local date, and the ledger trigger bills attendance under
+// the version in force on its clock-in date.
+export const ContractTermsSchema = z.object({
+  billRate: z.number().positive(),
+  rounding: z.enum(["nearest-15", "nearest-5", "none"]).default("none"),
+  period: z.enum(["weekly", "biweekly", "monthly"]).default("biweekly"),
+  timeZone: z // Defaults to the sub-org's zone
+    .string()
+    .refine(isValidTimeZone, { message: "Unknown time zone" })
+    .optional(),
+  weekStartsOn: z.number().int().min(0).max(6).optional(), // 0 = Sunday
+  biweeklyAnchor: DateKeySchema.optional(),
+  overtime: z
+    .object({
+      weeklyThresholdHours: z.number().positive(),
+      multiplier: z.number().positive(),
+    })
+    .optional(),
+  holidayPremium: z
+    .object({
+      dates: z.array(DateKeySchema),
+      multiplier: z.number().positive(),
+    })
+    .optional(),
+  rateOverrides: z
+    .array(
+      z
+        .object({
+          venueId: z.string().min(1).optional(),
+          role: z.string().min(1).optional(),
+          billRate: z.number().positive(),
+        })
+        .refine((o) => o.venueId || o.role, {
+          message: "An override needs a venue, a role or both",
+        }),
+    )
+    .optional(),
+  minimumShiftHours: z.number().positive().optional(),
+});
+
+export type ContractTerms = z.infer<typeof ContractTermsSchema>;
+
+export const CreateContractVersionSchema = ContractTermsSchema.extend({
+  parentId: z.string().min(1),
+  effectiveFrom: DateKeySchema, // Local date in the contract's zone
+});
+
+export const RetireContractSchema = z.object({
+  parentId: z.string().min(1),
+  effectiveFrom: DateKeySchema, // First local date with no contract
+});
+
+export interface ContractVersion extends ContractTerms {
+  version: number;
+  effectiveFrom: string;
+  retired?: boolean; // No contract from effectiveFrom until a later version
+  createdAt: number;
+  createdBy: string;
+}
+
+// The contract document mirrors its latest version so readers that predate
+// versioning, and the portal, see the newest terms
+export interface ParentContract extends ContractTerms {
+  parentId: string;
+  subOrgId: string;
+  version?: number; // Missing on contracts written before versioning
+  effectiveFrom?: string;
+  retiredFrom?: string; // Set while the latest version is a retirement
+  updatedAt?: number;
+  updatedBy?: string;
+}
+
+export interface ParentContractHistory {
+  contract: ParentContract;
+  versions: ContractVersion[]; // Newest effective date first
+}
+
+// A parent's invitation for an org to become its sub-org, stored under
+// parents/{parentId}/linkInvites/{orgId}. Accepting links the org and
+// writes the proposed terms as its first contract version.
+export const SubOrgLinkStatusSchema = z.enum([
+  "pending",
+  "accepted",
+  "declined",
+  "unlinked",
+]);
+
+export type SubOrgLinkStatus = z.infer<typeof SubOrgLinkStatusSchema>;
+
+export interface SubOrgLinkInvite {
+  parentId: string;
+  orgId: string;
+  orgName: string | null;
+  status: SubOrgLinkStatus;
+  terms: ContractTerms;
+  effectiveFrom: string;
+  invitedBy: string;
+  createdAt: number;
+  respondedBy?: string;
+  respondedAt?: number;
+  unlinkedBy?: string;
+  unlinkedAt?: number;
+}
+
+export const InviteSubOrgSchema = ContractTermsSchema.extend({
+  parentId: z.string().min(1),
+  orgId: z.string().min(1),
+  effectiveFrom: DateKeySchema,
+});
+
+// A new org created by the parent admin, linked from the start. The
+// contract follows the org's time zone.
+export const CreateSubOrgSchema = ContractTermsSchema.omit({
+  timeZone: true,
+}).extend({
+  parentId: z.string().min(1),
+  name: z.string().trim().min(1, "Organization name is required"),
+  timeZone: z
+    .string()
+    .refine(isValidTimeZone, { message: "Unknown time zone" })
+    .optional(),
+  effectiveFrom: DateKeySchema,
+});
+
+export const RespondToLinkInviteSchema = z.object({
+  action: z.enum(["accept", "decline"]),
+});
+
+export interface OrgParentLink {
+  parentId: string | null;
+  invites: SubOrgLinkInvite[]; // Pending only
+}
+
+export interface ParentSubOrg {
+  orgId: string;
+  name: string | null; // null when the org document is missing
+  linked: boolean; // The org document points at this parent
+  contract: ParentContract | null;
+}
+
+export interface LedgerPeriodDetail {
+  period: LedgerPeriod;
+  summary: LedgerSummary; // Closing snapshot, or live totals while open
+  lines: LedgerLine[];
+  totalLines: number; // `lines` is capped; totals always cover every line
+}
+
+// Privileged actions recorded in an org's append-only audit log,
+// orgs/{orgId}/audit
+export const AuditActionSchema = z.enum([
+  "org.create",
+  "org.update",
+  "org.switch",
+  "org.transfer-ownership",
+  "member.join",
+  "member.update",
+  "member.role-change",
+  "member.suspend",
+  "member.reinstate",
+  "member.remove",
+  "invite.create",
+  "invite.revoke",
+  "join-request.approve",
+  "join-request.reject",
+  "role.create",
+  "role.update",
+  "role.delete",
+  "venue.create",
+  "venue.update",
+  "venue.delete",
+  "stand.create",
+  "stand.update",
+  "stand.delete",
+  "shift.create",
+  "shift.update",
+  "shift.delete",
+  "shift-template.create",
+  "shift-template.update",
+  "shift-template.delete",
+  "shift-template.generate",
+  "schedule-period.publish",
+  "schedule-period.lock",
+  "attendance.update",
+  "attendance.approve",
+  "shift-request.review",
+  "shift-claim.review",
+  "parent.invite",
+  "parent.link",
+  "parent.decline",
+  "parent.unlink",
+  "contract.update",
+  "contract.retire",
+  "ledger.close",
+  "ledger.invoice",
+]);
+
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+
+// A changed field's value before and after, null where it was unset
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  orgId: string;
+  action: AuditAction;
+  actorUid: string;
+  actorEmail: string | null;
+  target: { type: string; id: string };
+  changes: Record<string, AuditChange>;
+  ip: string | null;
+  userAgent: string | null;
+  at: Date;
+}
+
+// Audit entry as returned by the API
+export type SerializedAuditEntry = Omit<AuditEntry, "at"> & { at: string };
+
+export const AuditQuerySchema = z.object({
+  action: AuditActionSchema.optional(),
+  actorUid: z.string().min(1).optional(),
+  from: z.coerce.date().optional(), // Inclusive lower bound on `at`
+  to: z.coerce.date().optional(), // Exclusive upper bound on `at`
+  cursor: z.string().min(1).optional(), // Entry id to resume after
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
+
+export interface AuditListResponse {
+  entries: SerializedAuditEntry[];
+  nextCursor: string | null;
+}
+
+export const AuditExportQuerySchema = AuditQuerySchema.omit({
+  cursor: true,
+  limit: true,
+}).extend({
+  format: z.enum(["csv", "json"]).default("csv"),
+});
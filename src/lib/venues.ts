@@ -0,0 +1,191 @@
+import type { DocumentData, Query } from "firebase-admin/firestore";
+import { adminDb } from "@/lib/firebase.server";
+import { shiftsCollection, toIsoString } from "@/lib/shifts";
+import type {
+  SerializedStand,
+  SerializedVenue,
+  Stand,
+  Venue,
+} from "@/lib/types";
+
+/**
+ * Thrown when a venue or stand cannot be changed. `status` is the HTTP
+ * status the API should answer with.
+ */
+export class VenueError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 404 | 409,
+  ) {
+    super(message);
+    this.name = "VenueError";
+  }
+}
+
+export function venuesCollection(orgId: string) {
+  return adminDb().collection(`orgs/${orgId}/venues`);
+}
+
+export function standsCollection(orgId: string, venueId: string) {
+  return venuesCollection(orgId).doc(venueId).collection("stands");
+}
+
+export function serializeStand(data: DocumentData): SerializedStand {
+  return {
+    ...(data as SerializedStand),
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+  };
+}
+
+export function serializeVenue(
+  data: DocumentData,
+  stands: SerializedStand[] = [],
+): SerializedVenue {
+  return {
+    ...(data as SerializedVenue),
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt),
+    stands,
+  };
+}
+
+const byName = (a: { name: string }, b: { name: string }) =>
+  a.name.localeCompare(b.name);
+
+/**
+ * The org's venues by name, each with its stands by name.
+ */
+export async function listVenues(orgId: string): Promise<SerializedVenue[]> {
+  const snapshot = await venuesCollection(orgId).get();
+  const venues = await Promise.all(
+    snapshot.docs.map(async (d) => {
+      const stands = await d.ref.collection("stands").get();
+      return serializeVenue(
+        { ...d.data(), id: d.id },
+        stands.docs
+          .map((s) => serializeStand({ ...s.data(), id: s.id }))
+          .sort(byName),
+      );
+    }),
+  );
+  return venues.sort(byName);
+}
+
+export async function createVenue(
+  orgId: string,
+  input: Pick<Venue, "name" | "description" | "address">,
+): Promise<SerializedVenue> {
+  const ref = venuesCollection(orgId).doc();
+  const now = new Date();
+  const venue: Venue = {
+    ...input,
+    id: ref.id,
+    orgId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await ref.set(venue);
+  return serializeVenue(venue);
+}
+
+export async function updateVenue(
+  orgId: string,
+  venueId: string,
+  patch: Partial<Pick<Venue, "name" | "description" | "address">>,
+): Promise<SerializedVenue> {
+  const ref = venuesCollection(orgId).doc(venueId);
+  const snap = await ref.get();
+  if (!snap.exists) throw new VenueError("Venue not found", 404);
+  const update = { ...patch, updatedAt: new Date() };
+  await ref.update(update);
+  return serializeVenue({ ...snap.data(), ...update, id: venueId });
+}
+
+// Whether any shift from now on matches `query`
+async function hasUpcomingShifts(query: Query) {
+  const snapshot = await query.where("start", ">=", new Date()).limit(1).get();
+  return !snapshot.empty;
+}
+
+/**
+ * Delete a venue and its stands. Venues with upcoming shifts are kept so
+ * those shifts do not lose their location; past shifts keep the id.
+ */
+export async function deleteVenue(orgId: string, venueId: string) {
+  const ref = venuesCollection(orgId).doc(venueId);
+  const [snap, stands] = await Promise.all([
+    ref.get(),
+    ref.collection("stands").get(),
+  ]);
+  if (!snap.exists) throw new VenueError("Venue not found", 404);
+  if (
+    await hasUpcomingShifts(
+      shiftsCollection(orgId).where("venueId", "==", venueId),
+    )
+  ) {
+    throw new VenueError("Move the venue's upcoming shifts first", 409);
+  }
+
+  const batch = adminDb().batch();
+  stands.docs.forEach((d) => batch.delete(d.ref));
+  batch.delete(ref);
+  await batch.commit();
+}
+
+export async function createStand(
+  orgId: string,
+  venueId: string,
+  input: Pick<Stand, "name" | "description">,
+): Promise<SerializedStand> {
+  const venueRef = venuesCollection(orgId).doc(venueId);
+  if (!(await venueRef.get()).exists) {
+    throw new VenueError("Venue not found", 404);
+  }
+  const ref = venueRef.collection("stands").doc();
+  const now = new Date();
+  const stand: Stand = {
+    ...input,
+    id: ref.id,
+    venueId,
+    orgId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await ref.set(stand);
+  return serializeStand(stand);
+}
+
+export async function updateStand(
+  orgId: string,
+  venueId: string,
+  standId: string,
+  patch: Partial<Pick<Stand, "name" | "description">>,
+): Promise<SerializedStand> {
+  const ref = standsCollection(orgId, venueId).doc(standId);
+  const snap = await ref.get();
+  if (!snap.exists) throw new VenueError("Stand not found", 404);
+  const update = { ...patch, updatedAt: new Date() };
+  await ref.update(update);
+  return serializeStand({ ...snap.data(), ...update, id: standId });
+}
+
+/**
+ * Delete a stand nobody is scheduled at from now on.
+ */
+export async function deleteStand(
+  orgId: string,
+  venueId: string,
+  standId: string,
+) {
+  const ref = standsCollection(orgId, venueId).doc(standId);
+  if (!(await ref.get()).exists) throw new VenueError("Stand not found", 404);
+  if (
+    await hasUpcomingShifts(
+      shiftsCollection(orgId).where("standId", "==", standId),
+    )
+  ) {
+    throw new VenueError("Move the stand's upcoming shifts first", 409);
+  }
+  await ref.delete();
+}
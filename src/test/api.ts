@@ -0,0 +1,24 @@
+import { BUILT_IN_ROLES, type OrgAccess } from "@/lib/permissions";
+import type { BuiltInRole } from "@/lib/types";
+
+// Headers a signed-in browser sends with a mutation from one of our pages,
+// passing withGuard's origin, CSRF and session cookie checks
+export function signedInHeaders(
+  headers: Record<string, string> = {},
+): Record<string, string> {
+  return {
+    origin: "http://localhost:3000",
+    cookie: "__session=session-cookie; XSRF-TOKEN=csrf-token",
+    "x-csrf-token": "csrf-token",
+    ...headers,
+  };
+}
+
+// Access as getOrgAccess resolves it for a built-in role, limited to
+// `venueIds` when given
+export function accessAs(
+  role: BuiltInRole,
+  venueIds: string[] | null = null,
+): OrgAccess {
+  return { role, permissions: BUILT_IN_ROLES[role].permissions, venueIds };
+}
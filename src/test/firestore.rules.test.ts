@@ -171,6 +171,216 @@ describe("Firestore security rules", () => {
         memberCtx.firestore().doc(`orgs/${ORG_ID}/members/bob`).get(),
       );
     });
+
+    it("denies suspended members access to the org", async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context
+          .firestore()
+          .doc(`orgs/${ORG_ID}/members/bob`)
+          .update({ suspended: true });
+      });
+
+      await assertFails(memberCtx.firestore().doc(`orgs/${ORG_ID}`).get());
+    });
+
+    it("blocks deleting members directly", async () => {
+      await assertFails(
+        adminCtx.firestore().doc(`orgs/${ORG_ID}/members/bob`).delete(),
+      );
+    });
+  });
+
+  describe("draft and published shifts", () => {
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        const shift = {
+          id: "shift-1",
+          orgId: ORG_ID,
+          title: "Bar",
+          start: new Date().toISOString(),
+          end: new Date().toISOString(),
+        };
+        await db.doc(`orgs/${ORG_ID}/shifts/shift-1`).set(shift);
+        await db
+          .doc(`orgs/${ORG_ID}/publishedShifts/shift-1`)
+          .set({ ...shift, periodId: "2025-06-02" });
+      });
+    });
+
+    it("allows admins to read draft shifts", async () => {
+      await assertSucceeds(
+        adminCtx.firestore().doc(`orgs/${ORG_ID}/shifts/shift-1`).get(),
+      );
+    });
+
+    it("hides draft shifts from regular members", async () => {
+      await assertFails(
+        memberCtx.firestore().doc(`orgs/${ORG_ID}/shifts/shift-1`).get(),
+      );
+    });
+
+    it("allows members to read published shifts", async () => {
+      await assertSucceeds(
+        memberCtx
+          .firestore()
+          .doc(`orgs/${ORG_ID}/publishedShifts/shift-1`)
+          .get(),
+      );
+    });
+
+    it("blocks client writes to published shifts", async () => {
+      await assertFails(
+        adminCtx
+          .firestore()
+          .doc(`orgs/${ORG_ID}/publishedShifts/shift-2`)
+          .set({ id: "shift-2", orgId: ORG_ID }),
+      );
+    });
+  });
+
+  describe("custom roles and venue scopes", () => {
+    let leadCtx: RulesTestContext;
+
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        await db.doc(`orgs/${ORG_ID}/roles/venue-lead`).set({
+          id: "venue-lead",
+          name: "Venue lead",
+          permissions: ["schedule.edit"],
+        });
+        await db.doc(`orgs/${ORG_ID}/members/carol`).set({
+          uid: "carol",
+          orgId: ORG_ID,
+          role: "venue-lead",
+          venueIds: ["venue-1"],
+          addedBy: "alice",
+          createdAt: new Date().toISOString(),
+        });
+        await db.doc(`orgs/${ORG_ID}/shifts/shift-1`).set({
+          id: "shift-1",
+          orgId: ORG_ID,
+          venueId: "venue-1",
+        });
+        await db.doc(`orgs/${ORG_ID}/shifts/shift-2`).set({
+          id: "shift-2",
+          orgId: ORG_ID,
+          venueId: "venue-2",
+        });
+      });
+
+      leadCtx = testEnv.authenticatedContext("carol", {
+        orgId: ORG_ID,
+        orgIds: [ORG_ID],
+        orgRole: "venue-lead",
+        orgRoles: { [ORG_ID]: "venue-lead" },
+        admin: false,
+      });
+    });
+
+    it("grants the permissions a custom role lists", async () => {
+      await assertSucceeds(
+        leadCtx.firestore().doc(`orgs/${ORG_ID}/shifts/shift-2`).get(),
+      );
+      await assertFails(
+        leadCtx.firestore().doc(`orgs/${ORG_ID}/shiftRequests/any`).get(),
+      );
+    });
+
+    it("limits venue-scoped members to their venues", async () => {
+      await assertSucceeds(
+        leadCtx
+          .firestore()
+          .doc(`orgs/${ORG_ID}/shifts/shift-1`)
+          .update({ title: "Bar" }),
+      );
+      await assertFails(
+        leadCtx
+          .firestore()
+          .doc(`orgs/${ORG_ID}/shifts/shift-2`)
+          .update({ title: "Bar" }),
+      );
+    });
+
+    it("blocks client writes to roles", async () => {
+      await assertSucceeds(
+        memberCtx.firestore().doc(`orgs/${ORG_ID}/roles/venue-lead`).get(),
+      );
+      await assertFails(
+        adminCtx
+          .firestore()
+          .doc(`orgs/${ORG_ID}/roles/venue-lead`)
+          .update({ permissions: ["org.manage"] }),
+      );
+    });
+  });
+
+  describe("venues and stands", () => {
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context
+          .firestore()
+          .doc(`orgs/${ORG_ID}/venues/venue-1`)
+          .set({ id: "venue-1", orgId: ORG_ID, name: "Arena" });
+      });
+    });
+
+    it("allows members to read venues", async () => {
+      await assertSucceeds(
+        memberCtx.firestore().doc(`orgs/${ORG_ID}/venues/venue-1`).get(),
+      );
+      await assertFails(
+        outsiderCtx.firestore().doc(`orgs/${ORG_ID}/venues/venue-1`).get(),
+      );
+    });
+
+    it("blocks client writes to venues and stands", async () => {
+      await assertFails(
+        adminCtx
+          .firestore()
+          .doc(`orgs/${ORG_ID}/venues/venue-1`)
+          .update({ name: "Stadium" }),
+      );
+      await assertFails(
+        adminCtx
+          .firestore()
+          .doc(`orgs/${ORG_ID}/venues/venue-1/stands/stand-1`)
+          .set({ id: "stand-1", venueId: "venue-1", name: "Booth 12" }),
+      );
+    });
+  });
+
+  describe("audit log", () => {
+    beforeEach(async () => {
+      await testEnv.withSecurityRulesDisabled(async (context) => {
+        await context
+          .firestore()
+          .doc(`orgs/${ORG_ID}/audit/entry-1`)
+          .set({ id: "entry-1", orgId: ORG_ID, action: "member.remove" });
+      });
+    });
+
+    it("allows only auditors to read entries", async () => {
+      await assertSucceeds(
+        adminCtx.firestore().doc(`orgs/${ORG_ID}/audit/entry-1`).get(),
+      );
+      await assertFails(
+        memberCtx.firestore().doc(`orgs/${ORG_ID}/audit/entry-1`).get(),
+      );
+    });
+
+    it("blocks client writes to entries", async () => {
+      await assertFails(
+        adminCtx
+          .firestore()
+          .doc(`orgs/${ORG_ID}/audit/entry-1`)
+          .update({ action: "member.update" }),
+      );
+      await assertFails(
+        adminCtx.firestore().doc(`orgs/${ORG_ID}/audit/entry-1`).delete(),
+      );
+    });
   });
 
   describe("unauthenticated users", () => {
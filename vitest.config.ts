@@ -11,7 +11,10 @@ export default defineConfig({
     globals: true,
     environment: "jsdom",
     setupFiles: ["./src/test/setup.ts"],
-    include: ["src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}"],
+    include: [
+      "src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}",
+      "functions/src/**/*.test.ts",
+    ],
     exclude: ["node_modules", "dist", ".next", "src/**/firestore*.test.ts"],
     testTimeout: 30000,
     hookTimeout: 30000,